@@ -8,7 +8,7 @@ import { FontProvider } from '@/contexts/FontContext';
 import { ThemeProvider, useTheme } from '@/contexts/ThemeContext';
 import AppNavigator from '@/navigation/AppNavigator';
 import { store, persistor } from '@/store';
-import { SyncService } from '@/services/syncService';
+import { syncEngine } from '@/services/syncEngine';
 import { mark } from '@/_shared/perf';
 
 // Initialize Sentry if DSN is provided and package is available
@@ -52,12 +52,8 @@ export default function App(): React.JSX.Element {
     // Mark app start for TTFS timing
     mark('app:start');
 
-    // Initialize sync service after store is ready
-    const initializeServices = async () => {
-      await SyncService.initialize();
-    };
-
-    initializeServices();
+    // Start the sync engine after store is ready
+    syncEngine.start();
   }, []);
 
   // Don't render the app until fonts are loaded
@@ -1,3 +1,6 @@
+// Run tests in a time zone with daylight saving, so local-date code is exercised across clock changes
+process.env.TZ = 'America/New_York';
+
 module.exports = {
   preset: 'jest-expo',
   setupFilesAfterEnv: [
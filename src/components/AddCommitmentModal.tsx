@@ -15,6 +15,11 @@ import { useFontStyle } from '@/hooks/useFontStyle';
 import { useSemanticColors, useThemeMode } from '@/contexts/ThemeContext';
 import { getThemeColors, createSemanticColors } from '@/constants/grayscaleTokens';
 import { getModalStyles, getModalColors, MODAL_SIZES } from './styles/modalStyles';
+import { type CommitmentSchedule } from '@/utils/schedule';
+import { isValidCriteria, type CriteriaOperator, type SuccessCriteria } from '@/utils/successCriteria';
+import { type DurationUnit } from '@/utils/duration';
+import { type EntryAggregate } from '@/utils/recordEntries';
+import { getTodayISO } from '@/utils/timeUtils';
 
 interface AddCommitmentModalProps {
   visible: boolean;
@@ -52,6 +57,59 @@ const COMMITMENT_TYPES = [
     commitmentType: 'measurement' as const,
     requirements: null
   },
+  {
+    label: 'Duration',
+    value: 'duration' as const,
+    description: 'Time spent, with a built-in timer',
+    commitmentType: 'measurement' as const,
+    requirements: null
+  },
+];
+
+type CommitmentTypeOption = typeof COMMITMENT_TYPES[number]['value'];
+
+// Duration commitments are measurements in a time unit - goals are set in it
+const DURATION_UNITS: { label: string; value: DurationUnit }[] = [
+  { label: 'Seconds', value: 'second' },
+  { label: 'Minutes', value: 'minute' },
+  { label: 'Hours', value: 'hour' },
+];
+
+// Counters can log several entries a day - the day's value combines them
+const ENTRY_MODES: { label: string; value: EntryAggregate | 'none' }[] = [
+  { label: 'One value', value: 'none' },
+  { label: 'Add up', value: 'sum' },
+  { label: 'Highest', value: 'max' },
+  { label: 'Latest', value: 'last' },
+];
+
+type Frequency = CommitmentSchedule['type'];
+
+const FREQUENCIES: { label: string; value: Frequency }[] = [
+  { label: 'Every day', value: 'daily' },
+  { label: 'Specific days', value: 'weekdays' },
+  { label: 'Times a week', value: 'timesPerWeek' },
+  { label: 'Times a month', value: 'timesPerMonth' },
+  { label: 'Every few days', value: 'everyNDays' },
+];
+
+const GOAL_OPERATORS: { label: string; value: CriteriaOperator | 'none' }[] = [
+  { label: 'None', value: 'none' },
+  { label: 'At least', value: 'greater_than' },
+  { label: 'At most', value: 'less_than' },
+  { label: 'Exactly', value: 'equal_to' },
+  { label: 'Between', value: 'between' },
+];
+
+// Monday-first, matching how schedule weeks are counted
+const WEEKDAYS = [
+  { label: 'M', value: 1 },
+  { label: 'T', value: 2 },
+  { label: 'W', value: 3 },
+  { label: 'T', value: 4 },
+  { label: 'F', value: 5 },
+  { label: 'S', value: 6 },
+  { label: 'S', value: 0 },
 ];
 
 export default function AddCommitmentModal({ visible, onClose, onAdd }: AddCommitmentModalProps) {
@@ -64,18 +122,39 @@ export default function AddCommitmentModal({ visible, onClose, onAdd }: AddCommi
   const styles = createStyles(themeMode);
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
-  const [selectedType, setSelectedType] = useState<'yesno' | 'multiple' | 'rating' | 'measure'>('yesno');
+  const [selectedType, setSelectedType] = useState<CommitmentTypeOption>('yesno');
   const [target, setTarget] = useState('');
   const [unit, setUnit] = useState('');
   const [isPrivate, setIsPrivate] = useState(false);
+  const [durationUnit, setDurationUnit] = useState<DurationUnit>('minute');
+  const [entryMode, setEntryMode] = useState<EntryAggregate | 'none'>('none');
   
   // For Multiple Requirements
   const [requirements, setRequirements] = useState<string[]>(['']);
+  const [requiredConditions, setRequiredConditions] = useState(''); // Empty means all of them
   
   // For Rating
   const [ratingMin, setRatingMin] = useState('1');
   const [ratingMax, setRatingMax] = useState('5');
 
+  // Schedule
+  const [frequency, setFrequency] = useState<Frequency>('daily');
+  const [weekdays, setWeekdays] = useState<number[]>([1, 3, 5]);
+  const [timesPerPeriod, setTimesPerPeriod] = useState('3');
+  const [dayInterval, setDayInterval] = useState('2');
+
+  // Goal for measured values
+  const [goalOperator, setGoalOperator] = useState<CriteriaOperator | 'none'>('none');
+  const [goalValue, setGoalValue] = useState('');
+  const [goalValueMax, setGoalValueMax] = useState('');
+
+  const filledRequirementCount = requirements.filter(req => req.trim()).length;
+  const hasGoal = selectedType === 'rating' || selectedType === 'measure' || selectedType === 'duration';
+  const hasEntries = selectedType === 'measure' || selectedType === 'duration';
+  const goalUnitLabel = selectedType === 'duration'
+    ? DURATION_UNITS.find(option => option.value === durationUnit)?.label.toLowerCase()
+    : selectedType === 'measure' ? unit.trim() : '';
+
   const resetForm = () => {
     setTitle('');
     setDescription('');
@@ -83,9 +162,64 @@ export default function AddCommitmentModal({ visible, onClose, onAdd }: AddCommi
     setTarget('');
     setUnit('');
     setIsPrivate(false);
+    setDurationUnit('minute');
+    setEntryMode('none');
     setRequirements(['']);
+    setRequiredConditions('');
     setRatingMin('1');
     setRatingMax('5');
+    setFrequency('daily');
+    setWeekdays([1, 3, 5]);
+    setTimesPerPeriod('3');
+    setDayInterval('2');
+    setGoalOperator('none');
+    setGoalValue('');
+    setGoalValueMax('');
+  };
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays(current => current.includes(day) ? current.filter(d => d !== day) : [...current, day]);
+  };
+
+  // null when the inputs don't describe a valid schedule
+  const buildSchedule = (): CommitmentSchedule | null => {
+    switch (frequency) {
+      case 'weekdays':
+        return weekdays.length > 0 ? { type: 'weekdays', days: [...weekdays].sort() } : null;
+      case 'timesPerWeek':
+      case 'timesPerMonth': {
+        const times = parseInt(timesPerPeriod);
+        const maxTimes = frequency === 'timesPerWeek' ? 7 : 31;
+        return times >= 1 && times <= maxTimes ? { type: frequency, times } : null;
+      }
+      case 'everyNDays': {
+        const interval = parseInt(dayInterval);
+        return interval >= 1 ? { type: 'everyNDays', interval, startDate: getTodayISO() } : null;
+      }
+      default:
+        return { type: 'daily' };
+    }
+  };
+
+  // undefined when there's no goal, null when the inputs don't describe a valid one
+  const buildSuccessCriteria = (): SuccessCriteria | null | undefined => {
+    if (goalOperator === 'none' || !hasGoal) return undefined;
+
+    const criteria: SuccessCriteria = {
+      operator: goalOperator,
+      value: parseFloat(goalValue),
+      valueMax: goalOperator === 'between' ? parseFloat(goalValueMax) : null,
+      numericType: selectedType === 'rating' ? 'integer' : selectedType === 'duration' ? 'duration' : 'decimal',
+    };
+    return isValidCriteria(criteria) ? criteria : null;
+  };
+
+  // How many requirements complete a day - null when the input isn't a count between 1 and all of them
+  const buildRequiredConditions = (): number | null => {
+    if (!requiredConditions.trim()) return filledRequirementCount;
+
+    const required = Number(requiredConditions);
+    return Number.isInteger(required) && required >= 1 && required <= filledRequirementCount ? required : null;
   };
 
   const addRequirement = () => {
@@ -116,11 +250,14 @@ export default function AddCommitmentModal({ visible, onClose, onAdd }: AddCommi
 
     // Validation
     if (selectedType === 'multiple') {
-      const validRequirements = requirements.filter(req => req.trim());
-      if (validRequirements.length === 0) {
+      if (filledRequirementCount === 0) {
         Alert.alert('Error', 'Please add at least one requirement.');
         return;
       }
+      if (buildRequiredConditions() === null) {
+        Alert.alert('Error', `Please enter how many of the ${filledRequirementCount} requirements complete a day.`);
+        return;
+      }
     }
 
     if (selectedType === 'measure' && !unit.trim()) {
@@ -137,6 +274,22 @@ export default function AddCommitmentModal({ visible, onClose, onAdd }: AddCommi
       }
     }
 
+    const schedule = buildSchedule();
+    if (!schedule) {
+      Alert.alert('Error', frequency === 'weekdays'
+        ? 'Please pick at least one day.'
+        : 'Please enter a valid number for how often.');
+      return;
+    }
+
+    const successCriteria = buildSuccessCriteria();
+    if (successCriteria === null) {
+      Alert.alert('Error', goalOperator === 'between'
+        ? 'Please enter a goal range from the lower to the higher value.'
+        : 'Please enter a number for the goal.');
+      return;
+    }
+
     const selectedTypeConfig = COMMITMENT_TYPES.find(t => t.value === selectedType);
     if (!selectedTypeConfig) return;
 
@@ -146,9 +299,14 @@ export default function AddCommitmentModal({ visible, onClose, onAdd }: AddCommi
       color: semanticColors.primaryText, // Theme-aware color
       commitmentType: selectedTypeConfig.commitmentType,
       target: selectedType === 'measure' && target ? parseInt(target) : undefined,
-      unit: selectedType === 'measure' ? unit.trim() : undefined,
+      unit: selectedType === 'measure' ? unit.trim() : selectedType === 'duration' ? durationUnit : undefined,
       requirements: selectedType === 'multiple' ? requirements.filter(req => req.trim()) : undefined,
+      requiredConditions: selectedType === 'multiple' ? buildRequiredConditions() : null,
       ratingRange: selectedType === 'rating' ? { min: parseInt(ratingMin), max: parseInt(ratingMax) } : undefined,
+      // Daily is the default - no need to store it
+      schedule: schedule.type === 'daily' ? null : schedule,
+      successCriteria: successCriteria ?? null,
+      entryAggregate: hasEntries && entryMode !== 'none' ? entryMode : null,
       // Legacy fields for backward compatibility
       type: selectedType === 'yesno' ? 'binary' as const :
             selectedType === 'multiple' ? 'binary' as const :
@@ -275,6 +433,20 @@ export default function AddCommitmentModal({ visible, onClose, onAdd }: AddCommi
                     <Text style={[styles.addRequirementText, fontStyle]}>+ Add Requirement</Text>
                   </TouchableOpacity>
                 )}
+                <View style={styles.frequencyInputRow}>
+                  <Text style={[styles.switchDescription, fontStyle]}>Complete when</Text>
+                  <TextInput
+                    style={[styles.input, styles.frequencyInput, fontStyle]}
+                    placeholder={String(Math.max(filledRequirementCount, 1))}
+                    placeholderTextColor={modalColors.placeholderText}
+                    value={requiredConditions}
+                    onChangeText={setRequiredConditions}
+                    keyboardType="numeric"
+                  />
+                  <Text style={[styles.switchDescription, fontStyle]}>
+                    of {filledRequirementCount} are done
+                  </Text>
+                </View>
               </View>
             )}
 
@@ -307,19 +479,10 @@ export default function AddCommitmentModal({ visible, onClose, onAdd }: AddCommi
                     />
                   </View>
                 </View>
-                <View style={styles.comingSoonContainer}>
-                  <Text style={[styles.comingSoonText, fontStyle]}>Target (coming soon)</Text>
-                  <TextInput
-                    style={[styles.input, styles.disabledInput, fontStyle]}
-                    placeholder="Target value"
-                    placeholderTextColor={modalColors.placeholderText}
-                    editable={false}
-                  />
-                </View>
               </View>
             )}
 
-            {/* Measure Unit and Target */}
+            {/* Measure Unit */}
             {selectedType === 'measure' && (
               <View style={styles.section}>
                 <Text style={[styles.label, fontStyle]}>Unit</Text>
@@ -330,18 +493,195 @@ export default function AddCommitmentModal({ visible, onClose, onAdd }: AddCommi
                   value={unit}
                   onChangeText={setUnit}
                 />
-                <View style={styles.comingSoonContainer}>
-                  <Text style={[styles.comingSoonText, fontStyle]}>Target (coming soon)</Text>
-                  <TextInput
-                    style={[styles.input, styles.disabledInput, fontStyle]}
-                    placeholder="Target value"
-                    placeholderTextColor={modalColors.placeholderText}
-                    editable={false}
-                  />
+              </View>
+            )}
+
+            {/* Duration Unit */}
+            {selectedType === 'duration' && (
+              <View style={styles.section}>
+                <Text style={[styles.label, fontStyle]}>Measured In</Text>
+                <View style={styles.frequencyContainer}>
+                  {DURATION_UNITS.map((option) => (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[styles.frequencyOption, durationUnit === option.value && styles.selectedType]}
+                      onPress={() => setDurationUnit(option.value)}
+                    >
+                      <Text
+                        style={[
+                          styles.frequencyLabel,
+                          fontStyle,
+                          durationUnit === option.value && styles.selectedTypeLabel,
+                        ]}
+                      >
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <Text style={[styles.switchDescription, styles.durationDescription, fontStyle]}>
+                  Enter time as h:mm:ss or use the timer on each day
+                </Text>
+              </View>
+            )}
+
+            {/* Entries per day */}
+            {hasEntries && (
+              <View style={styles.section}>
+                <Text style={[styles.label, fontStyle]}>Entries per Day</Text>
+                <Text style={[styles.switchDescription, styles.goalDescription, fontStyle]}>
+                  Log each glass, set or session as it happens - the day's value combines them
+                </Text>
+                <View style={styles.frequencyContainer}>
+                  {ENTRY_MODES.map((option) => (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[styles.frequencyOption, entryMode === option.value && styles.selectedType]}
+                      onPress={() => setEntryMode(option.value)}
+                    >
+                      <Text
+                        style={[
+                          styles.frequencyLabel,
+                          fontStyle,
+                          entryMode === option.value && styles.selectedTypeLabel,
+                        ]}
+                      >
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {/* Goal */}
+            {hasGoal && (
+              <View style={styles.section}>
+                <Text style={[styles.label, fontStyle]}>Goal</Text>
+                <Text style={[styles.switchDescription, styles.goalDescription, fontStyle]}>
+                  Days are marked complete or failed from the value you enter
+                </Text>
+                <View style={styles.frequencyContainer}>
+                  {GOAL_OPERATORS.map((option) => (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[styles.frequencyOption, goalOperator === option.value && styles.selectedType]}
+                      onPress={() => setGoalOperator(option.value)}
+                    >
+                      <Text
+                        style={[
+                          styles.frequencyLabel,
+                          fontStyle,
+                          goalOperator === option.value && styles.selectedTypeLabel,
+                        ]}
+                      >
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
                 </View>
+
+                {goalOperator !== 'none' && (
+                  <View style={styles.frequencyInputRow}>
+                    <TextInput
+                      style={[styles.input, styles.frequencyInput, fontStyle]}
+                      placeholder="0"
+                      placeholderTextColor={modalColors.placeholderText}
+                      value={goalValue}
+                      onChangeText={setGoalValue}
+                      keyboardType="numeric"
+                    />
+                    {goalOperator === 'between' && (
+                      <>
+                        <Text style={[styles.switchDescription, fontStyle]}>to</Text>
+                        <TextInput
+                          style={[styles.input, styles.frequencyInput, fontStyle]}
+                          placeholder="0"
+                          placeholderTextColor={modalColors.placeholderText}
+                          value={goalValueMax}
+                          onChangeText={setGoalValueMax}
+                          keyboardType="numeric"
+                        />
+                      </>
+                    )}
+                    {Boolean(goalUnitLabel) && (
+                      <Text style={[styles.switchDescription, fontStyle]}>{goalUnitLabel}</Text>
+                    )}
+                  </View>
+                )}
               </View>
             )}
 
+            {/* Frequency */}
+            <View style={styles.section}>
+              <Text style={[styles.label, fontStyle]}>How Often</Text>
+              <View style={styles.frequencyContainer}>
+                {FREQUENCIES.map((option) => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.frequencyOption, frequency === option.value && styles.selectedType]}
+                    onPress={() => setFrequency(option.value)}
+                  >
+                    <Text
+                      style={[
+                        styles.frequencyLabel,
+                        fontStyle,
+                        frequency === option.value && styles.selectedTypeLabel,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {frequency === 'weekdays' && (
+                <View style={styles.weekdayRow}>
+                  {WEEKDAYS.map((day) => {
+                    const selected = weekdays.includes(day.value);
+                    return (
+                      <TouchableOpacity
+                        key={day.value}
+                        style={[styles.weekdayOption, selected && styles.selectedWeekday]}
+                        onPress={() => toggleWeekday(day.value)}
+                      >
+                        <Text style={[styles.weekdayLabel, fontStyle, selected && styles.selectedWeekdayLabel]}>
+                          {day.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              )}
+
+              {(frequency === 'timesPerWeek' || frequency === 'timesPerMonth') && (
+                <View style={styles.frequencyInputRow}>
+                  <TextInput
+                    style={[styles.input, styles.frequencyInput, fontStyle]}
+                    value={timesPerPeriod}
+                    onChangeText={setTimesPerPeriod}
+                    keyboardType="numeric"
+                  />
+                  <Text style={[styles.switchDescription, fontStyle]}>
+                    {frequency === 'timesPerWeek' ? 'times a week, on any days' : 'times a month, on any days'}
+                  </Text>
+                </View>
+              )}
+
+              {frequency === 'everyNDays' && (
+                <View style={styles.frequencyInputRow}>
+                  <Text style={[styles.switchDescription, fontStyle]}>Every</Text>
+                  <TextInput
+                    style={[styles.input, styles.frequencyInput, fontStyle]}
+                    value={dayInterval}
+                    onChangeText={setDayInterval}
+                    keyboardType="numeric"
+                  />
+                  <Text style={[styles.switchDescription, fontStyle]}>days, starting today</Text>
+                </View>
+              )}
+            </View>
+
             {/* Color selection removed - using uniform blue style */}
 
             {/* Privacy Toggle */}
@@ -569,18 +909,64 @@ const createStyles = (themeMode: 'light' | 'dark') => {
       color: semanticColors.secondaryText,
       marginTop: 20,
     },
-    comingSoonContainer: {
-      marginTop: 16,
+    goalDescription: {
+      marginBottom: 12,
+    },
+    durationDescription: {
+      marginTop: 12,
+    },
+    // Schedule
+    frequencyContainer: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    frequencyOption: {
+      borderWidth: 1,
+      borderColor: modalColors.borderLight,
+      borderRadius: MODAL_SIZES.inputBorderRadius,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      backgroundColor: themeMode === 'light' ? modalColors.sectionBackground : colors.gray100,
     },
-    comingSoonText: {
+    frequencyLabel: {
       fontSize: 14,
-      color: modalColors.placeholderText,
-      marginBottom: 8,
-      fontStyle: 'italic',
+      color: themeMode === 'light' ? colors.gray700 : colors.gray300,
+    },
+    weekdayRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginTop: 12,
     },
-    disabledInput: {
-      backgroundColor: modalColors.sectionBackground,
-      color: modalColors.placeholderText,
+    weekdayOption: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      borderWidth: 1,
+      borderColor: modalColors.borderLight,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    selectedWeekday: {
+      backgroundColor: semanticColors.primaryText,
+      borderColor: semanticColors.primaryText,
+    },
+    weekdayLabel: {
+      fontSize: 14,
+      color: semanticColors.secondaryText,
+    },
+    selectedWeekdayLabel: {
+      color: semanticColors.cardBackground,
+    },
+    frequencyInputRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginTop: 12,
+    },
+    frequencyInput: {
+      width: 64,
+      textAlign: 'center',
     },
   });
 };
\ No newline at end of file
@@ -20,7 +20,24 @@ import CustomCheckmarkIcon from './CustomCheckmarkIcon';
 import CustomCircleDashIcon from './CustomCircleDashIcon';
 import CustomXIcon from './CustomXIcon';
 import { parseLocalISODate } from '@/utils/timeUtils';
+import { formatDuration, fromSeconds, getDurationUnit, parseDuration, toSeconds } from '@/utils/duration';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { clearTimer, getTimerElapsedMs, pauseTimer, resumeTimer, startTimer } from '@/store/slices/timersSlice';
 import { getDisplayUnit } from '@/utils/unitUtils';
+import {
+  addEntry,
+  aggregateEntries,
+  ENTRY_AGGREGATE_LABELS,
+  removeEntry,
+  type RecordEntry,
+} from '@/utils/recordEntries';
+import {
+  deriveConditionsStatus,
+  deriveRecordStatus,
+  describeCriteria,
+  getRequiredConditions,
+  isValidCriteria,
+} from '@/utils/successCriteria';
 import { useThemeMode } from '@/contexts/ThemeContext';
 import { designTokens } from '@/constants/designTokens';
 import { getThemeColors } from '@/constants/grayscaleTokens';
@@ -34,8 +51,9 @@ interface CommitmentCellModalProps {
   existingRecord?: {
     status: RecordStatus;
     value?: any;
+    entries?: RecordEntry[];
   } | null;
-  onSave: (commitmentId: string, date: string, status: RecordStatus, value?: any) => void;
+  onSave: (commitmentId: string, date: string, status: RecordStatus, value?: any, entries?: RecordEntry[]) => void;
 }
 
 const formatDate = (dateString: string): string => {
@@ -70,6 +88,28 @@ export default function CommitmentCellModal({
   const [measureValue, setMeasureValue] = useState('');
   const [requirementsChecked, setRequirementsChecked] = useState<boolean[]>([]);
 
+  // Duration commitments - measurements in a time unit, entered as h:mm:ss or timed
+  const dispatch = useAppDispatch();
+  const durationUnit = commitment?.commitmentType === 'measurement' && !commitment.ratingRange
+    ? getDurationUnit(commitment.unit)
+    : null;
+  const timer = useAppSelector(state => (commitment ? state.timers.timers[commitment.id] : undefined));
+  const [now, setNow] = useState(Date.now());
+
+  // Counter habits - several timestamped entries a day, combined into the value
+  const entryAggregate = commitment?.commitmentType === 'measurement' && !commitment.ratingRange
+    ? commitment.entryAggregate ?? null
+    : null;
+  const [entries, setEntries] = useState<RecordEntry[]>([]);
+
+  // Timers run on timestamps - the tick only refreshes the display
+  useEffect(() => {
+    if (!visible || !timer?.startedAt) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [visible, timer?.startedAt]);
+
   // Initialize state when modal opens
   useEffect(() => {
     if (visible && commitment) {
@@ -91,8 +131,19 @@ export default function CommitmentCellModal({
           }
         } else {
           // Measure type
-          if (existingRecord?.value && typeof existingRecord.value === 'number') {
-            setMeasureValue(existingRecord.value.toString());
+          if (entryAggregate) {
+            // A value saved before entries were turned on becomes the first entry
+            const existingEntries = existingRecord?.entries?.length
+              ? existingRecord.entries
+              : typeof existingRecord?.value === 'number'
+                ? addEntry([], existingRecord.value, `${date}T12:00:00Z`)
+                : [];
+            setEntries(existingEntries);
+            setMeasureValue('');
+          } else if (existingRecord?.value && typeof existingRecord.value === 'number') {
+            setMeasureValue(durationUnit
+              ? formatDuration(toSeconds(existingRecord.value, durationUnit))
+              : existingRecord.value.toString());
           } else {
             setMeasureValue('');
           }
@@ -111,18 +162,114 @@ export default function CommitmentCellModal({
         setRequirementsChecked(initialChecked);
       }
     }
-  }, [visible, commitment, existingRecord]);
+  }, [visible, commitment, existingRecord, durationUnit, entryAggregate, date]);
+
+  // Entered measurement in the commitment's unit - undefined when empty, null when invalid
+  const parseMeasureInput = (text: string): number | null | undefined => {
+    if (text.trim() === '') return undefined;
+    if (durationUnit) {
+      const seconds = parseDuration(text, durationUnit);
+      return seconds === null ? null : fromSeconds(seconds, durationUnit);
+    }
+    const measure = parseFloat(text);
+    return isNaN(measure) ? null : measure;
+  };
+
+  // With a goal, the entered value picks completed/failed as you type
+  const handleValueChange = (text: string, setText: (text: string) => void, parse = parseMeasureInput) => {
+    setText(text);
+    const parsed = parse(text);
+    setSelectedStatus(current => deriveRecordStatus(commitment?.successCriteria, current, parsed ?? undefined));
+  };
+
+  const parseRatingInput = (text: string) => (text.trim() === '' ? undefined : parseFloat(text));
+
+  const updateEntries = (nextEntries: RecordEntry[]) => {
+    setEntries(nextEntries);
+    if (!entryAggregate) return;
+    const total = aggregateEntries(nextEntries, entryAggregate);
+    setSelectedStatus(current => deriveRecordStatus(commitment?.successCriteria, current, total));
+  };
+
+  // An empty input logs one - a tap per glass, set or page
+  const handleAddEntry = () => {
+    const entered = parseMeasureInput(measureValue);
+    if (entered === null) {
+      Alert.alert('Error', durationUnit
+        ? 'Please enter a duration as h:mm:ss.'
+        : 'Please enter a valid measurement value.');
+      return;
+    }
+    updateEntries(addEntry(entries, entered ?? 1));
+    setMeasureValue('');
+  };
+
+  const formatMeasure = (value: number) => {
+    if (durationUnit) return formatDuration(toSeconds(value, durationUnit));
+    return `${value} ${getDisplayUnit(commitment?.unit || 'unit', value)}`;
+  };
+
+  const formatEntryTime = (at: string) =>
+    new Date(at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+  const handleTimerStart = () => {
+    if (!commitment) return;
+    dispatch(startTimer({ commitmentId: commitment.id, date, at: new Date().toISOString() }));
+  };
+
+  const handleTimerPauseResume = () => {
+    if (!commitment || !timer) return;
+    const at = new Date().toISOString();
+    dispatch(timer.startedAt
+      ? pauseTimer({ commitmentId: commitment.id, at })
+      : resumeTimer({ commitmentId: commitment.id, at }));
+  };
+
+  // Adds the session to the day's total and saves it
+  const handleTimerStop = () => {
+    if (!commitment || !timer || !durationUnit) return;
+
+    const sessionSeconds = getTimerElapsedMs(timer) / 1000;
+    dispatch(clearTimer(commitment.id));
+    console.log('⏱️ [Modal] Timer session finished:', Math.round(sessionSeconds), 'seconds');
+
+    // A finished session counts as doing it, unless a goal says otherwise
+    const picked = selectedStatus === 'none' ? 'completed' : selectedStatus;
+
+    // With entries, the session is logged as one
+    if (entryAggregate) {
+      const nextEntries = addEntry(entries, fromSeconds(sessionSeconds, durationUnit));
+      saveValue(aggregateEntries(nextEntries, entryAggregate), picked, nextEntries);
+      return;
+    }
+
+    const entered = parseMeasureInput(measureValue);
+    const previous = typeof entered === 'number'
+      ? entered
+      : typeof existingRecord?.value === 'number' ? existingRecord.value : 0;
+
+    saveValue(previous + fromSeconds(sessionSeconds, durationUnit), picked);
+  };
 
   const handleRequirementToggle = (index: number) => {
     const newChecked = [...requirementsChecked];
     newChecked[index] = !newChecked[index];
     setRequirementsChecked(newChecked);
+
+    // With an N-of-M rule, checking enough requirements completes the day
+    if (commitment?.requirements) {
+      const checkedRequirements = commitment.requirements.filter((_, i) => newChecked[i]);
+      setSelectedStatus(current =>
+        deriveConditionsStatus(commitment.requirements, commitment.requiredConditions, current, checkedRequirements)
+      );
+    }
   };
 
   const handleSave = () => {
     if (!commitment) return;
 
     let value: any = undefined;
+    let entriesToSave: RecordEntry[] | undefined;
 
     // Prepare value based on commitment type
     if (commitment.commitmentType === 'measurement') {
@@ -145,20 +292,28 @@ export default function CommitmentCellModal({
           value = rating;
         }
         console.log('💾 [Modal] Rating value prepared:', value);
+      } else if (entryAggregate) {
+        // Entries - an amount still in the input is logged too
+        const pending = parseMeasureInput(measureValue);
+        if (pending === null) {
+          Alert.alert('Error', durationUnit
+            ? 'Please enter a duration as h:mm:ss.'
+            : 'Please enter a valid measurement value.');
+          return;
+        }
+        entriesToSave = pending === undefined ? entries : addEntry(entries, pending);
+        value = aggregateEntries(entriesToSave, entryAggregate);
+        console.log('💾 [Modal] Entries prepared:', entriesToSave.length, 'entries,', entryAggregate, value);
       } else {
-        // Measure type
-        const measureInput = measureValue.trim();
-        if (measureInput === '') {
-          // Allow empty values - will show "-" in display
-          value = undefined;
-        } else {
-          const measure = parseFloat(measureInput);
-          if (isNaN(measure)) {
-            Alert.alert('Error', 'Please enter a valid measurement value.');
-            return;
-          }
-          value = measure;
+        // Measure type - empty values are allowed and show "-" in display
+        const measure = parseMeasureInput(measureValue);
+        if (measure === null) {
+          Alert.alert('Error', durationUnit
+            ? 'Please enter a duration as h:mm:ss.'
+            : 'Please enter a valid measurement value.');
+          return;
         }
+        value = measure;
         console.log('💾 [Modal] Measure value prepared:', value, 'from input:', measureValue);
       }
     } else if (commitment.commitmentType === 'checkbox' && commitment.requirements) {
@@ -167,13 +322,23 @@ export default function CommitmentCellModal({
       value = checkedRequirements;
     }
 
+    saveValue(value, selectedStatus, entriesToSave);
+  };
+
+  const saveValue = (value: any, pickedStatus: RecordStatus, entriesToSave?: RecordEntry[]) => {
+    if (!commitment) return;
+
+    // A goal or N-of-M rule decides the status from the value
+    const status = Array.isArray(value)
+      ? deriveConditionsStatus(commitment.requirements, commitment.requiredConditions, pickedStatus, value)
+      : deriveRecordStatus(commitment.successCriteria, pickedStatus, value);
 
     // Handle clearing the record if status is 'none' AND no value was entered
-    if (selectedStatus === 'none' && value === undefined) {
-      onSave(commitment.id, date, 'none' as RecordStatus, undefined);
+    if (status === 'none' && value === undefined) {
+      onSave(commitment.id, date, 'none' as RecordStatus, undefined, entriesToSave);
     } else {
       // Save the value regardless of status - preserves user input even for 'none' status
-      onSave(commitment.id, date, selectedStatus as RecordStatus, value);
+      onSave(commitment.id, date, status, value, entriesToSave);
     }
     onClose();
   };
@@ -181,6 +346,8 @@ export default function CommitmentCellModal({
 
   if (!commitment) return null;
 
+  const requiredConditionCount = getRequiredConditions(commitment.requirements, commitment.requiredConditions);
+
   return (
     <Modal
       visible={visible}
@@ -218,6 +385,7 @@ export default function CommitmentCellModal({
                       commitment.commitmentType === 'measurement' && !commitment.ratingRange && existingRecord?.value !== undefined && existingRecord?.value !== null ?
                         (() => {
                           const value = existingRecord.value;
+                          if (durationUnit) return formatDuration(toSeconds(value, durationUnit));
                           const unit = commitment.unit || 'unit';
                           const valueStr = value.toString();
                           const formattedValue = value < 1 && value > 0 && !valueStr.startsWith('0.') ? `0.${valueStr.substring(valueStr.indexOf('.') + 1)}` : valueStr;
@@ -292,6 +460,11 @@ export default function CommitmentCellModal({
               {commitment.commitmentType === 'checkbox' && commitment.requirements && (
                 <View style={styles.section}>
                   <Text style={[styles.sectionTitle, { color: modalColors.primaryText }, fontStyle]}>Requirements</Text>
+                  {requiredConditionCount !== null && (
+                    <Text style={[styles.ratingRangeText, { color: modalColors.secondaryText }, fontStyle]}>
+                      Complete when {requiredConditionCount} of {commitment.requirements.length} are done
+                    </Text>
+                  )}
                   {commitment.requirements.map((requirement, index) => (
                     <TouchableOpacity
                       key={index}
@@ -330,6 +503,11 @@ export default function CommitmentCellModal({
                   <Text style={[styles.ratingRangeText, { color: modalColors.secondaryText }, fontStyle]}>
                     Enter a value between {commitment.ratingRange.min} and {commitment.ratingRange.max}
                   </Text>
+                  {isValidCriteria(commitment.successCriteria) && (
+                    <Text style={[styles.ratingRangeText, { color: modalColors.secondaryText }, fontStyle]}>
+                      Goal: {describeCriteria(commitment.successCriteria)}
+                    </Text>
+                  )}
                   <TextInput
                     style={[styles.input, {
                       borderColor: themeColors.gray300,
@@ -339,7 +517,7 @@ export default function CommitmentCellModal({
                     placeholder={`${commitment.ratingRange.min}-${commitment.ratingRange.max}`}
                     placeholderTextColor={themeColors.gray500}
                     value={ratingValue}
-                    onChangeText={setRatingValue}
+                    onChangeText={(text) => handleValueChange(text, setRatingValue, parseRatingInput)}
                     keyboardType="numeric"
                   />
                 </View>
@@ -351,18 +529,107 @@ export default function CommitmentCellModal({
                   <Text style={[styles.sectionTitle, { color: modalColors.primaryText }, fontStyle]}>
                     Value (in {getDisplayUnit(commitment.unit || 'unit', 2)})
                   </Text>
-                  <TextInput
-                    style={[styles.input, {
-                      borderColor: themeColors.gray300,
-                      backgroundColor: modalColors.contentBackground,
-                      color: modalColors.primaryText
-                    }, fontStyle]}
-                    placeholder="Enter value"
-                    placeholderTextColor={themeColors.gray500}
-                    value={measureValue}
-                    onChangeText={setMeasureValue}
-                    keyboardType="numeric"
-                  />
+                  {isValidCriteria(commitment.successCriteria) && (
+                    <Text style={[styles.ratingRangeText, { color: modalColors.secondaryText }, fontStyle]}>
+                      Goal: {describeCriteria(commitment.successCriteria, getDisplayUnit(commitment.unit || 'unit', 2))}
+                    </Text>
+                  )}
+                  {entryAggregate ? (
+                    <>
+                      {entries.map(entry => (
+                        <View key={entry.id} style={styles.entryRow}>
+                          <Text style={[styles.entryTime, { color: modalColors.secondaryText }, fontStyle]}>
+                            {formatEntryTime(entry.at)}
+                          </Text>
+                          <Text style={[styles.entryValue, { color: modalColors.primaryText }, fontStyle]}>
+                            {formatMeasure(entry.value)}
+                          </Text>
+                          <TouchableOpacity onPress={() => updateEntries(removeEntry(entries, entry.id))} style={styles.entryDelete}>
+                            <Text style={[styles.entryDeleteText, { color: modalColors.secondaryText }, fontStyle]}>✕</Text>
+                          </TouchableOpacity>
+                        </View>
+                      ))}
+                      {entries.length > 0 && (
+                        <Text style={[styles.ratingRangeText, styles.entryTotal, { color: modalColors.secondaryText }, fontStyle]}>
+                          {ENTRY_AGGREGATE_LABELS[entryAggregate]}: {formatMeasure(aggregateEntries(entries, entryAggregate) ?? 0)}
+                        </Text>
+                      )}
+                      <View style={styles.entryInputRow}>
+                        <TextInput
+                          style={[styles.input, styles.entryInput, {
+                            borderColor: themeColors.gray300,
+                            backgroundColor: modalColors.contentBackground,
+                            color: modalColors.primaryText
+                          }, fontStyle]}
+                          placeholder={durationUnit ? 'h:mm:ss' : '1'}
+                          placeholderTextColor={themeColors.gray500}
+                          value={measureValue}
+                          onChangeText={setMeasureValue}
+                          onSubmitEditing={handleAddEntry}
+                          keyboardType={durationUnit ? 'numbers-and-punctuation' : 'numeric'}
+                        />
+                        <TouchableOpacity style={[MODAL_STYLES.secondaryButton, styles.addEntryButton, {
+                          borderColor: themeColors.gray300,
+                          backgroundColor: modalColors.contentBackground
+                        }]} onPress={handleAddEntry}>
+                          <Text style={[MODAL_STYLES.secondaryButtonText, { color: modalColors.secondaryText }, fontStyle]}>+ Add</Text>
+                        </TouchableOpacity>
+                      </View>
+                    </>
+                  ) : (
+                    <TextInput
+                      style={[styles.input, {
+                        borderColor: themeColors.gray300,
+                        backgroundColor: modalColors.contentBackground,
+                        color: modalColors.primaryText
+                      }, fontStyle]}
+                      placeholder={durationUnit ? 'h:mm:ss' : 'Enter value'}
+                      placeholderTextColor={themeColors.gray500}
+                      value={measureValue}
+                      onChangeText={(text) => handleValueChange(text, setMeasureValue)}
+                      keyboardType={durationUnit ? 'numbers-and-punctuation' : 'numeric'}
+                    />
+                  )}
+
+                  {/* Timer - sessions add to the day's total */}
+                  {durationUnit && timer && timer.date !== date && (
+                    <Text style={[styles.ratingRangeText, styles.timerNotice, { color: modalColors.secondaryText }, fontStyle]}>
+                      A timer is running for {formatDate(timer.date)} - open that day to stop it
+                    </Text>
+                  )}
+                  {durationUnit && (!timer || timer.date === date) && (
+                    <View style={styles.timerContainer}>
+                      {timer && (
+                        <Text style={[styles.timerText, { color: modalColors.primaryText }, fontStyle]}>
+                          {formatDuration(getTimerElapsedMs(timer, now) / 1000)}
+                        </Text>
+                      )}
+                      <View style={MODAL_STYLES.buttonContainer}>
+                        {timer ? (
+                          <>
+                            <TouchableOpacity style={[MODAL_STYLES.secondaryButton, {
+                              borderColor: themeColors.gray300,
+                              backgroundColor: modalColors.contentBackground
+                            }]} onPress={handleTimerPauseResume}>
+                              <Text style={[MODAL_STYLES.secondaryButtonText, { color: modalColors.secondaryText }, fontStyle]}>
+                                {timer.startedAt ? 'Pause' : 'Resume'}
+                              </Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity style={[MODAL_STYLES.primaryButton, { backgroundColor: modalColors.primaryButton }]} onPress={handleTimerStop}>
+                              <Text style={[MODAL_STYLES.primaryButtonText, { color: modalColors.primaryButtonText }, fontStyle]}>Stop & Save</Text>
+                            </TouchableOpacity>
+                          </>
+                        ) : (
+                          <TouchableOpacity style={[MODAL_STYLES.secondaryButton, {
+                            borderColor: themeColors.gray300,
+                            backgroundColor: modalColors.contentBackground
+                          }]} onPress={handleTimerStart}>
+                            <Text style={[MODAL_STYLES.secondaryButtonText, { color: modalColors.secondaryText }, fontStyle]}>Start Timer</Text>
+                          </TouchableOpacity>
+                        )}
+                      </View>
+                    </View>
+                  )}
                 </View>
               )}
 
@@ -391,6 +658,53 @@ const styles = StyleSheet.create({
   keyboardAvoidingView: {
     flex: 1,
   },
+  timerContainer: {
+    marginTop: 12,
+  },
+  timerText: {
+    fontSize: 32,
+    fontWeight: '600',
+    textAlign: 'center',
+    fontVariant: ['tabular-nums'],
+  },
+  timerNotice: {
+    marginTop: 12,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  entryTime: {
+    fontSize: 14,
+    width: 80,
+  },
+  entryValue: {
+    fontSize: 16,
+    flex: 1,
+  },
+  entryDelete: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  entryDeleteText: {
+    fontSize: 14,
+  },
+  entryTotal: {
+    marginTop: 4,
+  },
+  entryInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  entryInput: {
+    flex: 1,
+  },
+  addEntryButton: {
+    flex: 0,
+    paddingHorizontal: 16,
+  },
   overlay: {
     flex: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.5)',
@@ -14,12 +14,18 @@ import {
 import { Commitment, selectCommitmentById } from '@/store/slices/commitmentsSlice';
 import { useAppSelector } from '@/store/hooks';
 import { RecordStatus } from '@/store/slices/recordsSlice';
+import type { RecordEntry } from '@/utils/recordEntries';
+import { getVersionForDate, type CommitmentVersionSettings } from '@/utils/commitmentVersions';
+import { describeCriteria, isValidCriteria, type SuccessCriteria } from '@/utils/successCriteria';
+import { formatDateForDisplay, getTodayISO } from '@/utils/timeUtils';
 import Icon from './icons/Icon';
 import GridMonthHeader from './grids/GridMonthHeader';
 import GridDateHeader from './grids/GridDateHeader';
 import SingleCommitmentRow from './grids/SingleCommitmentRow';
 import ReactionPopup from './ReactionPopup';
 import CommitmentCellModal from './CommitmentCellModal';
+import PlanSkipsModal from './PlanSkipsModal';
+import CustomSkipIcon from './CustomSkipIcon';
 import { useGridDates } from '@/hooks/useGridDates';
 import { useGridVisibleRange, type ViewMode } from '@/hooks/useGridVisibleRange';
 import { useSemanticColors, useThemeMode } from '@/contexts/ThemeContext';
@@ -31,6 +37,8 @@ interface DayRecord {
   commitmentId: string;
   status: RecordStatus;
   value?: any;
+  entries?: RecordEntry[];
+  isFuturePrefill?: boolean;
 }
 
 interface CommitmentDetailsModalProps {
@@ -38,6 +46,9 @@ interface CommitmentDetailsModalProps {
   onClose: () => void;
   commitmentId: string | null;
   onUpdateCommitment: (id: string, updates: Partial<Commitment>) => void;
+  onCreateVersion?: (id: string, settings: Partial<CommitmentVersionSettings>, effectiveFrom: string, changeNote: string | null) => void;
+  onPlanSkips?: (id: string, startDate: string, endDate: string) => void;
+  onClearPlannedSkips?: (id: string, startDate: string, endDate: string) => void;
   onToggleShowValues?: (commitmentId: string, showValues: boolean) => void;
   notes: Array<{ date: string; notes: string | null }>; // Notes from commitment_records
   onArchive: (id: string) => void;
@@ -47,7 +58,7 @@ interface CommitmentDetailsModalProps {
   // Grid-related props
   records: DayRecord[];
   onCellPress: (commitmentId: string, date: string) => void;
-  onSetRecordStatus: (commitmentId: string, date: string, status: RecordStatus, value?: any) => void;
+  onSetRecordStatus: (commitmentId: string, date: string, status: RecordStatus, value?: any, entries?: RecordEntry[]) => void;
   earliestDate?: string;
 }
 
@@ -56,6 +67,9 @@ const CommitmentDetailsModal: React.FC<CommitmentDetailsModalProps> = ({
   onClose,
   commitmentId,
   onUpdateCommitment,
+  onCreateVersion,
+  onPlanSkips,
+  onClearPlannedSkips,
   onToggleShowValues,
   notes,
   onArchive,
@@ -80,6 +94,13 @@ const CommitmentDetailsModal: React.FC<CommitmentDetailsModalProps> = ({
   const [isEditing, setIsEditing] = useState(false);
   const [editedTitle, setEditedTitle] = useState('');
   const [editedDescription, setEditedDescription] = useState('');
+  // "Going forward" settings - saved as a new version so earlier days keep their own
+  const [editedTarget, setEditedTarget] = useState('');
+  const [editedUnit, setEditedUnit] = useState('');
+  const [editedGoal, setEditedGoal] = useState('');
+  const [editedGoalMax, setEditedGoalMax] = useState('');
+  const [editedEffectiveFrom, setEditedEffectiveFrom] = useState('');
+  const [editedChangeNote, setEditedChangeNote] = useState('');
 
   // Grid state
   const [viewMode] = useState<ViewMode>('daily'); // Fixed to daily for modal
@@ -93,6 +114,8 @@ const CommitmentDetailsModal: React.FC<CommitmentDetailsModalProps> = ({
   const [selectedCell, setSelectedCell] = useState<{ commitmentId: string; date: string } | null>(null);
   const popupOpenRef = useRef(false);
 
+  const [planSkipsVisible, setPlanSkipsVisible] = useState(false);
+
   // Cell modal state for grid
   const [cellModalVisible, setCellModalVisible] = useState(false);
   const [selectedCommitmentForCell, setSelectedCommitmentForCell] = useState<Commitment | null>(null);
@@ -118,37 +141,90 @@ const CommitmentDetailsModal: React.FC<CommitmentDetailsModalProps> = ({
   const isRecentlyDeleted = commitment && commitment.deletedAt &&
     new Date(commitment.deletedAt).getTime() >= Date.now() - 7 * 24 * 60 * 60 * 1000;
 
+  // First day the current version is in force
+  const currentFrom = commitment ? commitment.effectiveFrom || commitment.createdAt.split('T')[0] : '';
+
+  const resetEdits = useCallback(() => {
+    if (!commitment) return;
+    setEditedTitle(commitment.title);
+    setEditedDescription(commitment.description || '');
+    setEditedTarget(commitment.target !== undefined && commitment.target !== null ? String(commitment.target) : '');
+    setEditedUnit(commitment.unit || '');
+    setEditedGoal(commitment.successCriteria ? String(commitment.successCriteria.value) : '');
+    setEditedGoalMax(commitment.successCriteria?.valueMax != null ? String(commitment.successCriteria.valueMax) : '');
+    setEditedEffectiveFrom(getTodayISO());
+    setEditedChangeNote('');
+  }, [commitment]);
+
   useEffect(() => {
-    if (commitment) {
-      setEditedTitle(commitment.title);
-      setEditedDescription(commitment.description || '');
-    }
+    resetEdits();
     setIsEditing(false);
-  }, [commitment, visible]);
+  }, [resetEdits, visible]);
 
   const handleEdit = useCallback(() => {
     setIsEditing(true);
   }, []);
 
   const handleCancel = useCallback(() => {
-    if (commitment) {
-      setEditedTitle(commitment.title);
-      setEditedDescription(commitment.description || '');
-    }
+    resetEdits();
     setIsEditing(false);
-  }, [commitment]);
+  }, [resetEdits]);
+
+  // Target, unit and goal changes as version settings - null when nothing changed
+  const getVersionChanges = useCallback((): Partial<CommitmentVersionSettings> | null => {
+    if (!commitment || commitment.commitmentType !== 'measurement') return null;
+
+    const changes: Partial<CommitmentVersionSettings> = {};
+    const target = editedTarget.trim() === '' ? undefined : Number(editedTarget);
+    if (target !== commitment.target && !(target !== undefined && isNaN(target))) {
+      changes.target = target;
+    }
+    if (editedUnit.trim() !== (commitment.unit || '')) {
+      changes.unit = editedUnit.trim() || undefined;
+    }
+    if (commitment.successCriteria) {
+      const criteria: SuccessCriteria = {
+        ...commitment.successCriteria,
+        value: Number(editedGoal),
+        valueMax: commitment.successCriteria.operator === 'between' ? Number(editedGoalMax) : null,
+      };
+      const changed = criteria.value !== commitment.successCriteria.value ||
+        (criteria.valueMax ?? null) !== (commitment.successCriteria.valueMax ?? null);
+      if (changed && isValidCriteria(criteria)) {
+        changes.successCriteria = criteria;
+      }
+    }
+    return Object.keys(changes).length > 0 ? changes : null;
+  }, [commitment, editedTarget, editedUnit, editedGoal, editedGoalMax]);
 
   const handleSave = useCallback(() => {
     if (!commitment || !editedTitle.trim()) return;
 
+    const versionChanges = getVersionChanges();
+    if (versionChanges && !/^\d{4}-\d{2}-\d{2}$/.test(editedEffectiveFrom)) {
+      Alert.alert('Invalid Date', 'Enter the date the change starts as YYYY-MM-DD.');
+      return;
+    }
+    if (versionChanges && editedEffectiveFrom < currentFrom) {
+      Alert.alert(
+        'Invalid Date',
+        `The current settings started on ${formatDateForDisplay(currentFrom, 'full')} - a change can't start before that.`
+      );
+      return;
+    }
+
     const updates: Partial<Commitment> = {
       title: editedTitle.trim(),
       description: editedDescription.trim() || undefined,
     };
 
     onUpdateCommitment(commitment.id, updates);
+    if (versionChanges && onCreateVersion) {
+      onCreateVersion(commitment.id, versionChanges, editedEffectiveFrom, editedChangeNote.trim() || null);
+    }
     setIsEditing(false);
-  }, [commitment, editedTitle, editedDescription, onUpdateCommitment]);
+  }, [commitment, editedTitle, editedDescription, editedEffectiveFrom, editedChangeNote, currentFrom,
+    getVersionChanges, onUpdateCommitment, onCreateVersion]);
 
   // Archive/Delete handlers
   const handleArchive = useCallback(() => {
@@ -257,7 +333,7 @@ const CommitmentDetailsModal: React.FC<CommitmentDetailsModalProps> = ({
     }
   }, [selectedCell, commitment]);
 
-  const handleCellModalSave = useCallback((commitmentId: string, date: string, status: RecordStatus, value?: any) => {
+  const handleCellModalSave = useCallback((commitmentId: string, date: string, status: RecordStatus, value?: any, entries?: RecordEntry[]) => {
     // Track user-triggered change for animation
     if (status === 'completed') {
       const changeKey = `${commitmentId}_${date}`;
@@ -269,7 +345,7 @@ const CommitmentDetailsModal: React.FC<CommitmentDetailsModalProps> = ({
       }, 1000);
     }
 
-    onSetRecordStatus(commitmentId, date, status, value);
+    onSetRecordStatus(commitmentId, date, status, value, entries);
     setCellModalVisible(false);
   }, [onSetRecordStatus]);
 
@@ -289,6 +365,23 @@ const CommitmentDetailsModal: React.FC<CommitmentDetailsModalProps> = ({
     setCellModalVisible(false);
   }, []);
 
+  // Planned skips
+  const handleOpenPlanSkips = useCallback(() => {
+    setPlanSkipsVisible(true);
+  }, []);
+
+  const handleClosePlanSkips = useCallback(() => {
+    setPlanSkipsVisible(false);
+  }, []);
+
+  const handlePlanSkips = useCallback((startDate: string, endDate: string) => {
+    if (commitment && onPlanSkips) onPlanSkips(commitment.id, startDate, endDate);
+  }, [commitment, onPlanSkips]);
+
+  const handleClearPlannedSkips = useCallback((startDate: string, endDate: string) => {
+    if (commitment && onClearPlannedSkips) onClearPlannedSkips(commitment.id, startDate, endDate);
+  }, [commitment, onClearPlannedSkips]);
+
   const getTargetDisplay = () => {
     if (!commitment || commitment.commitmentType !== 'measurement') return '';
 
@@ -365,6 +458,84 @@ const CommitmentDetailsModal: React.FC<CommitmentDetailsModalProps> = ({
                   textAlignVertical="top"
                   maxLength={500}
                 />
+
+                {/* Going forward - target, unit and goal changes start a new version */}
+                {commitment.commitmentType === 'measurement' && onCreateVersion && (
+                  <View style={styles.goingForwardSection}>
+                    <Text style={styles.metaLabel}>GOING FORWARD</Text>
+                    <Text style={styles.fieldHint}>
+                      Days before the change keep the settings they were recorded under.
+                    </Text>
+
+                    <View style={styles.fieldRow}>
+                      <View style={styles.fieldColumn}>
+                        <Text style={styles.fieldLabel}>Target</Text>
+                        <TextInput
+                          style={styles.fieldInput}
+                          value={editedTarget}
+                          onChangeText={setEditedTarget}
+                          placeholder="e.g. 8"
+                          keyboardType="numeric"
+                        />
+                      </View>
+                      <View style={styles.fieldColumn}>
+                        <Text style={styles.fieldLabel}>Unit</Text>
+                        <TextInput
+                          style={styles.fieldInput}
+                          value={editedUnit}
+                          onChangeText={setEditedUnit}
+                          placeholder="e.g. glasses"
+                          maxLength={20}
+                        />
+                      </View>
+                    </View>
+
+                    {commitment.successCriteria && (
+                      <View style={styles.fieldRow}>
+                        <View style={styles.fieldColumn}>
+                          <Text style={styles.fieldLabel}>
+                            {commitment.successCriteria.operator === 'between' ? 'Goal from' : 'Goal'}
+                          </Text>
+                          <TextInput
+                            style={styles.fieldInput}
+                            value={editedGoal}
+                            onChangeText={setEditedGoal}
+                            keyboardType="numeric"
+                          />
+                        </View>
+                        {commitment.successCriteria.operator === 'between' && (
+                          <View style={styles.fieldColumn}>
+                            <Text style={styles.fieldLabel}>Goal to</Text>
+                            <TextInput
+                              style={styles.fieldInput}
+                              value={editedGoalMax}
+                              onChangeText={setEditedGoalMax}
+                              keyboardType="numeric"
+                            />
+                          </View>
+                        )}
+                      </View>
+                    )}
+
+                    <Text style={styles.fieldLabel}>Starting</Text>
+                    <TextInput
+                      style={styles.fieldInput}
+                      value={editedEffectiveFrom}
+                      onChangeText={setEditedEffectiveFrom}
+                      placeholder="YYYY-MM-DD"
+                      maxLength={10}
+                    />
+
+                    <Text style={styles.fieldLabel}>Why it changed</Text>
+                    <TextInput
+                      style={styles.fieldInput}
+                      value={editedChangeNote}
+                      onChangeText={setEditedChangeNote}
+                      placeholder="Add a note (optional)"
+                      maxLength={200}
+                    />
+                  </View>
+                )}
               </>
             ) : (
               <>
@@ -428,6 +599,35 @@ const CommitmentDetailsModal: React.FC<CommitmentDetailsModalProps> = ({
             <View style={styles.metaSection}>
               <Text style={styles.metaLabel}>TARGET</Text>
               <Text style={styles.metaValue}>{getTargetDisplay()}</Text>
+              {commitment.versions && commitment.versions.length > 0 && (
+                <Text style={styles.versionNote}>
+                  Since {formatDateForDisplay(currentFrom, 'full')}
+                  {commitment.changeNote ? ` · ${commitment.changeNote}` : ''}
+                </Text>
+              )}
+            </View>
+          )}
+
+          {/* Earlier versions - what past days were judged against */}
+          {commitment.versions && commitment.versions.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionLabel}>History</Text>
+              <View style={styles.viewContainer}>
+                {[...commitment.versions]
+                  .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))
+                  .map(version => (
+                    <View key={version.id} style={styles.noteItem}>
+                      <Text style={styles.noteDate}>
+                        From {formatDateForDisplay(version.effectiveFrom, 'full')}
+                      </Text>
+                      <Text style={styles.noteText}>
+                        {version.target ?? '–'} {version.unit || ''}
+                        {isValidCriteria(version.successCriteria) ? ` · Goal ${describeCriteria(version.successCriteria, version.unit)}` : ''}
+                      </Text>
+                      {version.changeNote ? <Text style={styles.versionNote}>{version.changeNote}</Text> : null}
+                    </View>
+                  ))}
+              </View>
             </View>
           )}
 
@@ -511,6 +711,15 @@ const CommitmentDetailsModal: React.FC<CommitmentDetailsModalProps> = ({
                 </View>
               )}
 
+              {!isEditing && isActive && onPlanSkips && (
+                <View style={styles.horizontalActions}>
+                  <TouchableOpacity style={styles.horizontalActionButton} onPress={handleOpenPlanSkips}>
+                    <CustomSkipIcon size={16} color={modalColors.actionButtonIcon} />
+                    <Text style={[styles.horizontalActionText, styles.planSkipsText]}>Plan Skips</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+
               {isArchived && (
                 <View style={styles.horizontalActions}>
                   <TouchableOpacity style={styles.horizontalActionButton} onPress={handleRestore}>
@@ -550,11 +759,20 @@ const CommitmentDetailsModal: React.FC<CommitmentDetailsModalProps> = ({
         position={popupPosition}
       />
 
+      {/* Planned skips for this commitment */}
+      <PlanSkipsModal
+        visible={planSkipsVisible}
+        onClose={handleClosePlanSkips}
+        commitmentTitle={commitment.title}
+        onPlan={handlePlanSkips}
+        onClearPlanned={handleClearPlannedSkips}
+      />
+
       {/* Grid Cell Modal for Non-Binary Commitments */}
       <CommitmentCellModal
         visible={cellModalVisible}
         onClose={handleCellModalClose}
-        commitment={selectedCommitmentForCell}
+        commitment={selectedCommitmentForCell && getVersionForDate(selectedCommitmentForCell, selectedDate)}
         date={selectedDate}
         existingRecord={selectedCommitmentForCell ? records.find(r =>
           r.commitmentId === selectedCommitmentForCell.id && r.date === selectedDate
@@ -697,6 +915,45 @@ const createStyles = (themeMode: 'light' | 'dark') => {
       minHeight: 100,
     },
 
+    // Going forward (versioned settings)
+    goingForwardSection: {
+      marginTop: 24,
+    },
+    fieldHint: {
+      fontSize: 14,
+      color: semanticColors.secondaryText,
+      marginBottom: 12,
+    },
+    fieldRow: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    fieldColumn: {
+      flex: 1,
+    },
+    fieldLabel: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: semanticColors.primaryText,
+      marginBottom: 6,
+    },
+    fieldInput: {
+      fontSize: 16,
+      backgroundColor: modalColors.contentCard,
+      borderColor: modalColors.borderLight,
+      color: modalColors.primaryText,
+      borderRadius: 12,
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      borderWidth: 2,
+      marginBottom: 12,
+    },
+    versionNote: {
+      fontSize: 14,
+      color: semanticColors.secondaryText,
+      marginTop: 4,
+    },
+
   // Grid Section
   gridSection: {
     marginBottom: 32,
@@ -822,6 +1079,9 @@ const createStyles = (themeMode: 'light' | 'dark') => {
   restoreText: {
     color: '#059669',
   },
+  planSkipsText: {
+    marginLeft: 8, // CustomSkipIcon takes no style, so the gap sits on the label
+  },
   // Toggle styles
   toggleContainer: {
     flexDirection: 'row',
@@ -30,11 +30,18 @@ import {
   formatDateRangeLabel
 } from '@/utils/timeUtils';
 import { getCellVisualTreatment, getCellColors, determineCellState } from './grids/gridPalette';
+import { isScheduledDay, normalizeSchedule, type CommitmentSchedule } from '@/utils/schedule';
 import CellShimmerOverlay from './grids/CellShimmerOverlay';
 import { useReduceMotion } from '@/hooks/useReduceMotion';
 import { GRID_DEBUG } from '@/_shared/debug';
 import { getPressPoint } from './grids/getPressPoint';
 import { getCellDisplayText } from '@/utils/valueFormatUtils';
+import { formatConditionsProgress } from '@/utils/successCriteria';
+import { getDurationUnit } from '@/utils/duration';
+import type { EntryAggregate, RecordEntry } from '@/utils/recordEntries';
+import { getVersionForDate } from '@/utils/commitmentVersions';
+import { isPlannedSkip } from '@/utils/plannedSkips';
+import type { CommitmentVersion } from '@/store/slices/commitmentsSlice';
 import { designTokens } from '@/constants/designTokens';
 import { filterItemsForEmergencyRollback } from '@/utils/emergencyRollback';
 
@@ -103,9 +110,14 @@ interface Commitment {
   type: 'binary' | 'counter' | 'timer';
   commitmentType: 'checkbox' | 'measurement';
   requirements?: string[];
+  requiredConditions?: number | null;
+  entryAggregate?: EntryAggregate | null;
   ratingRange?: { min: number; max: number };
   unit?: string;
   streak: number;
+  schedule?: CommitmentSchedule | null;
+  effectiveFrom?: string | null;
+  versions?: CommitmentVersion[];
 }
 
 interface DayRecord {
@@ -113,6 +125,8 @@ interface DayRecord {
   commitmentId: string;
   status: RecordStatus;
   value?: any;
+  entries?: RecordEntry[];
+  isFuturePrefill?: boolean;
 }
 
 interface LayoutItem {
@@ -127,7 +141,7 @@ interface CommitmentGridProps {
   layoutItems?: LayoutItem[];
   records: DayRecord[];
   onCellPress: (commitmentId: string, date: string) => void;
-  onSetRecordStatus: (commitmentId: string, date: string, status: RecordStatus, value?: any) => void;
+  onSetRecordStatus: (commitmentId: string, date: string, status: RecordStatus, value?: any, entries?: RecordEntry[]) => void;
   onCommitmentTitlePress?: (commitmentId: string) => void; // New prop for commitment title clicks
   // Optional hint for the earliest date to display (e.g., account creation date)
   earliestDate?: string; // format YYYY-MM-DD
@@ -228,7 +242,7 @@ export default function CommitmentGrid({
   const userTriggeredChangesRef = useRef<Set<string>>(new Set());
 
   // Optimistic UI state - stores pending changes that haven't been confirmed by the database
-  const [optimisticChanges, setOptimisticChanges] = useState<Map<string, { status: RecordStatus; value?: any }>>(new Map());
+  const [optimisticChanges, setOptimisticChanges] = useState<Map<string, { status: RecordStatus; value?: any; entries?: RecordEntry[] }>>(new Map());
   const [isPending, startTransition] = useTransition();
   const [popupVisible, setPopupVisible] = useState(false);
   const [popupPosition, setPopupPosition] = useState({ x: 0, y: 0 });
@@ -386,7 +400,13 @@ export default function CommitmentGrid({
     }
   };
 
-  const handleOptimisticStatusUpdate = (commitmentId: string, date: string, newStatus: RecordStatus, value?: any) => {
+  const handleOptimisticStatusUpdate = (
+    commitmentId: string,
+    date: string,
+    newStatus: RecordStatus,
+    value?: any,
+    entries?: RecordEntry[]
+  ) => {
     const cellKey = `${commitmentId}_${date}`;
 
     // Mark as user-triggered for sparkle animation
@@ -398,7 +418,7 @@ export default function CommitmentGrid({
     // 1. IMMEDIATE optimistic UI update (high priority - urgent)
     setOptimisticChanges(prev => {
       const newMap = new Map(prev);
-      newMap.set(cellKey, { status: newStatus, value });
+      newMap.set(cellKey, { status: newStatus, value, entries });
       return newMap;
     });
 
@@ -410,7 +430,7 @@ export default function CommitmentGrid({
 
     // 2. Wrap expensive database operation as low priority (non-urgent)
     startTransition(() => {
-      Promise.resolve(onSetRecordStatus(commitmentId, date, newStatus, value))
+      Promise.resolve(onSetRecordStatus(commitmentId, date, newStatus, value, entries))
         .then(() => {
           // Success - remove from optimistic state since it's now confirmed
           setOptimisticChanges(prev => {
@@ -449,8 +469,8 @@ export default function CommitmentGrid({
     }
   };
 
-  const handleCellModalSave = (commitmentId: string, date: string, status: RecordStatus, value?: any) => {
-    handleOptimisticStatusUpdate(commitmentId, date, status, value);
+  const handleCellModalSave = (commitmentId: string, date: string, status: RecordStatus, value?: any, entries?: RecordEntry[]) => {
+    handleOptimisticStatusUpdate(commitmentId, date, status, value, entries);
   };
 
   const handleCellPress = (commitmentId: string, date: string, event: any) => {
@@ -724,6 +744,7 @@ export default function CommitmentGrid({
               {orderedItems.map((item, rowIndex) => {
                 if (item.type === 'commitment') {
                   const c = item.data as Commitment;
+                  const schedule = normalizeSchedule(c.schedule);
                   return (
                     <View key={c.id} style={{ flexDirection: 'row', marginBottom: getRowSpacing(viewMode) }}>
                       {dates.map((date) => {
@@ -741,7 +762,9 @@ export default function CommitmentGrid({
                         const isTodayDate = date === todayISO;
 
                         // Determine cell state and visual treatment using centralized palette
-                        const cellState = determineCellState(status, isWeekendDay, isTodayDate);
+                        // A pending optimistic change is always a real write, which replaces a planned skip
+                        const isPlanned = !optimisticChange && isPlannedSkip(record);
+                        const cellState = determineCellState(status, isWeekendDay, isTodayDate, isScheduledDay(schedule, date), isPlanned);
                         const visualTreatment = getCellVisualTreatment(cellState, themeMode);
                         const cellColors = getCellColors(cellState, themeMode);
 
@@ -754,6 +777,7 @@ export default function CommitmentGrid({
                           backgroundColor: visualTreatment.backgroundColor,
                           borderWidth: visualTreatment.borderWidth,
                           borderColor: visualTreatment.borderColor,
+                          borderStyle: visualTreatment.borderStyle,
                           // Elevate animating cells so sparkles appear above neighboring cells
                           ...(isAnimating && {
                             zIndex: 1000,
@@ -766,7 +790,10 @@ export default function CommitmentGrid({
                         const shouldShowValues = c.showValues && c.commitmentType === 'measurement';
                         // Use optimistic value if available, otherwise use database value
                         const value = optimisticChange?.value ?? record?.value;
-                        const displayText = getCellDisplayText(status, value, shouldShowValues);
+                        // Read the day with the settings in force on it
+                        const dayCommitment = getVersionForDate(c, date);
+                        const displayText = getCellDisplayText(status, value, shouldShowValues, getDurationUnit(dayCommitment.unit));
+                        const conditionsProgress = formatConditionsProgress(dayCommitment.requirements, dayCommitment.requiredConditions, status, value);
 
                         let cellContent = null;
                         if (shouldShowValues) {
@@ -790,6 +817,18 @@ export default function CommitmentGrid({
                             cellContent = <CustomCheckmarkIcon size={12.32} color={cellColors.content} strokeWidth={2.2} />;
                           } else if (status === 'failed') {
                             cellContent = <CustomXIcon size={10} color={cellColors.content} strokeWidth={2.5} />;
+                          } else if (conditionsProgress) {
+                            // Open multi-requirement day - show how far along it is
+                            cellContent = (
+                              <Text style={{
+                                color: cellColors.content,
+                                fontSize: viewMode === 'daily' ? 10 : 7,
+                                fontWeight: '600',
+                                textAlign: 'center',
+                              }}>
+                                {conditionsProgress}
+                              </Text>
+                            );
                           }
                           // skipped cells have no content (empty colored square)
                         }
@@ -888,7 +927,7 @@ export default function CommitmentGrid({
       <CommitmentCellModal
         visible={cellModalVisible}
         onClose={() => setCellModalVisible(false)}
-        commitment={selectedCommitment}
+        commitment={selectedCommitment && getVersionForDate(selectedCommitment, selectedDate)}
         date={selectedDate}
         existingRecord={selectedCommitment ? (() => {
           const baseRecord = records.find(r =>
@@ -902,7 +941,8 @@ export default function CommitmentGrid({
             return {
               ...baseRecord,
               status: optimisticChange.status,
-              value: optimisticChange.value ?? baseRecord.value
+              value: optimisticChange.value ?? baseRecord.value,
+              entries: optimisticChange.entries ?? baseRecord.entries
             };
           } else if (optimisticChange) {
             // Create new record from optimistic change
@@ -912,6 +952,7 @@ export default function CommitmentGrid({
               date: selectedDate,
               status: optimisticChange.status,
               value: optimisticChange.value,
+              entries: optimisticChange.entries,
               createdAt: '',
               updatedAt: ''
             };
@@ -18,6 +18,7 @@ import { batchReorderCommitments } from '@/store/slices/commitmentsSlice';
 import { selectActiveLayoutItemsOrdered, addLayoutItem, batchReorderLayoutItems } from '@/store/slices/layoutItemsSlice';
 import { addToQueue } from '@/store/slices/syncSlice';
 import { rankBetween } from '@/utils/rank';
+import { isTempId } from '@/utils/tempId';
 import { useAuth } from '@/contexts/AuthContext';
 import type { Commitment } from '@/store/slices/commitmentsSlice';
 import type { LayoutItem as LayoutItemData } from '@/store/slices/layoutItemsSlice';
@@ -61,7 +62,7 @@ export default function CommitmentOrderingModalR2({
 }: CommitmentOrderingModalR2Props): React.JSX.Element {
   const fontStyle = useFontStyle();
   const dispatch = useAppDispatch();
-  const { user } = useAuth();
+  const { ownerId } = useAuth();
   const themeMode = useThemeMode();
   const sharedStyles = createReorderModalStyles(themeMode);
 
@@ -183,7 +184,7 @@ export default function CommitmentOrderingModalR2({
 
   // Generic add layout item handler (for future expansion to dividers)
   const handleAddLayoutItem = useCallback(async (type: 'spacer' | 'divider') => {
-    if (!user?.id) return;
+    if (!ownerId) return;
 
     // Count active commitments to check if layout items are allowed
     const activeCommitments = localItems.filter(item => item.type === 'commitment');
@@ -225,7 +226,7 @@ export default function CommitmentOrderingModalR2({
           'spacer',
           insertIndex,
           localItems,
-          user.id,
+          ownerId,
           { height: designTokens.layoutItems.spacer.height.regular }
         );
       } else {
@@ -234,7 +235,7 @@ export default function CommitmentOrderingModalR2({
           'divider',
           insertIndex,
           localItems,
-          user.id,
+          ownerId,
           { style: 'solid' }
         );
       }
@@ -258,7 +259,7 @@ export default function CommitmentOrderingModalR2({
         [{ text: 'OK' }]
       );
     }
-  }, [localItems, user?.id]);
+  }, [localItems, ownerId]);
 
   // Add Spacer functionality (wrapper around generic handler)
   const handleAddSpacer = useCallback(() => {
@@ -529,7 +530,7 @@ export default function CommitmentOrderingModalR2({
 
 
   const handleSave = useCallback(async () => {
-    console.log('🔍 [SAVE-DEBUG] handleSave called:', { hasChanges, isSaving, userId: user?.id });
+    console.log('🔍 [SAVE-DEBUG] handleSave called:', { hasChanges, isSaving, userId: ownerId });
 
     if (!hasChanges || isSaving) {
       console.log('🔍 [SAVE-DEBUG] Early return - no changes or already saving');
@@ -537,7 +538,7 @@ export default function CommitmentOrderingModalR2({
       return;
     }
 
-    if (!user?.id) {
+    if (!ownerId) {
       console.error('❌ Cannot reorder: No authenticated user');
       return;
     }
@@ -649,13 +650,11 @@ export default function CommitmentOrderingModalR2({
         // Add commitment updates to sync queue
         commitmentUpdates.forEach(({ id, newRank }) => {
           dispatch(addToQueue({
-            type: 'UPDATE',
+            op: 'move',
             entity: 'commitment',
             entityId: id,
             data: {
-              id,
               order_rank: newRank,
-              idempotencyKey: `move:${id}:${newRank}`
             }
           }));
         });
@@ -678,8 +677,7 @@ export default function CommitmentOrderingModalR2({
             console.log('🔍 [SYNC-QUEUE-DEBUG] Adding layout item to sync queue:', {
               entityId: id,
               isTemp: id.startsWith('temp-spacer-'),
-              newRank,
-              idempotencyKey: `move:${id}:${newRank}`
+              newRank
             });
           }
 
@@ -690,14 +688,12 @@ export default function CommitmentOrderingModalR2({
           }
 
           dispatch(addToQueue({
-            type: 'UPDATE',
+            op: 'move',
             entity: 'layout_item',
             entityId: id,
             data: {
-              id,
-              user_id: user.id,
+              user_id: ownerId,
               order_rank: newRank,
-              idempotencyKey: `move:${id}:${newRank}`
             }
           }));
         });
@@ -727,8 +723,11 @@ export default function CommitmentOrderingModalR2({
       // Delete layout items from database and Redux
       for (const deletedId of deletedLayoutItemIds) {
         try {
-          const { deleteLayoutItem } = await import('@/services/layoutItems');
-          await deleteLayoutItem(deletedId, user.id);
+          // Items created while offline only exist locally - the queued delete cancels their create
+          if (!isTempId(deletedId)) {
+            const { deleteLayoutItem } = await import('@/services/layoutItems');
+            await deleteLayoutItem(deletedId, ownerId);
+          }
 
           // Remove from Redux
           const { deleteLayoutItem: deleteFromRedux } = await import('@/store/slices/layoutItemsSlice');
@@ -736,13 +735,11 @@ export default function CommitmentOrderingModalR2({
 
           // Add to sync queue
           dispatch(addToQueue({
-            type: 'DELETE',
+            op: 'layoutDelete',
             entity: 'layout_item',
             entityId: deletedId,
             data: {
-              id: deletedId,
-              user_id: user.id,
-              idempotencyKey: `delete:${deletedId}:${Date.now()}`
+              user_id: ownerId,
             }
           }));
 
@@ -762,6 +759,39 @@ export default function CommitmentOrderingModalR2({
         item.type === 'divider' && item.data.id.startsWith('temp-divider-')
       );
 
+      // Keep the item locally under a temp ID and let the sync queue create it (and remap the ID) later
+      const queueOfflineLayoutCreate = (layoutItem: LayoutItemData, rank: string) => {
+        const tempId = `temp-layout-${Date.now()}`;
+        const now = new Date().toISOString();
+
+        dispatch(addLayoutItem({
+          ...layoutItem,
+          id: tempId,
+          order_rank: rank,
+          isActive: true,
+          archived: false,
+          deletedAt: null,
+          createdAt: now,
+          updatedAt: now,
+        }));
+        dispatch(addToQueue({
+          op: 'layoutCreate',
+          entity: 'layout_item',
+          entityId: tempId,
+          data: {
+            user_id: layoutItem.userId,
+            type: layoutItem.type,
+            height: layoutItem.type === 'spacer' ? layoutItem.height : undefined,
+            style: layoutItem.type === 'divider' ? layoutItem.style : undefined,
+            color: layoutItem.type === 'divider' ? layoutItem.color : undefined,
+            order_rank: rank,
+            is_active: true,
+            archived: false,
+            deleted_at: null,
+          }
+        }));
+      };
+
       for (const newSpacerItem of newSpacers) {
         const spacerData = newSpacerItem.data;
         // Get the rank that was calculated in the main ranking loop
@@ -783,29 +813,12 @@ export default function CommitmentOrderingModalR2({
           // Add the created spacer to Redux
           dispatch(addLayoutItem(createdSpacer));
 
-          // Add CREATE sync action for the new spacer
-          dispatch(addToQueue({
-            type: 'CREATE',
-            entity: 'layout_item',
-            entityId: createdSpacer.id,
-            data: {
-              userId: createdSpacer.userId,
-              user_id: createdSpacer.userId,
-              type: createdSpacer.type,
-              height: createdSpacer.height,
-              order_rank: createdSpacer.order_rank,
-              is_active: createdSpacer.isActive,
-              archived: createdSpacer.archived,
-              deleted_at: createdSpacer.deletedAt,
-              idempotencyKey: `create:spacer:${createdSpacer.id}:${Date.now()}`
-            }
-          }));
-
           if (__DEV__) {
             console.log('✅ Created new spacer:', createdSpacer.id);
           }
         } catch (error) {
-          console.error('❌ Failed to create spacer:', error);
+          console.error('❌ Failed to create spacer, queueing for sync:', error);
+          queueOfflineLayoutCreate(spacerData as LayoutItemData, rank);
         }
       }
 
@@ -830,29 +843,12 @@ export default function CommitmentOrderingModalR2({
           // Add the created divider to Redux
           dispatch(addLayoutItem(createdDivider));
 
-          // Add CREATE sync action for the new divider
-          dispatch(addToQueue({
-            type: 'CREATE',
-            entity: 'layout_item',
-            entityId: createdDivider.id,
-            data: {
-              userId: createdDivider.userId,
-              user_id: createdDivider.userId,
-              type: createdDivider.type,
-              style: createdDivider.style,
-              order_rank: createdDivider.order_rank,
-              is_active: createdDivider.isActive,
-              archived: createdDivider.archived,
-              deleted_at: createdDivider.deletedAt,
-              idempotencyKey: `create:divider:${createdDivider.id}:${Date.now()}`
-            }
-          }));
-
           if (__DEV__) {
             console.log('✅ Created new divider:', createdDivider.id);
           }
         } catch (error) {
-          console.error('❌ Failed to create divider:', error);
+          console.error('❌ Failed to create divider, queueing for sync:', error);
+          queueOfflineLayoutCreate(dividerData as LayoutItemData, rank);
         }
       }
 
@@ -872,7 +868,7 @@ export default function CommitmentOrderingModalR2({
       setIsSaving(false);
       setLockedLocalItems(null);
     }
-  }, [hasChanges, isSaving, user?.id, layoutItems, localItems, dispatch, onClose]);
+  }, [hasChanges, isSaving, ownerId, layoutItems, localItems, dispatch, onClose]);
 
   // Debounced save to prevent rapid successive saves
   const debouncedHandleSave = useMemo(() => {
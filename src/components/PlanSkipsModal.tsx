@@ -0,0 +1,153 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useFontStyle } from '@/hooks/useFontStyle';
+import { useThemeMode } from '@/contexts/ThemeContext';
+import { getThemeColors } from '@/constants/grayscaleTokens';
+import { MODAL_STYLES, getModalColors } from './styles/modalStyles';
+import { validatePlannedRange } from '@/utils/plannedSkips';
+import { addDays } from '@/utils/schedule';
+import { getTodayISO } from '@/utils/timeUtils';
+
+interface PlanSkipsModalProps {
+  visible: boolean;
+  onClose: () => void;
+  // The commitment being planned - omitted for vacation mode, which plans every commitment
+  commitmentTitle?: string;
+  onPlan: (startDate: string, endDate: string) => void;
+  onClearPlanned: (startDate: string, endDate: string) => void;
+}
+
+/**
+ * Mark a range of upcoming days as skipped ahead of time, or take planned skips back
+ */
+export default function PlanSkipsModal({
+  visible,
+  onClose,
+  commitmentTitle,
+  onPlan,
+  onClearPlanned,
+}: PlanSkipsModalProps): React.JSX.Element {
+  const fontStyle = useFontStyle();
+  const themeMode = useThemeMode();
+  const themeColors = getThemeColors(themeMode);
+  const modalColors = getModalColors(themeMode);
+
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+
+  // A week from today unless the user picks otherwise
+  useEffect(() => {
+    if (visible) {
+      const today = getTodayISO();
+      setStartDate(today);
+      setEndDate(addDays(today, 6));
+    }
+  }, [visible]);
+
+  const withValidRange = (action: (start: string, end: string) => void) => () => {
+    const error = validatePlannedRange(startDate.trim(), endDate.trim(), getTodayISO());
+    if (error) {
+      Alert.alert('Invalid Dates', error);
+      return;
+    }
+    action(startDate.trim(), endDate.trim());
+    onClose();
+  };
+
+  const inputStyle = [
+    MODAL_STYLES.input,
+    { borderColor: modalColors.borderLight, color: modalColors.primaryText, backgroundColor: modalColors.contentBackground },
+    fontStyle,
+  ];
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardAvoidingView}
+      >
+        <View style={[MODAL_STYLES.overlay, { backgroundColor: modalColors.overlayBackground }]}>
+          <View style={[MODAL_STYLES.modalContent, { backgroundColor: modalColors.contentBackground }]}>
+            <View style={MODAL_STYLES.header}>
+              <Text style={[MODAL_STYLES.title, { color: modalColors.primaryText }, fontStyle]}>
+                {commitmentTitle ? 'Plan Skips' : 'Vacation Mode'}
+              </Text>
+              <TouchableOpacity onPress={onClose} style={[MODAL_STYLES.closeButton, { backgroundColor: themeColors.gray300 }]}>
+                <Text style={[MODAL_STYLES.closeText, { color: modalColors.secondaryText }, fontStyle]}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            <Text style={[styles.description, { color: modalColors.secondaryText }, fontStyle]}>
+              {commitmentTitle
+                ? `Mark days off for ${commitmentTitle} ahead of time.`
+                : 'Mark days off for every commitment ahead of time.'}
+              {' '}Planned skips don't break streaks, and anything you log on those days replaces them.
+            </Text>
+
+            <View style={MODAL_STYLES.section}>
+              <Text style={[MODAL_STYLES.label, { color: modalColors.primaryText }, fontStyle]}>First day</Text>
+              <TextInput
+                style={inputStyle}
+                value={startDate}
+                onChangeText={setStartDate}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor={modalColors.placeholderText}
+                maxLength={10}
+              />
+            </View>
+
+            <View style={MODAL_STYLES.section}>
+              <Text style={[MODAL_STYLES.label, { color: modalColors.primaryText }, fontStyle]}>Last day</Text>
+              <TextInput
+                style={inputStyle}
+                value={endDate}
+                onChangeText={setEndDate}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor={modalColors.placeholderText}
+                maxLength={10}
+              />
+            </View>
+
+            <View style={MODAL_STYLES.buttonContainer}>
+              <TouchableOpacity style={[MODAL_STYLES.secondaryButton, {
+                borderColor: themeColors.gray300,
+                backgroundColor: modalColors.contentBackground
+              }]} onPress={withValidRange(onClearPlanned)}>
+                <Text style={[MODAL_STYLES.secondaryButtonText, { color: modalColors.secondaryText }, fontStyle]}>Clear Planned</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[MODAL_STYLES.primaryButton, { backgroundColor: modalColors.primaryButton }]} onPress={withValidRange(onPlan)}>
+                <Text style={[MODAL_STYLES.primaryButtonText, { color: modalColors.primaryButtonText }, fontStyle]}>Plan Skips</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  keyboardAvoidingView: {
+    flex: 1,
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+});
@@ -12,7 +12,12 @@ export default function SyncIndicator() {
     (state) => state.settings.featureFlags?.sync?.useSystemSurfaces ?? false
   );
 
-  if (syncState.phase === 'idle' && syncState.queueCount === 0) {
+  if (
+    syncState.phase === 'idle' &&
+    syncState.queueCount === 0 &&
+    syncState.failedCount === 0 &&
+    syncState.conflictCount === 0
+  ) {
     return null;
   }
 
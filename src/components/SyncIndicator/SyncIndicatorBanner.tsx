@@ -1,5 +1,6 @@
 import React, { useEffect, useRef } from 'react';
 import { View, Text, TouchableOpacity, Animated, Platform, StyleSheet } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
 import { SyncState } from '@/hooks/useSyncStatus';
 
 interface SyncIndicatorBannerProps {
@@ -7,6 +8,7 @@ interface SyncIndicatorBannerProps {
 }
 
 export default function SyncIndicatorBanner({ state }: SyncIndicatorBannerProps) {
+  const navigation = useNavigation();
   const shimmerAnimation = useRef(new Animated.Value(0)).current;
   const opacityAnimation = useRef(new Animated.Value(0)).current;
 
@@ -39,8 +41,11 @@ export default function SyncIndicatorBanner({ state }: SyncIndicatorBannerProps)
     }).start();
   }, [opacityAnimation]);
 
+  // Conflicts only need attention once the queue has settled
+  const hasConflicts = state.conflictCount > 0 && (state.phase === 'idle' || state.phase === 'done');
+
   const handleErrorTap = async () => {
-    if (state.phase === 'error') {
+    if (state.phase === 'error' || state.failedCount > 0 || hasConflicts) {
       if (Platform.OS === 'ios') {
         try {
           // Dynamically import expo-haptics only if available
@@ -50,17 +55,25 @@ export default function SyncIndicatorBanner({ state }: SyncIndicatorBannerProps)
           // Haptics not available, continue without feedback
         }
       }
-      // Retry sync logic would go here
+      // Let the user inspect failed operations and conflicting edits
+      navigation.navigate('SyncIssues');
     }
   };
 
   const getLabel = () => {
+    if (hasConflicts) {
+      return `${state.conflictCount} sync ${state.conflictCount === 1 ? 'conflict' : 'conflicts'} • Tap to review`;
+    }
+
     switch (state.phase) {
       case 'syncing':
         return state.queueCount > 0 ? `Syncing` : 'Syncing';
       case 'offline':
         return state.queueCount > 0 ? `Offline • ${state.queueCount} pending` : 'Offline';
       case 'error':
+        if (state.failedCount > 0) {
+          return `${state.failedCount} failed to sync • Tap to review`;
+        }
         return state.lastError ? `Sync error: ${state.lastError}` : 'Sync error';
       case 'done':
         return 'All caught up';
@@ -70,6 +83,10 @@ export default function SyncIndicatorBanner({ state }: SyncIndicatorBannerProps)
   };
 
   const getIcon = () => {
+    if (hasConflicts) {
+      return '⚠️';
+    }
+
     switch (state.phase) {
       case 'syncing':
         return '🔄';
@@ -84,7 +101,7 @@ export default function SyncIndicatorBanner({ state }: SyncIndicatorBannerProps)
     }
   };
 
-  if (state.phase === 'idle' && state.queueCount === 0) {
+  if (state.phase === 'idle' && state.queueCount === 0 && state.failedCount === 0 && state.conflictCount === 0) {
     return null;
   }
 
@@ -93,7 +110,7 @@ export default function SyncIndicatorBanner({ state }: SyncIndicatorBannerProps)
     // This will show via the default case in getLabel()
   }
 
-  const isError = state.phase === 'error';
+  const isError = state.phase === 'error' || state.failedCount > 0 || hasConflicts;
   const Component = isError ? TouchableOpacity : View;
 
   return (
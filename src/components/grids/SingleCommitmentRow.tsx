@@ -12,6 +12,7 @@ import CustomCheckmarkIcon from '../CustomCheckmarkIcon';
 import SuccessCellAnimation from '../animations/SuccessCellAnimation';
 import { RecordStatus } from '@/store/slices/recordsSlice';
 import { isWeekend, getTodayISO } from '@/utils/timeUtils';
+import { isScheduledDay, normalizeSchedule, type CommitmentSchedule } from '@/utils/schedule';
 import { getCellVisualTreatment, getCellColors, determineCellState } from './gridPalette';
 import { useThemeMode } from '@/contexts/ThemeContext';
 import CellShimmerOverlay from './CellShimmerOverlay';
@@ -19,6 +20,11 @@ import { useReduceMotion } from '@/hooks/useReduceMotion';
 import { GRID_DEBUG } from '@/_shared/debug';
 import { getPressPoint } from './getPressPoint';
 import { getCellDisplayText } from '@/utils/valueFormatUtils';
+import { formatConditionsProgress } from '@/utils/successCriteria';
+import { getDurationUnit } from '@/utils/duration';
+import { getVersionForDate } from '@/utils/commitmentVersions';
+import { isPlannedSkip } from '@/utils/plannedSkips';
+import type { CommitmentVersion } from '@/store/slices/commitmentsSlice';
 
 export type ViewMode = 'daily' | 'weekly';
 
@@ -29,10 +35,14 @@ interface Commitment {
   type: 'binary' | 'counter' | 'timer';
   commitmentType: 'checkbox' | 'measurement';
   requirements?: string[];
+  requiredConditions?: number | null;
   ratingRange?: { min: number; max: number };
   unit?: string;
   streak: number;
   showValues?: boolean;
+  schedule?: CommitmentSchedule | null;
+  effectiveFrom?: string | null;
+  versions?: CommitmentVersion[];
 }
 
 interface DayRecord {
@@ -40,6 +50,7 @@ interface DayRecord {
   commitmentId: string;
   status: RecordStatus;
   value?: any;
+  isFuturePrefill?: boolean;
 }
 
 interface SingleCommitmentRowProps {
@@ -174,6 +185,8 @@ export default function SingleCommitmentRow({
     gestureStateRef.current.longPressTriggered = false;
   }, []);
 
+  const schedule = normalizeSchedule(commitment.schedule);
+
   return (
     <View style={rowContainerStyle}>
       {dates.map((date) => {
@@ -183,7 +196,7 @@ export default function SingleCommitmentRow({
         const isTodayDate = date === todayISO;
 
         // Determine cell state and visual treatment using centralized palette
-        const cellState = determineCellState(status, isWeekendDay, isTodayDate);
+        const cellState = determineCellState(status, isWeekendDay, isTodayDate, isScheduledDay(schedule, date), isPlannedSkip(record));
         const visualTreatment = getCellVisualTreatment(cellState, themeMode);
         const cellColors = getCellColors(cellState, themeMode);
 
@@ -202,6 +215,7 @@ export default function SingleCommitmentRow({
           alignItems: 'center',
           borderWidth: visualTreatment.borderWidth,
           borderColor: visualTreatment.borderColor,
+          borderStyle: visualTreatment.borderStyle,
           // Elevate animating cells so sparkles appear above neighboring cells
           ...(isAnimating && {
             zIndex: 1000,
@@ -213,7 +227,9 @@ export default function SingleCommitmentRow({
 
         // Determine if we should show values or icons
         const shouldShowValues = commitment.showValues && commitment.commitmentType === 'measurement';
-        const displayText = getCellDisplayText(status, record?.value, shouldShowValues);
+        const dayCommitment = getVersionForDate(commitment, date);
+        const displayText = getCellDisplayText(status, record?.value, shouldShowValues, getDurationUnit(dayCommitment.unit));
+        const conditionsProgress = formatConditionsProgress(dayCommitment.requirements, dayCommitment.requiredConditions, status, record?.value);
 
 
         let cellContent = null;
@@ -238,6 +254,18 @@ export default function SingleCommitmentRow({
             cellContent = <CustomCheckmarkIcon size={12.32} color={cellColors.content} strokeWidth={2.2} />;
           } else if (status === 'failed') {
             cellContent = <CustomXIcon size={10} color={cellColors.content} strokeWidth={2.5} />;
+          } else if (conditionsProgress) {
+            // Open multi-requirement day - show how far along it is
+            cellContent = (
+              <Text style={{
+                color: cellColors.content,
+                fontSize: viewMode === 'daily' ? 10 : 7,
+                fontWeight: '600',
+                textAlign: 'center',
+              }}>
+                {conditionsProgress}
+              </Text>
+            );
           }
         }
 
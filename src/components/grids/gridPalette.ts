@@ -8,7 +8,7 @@
 import { createSemanticColors, getThemeColors, type ThemeMode } from '@/constants/grayscaleTokens';
 import { designTokens } from '@/constants/designTokens';
 
-export type CellState = 'completed' | 'skipped' | 'failed' | 'weekend' | 'today' | 'idle';
+export type CellState = 'completed' | 'skipped' | 'planned' | 'failed' | 'weekend' | 'today' | 'idle';
 
 // Cell color interface for background and content
 export interface CellColors {
@@ -25,6 +25,7 @@ export function getCellColors(state: CellState, mode: ThemeMode): CellColors {
   const stateMapping = {
     completed: 'success',
     skipped: 'skipped',
+    planned: 'skipped',
     failed: 'fail',
     idle: 'idle',
     weekend: 'weekend',
@@ -35,7 +36,7 @@ export function getCellColors(state: CellState, mode: ThemeMode): CellColors {
   const baseColors = cellTokens[tokenKey];
 
   // For gray states, use actual gray tokens instead of hardcoded values
-  if (state === 'idle' || state === 'today') {
+  if (state === 'idle' || state === 'today' || state === 'planned') {
     return {
       background: grayTokens.gray200,
       content: baseColors.content,
@@ -62,6 +63,7 @@ export function getGridColors(mode: ThemeMode) {
     idle: grayTokens.gray200,
     completed: cellTokens.success.background,
     skipped: cellTokens.skipped.background,
+    planned: grayTokens.gray200, // Outlined rather than filled - see getCellVisualTreatment
     failed: cellTokens.fail.background,
     weekend: grayTokens.gray300,
     today: grayTokens.gray200,
@@ -74,6 +76,7 @@ export interface CellVisualTreatment {
   backgroundColor: string;
   borderColor: string;
   borderWidth: number;
+  borderStyle?: 'solid' | 'dashed';
 }
 
 
@@ -87,6 +90,16 @@ export function getCellVisualTreatment(cellState: CellState, mode: ThemeMode): C
   const gridColors = getGridColors(mode);
   const backgroundColor = gridColors[cellState];
 
+  // Planned skips are skips that haven't happened yet - a dashed outline in the skipped colour
+  if (cellState === 'planned') {
+    return {
+      backgroundColor,
+      borderColor: gridColors.skipped,
+      borderWidth: 1.5,
+      borderStyle: 'dashed',
+    };
+  }
+
   return {
     backgroundColor,
     borderColor: 'transparent',
@@ -99,18 +112,23 @@ export function getCellVisualTreatment(cellState: CellState, mode: ThemeMode): C
  * @param status - Record status from the database
  * @param isWeekend - Whether the date is a weekend
  * @param isToday - Whether the date is today
+ * @param isScheduled - Whether the commitment's schedule asks for this date
+ * @param isPlanned - Whether the record is a skip planned ahead of time
  * @returns The appropriate cell state
  */
 export function determineCellState(
   status: string | null | undefined,
   isWeekend: boolean,
-  isToday: boolean
+  isToday: boolean,
+  isScheduled: boolean = true,
+  isPlanned: boolean = false
 ): CellState {
-  // Priority order: status > weekend > today > idle
+  // Priority order: status > off day > today > idle
   if (status === 'completed') return 'completed';
-  if (status === 'skipped') return 'skipped';
+  if (status === 'skipped') return isPlanned ? 'planned' : 'skipped';
   if (status === 'failed') return 'failed';
-  if (isWeekend) return 'weekend';
+  // Days off the schedule share the weekend treatment, even today
+  if (isWeekend || !isScheduled) return 'weekend';
   if (isToday) return 'today';
   return 'idle';
 }
\ No newline at end of file
@@ -1,17 +1,30 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
+import { Alert } from 'react-native';
 import type { Session, User, AuthError } from '@supabase/supabase-js';
 import { supabase } from '@/services/supabase';
 import { generateUsernameSuggestion, checkUsernameAvailability } from '@/utils/usernameValidation';
 import { store, persistor, logoutGlobal } from '@/store';
-import { SyncService } from '@/services/syncService';
-import { syncScheduler, setSyncUserId } from '@/services/syncScheduler';
+import { offlineQueue } from '@/services/offlineQueue';
+import { localRepository } from '@/services/localRepository';
+import { syncEngine, setSyncUserId } from '@/services/syncEngine';
 import { purgeExpiredDeleted } from '@/store/slices/commitmentsSlice';
 import { seedOrderRanksOnce } from '@/utils/seedOrderRanks';
+import { useAppSelector } from '@/store/hooks';
+import { startGuestSession } from '@/store/slices/authSlice';
+import { createGuestId, linkGuestAccount } from '@/services/guestAccount';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   loading: boolean;
+  // Guest mode: the app is usable without an account, with data kept on device
+  guestId: string | null;
+  isGuest: boolean;
+  linkingGuest: boolean;
+  // Who local data belongs to - the signed-in user, else the guest
+  ownerId: string | null;
+  continueAsGuest: () => void;
+  requestAccount: () => void;
   signUp: (email: string, password: string, fullName: string, username: string) => Promise<{ error: AuthError | null }>;
   signIn: (email: string, password: string) => Promise<{ error: AuthError | null }>;
   signOut: () => Promise<{ error: AuthError | null }>;
@@ -23,8 +36,40 @@ export function AuthProvider({ children }: { children: React.ReactNode }): React
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [linkingGuest, setLinkingGuest] = useState(false);
+  // A guest who opened sign in / sign up from the app
+  const [accountRequested, setAccountRequested] = useState(false);
+  const guestId = useAppSelector(state => state.auth.guestId ?? null);
 
   useEffect(() => {
+    // Upload anything created in guest mode - a failure is shown with the option to try again,
+    // and guest data stays on device so the next sign-in retries it too
+    const linkGuestData = async (pendingGuestId: string, userId: string): Promise<void> => {
+      // The loading screen unmounts the dashboard, so it reloads the account's data afterwards
+      setLinkingGuest(true);
+      const { error } = await store.dispatch(linkGuestAccount(pendingGuestId, userId));
+      setLinkingGuest(false);
+      if (!error) return;
+
+      console.error('❌ Guest data not linked:', error);
+      Alert.alert(
+        'Guest Data Not Saved',
+        `Your guest commitments are still on this device but couldn't be added to your account (${error}).`,
+        [
+          { text: 'Later', style: 'cancel' },
+          {
+            text: 'Try Again',
+            onPress: () => {
+              // Skip if the guest session ended (linked or signed out) in the meantime
+              if (store.getState().auth.guestId === pendingGuestId) {
+                void linkGuestData(pendingGuestId, userId);
+              }
+            },
+          },
+        ]
+      );
+    };
+
     // Get initial session
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session);
@@ -36,6 +81,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }): React
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       async (event, session) => {
         console.log('🔄 Auth state change:', { event, userId: session?.user?.id || 'No user' });
+
+        // Hold the dashboard back until guest data has moved into the account
+        const pendingGuestId = event === 'SIGNED_IN' && session?.user ? store.getState().auth.guestId : null;
+        if (pendingGuestId) {
+          setLinkingGuest(true);
+        }
+
         setSession(session);
         setUser(session?.user ?? null);
         setLoading(false);
@@ -48,11 +100,6 @@ export function AuthProvider({ children }: { children: React.ReactNode }): React
           store.dispatch(purgeExpiredDeleted());
           console.log('🧹 Purged expired deleted commitments');
 
-          // Set user ID for sync scheduler and start it
-          setSyncUserId(session.user.id);
-          syncScheduler.start();
-          console.log('🔄 Started sync scheduler with user ID');
-
           // Check if profile exists, create if it doesn't
           const { data: profile } = await supabase
             .from('profiles')
@@ -67,6 +114,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }): React
             console.log('✅ Profile already exists');
           }
 
+          // Upload anything created in guest mode before seeding ranks
+          if (pendingGuestId) {
+            await linkGuestData(pendingGuestId, session.user.id);
+            setAccountRequested(false);
+          }
+
+          // Guest data is out of Redux and the queue by now, so only the account's own data syncs
+          setSyncUserId(session.user.id);
+          console.log('🔄 Set sync engine user ID');
+
           // Run one-shot order rank seeding
           await seedOrderRanksOnce(session.user.id);
         }
@@ -77,9 +134,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }): React
           setUser(null);
           setSession(null);
           (async () => {
-            try { SyncService.stop(); } catch (e) { console.warn('SyncService.stop failed', e); }
-            try { setSyncUserId(null); } catch (e) { console.warn('setSyncUserId(null) failed', e); }
-            try { syncScheduler.stop(); } catch (e) { console.warn('syncScheduler.stop failed', e); }
+            try { syncEngine.reset(); } catch (e) { console.warn('syncEngine.reset failed', e); }
+            try { await offlineQueue.clear(); } catch (e) { console.warn('offlineQueue.clear failed', e); }
+            try { await localRepository.clear(); } catch (e) { console.warn('localRepository.clear failed', e); }
             try { store.dispatch(logoutGlobal()); } catch (e) { console.warn('logoutGlobal dispatch failed', e); }
             try { await persistor.purge(); } catch (e) { console.warn('persistor.purge failed', e); }
           })();
@@ -164,6 +221,20 @@ export function AuthProvider({ children }: { children: React.ReactNode }): React
     return { error };
   };
 
+  const continueAsGuest = () => {
+    if (!store.getState().auth.guestId) {
+      const newGuestId = createGuestId();
+      console.log('👤 Starting guest session:', newGuestId);
+      store.dispatch(startGuestSession(newGuestId));
+    }
+    setAccountRequested(false);
+  };
+
+  // Leave the dashboard for the auth screens - guest data is kept for linking
+  const requestAccount = () => {
+    setAccountRequested(true);
+  };
+
   const signOut = async () => {
     console.log('🚪 AuthContext signOut called');
 
@@ -171,9 +242,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }): React
 
     // Idempotent fallback if SIGNED_OUT event is delayed or missed
     (async () => {
-      try { SyncService.stop(); } catch {}
-      try { setSyncUserId(null); } catch {}
-      try { syncScheduler.stop(); } catch {}
+      try { syncEngine.reset(); } catch {}
+      try { await offlineQueue.clear(); } catch {}
+      try { await localRepository.clear(); } catch {}
       try { store.dispatch(logoutGlobal()); } catch {}
       try { await persistor.purge(); } catch {}
     })();
@@ -186,6 +257,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }): React
     user,
     session,
     loading,
+    guestId,
+    isGuest: !user && !!guestId && !accountRequested,
+    linkingGuest,
+    ownerId: user?.id ?? guestId,
+    continueAsGuest,
+    requestAccount,
     signUp,
     signIn,
     signOut,
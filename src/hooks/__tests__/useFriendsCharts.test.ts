@@ -0,0 +1,71 @@
+/**
+ * Unit tests for the Wi-Fi-only policy on friends charts refreshes
+ */
+
+import { triggerFriendsChartsRefresh, subscribeToFriendsChartsRefresh } from '../useFriendsCharts';
+
+const mockState = {
+  settings: { syncPolicy: { friendChartsOnWifiOnly: true } },
+  sync: { connectionType: 'wifi' as string | null },
+};
+
+jest.mock('@/store', () => ({
+  store: { getState: () => ({ ...mockState }) },
+}));
+
+jest.mock('@/services/friends', () => ({
+  getFriendsChartsData: jest.fn(),
+}));
+
+jest.mock('@/services/friendsRealtime', () => ({
+  subscribeToFriendsProgress: jest.fn(),
+  applyFriendsRealtimeChange: jest.fn(),
+}));
+
+describe('triggerFriendsChartsRefresh', () => {
+  const listener = jest.fn();
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    listener.mockClear();
+    unsubscribe = subscribeToFriendsChartsRefresh(listener);
+  });
+
+  afterEach(() => {
+    unsubscribe();
+  });
+
+  test('refreshes charts on Wi-Fi', () => {
+    mockState.sync = { connectionType: 'wifi' };
+
+    triggerFriendsChartsRefresh();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('holds refreshes back on cellular when charts are Wi-Fi only', () => {
+    mockState.sync = { connectionType: 'cellular' };
+
+    triggerFriendsChartsRefresh();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test('refreshes on cellular when the user allows it', () => {
+    mockState.settings = { syncPolicy: { friendChartsOnWifiOnly: false } };
+    mockState.sync = { connectionType: 'cellular' };
+
+    triggerFriendsChartsRefresh();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('stops calling a listener once unsubscribed', () => {
+    mockState.sync = { connectionType: 'wifi' };
+    unsubscribe();
+
+    triggerFriendsChartsRefresh();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
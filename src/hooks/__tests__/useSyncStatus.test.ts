@@ -0,0 +1,52 @@
+/**
+ * Unit tests for mapping the sync engine's phase to indicator states
+ */
+
+import { deriveSyncStatus } from '../useSyncStatus';
+
+const syncState = (overrides: Record<string, any> = {}): any => ({
+  isOnline: true,
+  phase: 'idle',
+  isSyncing: false,
+  queue: [],
+  deadLetter: [],
+  idRemaps: {},
+  pullCursor: null,
+  conflicts: [],
+  lastSyncAt: null,
+  error: null,
+  ...overrides,
+});
+
+const queued = (id: string) => ({ id, op: 'recordDelete', entity: 'record', entityId: id, data: {}, retryCount: 1 });
+
+describe('deriveSyncStatus', () => {
+  test('pushing and pulling both show as syncing', () => {
+    expect(deriveSyncStatus(syncState({ phase: 'pushing', queue: [queued('a')] })).phase).toBe('syncing');
+    expect(deriveSyncStatus(syncState({ phase: 'pulling' })).phase).toBe('syncing');
+  });
+
+  test('shows done once queued changes land', () => {
+    expect(deriveSyncStatus(syncState({ phase: 'done' })).phase).toBe('done');
+  });
+
+  test('actions backing off show as pending rather than syncing', () => {
+    const status = deriveSyncStatus(syncState({ phase: 'backoff', queue: [queued('a'), queued('b')] }));
+
+    expect(status.phase).toBe('idle');
+    expect(status.queueCount).toBe(2);
+  });
+
+  test('offline wins over any other phase', () => {
+    expect(deriveSyncStatus(syncState({ isOnline: false, phase: 'backoff' })).phase).toBe('offline');
+    expect(deriveSyncStatus(syncState({ phase: 'offline' })).phase).toBe('offline');
+  });
+
+  test('dead-lettered actions show as an error with the latest message', () => {
+    const status = deriveSyncStatus(syncState({
+      deadLetter: [{ id: 'a', source: 'sync', lastError: 'permission denied', failedAt: '2025-01-01T00:00:00Z' }],
+    }));
+
+    expect(status).toEqual(expect.objectContaining({ phase: 'error', failedCount: 1, lastError: 'permission denied' }));
+  });
+});
@@ -1,20 +1,45 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { getFriendsChartsData, type FriendChartData } from '@/services/friends';
+import { subscribeToFriendsProgress, applyFriendsRealtimeChange } from '@/services/friendsRealtime';
+import { store } from '@/store';
+import { useAppSelector } from '@/store/hooks';
+import { selectFriendChartsPaused } from '@/store/slices/settingsSlice';
 
 // Global state to trigger refreshes across components
 let globalRefreshTrigger = 0;
 const refreshListeners: (() => void)[] = [];
 
 export const triggerFriendsChartsRefresh = () => {
+  // Friends' charts are the heaviest fetch - the user can hold them back until they're on Wi-Fi
+  if (selectFriendChartsPaused(store.getState())) {
+    console.log('📊 On cellular with Wi-Fi-only friend charts, skipping refresh');
+    return;
+  }
+
   globalRefreshTrigger++;
   refreshListeners.forEach(listener => listener());
 };
 
+/**
+ * Call the listener on every friends charts refresh - returns an unsubscribe function
+ */
+export const subscribeToFriendsChartsRefresh = (listener: () => void) => {
+  refreshListeners.push(listener);
+  return () => {
+    const index = refreshListeners.indexOf(listener);
+    if (index > -1) {
+      refreshListeners.splice(index, 1);
+    }
+  };
+};
+
 export const useFriendsCharts = (userId: string | undefined) => {
   const [friendsCharts, setFriendsCharts] = useState<FriendChartData[]>([]);
   const [friendsChartsLoading, setFriendsChartsLoading] = useState(false);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
 
+  const chartsPaused = useAppSelector(selectFriendChartsPaused);
+
   // Load friends charts data
   const loadFriendsCharts = async () => {
     if (!userId) {
@@ -23,6 +48,11 @@ export const useFriendsCharts = (userId: string | undefined) => {
       return;
     }
 
+    if (chartsPaused) {
+      console.log('📊 On cellular with Wi-Fi-only friend charts, keeping current charts');
+      return;
+    }
+
     console.log('📊 Starting to load friends charts for user:', userId);
     setFriendsChartsLoading(true);
     try {
@@ -57,26 +87,15 @@ export const useFriendsCharts = (userId: string | undefined) => {
     }
   };
 
-  // Initial load and refresh on user change
+  // Initial load, refresh on user change, and catch up once back on Wi-Fi
   useEffect(() => {
     loadFriendsCharts();
-  }, [userId]);
+  }, [userId, chartsPaused]);
 
   // Listen for global refresh triggers
-  useEffect(() => {
-    const handleRefresh = () => {
-      setRefreshTrigger(prev => prev + 1);
-    };
-
-    refreshListeners.push(handleRefresh);
-
-    return () => {
-      const index = refreshListeners.indexOf(handleRefresh);
-      if (index > -1) {
-        refreshListeners.splice(index, 1);
-      }
-    };
-  }, []);
+  useEffect(() => subscribeToFriendsChartsRefresh(() => {
+    setRefreshTrigger(prev => prev + 1);
+  }), []);
 
   // Refresh when trigger changes
   useEffect(() => {
@@ -85,6 +104,17 @@ export const useFriendsCharts = (userId: string | undefined) => {
     }
   }, [refreshTrigger]);
 
+  // Patch friends' check-ins and edits in as they happen
+  const loadedFriendIds = useMemo(() => friendsCharts.map(f => f.friend.id).join(','), [friendsCharts]);
+
+  useEffect(() => {
+    if (!userId || !loadedFriendIds || chartsPaused) return;
+
+    return subscribeToFriendsProgress(userId, loadedFriendIds.split(','), change => {
+      setFriendsCharts(current => applyFriendsRealtimeChange(current, change, userId));
+    });
+  }, [userId, loadedFriendIds, chartsPaused]);
+
   return {
     friendsCharts,
     friendsChartsLoading,
@@ -1,7 +1,10 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useAppSelector } from '@/store/hooks';
 import { getFriendsChartsData, type FriendChartData } from '@/services/friends';
+import { subscribeToFriendsProgress, applyFriendsRealtimeChange } from '@/services/friendsRealtime';
 import { selectFriendsOrdered } from '@/store/selectors/friendsOrder';
+import { selectFriendChartsPaused } from '@/store/slices/settingsSlice';
+import { subscribeToFriendsChartsRefresh } from './useFriendsCharts';
 
 /**
  * Hook that derives friends charts from the canonical roster
@@ -15,6 +18,11 @@ export const useFriendsChartsFromRoster = (userId: string | undefined) => {
   const orderedFriends = useAppSelector(selectFriendsOrdered);
   const rosterLoading = useAppSelector(state => state.social.rosterLoading);
 
+  // Friends' charts are the heaviest fetch - the user can hold them back until they're on Wi-Fi
+  const chartsPaused = useAppSelector(selectFriendChartsPaused);
+  const wasPausedRef = useRef(chartsPaused);
+  const [refreshTrigger, setRefreshTrigger] = useState(0);
+
   console.log('🔍 [Charts Hook] Current ordered friends from selector:', orderedFriends.map(f => ({ id: f.id, name: f.displayName, order_rank: f.order_rank })));
   console.log('🔍 [Charts Hook] Render triggered, orderedFriends length:', orderedFriends.length);
 
@@ -29,6 +37,11 @@ export const useFriendsChartsFromRoster = (userId: string | undefined) => {
       return;
     }
 
+    if (chartsPaused) {
+      console.log('📊 On cellular with Wi-Fi-only friend charts, keeping current charts');
+      return;
+    }
+
     console.log('📊 Loading charts for roster friends:', { userId, friendCount: friendIds.length });
     setFriendsChartsLoading(true);
 
@@ -102,6 +115,36 @@ export const useFriendsChartsFromRoster = (userId: string | undefined) => {
     }
   }, [userId, orderedFriends]);
 
+  // Catch up once back on Wi-Fi - loads were skipped and realtime was off in the meantime
+  useEffect(() => {
+    if (wasPausedRef.current && !chartsPaused) {
+      void loadFriendsCharts();
+    }
+    wasPausedRef.current = chartsPaused;
+  }, [chartsPaused]);
+
+  // Reload after each sync pull
+  useEffect(() => subscribeToFriendsChartsRefresh(() => {
+    setRefreshTrigger(prev => prev + 1);
+  }), []);
+
+  useEffect(() => {
+    if (refreshTrigger > 0) {
+      void loadFriendsCharts();
+    }
+  }, [refreshTrigger]);
+
+  // Patch friends' check-ins and edits in as they happen
+  const friendIdsKey = friendIds.join(',');
+
+  useEffect(() => {
+    if (!userId || !friendIdsKey || chartsPaused) return;
+
+    return subscribeToFriendsProgress(userId, friendIdsKey.split(','), change => {
+      setFriendsCharts(current => applyFriendsRealtimeChange(current, change, userId));
+    });
+  }, [userId, friendIdsKey, chartsPaused]);
+
   return {
     friendsCharts,
     friendsChartsLoading: friendsChartsLoading || rosterLoading,
@@ -1,63 +1,58 @@
 import { useAppSelector } from '@/store/hooks';
+import type { RootState } from '@/store';
 
 export type SyncState = {
   phase: 'idle' | 'syncing' | 'offline' | 'error' | 'done';
   queueCount: number;
+  failedCount: number; // Operations parked in the dead-letter list
+  conflictCount: number; // Fields edited on two devices, awaiting the user's pick
   lastError?: string;
 };
 
-export function useSyncStatus(): SyncState {
-  const { isOnline, isSyncing, queue, error } = useAppSelector(state => state.sync);
+type SyncSliceState = RootState['sync'];
+
+/**
+ * Map the sync engine's state to what the indicators show
+ * Pushing and pulling both read as syncing; actions backing off read as pending
+ */
+export function deriveSyncStatus(sync: SyncSliceState): SyncState {
+  const { isOnline, phase, queue, deadLetter, conflicts, error } = sync;
+  const queueCount = queue?.length || 0;
+  const failedCount = deadLetter?.length || 0;
+  const conflictCount = conflicts?.length || 0;
 
-  // Map Redux sync state to our SyncState format
   if (error) {
-    return {
-      phase: 'error',
-      queueCount: queue?.length || 0,
-      lastError: error,
-    };
+    return { phase: 'error', queueCount, failedCount, conflictCount, lastError: error };
   }
 
-  if (!isOnline) {
-    return {
-      phase: 'offline',
-      queueCount: queue?.length || 0,
-    };
+  if (!isOnline || phase === 'offline') {
+    return { phase: 'offline', queueCount, failedCount, conflictCount };
   }
 
-  if (isSyncing) {
-    return {
-      phase: 'syncing',
-      queueCount: queue?.length || 0,
-    };
+  if (phase === 'pushing' || phase === 'pulling') {
+    return { phase: 'syncing', queueCount, failedCount, conflictCount };
   }
 
-  if (queue?.length > 0) {
+  if (failedCount > 0) {
     return {
-      phase: 'syncing',
-      queueCount: queue.length,
+      phase: 'error',
+      queueCount,
+      failedCount,
+      conflictCount,
+      lastError: deadLetter[deadLetter.length - 1].lastError || undefined,
     };
   }
 
-  return {
-    phase: 'idle',
-    queueCount: 0,
-  };
-
-  // Demo cycling disabled for now - keeping code for later use
-  // const mockSyncStates: SyncState[] = [
-  //   { phase: 'idle', queueCount: 0 },
-  //   { phase: 'syncing', queueCount: 3 },
-  //   { phase: 'offline', queueCount: 5 },
-  //   { phase: 'error', queueCount: 2, lastError: 'Network timeout' },
-  //   { phase: 'done', queueCount: 0 },
-  // ];
-
-  // let currentIndex = 0;
-  // const interval = setInterval(() => {
-  //   setSyncState(mockSyncStates[currentIndex]);
-  //   currentIndex = (currentIndex + 1) % mockSyncStates.length;
-  // }, 4000);
-
-  // return () => clearInterval(interval);
-}
\ No newline at end of file
+  // Queued changes landed - shown briefly before the engine returns to idle
+  if (phase === 'done' && queueCount === 0) {
+    return { phase: 'done', queueCount, failedCount, conflictCount };
+  }
+
+  // Backing off, or waiting for the next pass
+  return { phase: 'idle', queueCount, failedCount, conflictCount };
+}
+
+export function useSyncStatus(): SyncState {
+  const sync = useAppSelector(state => state.sync);
+  return deriveSyncStatus(sync);
+}
@@ -6,6 +6,7 @@ import type { RootStackParamList } from './types';
 import AuthStack from './AuthStack';
 import MainTabs from './MainTabs';
 import SyncIndicatorOverlay from '@/components/SyncIndicator/SyncIndicatorOverlay';
+import SyncIssuesScreen from '@/screens/Settings/SyncIssuesScreen';
 import { useAuth } from '@/contexts/AuthContext';
 import { useThemedStyles } from '@/hooks/useThemedStyles';
 
@@ -13,6 +14,7 @@ const Stack = createNativeStackNavigator<RootStackParamList>();
 
 // Wrapper component for MainTabs with global overlays
 function MainTabsWithBanner(): React.JSX.Element {
+  const { isGuest } = useAuth();
   const styles = useThemedStyles(({ semanticColors }) => ({
     mainTabsContainer: {
       flex: 1,
@@ -22,13 +24,15 @@ function MainTabsWithBanner(): React.JSX.Element {
   return (
     <View style={styles.mainTabsContainer}>
       <MainTabs />
-      <SyncIndicatorOverlay />
+      {/* Guest data stays on device, so there's no sync to show */}
+      {!isGuest && <SyncIndicatorOverlay />}
     </View>
   );
 }
 
 export default function AppNavigator(): React.JSX.Element {
-  const { user, loading } = useAuth();
+  const { user, loading, isGuest, linkingGuest } = useAuth();
+  const showMainTabs = !!user || isGuest;
 
   const styles = useThemedStyles(({ semanticColors }) => ({
     loadingContainer: {
@@ -42,11 +46,13 @@ export default function AppNavigator(): React.JSX.Element {
   console.log('🧭 AppNavigator render:', {
     user: user?.id || 'No user',
     loading,
-    willShowMainTabs: !!user
+    isGuest,
+    linkingGuest,
+    willShowMainTabs: showMainTabs
   });
 
-  // Show loading screen while checking auth state
-  if (loading) {
+  // Show loading screen while checking auth state or moving guest data into a new account
+  if (loading || linkingGuest) {
     console.log('⏳ Showing loading screen');
     return (
       <View style={styles.loadingContainer}>
@@ -55,7 +61,7 @@ export default function AppNavigator(): React.JSX.Element {
     );
   }
 
-  const initialRoute = user ? 'MainTabs' : 'AuthStack';
+  const initialRoute = showMainTabs ? 'MainTabs' : 'AuthStack';
   console.log('🎯 Initial route determined:', initialRoute);
 
   return (
@@ -65,8 +71,15 @@ export default function AppNavigator(): React.JSX.Element {
           headerShown: false,
         }}
       >
-        {user ? (
-          <Stack.Screen name="MainTabs" component={MainTabsWithBanner} />
+        {showMainTabs ? (
+          <>
+            <Stack.Screen name="MainTabs" component={MainTabsWithBanner} />
+            <Stack.Screen
+              name="SyncIssues"
+              component={SyncIssuesScreen}
+              options={{ presentation: 'modal' }}
+            />
+          </>
         ) : (
           <Stack.Screen name="AuthStack" component={AuthStack} />
         )}
@@ -1,6 +1,7 @@
 export type RootStackParamList = {
   AuthStack: undefined;
   MainTabs: undefined;
+  SyncIssues: undefined;
 };
 
 export type AuthStackParamList = {
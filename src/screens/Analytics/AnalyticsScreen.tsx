@@ -12,7 +12,6 @@ import {
 } from 'react-native';
 import { LineChart, BarChart, PieChart } from 'react-native-chart-kit';
 import { useAppSelector } from '@/store/hooks';
-import { StreakCalculator } from '@/utils/streakCalculation';
 import { generateDateRange, formatDateForDisplay } from '@/utils/timeUtils';
 import { Icon } from '@/components/icons';
 
@@ -211,11 +210,8 @@ export default function AnalyticsScreen(): React.JSX.Element {
     const overallRate = totalPossibleCompletions > 0 ? 
       (actualCompletions / totalPossibleCompletions) * 100 : 0;
 
-    // Calculate current streaks
-    const streaks = commitments.map(commitment => {
-      const streakData = StreakCalculator.calculateStreakData(commitment.id, records);
-      return streakData.currentStreak;
-    });
+    // Current streaks - kept up to date on each commitment
+    const streaks = commitments.map(commitment => commitment.streak);
 
     const avgStreak = streaks.length > 0 ? 
       streaks.reduce((a, b) => a + b, 0) / streaks.length : 0;
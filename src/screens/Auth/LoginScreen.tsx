@@ -26,7 +26,7 @@ export default function LoginScreen({ navigation }: Props): React.JSX.Element {
   const [showResendConfirmation, setShowResendConfirmation] = useState(false);
   const [resendLoading, setResendLoading] = useState(false);
   const [showTestLoginModal, setShowTestLoginModal] = useState(false);
-  const { signIn } = useAuth();
+  const { signIn, guestId, continueAsGuest } = useAuth();
 
   const handleLogin = async (): Promise<void> => {
     console.log('🔍 Login attempt started');
@@ -232,6 +232,17 @@ export default function LoginScreen({ navigation }: Props): React.JSX.Element {
           </Text>
         </TouchableOpacity>
 
+        {/* Guest mode - data stays on device and moves into the account on sign up */}
+        <TouchableOpacity
+          style={styles.guestLink}
+          onPress={continueAsGuest}
+          disabled={loading}
+        >
+          <Text style={styles.guestLinkText}>
+            {guestId ? 'Back to my habits without an account' : 'Try it without an account'}
+          </Text>
+        </TouchableOpacity>
+
         {/* Dev Mode Test Logins - Remove in production */}
         {__DEV__ && (
           <TouchableOpacity
@@ -390,6 +401,15 @@ const styles = StyleSheet.create({
     fontFamily: 'Manrope_600SemiBold',
     color: '#111827',
   },
+  guestLink: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  guestLinkText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textDecorationLine: 'underline',
+  },
   errorContainer: {
     backgroundColor: '#FEF2F2',
     borderRadius: 8,
@@ -10,21 +10,26 @@ import {
 import CommitmentGrid from '@/components/CommitmentGrid';
 import AddCommitmentModal from '@/components/AddCommitmentModal';
 import CommitmentDetailsModal from '@/components/CommitmentDetailsModal';
+import PlanSkipsModal from '@/components/PlanSkipsModal';
+import CustomSkipIcon from '@/components/CustomSkipIcon';
 import CommitmentOrderingModalR2 from '@/components/CommitmentOrderingModalR2';
 import ViewToggle from '@/components/ViewToggle';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
-import { addCommitment, setCommitments, updateCommitment, selectActiveCommitments, archiveCommitmentThunk, restoreCommitmentThunk, softDeleteCommitmentThunk, permanentDeleteCommitmentThunk, type Commitment } from '@/store/slices/commitmentsSlice';
+import { addCommitment, setCommitments, updateCommitment, mapCommitmentUpdatesToDb, mapDbCommitment, selectActiveCommitments, archiveCommitmentThunk, restoreCommitmentThunk, softDeleteCommitmentThunk, permanentDeleteCommitmentThunk, loadStreaksThunk, loadSuccessCriteriaThunk, loadCommitmentVersionsThunk, createCommitmentVersionThunk, type Commitment } from '@/store/slices/commitmentsSlice';
 import { selectActiveOrdered } from '@/store/selectors/commitmentsOrder';
 import { selectActiveLayoutItemsOrdered } from '@/store/slices/layoutItemsSlice';
-import { toggleRecord, setRecordStatus, setRecords, loadAllRecordsThunk, type RecordStatus } from '@/store/slices/recordsSlice';
+import { toggleRecord, setRecordStatus, loadAllRecordsThunk, type RecordStatus } from '@/store/slices/recordsSlice';
 import { addToQueue } from '@/store/slices/syncSlice';
-import { loadInitialDataFromDatabase } from '@/store/middleware/databaseMiddleware';
 import { useFontStyle } from '@/hooks/useFontStyle';
 import { useThemedStyles } from '@/hooks/useThemedStyles';
+import { useSemanticColors } from '@/contexts/ThemeContext';
 import { getTodayISO, getTodayDisplayDate, getCurrentTimestamp } from '@/utils/timeUtils';
 import { getGridColors } from '@/components/grids/gridPalette';
 import { normalizeUnit } from '@/utils/unitUtils';
+import type { CommitmentVersionSettings } from '@/utils/commitmentVersions';
 import { rankAfter } from '@/utils/rank';
+import { toRecordEntries, type RecordEntry } from '@/utils/recordEntries';
+import { getPlannedSkipDays, getPlannedSkipsInRange } from '@/utils/plannedSkips';
 import { isFeatureEnabled } from '@/config/features';
 import { useAuth } from '@/contexts/AuthContext';
 import { getUserCommitments, createCommitment, updateCommitment as updateCommitmentService, upsertCommitmentRecord, getCommitmentRecords, deleteCommitmentRecordByDate, seedOrderRanksIfNeeded } from '@/services/commitments';
@@ -35,7 +40,9 @@ import FriendOrderingModalR2 from '@/components/FriendOrderingModalR2';
 import { selectFriendsOrdered } from '@/store/selectors/friendsOrder';
 import { loadFriendsRoster } from '@/store/slices/socialSlice';
 import { seedFriendOrderRanksOnce } from '@/utils/seedFriendOrderRanks';
-import { triggerManualSync, setSyncUserId } from '@/services/syncScheduler';
+import { triggerManualSync, setSyncUserId } from '@/services/syncEngine';
+import { hydrateFromLocalStore, replaceWithServerData } from '@/services/localRepository';
+import { getSessionSignal } from '@/services/sessionSignal';
 import { since } from '@/_shared/perf';
 
 export default function DashboardScreen(): React.JSX.Element {
@@ -43,11 +50,13 @@ export default function DashboardScreen(): React.JSX.Element {
   const commitments = useAppSelector(selectActiveOrdered);
   const layoutItems = useAppSelector(selectActiveLayoutItemsOrdered);
   const records = useAppSelector(state => state.records.records);
-  const { user } = useAuth();
+  const syncQueue = useAppSelector(state => state.sync.queue);
+  const { user, ownerId } = useAuth();
   
   const fontStyle = useFontStyle();
   const boldFontStyle = useFontStyle(undefined, 'bold');
   const semiBoldFontStyle = useFontStyle(undefined, 'semiBold');
+  const semanticColors = useSemanticColors();
 
   const styles = useThemedStyles(({ semanticColors, mode, colors }) => {
     const gridColors = getGridColors(mode);
@@ -96,6 +105,15 @@ export default function DashboardScreen(): React.JSX.Element {
       color: semanticColors.sectionBackground,
       fontSize: 24,
     },
+    vacationButton: {
+      width: 44,
+      height: 44,
+      borderRadius: 22,
+      borderWidth: 1,
+      borderColor: semanticColors.primaryText,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
     statsContainer: {
       flexDirection: 'row',
       paddingHorizontal: 20,
@@ -235,9 +253,9 @@ export default function DashboardScreen(): React.JSX.Element {
   const isLoadingRef = useRef(false);
   const lastLoadedUserIdRef = useRef<string | null>(null);
 
-  // Load authenticated user's data
+  // Load the user's data (a guest's lives only on device)
   useEffect(() => {
-    const currentUserId = user?.id;
+    const currentUserId = ownerId;
 
     console.log('🔄 [DEBUG] Dashboard useEffect triggered:', {
       userId: currentUserId,
@@ -255,13 +273,24 @@ export default function DashboardScreen(): React.JSX.Element {
     const loadUserData = async () => {
       isLoadingRef.current = true;
       console.log('📊 Loading data for authenticated user:', currentUserId);
-      
+      // Aborted on sign-out so a slow load can't fill the next user's dashboard
+      const requestOptions = { signal: getSessionSignal() };
+
+      // Show the working set saved on device straight away - the fetches below reconcile it with the server
+      await dispatch(hydrateFromLocalStore(currentUserId));
+
       try {
+        // Guests have nothing on the server until they create an account
+        if (!user) {
+          return;
+        }
+
         // Load user's commitments from Supabase
-        const { commitments: userCommitments, error } = await getUserCommitments(user.id);
+        const { commitments: userCommitments, error } = await getUserCommitments(user.id, requestOptions);
+        if (requestOptions.signal.aborted) return;
         
         if (error) {
-          console.error('❌ Error loading user commitments:', error);
+          console.error('❌ Error loading user commitments (keeping local data):', error);
           return;
         }
 
@@ -269,48 +298,25 @@ export default function DashboardScreen(): React.JSX.Element {
         
         if (userCommitments && userCommitments.length > 0) {
           // Convert Supabase data to Redux format
-          const convertedCommitments = userCommitments.map(c => ({
-            id: c.id,
-            userId: c.user_id,
-            title: c.title,
-            description: c.description || undefined,
-            color: c.color,
-            // New commitment type architecture
-            commitmentType: c.commitment_type || 'checkbox', // Default to checkbox for existing commitments
-            target: c.target,
-            unit: c.unit,
-            requirements: c.requirements,
-            ratingRange: c.rating_range,
-            showValues: c.show_values,
-            // Legacy fields for backward compatibility
-            type: c.commitment_type === 'checkbox' && !c.requirements ? 'binary' as const :
-                  c.commitment_type === 'checkbox' && c.requirements ? 'binary' as const :
-                  c.commitment_type === 'measurement' && c.rating_range ? 'counter' as const : 'timer' as const,
-            streak: 0, // Will be calculated from records
-            bestStreak: 0, // Will be calculated from records
-            isActive: c.is_active,
-            isPrivate: c.is_private || false, // Use database value, default to false
-            createdAt: c.created_at,
-            updatedAt: c.updated_at,
-            // Archive and soft delete fields
-            archived: c.archived || false,
-            deletedAt: c.deleted_at || null,
-            // Order ranking fields
-            order_rank: c.order_rank || '',
-            last_active_rank: c.last_active_rank || null,
-          }));
-
-          dispatch(setCommitments(convertedCommitments));
+          const convertedCommitments = userCommitments.map(mapDbCommitment);
+
+          dispatch(replaceWithServerData({ commitments: convertedCommitments }));
           console.log('✅ User commitments loaded into Redux');
 
+          await dispatch(loadSuccessCriteriaThunk(requestOptions));
+          if (requestOptions.signal.aborted) return;
+
+          await dispatch(loadCommitmentVersionsThunk(requestOptions));
+          if (requestOptions.signal.aborted) return;
+
           // Load user's layout items from Supabase
           try {
             const { getUserLayoutItems } = await import('@/services/layoutItems');
-            const userLayoutItems = await getUserLayoutItems(user.id);
+            const userLayoutItems = await getUserLayoutItems(user.id, requestOptions);
+            if (requestOptions.signal.aborted) return;
 
             if (userLayoutItems && userLayoutItems.length > 0) {
-              const { setLayoutItems } = await import('@/store/slices/layoutItemsSlice');
-              dispatch(setLayoutItems(userLayoutItems));
+              dispatch(replaceWithServerData({ layoutItems: userLayoutItems }));
               console.log('✅ User layout items loaded into Redux:', userLayoutItems.length);
             } else {
               console.log('📥 No layout items found for user');
@@ -344,7 +350,7 @@ export default function DashboardScreen(): React.JSX.Element {
           }
         } else {
           console.log('📝 No commitments found for user');
-          dispatch(setCommitments([]));
+          dispatch(replaceWithServerData({ commitments: [] }));
         }
         
         // Load user's records for the last 30 days
@@ -362,11 +368,12 @@ export default function DashboardScreen(): React.JSX.Element {
 
           // Get records for all commitments
           const recordsPromises = userCommitments.map(commitment => 
-            getCommitmentRecords(commitment.id, startDate, endDate)
+            getCommitmentRecords(commitment.id, startDate, endDate, requestOptions)
           );
 
           try {
             const recordsResults = await Promise.all(recordsPromises);
+            if (requestOptions.signal.aborted) return;
             const allRecords = recordsResults.flatMap(result => result.data || []);
             
             // Convert to Redux format
@@ -377,7 +384,9 @@ export default function DashboardScreen(): React.JSX.Element {
               date: r.completed_at.split('T')[0], // Extract date part
               status: r.status === 'complete' ? 'completed' : r.status as RecordStatus,
               value: r.value, // Preserve the actual value from database!
+              entries: toRecordEntries((r as any).entries),
               notes: r.notes || undefined,
+              isFuturePrefill: (r as any).is_future_prefill || undefined,
               createdAt: r.created_at,
               updatedAt: r.updated_at || r.created_at,
             }));
@@ -394,8 +403,11 @@ export default function DashboardScreen(): React.JSX.Element {
               })));
             }
 
-            dispatch(setRecords(convertedRecords));
+            dispatch(replaceWithServerData({ records: convertedRecords }));
             console.log('TTFS(ms)', since('app:start'));
+
+            // Streaks continue from the server's cache, which covers history older than these records
+            await dispatch(loadStreaksThunk(requestOptions));
           } catch (recordError) {
             console.error('❌ Error loading records:', recordError);
           }
@@ -410,7 +422,7 @@ export default function DashboardScreen(): React.JSX.Element {
     };
 
     loadUserData();
-  }, [user?.id, dispatch]);
+  }, [ownerId, dispatch]);
 
   // Separate effect for loading friends roster (ensures it always runs when user changes)
   useEffect(() => {
@@ -437,7 +449,7 @@ export default function DashboardScreen(): React.JSX.Element {
   useEffect(() => {
     let timer: NodeJS.Timeout | null = null;
     
-    if (!user?.id && commitments.length === 0) {
+    if (!ownerId && commitments.length === 0) {
       timer = setTimeout(() => {
         const sampleCommitments: Commitment[] = [
           {
@@ -535,9 +547,10 @@ export default function DashboardScreen(): React.JSX.Element {
         clearTimeout(timer);
       }
     };
-  }, [user?.id, commitments.length]);
+  }, [ownerId, commitments.length]);
 
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showVacationModal, setShowVacationModal] = useState(false);
   const [viewMode, setViewMode] = useState<'daily' | 'weekly'>('daily');
   const [showCommitmentDetailsModal, setShowCommitmentDetailsModal] = useState(false);
   const [showOrderingModalR2, setShowOrderingModalR2] = useState(false);
@@ -560,7 +573,7 @@ export default function DashboardScreen(): React.JSX.Element {
   const onRefresh = async () => {
     setRefreshing(true);
     try {
-      // Ensure sync scheduler has current user ID before triggering sync
+      // Ensure the sync engine has current user ID before triggering sync
       if (user?.id) {
         setSyncUserId(user.id);
       }
@@ -579,18 +592,25 @@ export default function DashboardScreen(): React.JSX.Element {
     console.log('📱 Cell press delegated to CommitmentGrid for quick options');
   };
 
-  const handleSetRecordStatus = (commitmentId: string, date: string, status: RecordStatus, value?: any, notes?: string) => {
-    if (!user?.id) {
+  const handleSetRecordStatus = (
+    commitmentId: string,
+    date: string,
+    status: RecordStatus,
+    value?: any,
+    entries?: RecordEntry[],
+    notes?: string
+  ) => {
+    if (!ownerId) {
       console.error('❌ Cannot update record: No authenticated user');
       return;
     }
 
 
     // STEP 1: Optimistic update - immediately update Redux state for instant UI feedback
-    dispatch(setRecordStatus({ commitmentId, date, status, value }));
+    dispatch(setRecordStatus({ commitmentId, date, status, value, entries }));
 
     // STEP 2: Check if there's any user data worth preserving
-    const hasUserData = value !== undefined || notes !== undefined;
+    const hasUserData = value !== undefined || notes !== undefined || Boolean(entries?.length);
 
     // STEP 3: Add to sync queue for background database sync
     if (status !== 'none' || hasUserData) {
@@ -599,13 +619,15 @@ export default function DashboardScreen(): React.JSX.Element {
         commitment_id: commitmentId,
         completed_at: `${date}T12:00:00Z`,
         notes: notes || null,
-        user_id: user.id,
+        user_id: ownerId,
         status: status === 'completed' ? 'complete' : status,
         value: value === undefined ? null : value,
+        // Left out when only the status changed, so the day's logged entries stay on the server
+        ...(entries !== undefined && { entries: entries as any[] }),
       };
 
       dispatch(addToQueue({
-        type: 'CREATE',
+        op: 'recordUpsert',
         entity: 'record',
         entityId: `${commitmentId}_${date}`,
         data: recordData
@@ -613,7 +635,7 @@ export default function DashboardScreen(): React.JSX.Element {
     } else {
       // DELETE record - only when status is 'none' AND no user data exists
       dispatch(addToQueue({
-        type: 'DELETE',
+        op: 'recordDelete',
         entity: 'record',
         entityId: `${commitmentId}_${date}`,
         data: {
@@ -626,81 +648,155 @@ export default function DashboardScreen(): React.JSX.Element {
     console.log('✅ Record update queued for sync');
   };
 
+  // Mark days skipped ahead of time - days already logged are left as they are
+  const handlePlanSkips = (commitmentIds: string[], startDate: string, endDate: string) => {
+    if (!ownerId) {
+      console.error('❌ Cannot plan skips: No authenticated user');
+      return;
+    }
+
+    const planned = getPlannedSkipDays(
+      commitments.filter(c => commitmentIds.includes(c.id)),
+      records,
+      startDate,
+      endDate
+    );
+    console.log('🏖️ Planning skips:', { commitments: commitmentIds.length, startDate, endDate, days: planned.length });
+
+    planned.forEach(({ commitmentId, date }) => {
+      dispatch(setRecordStatus({ commitmentId, date, status: 'skipped', isFuturePrefill: true }));
+      dispatch(addToQueue({
+        op: 'recordUpsert',
+        entity: 'record',
+        entityId: `${commitmentId}_${date}`,
+        data: {
+          commitment_id: commitmentId,
+          completed_at: `${date}T12:00:00Z`,
+          notes: null,
+          user_id: ownerId,
+          status: 'skipped',
+          value: null,
+          is_future_prefill: true,
+        }
+      }));
+    });
+  };
+
+  const handleClearPlannedSkips = (commitmentIds: string[], startDate: string, endDate: string) => {
+    const planned = getPlannedSkipsInRange(commitmentIds, records, startDate, endDate);
+    console.log('🏖️ Clearing planned skips:', { commitments: commitmentIds.length, startDate, endDate, days: planned.length });
+
+    planned.forEach(({ commitmentId, date }) => handleSetRecordStatus(commitmentId, date, 'none'));
+  };
+
   const handleAddCommitment = async (commitmentData: Omit<Commitment, 'id' | 'userId' | 'createdAt' | 'updatedAt'>) => {
-    if (!user?.id) {
+    if (!ownerId) {
       console.error('❌ Cannot add commitment: No authenticated user');
       return;
     }
 
-    console.log('➕ Adding commitment for user:', user.id);
-    
-    try {
-      // Normalize unit for consistent database storage
-      const normalizedUnit = commitmentData.unit ? normalizeUnit(commitmentData.unit) : undefined;
+    console.log('➕ Adding commitment for user:', ownerId);
 
-      // Assign order rank - place new commitments at the end
-      const lastCommitment = commitments[commitments.length - 1];
-      const newOrderRank = rankAfter(lastCommitment?.order_rank || null);
+    // Normalize unit for consistent database storage
+    const normalizedUnit = commitmentData.unit ? normalizeUnit(commitmentData.unit) : undefined;
 
-      // Save to Supabase first
-      const supabaseData = {
-        user_id: user.id,
-        title: commitmentData.title,
-        description: commitmentData.description || null,
-        color: commitmentData.color,
-        target_days: commitmentData.target || 30,
-        is_active: true,
-        is_private: commitmentData.isPrivate || false,
-        // New commitment type architecture
-        commitment_type: commitmentData.commitmentType,
-        target: commitmentData.target,
-        unit: normalizedUnit,
-        requirements: commitmentData.requirements,
-        rating_range: commitmentData.ratingRange,
-        // Order ranking
-        order_rank: newOrderRank,
-        // Note: 'type' field doesn't exist in current schema
-        // tracking_mode and other Phase 0 fields will be used later
-      };
+    // Assign order rank - place new commitments at the end
+    const lastCommitment = commitments[commitments.length - 1];
+    const newOrderRank = rankAfter(lastCommitment?.order_rank || null);
 
-      console.log('💾 Saving commitment to Supabase...');
-      const { data, error } = await createCommitment(supabaseData);
-      
-      if (error) {
-        console.error('❌ Failed to save commitment to database:', error);
-        // Still add to Redux for offline functionality
-      } else {
-        console.log('✅ Commitment saved to database:', data?.id);
-      }
+    const supabaseData = {
+      user_id: ownerId,
+      title: commitmentData.title,
+      description: commitmentData.description || null,
+      color: commitmentData.color,
+      target_days: commitmentData.target || 30,
+      is_active: true,
+      is_private: commitmentData.isPrivate || false,
+      // New commitment type architecture
+      commitment_type: commitmentData.commitmentType,
+      target: commitmentData.target,
+      unit: normalizedUnit,
+      requirements: commitmentData.requirements,
+      rating_range: commitmentData.ratingRange,
+      show_values: commitmentData.showValues,
+      schedule: commitmentData.schedule || null,
+      entry_aggregate: commitmentData.entryAggregate || null,
+      // Order ranking
+      order_rank: newOrderRank,
+      // Note: 'type' field doesn't exist in current schema
+      // tracking_mode and other Phase 0 fields will be used later
+    };
 
-      // Add to Redux (use Supabase ID if available, fallback to timestamp)
+    // Add to Redux (use Supabase ID if available, fallback to temp ID until sync)
+    const addLocalCommitment = (id: string) => {
       const newCommitment: Commitment = {
         ...commitmentData,
         unit: normalizedUnit, // Use normalized unit in Redux as well
-        id: data?.id || Date.now().toString(),
-        userId: user.id,
+        id,
+        userId: ownerId,
         createdAt: getCurrentTimestamp(),
         updatedAt: getCurrentTimestamp(),
         order_rank: newOrderRank,
         last_active_rank: null,
       };
-      
       dispatch(addCommitment(newCommitment));
-      
+
+      // Thresholds live in their own table, written once the commitment exists
+      if (commitmentData.successCriteria) {
+        dispatch(addToQueue({
+          op: 'successCriteriaSet',
+          entity: 'commitment',
+          entityId: id,
+          data: { criteria: commitmentData.successCriteria },
+        }));
+      }
+      if (commitmentData.requiredConditions) {
+        dispatch(addToQueue({
+          op: 'requiredConditionsSet',
+          entity: 'commitment',
+          entityId: id,
+          data: {
+            required_conditions: commitmentData.requiredConditions,
+            total_conditions: commitmentData.requirements?.length ?? 0,
+          },
+        }));
+      }
+    };
+
+    // Keep the commitment locally and let the sync queue insert it once we're back online
+    const queueOfflineCreate = () => {
+      const tempId = `temp-${Date.now()}`;
+      addLocalCommitment(tempId);
+      dispatch(addToQueue({
+        op: 'commitmentCreate',
+        entity: 'commitment',
+        entityId: tempId,
+        data: supabaseData
+      }));
+    };
+
+    // Guest commitments stay local until the guest links an account
+    if (!user) {
+      queueOfflineCreate();
+      return;
+    }
+
+    try {
+      // Save to Supabase first
+      console.log('💾 Saving commitment to Supabase...');
+      const { data, error } = await createCommitment(supabaseData);
+
+      if (error || !data) {
+        console.error('❌ Failed to save commitment to database:', error);
+        queueOfflineCreate();
+        return;
+      }
+
+      console.log('✅ Commitment saved to database:', data.id);
+      addLocalCommitment(data.id);
     } catch (error) {
       console.error('💥 Unexpected error saving commitment:', error);
-      // Still add to Redux for offline functionality
-      const newCommitment: Commitment = {
-        ...commitmentData,
-        unit: normalizedUnit, // Use normalized unit in fallback case too
-        id: Date.now().toString(),
-        userId: user.id,
-        createdAt: getCurrentTimestamp(),
-        updatedAt: getCurrentTimestamp(),
-        order_rank: newOrderRank,
-        last_active_rank: null,
-      };
-      dispatch(addCommitment(newCommitment));
+      queueOfflineCreate();
     }
   };
 
@@ -717,73 +813,84 @@ export default function DashboardScreen(): React.JSX.Element {
 
     // Add to sync queue for database persistence
     dispatch(addToQueue({
-      type: 'UPDATE',
+      op: 'showValues',
       entity: 'commitment',
       entityId: commitmentId,
       data: {
-        id: commitmentId,
         show_values: showValues,
-        idempotencyKey: `${user?.id}:${commitmentId}:showValues:${Date.now()}`
       }
     }));
   };
 
+  const handleCreateVersion = (
+    id: string,
+    settings: Partial<CommitmentVersionSettings>,
+    effectiveFrom: string,
+    changeNote: string | null
+  ) => {
+    console.log('🔄 Starting new commitment version:', { id, effectiveFrom, fields: Object.keys(settings) });
+
+    // Normalize unit for consistent database storage
+    const normalizedSettings = settings.unit !== undefined
+      ? { ...settings, unit: normalizeUnit(settings.unit) }
+      : settings;
+
+    dispatch(createCommitmentVersionThunk(id, normalizedSettings, effectiveFrom, changeNote));
+  };
+
   const handleUpdateCommitment = async (id: string, updates: Partial<Commitment>) => {
-    if (!user?.id) {
+    if (!ownerId) {
       console.error('❌ Cannot update commitment: No authenticated user');
       return;
     }
 
+    // Normalize unit for consistent database storage
+    const normalizedUpdates = updates.unit !== undefined
+      ? { ...updates, unit: normalizeUnit(updates.unit) }
+      : updates;
+
+    const queueFieldUpdate = (supabaseUpdates: Record<string, any>) => {
+      dispatch(addToQueue({
+        op: 'commitmentUpdate',
+        entity: 'commitment',
+        entityId: id,
+        data: { updates: supabaseUpdates }
+      }));
+    };
+
+    // Convert Redux commitment updates to Supabase format
+    const supabaseUpdates = mapCommitmentUpdatesToDb(normalizedUpdates);
+
+    // Earlier offline edits are still queued - queue behind them so they can't overwrite this one
+    const hasQueuedEdits = syncQueue.some(item =>
+      item.entity === 'commitment' && item.entityId === id && (item.op === 'commitmentCreate' || item.op === 'commitmentUpdate')
+    );
+    if (hasQueuedEdits) {
+      queueFieldUpdate(supabaseUpdates);
+      dispatch(updateCommitment({ id, updates: normalizedUpdates }));
+      return;
+    }
+
     try {
       console.log('📝 Updating commitment:', id, updates);
-      
-      // Convert Redux commitment updates to Supabase format
-      const supabaseUpdates: any = {};
-      
-      if (updates.title !== undefined) {
-        supabaseUpdates.title = updates.title;
-      }
-      if (updates.description !== undefined) {
-        supabaseUpdates.description = updates.description || null;
-      }
-      if (updates.color !== undefined) {
-        supabaseUpdates.color = updates.color;
-      }
-      if (updates.target !== undefined) {
-        supabaseUpdates.target = updates.target;
-      }
-      if (updates.unit !== undefined) {
-        supabaseUpdates.unit = normalizeUnit(updates.unit);
-      }
-      if (updates.requirements !== undefined) {
-        supabaseUpdates.requirements = updates.requirements;
-      }
-      if (updates.commitmentType !== undefined) {
-        supabaseUpdates.commitment_type = updates.commitmentType;
-      }
-      
+
       // Update in Supabase
       const { error } = await updateCommitmentService(id, supabaseUpdates);
-      
+
       if (error) {
         console.error('❌ Failed to update commitment in database:', error);
-        // Still update Redux for offline functionality
+        // Still update Redux for offline functionality and queue the edit for later
+        queueFieldUpdate(supabaseUpdates);
       } else {
         console.log('✅ Commitment updated in database');
       }
-      
-      // Update Redux state with normalized unit
-      const normalizedUpdates = updates.unit !== undefined
-        ? { ...updates, unit: normalizeUnit(updates.unit) }
-        : updates;
+
       dispatch(updateCommitment({ id, updates: normalizedUpdates }));
-      
+
     } catch (error) {
       console.error('💥 Error updating commitment:', error);
       // Still update Redux for offline functionality with normalized unit
-      const normalizedUpdates = updates.unit !== undefined
-        ? { ...updates, unit: normalizeUnit(updates.unit) }
-        : updates;
+      queueFieldUpdate(supabaseUpdates);
       dispatch(updateCommitment({ id, updates: normalizedUpdates }));
     }
   };
@@ -838,6 +945,13 @@ export default function DashboardScreen(): React.JSX.Element {
             </Text>
           </View>
           <View style={styles.headerRight}>
+            <TouchableOpacity
+              style={styles.vacationButton}
+              onPress={() => setShowVacationModal(true)}
+              accessibilityLabel="Plan skips for all commitments"
+            >
+              <CustomSkipIcon size={18} color={semanticColors.primaryText} />
+            </TouchableOpacity>
             <TouchableOpacity
               style={styles.addButton}
               onPress={() => setShowAddModal(true)}
@@ -962,6 +1076,9 @@ export default function DashboardScreen(): React.JSX.Element {
         }}
         commitmentId={selectedCommitmentId}
         onUpdateCommitment={handleUpdateCommitment}
+        onCreateVersion={handleCreateVersion}
+        onPlanSkips={(id, startDate, endDate) => handlePlanSkips([id], startDate, endDate)}
+        onClearPlannedSkips={(id, startDate, endDate) => handleClearPlannedSkips([id], startDate, endDate)}
         onToggleShowValues={handleToggleShowValues}
         notes={getCommitmentNotes()}
         onArchive={handleArchiveCommitment}
@@ -975,6 +1092,13 @@ export default function DashboardScreen(): React.JSX.Element {
       />
 
 
+      <PlanSkipsModal
+        visible={showVacationModal}
+        onClose={() => setShowVacationModal(false)}
+        onPlan={(startDate, endDate) => handlePlanSkips(commitments.map(c => c.id), startDate, endDate)}
+        onClearPlanned={(startDate, endDate) => handleClearPlannedSkips(commitments.map(c => c.id), startDate, endDate)}
+      />
+
       <CommitmentOrderingModalR2
         visible={showOrderingModalR2}
         onClose={() => setShowOrderingModalR2(false)}
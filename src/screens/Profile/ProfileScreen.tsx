@@ -20,9 +20,13 @@ import {
   updateNotificationSettings,
   updatePrivacySettings,
   updateFeatureFlags,
+  updateSyncPolicy,
+  selectSyncPolicy,
+  type SyncPolicy,
   resetSettings,
 } from '@/store/slices/settingsSlice';
 import { supabase } from '@/services/supabase';
+import { updateProfile } from '@/services/profiles';
 import AnimalAvatar from '@/components/AnimalAvatar';
 import AvatarSelector from '@/components/AvatarSelector';
 import NameEditModal from '@/components/NameEditModal';
@@ -51,9 +55,10 @@ interface ProfileScreenProps {
 }
 
 export default function ProfileScreen({ navigation }: ProfileScreenProps): React.JSX.Element {
-  const { user, signOut } = useAuth();
+  const { user, signOut, isGuest, requestAccount } = useAuth();
   const dispatch = useAppDispatch();
   const { notifications, preferences, privacy, featureFlags } = useAppSelector(state => state.settings);
+  const syncPolicy = useAppSelector(selectSyncPolicy);
   
   // UI state
   const [showSettings, setShowSettings] = useState(false);
@@ -173,22 +178,12 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps): React
     try {
       console.log('Updating avatar with:', { animal, color, userId: user.id });
       
-      const { error } = await supabase
-        .from('profiles')
-        .update({
-          avatar_animal: animal,
-          avatar_color: color,
-        })
-        .eq('id', user.id);
+      const { queued, error } = await updateProfile(user.id, {
+        avatar_animal: animal,
+        avatar_color: color,
+      });
 
       if (error) {
-        console.error('Detailed error updating avatar:', {
-          error,
-          message: error.message,
-          details: error.details,
-          hint: error.hint,
-          code: error.code
-        });
         Alert.alert('Error', `Failed to update avatar: ${error.message}`);
       } else {
         // Update local state
@@ -198,7 +193,9 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps): React
           avatar_color: color,
         } : null);
         
-        Alert.alert('Success', 'Avatar updated successfully!');
+        Alert.alert('Success', queued
+          ? "Avatar saved - it will sync when you're back online."
+          : 'Avatar updated successfully!');
       }
     } catch (error) {
       console.error('Catch block error updating avatar:', error);
@@ -210,20 +207,18 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps): React
     if (!user?.id) return;
 
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .update({ full_name: newName })
-        .eq('id', user.id);
+      const { queued, error } = await updateProfile(user.id, { full_name: newName });
 
       if (error) {
-        console.error('Error updating name:', error);
         throw error;
       }
 
       // Update local state
       setUserProfile(prev => prev ? { ...prev, full_name: newName } : null);
       
-      Alert.alert('Success', 'Name updated successfully!');
+      Alert.alert('Success', queued
+        ? "Name saved - it will sync when you're back online."
+        : 'Name updated successfully!');
     } catch (error) {
       console.error('Error updating name:', error);
       throw error;
@@ -312,6 +307,10 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps): React
     dispatch(updatePrivacySettings({ [key]: value }));
   };
 
+  const handleSyncPolicyChange = (key: keyof SyncPolicy, value: boolean) => {
+    dispatch(updateSyncPolicy({ [key]: value }));
+  };
+
   const handleFeatureFlagChange = (value: boolean) => {
     dispatch(updateFeatureFlags({ sync: { useSystemSurfaces: value } }));
   };
@@ -530,6 +529,49 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps): React
         </View>
       </View>
 
+      {/* Sync */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Sync</Text>
+        <View style={styles.settingsList}>
+          <View style={styles.settingItem}>
+            <View style={styles.settingContent}>
+              <Text style={styles.settingLabel}>Friend Charts on Wi-Fi Only</Text>
+              <Text style={styles.settingSubtitle}>Don't load friends' progress over cellular data</Text>
+            </View>
+            <Switch
+              value={syncPolicy.friendChartsOnWifiOnly}
+              onValueChange={(val) => handleSyncPolicyChange('friendChartsOnWifiOnly', val)}
+              trackColor={{ false: '#E5E7EB', true: '#111827' }}
+              thumbColor={syncPolicy.friendChartsOnWifiOnly ? '#FFFFFF' : '#9CA3AF'}
+            />
+          </View>
+          <View style={styles.settingItem}>
+            <View style={styles.settingContent}>
+              <Text style={styles.settingLabel}>Pause Background Sync on Cellular</Text>
+              <Text style={styles.settingSubtitle}>Only check for changes from other devices when you open or refresh the app</Text>
+            </View>
+            <Switch
+              value={syncPolicy.pauseBackgroundPullOnCellular}
+              onValueChange={(val) => handleSyncPolicyChange('pauseBackgroundPullOnCellular', val)}
+              trackColor={{ false: '#E5E7EB', true: '#111827' }}
+              thumbColor={syncPolicy.pauseBackgroundPullOnCellular ? '#FFFFFF' : '#9CA3AF'}
+            />
+          </View>
+          <View style={styles.settingItem}>
+            <View style={styles.settingContent}>
+              <Text style={styles.settingLabel}>Adaptive Sync</Text>
+              <Text style={styles.settingSubtitle}>Check less often when nothing changes to save battery</Text>
+            </View>
+            <Switch
+              value={syncPolicy.adaptivePullInterval}
+              onValueChange={(val) => handleSyncPolicyChange('adaptivePullInterval', val)}
+              trackColor={{ false: '#E5E7EB', true: '#111827' }}
+              thumbColor={syncPolicy.adaptivePullInterval ? '#FFFFFF' : '#9CA3AF'}
+            />
+          </View>
+        </View>
+      </View>
+
       {/* Advanced */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Advanced</Text>
@@ -583,21 +625,33 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps): React
       {/* Account Actions */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Account</Text>
-        <View style={styles.settingsList}>
-          <TouchableOpacity style={styles.settingItem} onPress={handleLogout}>
-            <View style={styles.settingContent}>
-              <Text style={styles.settingLabel}>Logout</Text>
-            </View>
-            <Text style={styles.logoutText}>Logout</Text>
-          </TouchableOpacity>
-          <TouchableOpacity style={styles.settingItem} onPress={handleDeleteAccount}>
-            <View style={styles.settingContent}>
-              <Text style={styles.settingLabel}>Delete Account</Text>
-              <Text style={styles.settingSubtitle}>Permanently delete your account</Text>
-            </View>
-            <Text style={styles.deleteText}>Delete</Text>
-          </TouchableOpacity>
-        </View>
+        {isGuest ? (
+          <View style={styles.settingsList}>
+            <TouchableOpacity style={styles.settingItem} onPress={requestAccount}>
+              <View style={styles.settingContent}>
+                <Text style={styles.settingLabel}>Create Account</Text>
+                <Text style={styles.settingSubtitle}>Back up your habits and add friends</Text>
+              </View>
+              <Text style={styles.chevron}>›</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.settingsList}>
+            <TouchableOpacity style={styles.settingItem} onPress={handleLogout}>
+              <View style={styles.settingContent}>
+                <Text style={styles.settingLabel}>Logout</Text>
+              </View>
+              <Text style={styles.logoutText}>Logout</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.settingItem} onPress={handleDeleteAccount}>
+              <View style={styles.settingContent}>
+                <Text style={styles.settingLabel}>Delete Account</Text>
+                <Text style={styles.settingSubtitle}>Permanently delete your account</Text>
+              </View>
+              <Text style={styles.deleteText}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        )}
       </View>
 
       {/* Footer */}
@@ -0,0 +1,353 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import type { Commitment } from '@/store/slices/commitmentsSlice';
+import type { FriendRosterEntry } from '@/store/slices/socialSlice';
+import {
+  retryDeadLetter,
+  discardDeadLetter,
+  type DeadLetterItem,
+  type SyncConflict,
+} from '@/store/slices/syncSlice';
+import { offlineQueue } from '@/services/offlineQueue';
+import { triggerManualSync } from '@/services/syncEngine';
+import { resolveSyncConflict } from '@/services/conflictResolution';
+
+interface SyncIssuesScreenProps {
+  navigation: any;
+}
+
+const describeItem = (item: DeadLetterItem) => {
+  if (item.source === 'sync') {
+    const { action } = item;
+    return {
+      title: `${action.op} ${action.entity.replace('_', ' ')}`,
+      subtitle: action.entityId,
+      attempts: action.retryCount + 1,
+      queuedAt: action.timestamp,
+    };
+  }
+
+  const { outboxItem } = item;
+  return {
+    title: `${outboxItem.operation_type} ${outboxItem.table_name}`,
+    subtitle: outboxItem.record_id || 'new row',
+    attempts: outboxItem.retry_count,
+    queuedAt: outboxItem.created_at,
+  };
+};
+
+const describeConflict = (conflict: SyncConflict, commitments: Commitment[], roster: FriendRosterEntry[]) => {
+  const { entity, entityId, serverRow } = conflict;
+
+  switch (entity) {
+    case 'commitment':
+      return commitments.find(c => c.id === entityId)?.title || serverRow.title || 'Commitment';
+    case 'record': {
+      const title = commitments.find(c => c.id === serverRow.commitment_id)?.title || 'Record';
+      return `${title} • ${String(serverRow.completed_at).split('T')[0]}`;
+    }
+    case 'layout_item':
+      return serverRow.type === 'divider' ? 'Divider' : 'Spacer';
+    case 'friend_order':
+      return roster.find(r => r.id === entityId)?.displayName || 'Friend order';
+  }
+};
+
+const formatConflictValues = (values: Record<string, unknown> | null) => {
+  if (!values) return 'Deleted';
+
+  return Object.entries(values)
+    .map(([column, value]) => {
+      const display = value === null || value === undefined ? 'none' :
+        typeof value === 'object' ? JSON.stringify(value) : String(value);
+      return `${column.replace(/_/g, ' ')}: ${display}`;
+    })
+    .join(', ');
+};
+
+const formatTimestamp = (iso: string) => {
+  const date = new Date(iso);
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString()}`;
+};
+
+const SyncIssuesScreen: React.FC<SyncIssuesScreenProps> = ({ navigation }) => {
+  const dispatch = useAppDispatch();
+  const deadLetter = useAppSelector(state => state.sync.deadLetter) || [];
+  const conflicts = useAppSelector(state => state.sync.conflicts) || [];
+  const commitments = useAppSelector(state => state.commitments.commitments);
+  const roster = useAppSelector(state => state.social.roster);
+
+  const handleRetry = async (item: DeadLetterItem) => {
+    dispatch(retryDeadLetter(item.id));
+
+    if (item.source === 'outbox') {
+      await offlineQueue.requeue(item.outboxItem);
+      return;
+    }
+
+    // Joins a pass already in progress; offline, it waits for the reconnect pass
+    await triggerManualSync();
+  };
+
+  const handleDiscard = (item: DeadLetterItem) => {
+    Alert.alert(
+      'Discard Change',
+      'This change will never reach the server. Discard it?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: () => dispatch(discardDeadLetter(item.id)) },
+      ]
+    );
+  };
+
+  const renderConflict = (conflict: SyncConflict) => (
+    <View key={conflict.id} style={styles.issueItem}>
+      <View style={styles.issueInfo}>
+        <Text style={styles.issueTitle}>{describeConflict(conflict, commitments, roster)}</Text>
+        <Text style={styles.conflictValue}>
+          This device: {formatConflictValues(conflict.localValues)}
+        </Text>
+        <Text style={styles.conflictValue}>
+          Other device: {formatConflictValues(conflict.serverValues)}
+        </Text>
+        <Text style={styles.issueMeta}>
+          Showing {conflict.winner === 'local' ? 'this device' : 'the other device'} (edited last)
+        </Text>
+      </View>
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.retryButton]}
+          onPress={() => dispatch(resolveSyncConflict(conflict.id, 'local'))}
+        >
+          <Text style={[styles.actionText, styles.retryText]}>Keep Mine</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.keepOtherButton]}
+          onPress={() => dispatch(resolveSyncConflict(conflict.id, 'server'))}
+        >
+          <Text style={[styles.actionText, styles.keepOtherText]}>Keep Other</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderItem = (item: DeadLetterItem) => {
+    const details = describeItem(item);
+
+    return (
+      <View key={item.id} style={styles.issueItem}>
+        <View style={styles.issueInfo}>
+          <Text style={styles.issueTitle}>{details.title}</Text>
+          <Text style={styles.issueMeta} numberOfLines={1}>{details.subtitle}</Text>
+          <Text style={styles.issueMeta}>
+            Queued {formatTimestamp(details.queuedAt)} • {details.attempts} attempts
+          </Text>
+          {item.lastError ? (
+            <Text style={styles.issueError} numberOfLines={3}>{item.lastError}</Text>
+          ) : null}
+        </View>
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.retryButton]}
+            onPress={() => handleRetry(item)}
+          >
+            <Text style={[styles.actionText, styles.retryText]}>Retry</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.discardButton]}
+            onPress={() => handleDiscard(item)}
+          >
+            <Text style={[styles.actionText, styles.discardText]}>Discard</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>←</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Sync Issues</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {conflicts.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Conflicts ({conflicts.length})</Text>
+            <Text style={styles.sectionSubtitle}>
+              These were changed on this device and another one. The latest edit is shown - pick the version to keep
+            </Text>
+            <View>{conflicts.map(renderConflict)}</View>
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Failed Changes ({deadLetter.length})</Text>
+          <Text style={styles.sectionSubtitle}>
+            These changes could not be saved after several attempts
+          </Text>
+          {deadLetter.length > 0 ? (
+            <View>{deadLetter.map(renderItem)}</View>
+          ) : (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyText}>Everything is in sync</Text>
+            </View>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FAFAFA',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: 'white',
+  },
+  backButton: {
+    padding: 8,
+  },
+  backButtonText: {
+    fontSize: 20,
+    color: '#111827',
+    fontWeight: '400',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    textAlign: 'center',
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  section: {
+    marginBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  sectionSubtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  issueItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  issueInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  issueTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#111827',
+    marginBottom: 4,
+    textTransform: 'capitalize',
+  },
+  issueMeta: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginBottom: 2,
+  },
+  conflictValue: {
+    fontSize: 13,
+    color: '#374151',
+    marginBottom: 2,
+  },
+  issueError: {
+    fontSize: 13,
+    color: '#DC2626',
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'column',
+    gap: 6,
+  },
+  actionButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 6,
+    minWidth: 80,
+  },
+  retryButton: {
+    backgroundColor: '#ECFDF5',
+    borderWidth: 1,
+    borderColor: '#D1FAE5',
+  },
+  discardButton: {
+    backgroundColor: '#FEF2F2',
+    borderWidth: 1,
+    borderColor: '#FECACA',
+  },
+  keepOtherButton: {
+    backgroundColor: '#EFF6FF',
+    borderWidth: 1,
+    borderColor: '#DBEAFE',
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  retryText: {
+    color: '#059669',
+  },
+  discardText: {
+    color: '#DC2626',
+  },
+  keepOtherText: {
+    color: '#2563EB',
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 32,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#9CA3AF',
+    fontStyle: 'italic',
+  },
+});
+
+export default SyncIssuesScreen;
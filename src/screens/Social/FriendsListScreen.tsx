@@ -25,11 +25,12 @@ import {
   acceptFriendRequest,
   declineFriendRequest,
   cancelFriendRequest,
-  removeFriend,
   checkFriendshipStatus,
   type FriendProfile 
 } from '@/services/friends';
 import { triggerFriendsChartsRefresh } from '@/hooks/useFriendsCharts';
+import { useAppDispatch } from '@/store/hooks';
+import { unfriend } from '@/store/slices/socialSlice';
 import AnimalAvatar from '@/components/AnimalAvatar';
 import { AnimalType, ColorType } from '@/utils/avatarUtils';
 
@@ -53,6 +54,7 @@ interface Friend {
 
 export default function FriendsListScreen(): React.JSX.Element {
   const { user } = useAuth();
+  const dispatch = useAppDispatch();
   
   // Real friend data
   const [friends, setFriends] = useState<FriendProfile[]>([]);
@@ -330,10 +332,10 @@ export default function FriendsListScreen(): React.JSX.Element {
           onPress: async () => {
             setLoading(true);
             try {
-              const { error } = await removeFriend(friendId);
+              const { error } = await dispatch(unfriend(friendId));
               
               if (error) {
-                Alert.alert('Error', `Failed to remove friend: ${error.message}`);
+                Alert.alert('Error', `Failed to remove friend: ${error}`);
               } else {
                 Alert.alert('Success', 'Friend removed');
                 loadFriendsData(); // Reload data
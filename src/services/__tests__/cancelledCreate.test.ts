@@ -0,0 +1,73 @@
+/**
+ * Unit tests for entities deleted while their create request was in flight
+ */
+
+import { syncHandlers } from '../syncHandlers';
+import { createCommitment, permanentDelete } from '../commitments';
+import { setSessionUser } from '../sessionSignal';
+import type { SyncActionOf } from '@/store/slices/syncSlice';
+
+const mockQueue: Array<{ id: string; entity: string; entityId: string }> = [];
+const mockDispatch = jest.fn();
+
+jest.mock('@/store', () => ({
+  store: {
+    getState: () => ({ sync: { queue: mockQueue } }),
+    dispatch: (action: unknown) => mockDispatch(action),
+  },
+}));
+
+jest.mock('../commitments', () => ({
+  createCommitment: jest.fn(),
+  permanentDelete: jest.fn(),
+}));
+
+const mockCreate = createCommitment as jest.Mock;
+const mockPermanentDelete = permanentDelete as jest.Mock;
+
+const create: SyncActionOf<'commitmentCreate'> = {
+  id: 'a1',
+  op: 'commitmentCreate',
+  entity: 'commitment',
+  entityId: 'temp-1',
+  data: { user_id: 'u1', title: 'Read' },
+  timestamp: new Date().toISOString(),
+  retryCount: 0,
+};
+
+const serverRow = { id: 'real-1', user_id: 'u1', title: 'Read' };
+
+describe('commitmentCreate', () => {
+  beforeEach(() => {
+    mockQueue.length = 0;
+    mockQueue.push(create);
+    mockDispatch.mockClear();
+    mockCreate.mockReset();
+    mockPermanentDelete.mockReset().mockResolvedValue({ error: null });
+    setSessionUser('u1');
+  });
+
+  afterEach(() => {
+    setSessionUser(null);
+  });
+
+  test('deletes the server row when the commitment was deleted during the create', async () => {
+    mockCreate.mockImplementation(async () => {
+      // Deleting the commitment drops the queued create (and the delete with it)
+      mockQueue.length = 0;
+      return { data: serverRow, error: null };
+    });
+
+    await syncHandlers.commitmentCreate(create, {});
+
+    expect(mockPermanentDelete).toHaveBeenCalledWith('real-1', {});
+  });
+
+  test('keeps the server row when the create is still queued', async () => {
+    mockCreate.mockResolvedValue({ data: serverRow, error: null });
+
+    await syncHandlers.commitmentCreate(create, {});
+
+    expect(mockPermanentDelete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for syncing queued commitment field edits
+ */
+
+import { syncHandlers } from '../syncHandlers';
+import { updateCommitment } from '../commitments';
+import { mapCommitmentUpdatesToDb, upsertCommitmentFromServer } from '@/store/slices/commitmentsSlice';
+import type { SyncActionOf } from '@/store/slices/syncSlice';
+
+const mockQueue: Array<{ id: string; entity: string; entityId: string }> = [];
+const mockDispatch = jest.fn();
+
+jest.mock('@/store', () => ({
+  store: {
+    getState: () => ({ sync: { queue: mockQueue } }),
+    dispatch: (action: unknown) => mockDispatch(action),
+  },
+}));
+
+jest.mock('../commitments', () => ({
+  updateCommitment: jest.fn(),
+}));
+
+const mockUpdate = updateCommitment as jest.Mock;
+
+// Every field the edit modal can change
+const edits = {
+  title: 'Read more',
+  description: 'Before bed',
+  color: '#10B981',
+  target: 20,
+  unit: 'pages',
+  requirements: ['Fiction', 'Non-fiction'],
+  isPrivate: true,
+};
+
+const edit: SyncActionOf<'commitmentUpdate'> = {
+  id: 'a1',
+  op: 'commitmentUpdate',
+  entity: 'commitment',
+  entityId: 'c1',
+  data: { updates: mapCommitmentUpdatesToDb(edits) },
+  timestamp: new Date().toISOString(),
+  retryCount: 0,
+};
+
+const serverRow = {
+  id: 'c1',
+  user_id: 'u1',
+  title: 'Read more',
+  description: 'Before bed',
+  color: '#10B981',
+  target: 20,
+  unit: 'pages',
+  requirements: ['Fiction', 'Non-fiction'],
+  is_private: true,
+  is_active: true,
+  commitment_type: 'measurement',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-02T00:00:00Z',
+};
+
+describe('commitmentUpdate', () => {
+  beforeEach(() => {
+    mockQueue.length = 0;
+    mockQueue.push(edit);
+    mockDispatch.mockClear();
+    mockUpdate.mockReset().mockResolvedValue({ data: serverRow, error: null });
+  });
+
+  test('sends every edited field and writes the server row back', async () => {
+    await syncHandlers.commitmentUpdate(edit, {});
+
+    expect(mockUpdate).toHaveBeenCalledWith('c1', {
+      title: 'Read more',
+      description: 'Before bed',
+      color: '#10B981',
+      target: 20,
+      unit: 'pages',
+      requirements: ['Fiction', 'Non-fiction'],
+      is_private: true,
+    }, {});
+
+    const [written] = mockDispatch.mock.calls[0];
+    expect(upsertCommitmentFromServer.match(written)).toBe(true);
+    expect(written.payload).toEqual(expect.objectContaining({
+      localId: 'c1',
+      commitment: expect.objectContaining({ ...edits, updatedAt: '2025-01-02T00:00:00Z' }),
+    }));
+  });
+
+  test('leaves Redux alone while newer edits are still queued', async () => {
+    mockQueue.push({ id: 'a2', entity: 'commitment', entityId: 'c1' });
+
+    await syncHandlers.commitmentUpdate(edit, {});
+
+    expect(mockDispatch).not.toHaveBeenCalled();
+  });
+
+  test('throws so the edit is retried when the save fails', async () => {
+    mockUpdate.mockResolvedValue({ data: null, error: { message: 'network down' } });
+
+    await expect(syncHandlers.commitmentUpdate(edit, {})).rejects.toThrow('network down');
+    expect(mockDispatch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Unit tests for patching friends charts with Realtime changes
+ */
+
+import { applyFriendsRealtimeChange } from '../friendsRealtime';
+import type { FriendChartData } from '../friends';
+import { addDays } from '@/utils/schedule';
+import { getTodayISO } from '@/utils/timeUtils';
+
+// The services create the Supabase client on import; patching never touches it
+jest.mock('../supabase', () => ({
+  supabase: {},
+}));
+
+const today = new Date().toISOString().split('T')[0];
+const now = new Date().toISOString();
+
+const commitmentRow = (id: string, overrides: Record<string, any> = {}) => ({
+  id,
+  user_id: 'friend-1',
+  title: `Commitment ${id}`,
+  color: '#000000',
+  is_active: true,
+  is_private: false,
+  archived: false,
+  deleted_at: null,
+  order_rank: 'B',
+  created_at: now,
+  updated_at: now,
+  ...overrides,
+});
+
+const recordRow = (id: string, overrides: Record<string, any> = {}) => ({
+  id,
+  user_id: 'friend-1',
+  commitment_id: 'c1',
+  completed_at: `${today}T12:00:00Z`,
+  status: 'complete',
+  created_at: now,
+  updated_at: now,
+  ...overrides,
+});
+
+const chart = (): FriendChartData => ({
+  friend: {
+    id: 'friend-1',
+    email: 'friend@example.com',
+    username: 'friend',
+    full_name: 'Friend',
+    avatar_url: null,
+    avatar_animal: null,
+    avatar_color: null,
+  },
+  commitments: [{
+    id: 'c1',
+    title: 'Read',
+    color: '#000000',
+    type: 'binary',
+    streak: 0,
+    bestStreak: 0,
+    isActive: true,
+    isPrivate: false,
+    createdAt: now,
+    updatedAt: now,
+    order_rank: 'A',
+  }],
+  layoutItems: [],
+  records: [],
+});
+
+describe('applyFriendsRealtimeChange', () => {
+  test('adds a new check-in to the friend\'s records', () => {
+    const [patched] = applyFriendsRealtimeChange([chart()], { table: 'commitment_records', row: recordRow('r1') }, 'me');
+
+    expect(patched.records).toEqual([expect.objectContaining({ id: 'r1', date: today, status: 'completed' })]);
+  });
+
+  test('replaces the record for the same day instead of duplicating it', () => {
+    const charts = applyFriendsRealtimeChange([chart()], { table: 'commitment_records', row: recordRow('r1') }, 'me');
+    const [patched] = applyFriendsRealtimeChange(charts, {
+      table: 'commitment_records',
+      row: recordRow('r1', { status: 'skipped' }),
+    }, 'me');
+
+    expect(patched.records).toHaveLength(1);
+    expect(patched.records[0].status).toBe('skipped');
+  });
+
+  test('extends the friend\'s cached streak with a new check-in', () => {
+    const localToday = getTodayISO();
+    const cached = chart();
+    cached.commitments[0] = {
+      ...cached.commitments[0],
+      streak: 5,
+      bestStreak: 5,
+      streakCache: { currentStreak: 5, bestStreak: 5, asOfDate: addDays(localToday, -1) },
+    };
+
+    const [patched] = applyFriendsRealtimeChange([cached], {
+      table: 'commitment_records',
+      row: recordRow('r1', { completed_at: `${localToday}T12:00:00Z` }),
+    }, 'me');
+
+    expect(patched.commitments[0]).toEqual(expect.objectContaining({ streak: 6, bestStreak: 6 }));
+  });
+
+  test('removes deleted records via tombstones', () => {
+    const charts = applyFriendsRealtimeChange([chart()], { table: 'commitment_records', row: recordRow('r1') }, 'me');
+    const [patched] = applyFriendsRealtimeChange(charts, {
+      table: 'sync_tombstones',
+      row: { user_id: 'friend-1', table_name: 'commitment_records', row_id: 'r1' },
+    }, 'me');
+
+    expect(patched.records).toEqual([]);
+  });
+
+  test('adds visible commitments in rank order and drops archived ones', () => {
+    let charts = applyFriendsRealtimeChange([chart()], { table: 'commitments', row: commitmentRow('c2') }, 'me');
+    expect(charts[0].commitments.map(c => c.id)).toEqual(['c1', 'c2']);
+
+    charts = applyFriendsRealtimeChange(charts, {
+      table: 'commitments',
+      row: commitmentRow('c1', { archived: true, order_rank: 'A' }),
+    }, 'me');
+    expect(charts[0].commitments.map(c => c.id)).toEqual(['c2']);
+  });
+
+  test('ignores changes for friends that aren\'t loaded', () => {
+    const charts = [chart()];
+    const patched = applyFriendsRealtimeChange(charts, {
+      table: 'commitment_records',
+      row: recordRow('r1', { user_id: 'someone-else' }),
+    }, 'me');
+
+    expect(patched).toBe(charts);
+  });
+});
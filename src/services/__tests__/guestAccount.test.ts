@@ -0,0 +1,185 @@
+/**
+ * Unit tests for moving guest data into a newly created account
+ */
+
+import { configureStore } from '@reduxjs/toolkit';
+import authReducer, { startGuestSession } from '@/store/slices/authSlice';
+import commitmentsReducer, { setCommitments } from '@/store/slices/commitmentsSlice';
+import recordsReducer, { setRecords } from '@/store/slices/recordsSlice';
+import layoutItemsReducer from '@/store/slices/layoutItemsSlice';
+import syncReducer, { addToQueue } from '@/store/slices/syncSlice';
+import { linkGuestAccount } from '../guestAccount';
+import { createCommitment, applyRecordMutations } from '../commitments';
+import { localRepository } from '../localRepository';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../supabase', () => ({
+  supabase: {},
+}));
+
+jest.mock('../commitments', () => ({
+  createCommitment: jest.fn(),
+  applyRecordMutations: jest.fn(),
+}));
+
+jest.mock('../layoutItems', () => ({
+  createLayoutItem: jest.fn(),
+}));
+
+const mockCreateCommitment = createCommitment as jest.Mock;
+const mockApply = applyRecordMutations as jest.Mock;
+
+const makeStore = () => configureStore({
+  reducer: {
+    auth: authReducer,
+    commitments: commitmentsReducer,
+    records: recordsReducer,
+    layoutItems: layoutItemsReducer,
+    sync: syncReducer,
+  },
+});
+
+const guestCommitment = (id: string) => ({
+  id,
+  userId: 'guest-1',
+  title: `Commitment ${id}`,
+  color: '#111827',
+  type: 'binary',
+  commitmentType: 'checkbox',
+  streak: 0,
+  bestStreak: 0,
+  isActive: true,
+  isPrivate: false,
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+  order_rank: 'V',
+} as any);
+
+const guestRecord = (commitmentId: string, date: string) => ({
+  id: `temp_${date}`,
+  userId: 'current_user',
+  commitmentId,
+  date,
+  status: 'completed',
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+} as any);
+
+const accountEdit = {
+  op: 'commitmentUpdate',
+  entity: 'commitment',
+  entityId: 'account-1',
+  data: { updates: { title: 'Account edit' } },
+} as any;
+
+const seedGuest = (commitments = [guestCommitment('temp-1'), guestCommitment('temp-2')]) => {
+  const store = makeStore();
+  store.dispatch(startGuestSession('guest-1'));
+  localRepository.setUser('guest-1');
+  store.dispatch(setCommitments(commitments));
+  store.dispatch(setRecords([guestRecord('temp-1', '2025-01-01'), guestRecord('temp-2', '2025-01-02')]));
+  store.dispatch(addToQueue({
+    op: 'commitmentCreate',
+    entity: 'commitment',
+    entityId: 'temp-1',
+    data: { user_id: 'guest-1', title: 'Commitment temp-1' },
+  } as any));
+  store.dispatch(addToQueue({
+    op: 'recordUpsert',
+    entity: 'record',
+    entityId: 'temp-2_2025-01-02',
+    data: { commitment_id: 'temp-2', completed_at: '2025-01-02T12:00:00Z', status: 'complete' },
+  } as any));
+  return store;
+};
+
+const link = (store: ReturnType<typeof makeStore>) =>
+  linkGuestAccount('guest-1', 'user-1')(store.dispatch as any);
+
+describe('linkGuestAccount', () => {
+  beforeEach(async () => {
+    mockCreateCommitment.mockReset();
+    mockApply.mockReset();
+    await localRepository.clear();
+  });
+
+  test('uploads guest commitments and history under the new account, then ends the guest session', async () => {
+    const store = seedGuest();
+    mockCreateCommitment
+      .mockResolvedValueOnce({ data: { id: 'c1' }, error: null })
+      .mockResolvedValueOnce({ data: { id: 'c2' }, error: null });
+    mockApply.mockResolvedValue({ data: [{ success: true }, { success: true }], error: null });
+
+    const result = await link(store);
+
+    expect(result).toEqual({ error: null });
+    expect(mockCreateCommitment.mock.calls.map(([row]) => row.user_id)).toEqual(['user-1', 'user-1']);
+    expect(mockApply).toHaveBeenCalledWith([
+      expect.objectContaining({ op: 'upsert', commitment_id: 'c1', user_id: 'user-1', status: 'complete' }),
+      expect.objectContaining({ op: 'upsert', commitment_id: 'c2', user_id: 'user-1', completed_at: '2025-01-02T12:00:00Z' }),
+    ]);
+
+    const state = store.getState();
+    expect(state.auth.guestId).toBeNull();
+    expect(state.sync.queue).toEqual([]);
+    expect(state.commitments.commitments).toEqual([]);
+    expect(state.records.records).toEqual([]);
+    expect(await localRepository.load('guest-1')).toEqual({});
+  });
+
+  test('keeps guest data out of the account when an upload fails, and a retry only sends what is left', async () => {
+    const store = seedGuest();
+    mockCreateCommitment
+      .mockResolvedValueOnce({ data: { id: 'c1' }, error: null })
+      .mockResolvedValueOnce({ data: null, error: { message: 'network down' } });
+
+    const failed = await link(store);
+
+    expect(failed).toEqual({ error: 'network down' });
+    expect(store.getState().auth.guestId).toBe('guest-1');
+    expect(store.getState().commitments.commitments).toEqual([]);
+    expect(store.getState().sync.queue).toEqual([]);
+    expect(localRepository.getUser()).toBeNull();
+    expect((await localRepository.load('guest-1')).commitments?.map(c => c.id)).toEqual(['temp-1', 'temp-2']);
+    expect(mockApply).not.toHaveBeenCalled();
+
+    // The account syncs in the meantime - its queued edits survive the retry
+    store.dispatch(addToQueue(accountEdit));
+    mockCreateCommitment.mockReset().mockResolvedValueOnce({ data: { id: 'c2' }, error: null });
+    mockApply.mockResolvedValue({ data: [{ success: true }, { success: true }], error: null });
+
+    const retried = await link(store);
+
+    expect(retried).toEqual({ error: null });
+    expect(mockCreateCommitment).toHaveBeenCalledTimes(1);
+    expect(mockCreateCommitment.mock.calls[0][0].title).toBe('Commitment temp-2');
+    expect(mockApply.mock.calls[0][0].map((m: any) => m.commitment_id)).toEqual(['c1', 'c2']);
+    expect(store.getState().sync.queue.map(action => action.entityId)).toEqual(['account-1']);
+    expect(store.getState().auth.guestId).toBeNull();
+  });
+
+  test('a retry uploads the versions of a commitment that was already created', async () => {
+    const withVersion = {
+      ...guestCommitment('temp-1'),
+      versions: [{ id: 'v1', effectiveFrom: '2025-01-01', target: 10 }],
+    };
+    const store = seedGuest([withVersion]);
+    mockCreateCommitment
+      .mockResolvedValueOnce({ data: { id: 'c1' }, error: null })
+      .mockResolvedValueOnce({ data: null, error: { message: 'network down' } });
+
+    expect(await link(store)).toEqual({ error: 'network down' });
+
+    mockCreateCommitment.mockReset().mockResolvedValueOnce({ data: { id: 'v1-server' }, error: null });
+    mockApply.mockResolvedValue({ data: [{ success: true }], error: null });
+
+    expect(await link(store)).toEqual({ error: null });
+    expect(mockCreateCommitment).toHaveBeenCalledTimes(1);
+    expect(mockCreateCommitment.mock.calls[0][0]).toEqual(
+      expect.objectContaining({ lineage_id: 'c1', is_active: false, user_id: 'user-1' })
+    );
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for the on-device working set: migrations, per-user tables and server reconciliation
+ */
+
+import {
+  LocalRepository,
+  LOCAL_MIGRATIONS,
+  replaceWithServerData,
+  type KeyValueStorage,
+  type LocalMigration,
+} from '../localRepository';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// The slices pull in services that create the Supabase client on import
+jest.mock('../supabase', () => ({
+  supabase: {},
+}));
+
+const memoryStorage = (initial: Record<string, string> = {}): KeyValueStorage & { data: Record<string, string> } => {
+  const data = { ...initial };
+  return {
+    data,
+    getItem: async key => data[key] ?? null,
+    setItem: async (key, value) => {
+      data[key] = value;
+    },
+    getAllKeys: async () => Object.keys(data),
+    multiRemove: async keys => {
+      keys.forEach(key => delete data[key]);
+    },
+  };
+};
+
+const commitment = (id: string, title = `Commitment ${id}`) => ({ id, title } as any);
+const record = (id: string, date: string, status = 'completed') => ({ id, commitmentId: 'c1', date, status } as any);
+
+describe('LocalRepository', () => {
+  test('runs pending migrations in order, once', async () => {
+    const storage = memoryStorage({ '@local_store/schema_version': '1' });
+    const applied: number[] = [];
+    const migrations: LocalMigration[] = [3, 1, 2].map(version => ({
+      version,
+      description: `v${version}`,
+      up: async () => {
+        applied.push(version);
+      },
+    }));
+
+    const repository = new LocalRepository(storage, migrations);
+    await repository.open();
+    await repository.open();
+
+    expect(applied).toEqual([2, 3]);
+    expect(await repository.getSchemaVersion()).toBe(3);
+  });
+
+  test('opens a new store at the latest schema version', async () => {
+    const repository = new LocalRepository(memoryStorage());
+    await repository.open();
+
+    expect(await repository.getSchemaVersion()).toBe(LOCAL_MIGRATIONS[LOCAL_MIGRATIONS.length - 1].version);
+  });
+
+  test('stores tables per user and only while a user is set', async () => {
+    const storage = memoryStorage();
+    const repository = new LocalRepository(storage);
+
+    await repository.save('commitments', [commitment('ignored')]);
+    repository.setUser('user-1');
+    await repository.save('commitments', [commitment('c1')]);
+
+    expect(await repository.load('user-1')).toEqual({ commitments: [commitment('c1')] });
+    expect(await repository.load('user-2')).toEqual({});
+  });
+
+  test('clearing drops stored data but keeps the schema version', async () => {
+    const storage = memoryStorage();
+    const repository = new LocalRepository(storage);
+    repository.setUser('user-1');
+    await repository.save('records', [record('r1', '2025-01-01')]);
+
+    await repository.clear();
+
+    expect(Object.keys(storage.data)).toEqual(['@local_store/schema_version']);
+    expect(repository.getUser()).toBeNull();
+  });
+});
+
+describe('replaceWithServerData', () => {
+  const run = (tables: Parameters<typeof replaceWithServerData>[0], state: Record<string, any>) => {
+    const dispatched: any[] = [];
+    replaceWithServerData(tables)(((action: any) => dispatched.push(action)) as any, () => state as any);
+    return dispatched.map(action => action.payload);
+  };
+
+  const emptyState = (overrides: Record<string, any> = {}) => ({
+    commitments: { commitments: [] },
+    records: { records: [] },
+    layoutItems: { layoutItems: [] },
+    sync: { queue: [] },
+    ...overrides,
+  });
+
+  test('keeps local rows the server has not seen yet', () => {
+    const [commitments] = run({ commitments: [commitment('c1')] }, emptyState({
+      commitments: { commitments: [commitment('c1'), commitment('temp-123')] },
+    }));
+
+    expect(commitments.map((c: any) => c.id)).toEqual(['c1', 'temp-123']);
+  });
+
+  test('keeps the local version of rows with queued edits and drops rows queued for deletion', () => {
+    const [records] = run({
+      records: [record('r1', '2025-01-01'), record('r2', '2025-01-02'), record('r3', '2025-01-03')],
+    }, emptyState({
+      records: { records: [record('r1', '2025-01-01', 'skipped'), record('r3', '2025-01-03')] },
+      sync: {
+        queue: [
+          { op: 'recordUpsert', entity: 'record', entityId: 'c1_2025-01-01' },
+          { op: 'recordDelete', entity: 'record', entityId: 'c1_2025-01-02' },
+        ],
+      },
+    }));
+
+    expect(records).toEqual([record('r3', '2025-01-03'), record('r1', '2025-01-01', 'skipped')]);
+  });
+});
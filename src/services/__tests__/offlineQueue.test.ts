@@ -0,0 +1,68 @@
+/**
+ * Unit tests for replaying the on-device outbox
+ */
+
+import { offlineQueue } from '../offlineQueue';
+
+const mockSent: Array<{ table: string; op: string; payload: unknown }> = [];
+const mockSync = { isOnline: false };
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('@/store', () => ({
+  store: {
+    getState: () => ({ sync: mockSync }),
+    dispatch: jest.fn(),
+  },
+}));
+
+// Records each request and succeeds
+jest.mock('../supabase', () => {
+  const request = (table: string, op: string, payload: unknown) => {
+    const result = { error: null };
+    const chain: any = {
+      eq: () => chain,
+      abortSignal: () => {
+        mockSent.push({ table, op, payload });
+        return Promise.resolve(result);
+      },
+    };
+    return chain;
+  };
+  return {
+    supabase: {
+      from: (table: string) => ({
+        insert: (rows: unknown) => request(table, 'insert', rows),
+        update: (data: unknown) => request(table, 'update', data),
+        delete: () => request(table, 'delete', null),
+      }),
+    },
+  };
+});
+
+describe('offlineQueue.processQueue', () => {
+  beforeEach(async () => {
+    await offlineQueue.clear();
+    mockSent.length = 0;
+    mockSync.isOnline = false;
+  });
+
+  test('drains every item queued while offline once, in order', async () => {
+    await offlineQueue.addToQueue('INSERT', 'commitments', { title: 'Read' });
+    await offlineQueue.addToQueue('UPDATE', 'commitments', { title: 'Read more' }, 'c1');
+    await offlineQueue.addToQueue('DELETE', 'commitment_records', null, 'r1');
+    expect(mockSent).toEqual([]);
+
+    mockSync.isOnline = true;
+    await offlineQueue.processQueue();
+
+    expect(mockSent).toEqual([
+      { table: 'commitments', op: 'insert', payload: [{ title: 'Read' }] },
+      { table: 'commitments', op: 'update', payload: { title: 'Read more' } },
+      { table: 'commitment_records', op: 'delete', payload: null },
+    ]);
+    expect(offlineQueue.getPendingCount()).toBe(0);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Unit tests for profile edits made offline
+ */
+
+import { updateProfile } from '../profiles';
+import { offlineQueue } from '../offlineQueue';
+
+const mockSent: Array<{ table: string; payload: unknown; id: string }> = [];
+const mockSync = { isOnline: false };
+let mockNetworkDown = false;
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('@/store', () => ({
+  store: {
+    getState: () => ({ sync: mockSync }),
+    dispatch: jest.fn(),
+  },
+}));
+
+// Records each update that reaches the server; fetch failures come back with a blank code
+jest.mock('../supabase', () => ({
+  supabase: {
+    from: (table: string) => ({
+      update: (payload: unknown) => {
+        let id = '';
+        const send = () => {
+          if (mockNetworkDown) {
+            return Promise.resolve({ error: { message: 'TypeError: Network request failed', code: '' } });
+          }
+          mockSent.push({ table, payload, id });
+          return Promise.resolve({ error: null });
+        };
+        const chain: any = {
+          eq: (_column: string, value: string) => {
+            id = value;
+            return chain;
+          },
+          abortSignal: send,
+          then: (resolve: any, reject: any) => send().then(resolve, reject),
+        };
+        return chain;
+      },
+    }),
+  },
+}));
+
+describe('updateProfile', () => {
+  beforeEach(async () => {
+    await offlineQueue.clear();
+    mockSent.length = 0;
+    mockSync.isOnline = false;
+    mockNetworkDown = false;
+  });
+
+  test('an edit made offline is kept in the outbox and replayed on reconnect', async () => {
+    const result = await updateProfile('u1', { full_name: 'Sam' });
+
+    expect(result).toEqual({ queued: true, error: null });
+    expect(mockSent).toEqual([]);
+    expect(offlineQueue.getPendingCount()).toBe(1);
+
+    // Reconnecting runs a sync pass, which drains the outbox
+    mockSync.isOnline = true;
+    await offlineQueue.processQueue();
+
+    expect(mockSent).toEqual([{ table: 'profiles', payload: { full_name: 'Sam' }, id: 'u1' }]);
+    expect(offlineQueue.getPendingCount()).toBe(0);
+  });
+
+  test('an edit that fails on the network is queued instead of lost', async () => {
+    mockSync.isOnline = true;
+    mockNetworkDown = true;
+
+    const result = await updateProfile('u1', { avatar_animal: 'fox', avatar_color: 'blue' });
+
+    expect(result).toEqual({ queued: true, error: null });
+    expect(await offlineQueue.getPendingItems()).toEqual([
+      expect.objectContaining({ operation_type: 'UPDATE', table_name: 'profiles', record_id: 'u1' }),
+    ]);
+  });
+
+  test('saves straight to the server when online', async () => {
+    mockSync.isOnline = true;
+
+    const result = await updateProfile('u1', { full_name: 'Sam' });
+
+    expect(result).toEqual({ queued: false, error: null });
+    expect(mockSent).toEqual([{ table: 'profiles', payload: { full_name: 'Sam' }, id: 'u1' }]);
+    expect(offlineQueue.getPendingCount()).toBe(0);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Unit tests for applying queued local edits to rows pulled as deleted
+ */
+
+import { reconcilePulledDeletes } from '../conflictResolution';
+
+// The services create the Supabase client on import; reconciling never touches it
+jest.mock('../supabase', () => ({
+  supabase: {},
+}));
+
+const queued = (id: string, action: Record<string, any>) => ({
+  id,
+  timestamp: '2025-01-01T00:00:00Z',
+  retryCount: 0,
+  ...action,
+});
+
+const run = (thunk: ReturnType<typeof reconcilePulledDeletes>, state: Record<string, any>) => {
+  const dispatched: any[] = [];
+  const result = thunk(((action: any) => dispatched.push(action)) as any, () => state as any);
+  return { result, removed: dispatched.map(action => action.payload) };
+};
+
+describe('reconcilePulledDeletes', () => {
+  test('drops queued edits to a commitment deleted elsewhere, along with its record changes', () => {
+    const state = {
+      sync: {
+        queue: [
+          queued('a1', { op: 'commitmentUpdate', entity: 'commitment', entityId: 'c1', data: { updates: { title: 'Run' } } }),
+          queued('a2', { op: 'recordUpsert', entity: 'record', entityId: 'c1_2025-01-01', data: { commitment_id: 'c1', completed_at: '2025-01-01T12:00:00Z' } }),
+          queued('a3', { op: 'commitmentUpdate', entity: 'commitment', entityId: 'c2', data: { updates: { title: 'Read' } } }),
+        ],
+      },
+      records: { records: [] },
+    };
+
+    const { result, removed } = run(reconcilePulledDeletes('commitment', ['c1']), state);
+
+    expect(result).toEqual(['c1']);
+    expect(removed).toEqual(['a1', 'a2']);
+  });
+
+  test('keeps a record deleted elsewhere when it has a queued upsert here', () => {
+    const state = {
+      sync: {
+        queue: [
+          queued('a1', { op: 'recordUpsert', entity: 'record', entityId: 'c1_2025-01-01', data: { commitment_id: 'c1', completed_at: '2025-01-01T12:00:00Z' } }),
+        ],
+      },
+      records: {
+        records: [
+          { id: 'r1', commitmentId: 'c1', date: '2025-01-01', status: 'skipped' },
+          { id: 'r2', commitmentId: 'c1', date: '2025-01-02', status: 'completed' },
+        ],
+      },
+    };
+
+    const { result, removed } = run(reconcilePulledDeletes('record', ['r1', 'r2']), state);
+
+    expect(result).toEqual(['r2']);
+    expect(removed).toEqual([]);
+  });
+
+  test('passes deletes straight through when nothing is queued', () => {
+    const { result, removed } = run(
+      reconcilePulledDeletes('layout_item', ['l1']),
+      { sync: { queue: [] }, records: { records: [] } }
+    );
+
+    expect(result).toEqual(['l1']);
+    expect(removed).toEqual([]);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Unit tests for syncing queued record changes through the bulk RPC
+ */
+
+import { syncRecordBatch, type RecordSyncAction } from '../syncHandlers';
+import { applyRecordMutations } from '../commitments';
+import { SessionEndedError } from '../sessionSignal';
+
+const mockQueue: RecordSyncAction[] = [];
+const mockDispatch = jest.fn();
+
+jest.mock('@/store', () => ({
+  store: {
+    getState: () => ({ sync: { queue: mockQueue } }),
+    dispatch: (action: unknown) => mockDispatch(action),
+  },
+}));
+
+jest.mock('../commitments', () => ({
+  applyRecordMutations: jest.fn(),
+}));
+
+const mockApply = applyRecordMutations as jest.Mock;
+
+const upsert = (id: string, date: string, status = 'complete'): RecordSyncAction => ({
+  id,
+  op: 'recordUpsert',
+  entity: 'record',
+  entityId: `c1_${date}`,
+  data: { commitment_id: 'c1', completed_at: `${date}T12:00:00Z`, user_id: 'u1', status },
+  timestamp: new Date().toISOString(),
+  retryCount: 0,
+});
+
+const remove = (id: string, date: string): RecordSyncAction => ({
+  id,
+  op: 'recordDelete',
+  entity: 'record',
+  entityId: `c1_${date}`,
+  data: { commitment_id: 'c1', completed_at: `${date}T12:00:00Z` },
+  timestamp: new Date().toISOString(),
+  retryCount: 0,
+});
+
+const serverRow = (date: string) => ({
+  id: `r-${date}`,
+  commitment_id: 'c1',
+  completed_at: date,
+  user_id: 'u1',
+  status: 'complete',
+  value: null,
+  notes: null,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+});
+
+describe('syncRecordBatch', () => {
+  beforeEach(() => {
+    mockQueue.length = 0;
+    mockDispatch.mockClear();
+    mockApply.mockReset();
+  });
+
+  test('sends every action in one call, tagged with its operation', async () => {
+    const actions = [upsert('a1', '2025-01-01'), remove('a2', '2025-01-02')];
+    mockApply.mockResolvedValue({
+      data: [
+        { mutation_index: 0, success: true, row_data: serverRow('2025-01-01'), error_message: null },
+        { mutation_index: 1, success: true, row_data: null, error_message: null },
+      ],
+      error: null,
+    });
+
+    const outcomes = await syncRecordBatch(actions);
+
+    expect(mockApply).toHaveBeenCalledTimes(1);
+    expect(mockApply.mock.calls[0][0]).toEqual([
+      expect.objectContaining({ op: 'upsert', commitment_id: 'c1', status: 'complete' }),
+      { op: 'delete', commitment_id: 'c1', completed_at: '2025-01-02T12:00:00Z' },
+    ]);
+    expect(outcomes.get('a1')).toBeNull();
+    expect(outcomes.get('a2')).toBeNull();
+  });
+
+  test('reports failed rows individually', async () => {
+    const actions = [upsert('a1', '2025-01-01'), upsert('a2', '2025-01-02')];
+    mockApply.mockResolvedValue({
+      data: [
+        { mutation_index: 0, success: true, row_data: serverRow('2025-01-01'), error_message: null },
+        { mutation_index: 1, success: false, row_data: null, error_message: 'permission denied' },
+      ],
+      error: null,
+    });
+
+    const outcomes = await syncRecordBatch(actions);
+
+    expect(outcomes.get('a1')).toBeNull();
+    expect(outcomes.get('a2')).toBe('permission denied');
+  });
+
+  test('keeps local edits that were queued while the batch was in flight', async () => {
+    const actions = [upsert('a1', '2025-01-01'), upsert('a2', '2025-01-02')];
+    mockQueue.push(...actions, upsert('a3', '2025-01-01', 'skipped'));
+    mockApply.mockResolvedValue({
+      data: [
+        { mutation_index: 0, success: true, row_data: serverRow('2025-01-01'), error_message: null },
+        { mutation_index: 1, success: true, row_data: serverRow('2025-01-02'), error_message: null },
+      ],
+      error: null,
+    });
+
+    await syncRecordBatch(actions);
+
+    // Only the record without a newer queued edit takes the server row
+    expect(mockDispatch).toHaveBeenCalledTimes(1);
+    expect(mockDispatch.mock.calls[0][0].payload).toEqual(expect.objectContaining({ id: 'r-2025-01-02' }));
+  });
+
+  test('throws when the call itself fails', async () => {
+    mockApply.mockResolvedValue({ data: null, error: { message: 'Network request failed' } });
+
+    await expect(syncRecordBatch([upsert('a1', '2025-01-01')])).rejects.toThrow('Network request failed');
+  });
+
+  test('drops the result when the session ends while the call is in flight', async () => {
+    const controller = new AbortController();
+    mockApply.mockImplementation(async () => {
+      controller.abort();
+      return {
+        data: [{ mutation_index: 0, success: true, row_data: serverRow('2025-01-01'), error_message: null }],
+        error: null,
+      };
+    });
+
+    await expect(syncRecordBatch([upsert('a1', '2025-01-01')], { signal: controller.signal }))
+      .rejects.toBeInstanceOf(SessionEndedError);
+    expect(mockApply.mock.calls[0][1]).toEqual({ signal: controller.signal });
+    expect(mockDispatch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Unit tests for cancelling a session's in-flight requests on sign-out or account switch
+ */
+
+import { getSessionSignal, setSessionUser, requestSignal, throwIfSessionEnded, SessionEndedError } from '../sessionSignal';
+
+describe('session signal', () => {
+  afterEach(() => {
+    setSessionUser(null);
+  });
+
+  test('signing in from no user keeps the current signal', () => {
+    const signal = getSessionSignal();
+
+    setSessionUser('user-1');
+
+    expect(getSessionSignal()).toBe(signal);
+    expect(signal.aborted).toBe(false);
+  });
+
+  test('signing out or switching account aborts requests started for the previous user', () => {
+    setSessionUser('user-1');
+    const first = getSessionSignal();
+
+    setSessionUser('user-2');
+    const second = getSessionSignal();
+    setSessionUser(null);
+
+    expect(first.aborted).toBe(true);
+    expect(second.aborted).toBe(true);
+    expect(getSessionSignal().aborted).toBe(false);
+  });
+
+  test('calls without a signal are never cancelled', () => {
+    expect(requestSignal().aborted).toBe(false);
+    expect(() => throwIfSessionEnded()).not.toThrow();
+
+    const controller = new AbortController();
+    controller.abort();
+    expect(() => throwIfSessionEnded({ signal: controller.signal })).toThrow(SessionEndedError);
+  });
+});
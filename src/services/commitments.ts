@@ -1,22 +1,28 @@
 import { supabase } from './supabase';
 import type { Database } from '@/types/supabase';
+import { requestSignal, type RequestOptions } from './sessionSignal';
+import type { CachedStreak } from '@/utils/streakCalculation';
+import { isValidCriteria, type SuccessCriteria } from '@/utils/successCriteria';
+import { isCommitmentVersionRow } from '@/utils/commitmentVersions';
+import { rankAfter } from '@/utils/rank';
 
-type CommitmentInsert = Database['public']['Tables']['commitments']['Insert'];
+export type CommitmentInsert = Database['public']['Tables']['commitments']['Insert'];
 type CommitmentUpdate = Database['public']['Tables']['commitments']['Update'];
 type CommitmentRecordInsert = Database['public']['Tables']['commitment_records']['Insert'];
 
 // Commitments CRUD
-export async function createCommitment(data: CommitmentInsert) {
+export async function createCommitment(data: CommitmentInsert, options: RequestOptions = {}) {
   const { data: commitment, error } = await supabase
     .from('commitments')
     .insert([data])
     .select()
+    .abortSignal(requestSignal(options))
     .single();
 
   return { data: commitment, error };
 }
 
-export async function getUserCommitments(userId: string) {
+export async function getUserCommitments(userId: string, options: RequestOptions = {}) {
   console.log('🔍 getUserCommitments called for userId:', userId);
 
   const { data, error } = await supabase
@@ -26,7 +32,8 @@ export async function getUserCommitments(userId: string) {
     .eq('is_active', true)
     .order('order_rank', { ascending: true })
     .order('updated_at', { ascending: true })
-    .order('id', { ascending: true });
+    .order('id', { ascending: true })
+    .abortSignal(requestSignal(options));
 
   console.log('🔍 getUserCommitments result:', {
     dataCount: data?.length || 0,
@@ -37,7 +44,7 @@ export async function getUserCommitments(userId: string) {
   return { commitments: data, error };
 }
 
-export async function getAllUserCommitments(userId: string) {
+export async function getAllUserCommitments(userId: string, options: RequestOptions = {}) {
   console.log('🔍 getAllUserCommitments called for userId:', userId);
 
   const { data, error } = await supabase
@@ -46,7 +53,8 @@ export async function getAllUserCommitments(userId: string) {
     .eq('user_id', userId)
     .order('order_rank', { ascending: true })
     .order('updated_at', { ascending: true })
-    .order('id', { ascending: true });
+    .order('id', { ascending: true })
+    .abortSignal(requestSignal(options));
 
   console.log('🔍 getAllUserCommitments result:', {
     dataCount: data?.length || 0,
@@ -57,19 +65,20 @@ export async function getAllUserCommitments(userId: string) {
   return { commitments: data, error };
 }
 
-export async function updateCommitment(id: string, updates: CommitmentUpdate) {
+export async function updateCommitment(id: string, updates: CommitmentUpdate, options: RequestOptions = {}) {
   const { data, error } = await supabase
     .from('commitments')
     .update(updates)
     .eq('id', id)
     .select()
+    .abortSignal(requestSignal(options))
     .single();
 
   return { data, error };
 }
 
 // Update only the order rank for reordering operations
-export async function updateOrderRank(id: string, order_rank: string, options?: { onlyIfBlank?: boolean }) {
+export async function updateOrderRank(id: string, order_rank: string, options?: { onlyIfBlank?: boolean } & RequestOptions) {
   let query = supabase
     .from('commitments')
     .update({ order_rank })
@@ -81,18 +90,20 @@ export async function updateOrderRank(id: string, order_rank: string, options?:
   }
 
   const { data, error } = await query
+    .abortSignal(requestSignal(options))
     .select()
     .single();
 
   return { data, error };
 }
 
-export async function deleteCommitment(id: string) {
+export async function deleteCommitment(id: string, options: RequestOptions = {}) {
   const { data, error } = await supabase
     .from('commitments')
     .update({ is_active: false })
     .eq('id', id)
     .select()
+    .abortSignal(requestSignal(options))
     .single();
 
   // Trigger auto-delete for layout items if commitment deletion succeeded
@@ -104,12 +115,13 @@ export async function deleteCommitment(id: string) {
         .select('id, order_rank')
         .eq('user_id', data.user_id)
         .eq('is_active', true)
-        .neq('id', id); // Exclude the just-deleted commitment
+        .neq('id', id) // Exclude the just-deleted commitment
+        .abortSignal(requestSignal(options));
 
       if (remainingCommitments) {
         // Import and call auto-delete function
         const { autoDeleteInvalidLayoutItems } = await import('./layoutItems');
-        await autoDeleteInvalidLayoutItems(data.user_id, remainingCommitments);
+        await autoDeleteInvalidLayoutItems(data.user_id, remainingCommitments, undefined, options);
       }
     } catch (layoutError) {
       console.error('Failed to auto-delete layout items after commitment deletion:', layoutError);
@@ -127,13 +139,13 @@ export async function deleteCommitment(id: string) {
  * @param lastActiveRank - The rank to restore to (from last_active_rank)
  * @returns Updated commitment with safe rank
  */
-export async function restoreCommitmentSafely(id: string, userId: string, lastActiveRank: string): Promise<{ data: any; error: any }> {
+export async function restoreCommitmentSafely(id: string, userId: string, lastActiveRank: string, options: RequestOptions = {}): Promise<{ data: any; error: any }> {
   try {
     // Get all current active items to check for rank conflicts
     const { getAllActiveItemsWithRanks } = await import('@/services/layoutItems');
     const { findSafeRank } = await import('@/utils/rank');
 
-    const allActiveItems = await getAllActiveItemsWithRanks(userId);
+    const allActiveItems = await getAllActiveItemsWithRanks(userId, options);
     const safeRank = findSafeRank(lastActiveRank, allActiveItems);
 
     if (__DEV__ && safeRank !== lastActiveRank) {
@@ -150,6 +162,7 @@ export async function restoreCommitmentSafely(id: string, userId: string, lastAc
       })
       .eq('id', id)
       .select()
+      .abortSignal(requestSignal(options))
       .single();
 
     return { data, error };
@@ -160,7 +173,7 @@ export async function restoreCommitmentSafely(id: string, userId: string, lastAc
 }
 
 // Archive/Delete operations
-export async function setArchived(id: string, archived: boolean, options?: { is_active?: boolean }) {
+export async function setArchived(id: string, archived: boolean, options?: { is_active?: boolean } & RequestOptions) {
   const updates: any = {
     archived
   };
@@ -178,6 +191,7 @@ export async function setArchived(id: string, archived: boolean, options?: { is_
     .update(updates)
     .eq('id', id)
     .select()
+    .abortSignal(requestSignal(options))
     .single();
 
   // Trigger auto-delete for layout items when archiving (making inactive)
@@ -189,12 +203,13 @@ export async function setArchived(id: string, archived: boolean, options?: { is_
         .select('id, order_rank')
         .eq('user_id', data.user_id)
         .eq('is_active', true)
-        .neq('id', id); // Exclude the just-archived commitment
+        .neq('id', id) // Exclude the just-archived commitment
+        .abortSignal(requestSignal(options));
 
       if (remainingCommitments) {
         // Import and call auto-delete function
         const { autoDeleteInvalidLayoutItems } = await import('./layoutItems');
-        await autoDeleteInvalidLayoutItems(data.user_id, remainingCommitments);
+        await autoDeleteInvalidLayoutItems(data.user_id, remainingCommitments, undefined, options);
       }
     } catch (layoutError) {
       console.error('Failed to auto-delete layout items after commitment archiving:', layoutError);
@@ -205,7 +220,7 @@ export async function setArchived(id: string, archived: boolean, options?: { is_
   return { data, error };
 }
 
-export async function setDeletedAt(id: string, deletedAt: string | null, options?: { is_active?: boolean }) {
+export async function setDeletedAt(id: string, deletedAt: string | null, options?: { is_active?: boolean } & RequestOptions) {
   const updates: any = { deleted_at: deletedAt };
 
   // When soft deleting (setting timestamp), set is_active to false by default
@@ -221,6 +236,7 @@ export async function setDeletedAt(id: string, deletedAt: string | null, options
     .update(updates)
     .eq('id', id)
     .select()
+    .abortSignal(requestSignal(options))
     .single();
 
   // Trigger auto-delete for layout items when soft deleting (making inactive)
@@ -232,12 +248,13 @@ export async function setDeletedAt(id: string, deletedAt: string | null, options
         .select('id, order_rank')
         .eq('user_id', data.user_id)
         .eq('is_active', true)
-        .neq('id', id); // Exclude the just-deleted commitment
+        .neq('id', id) // Exclude the just-deleted commitment
+        .abortSignal(requestSignal(options));
 
       if (remainingCommitments) {
         // Import and call auto-delete function
         const { autoDeleteInvalidLayoutItems } = await import('./layoutItems');
-        await autoDeleteInvalidLayoutItems(data.user_id, remainingCommitments);
+        await autoDeleteInvalidLayoutItems(data.user_id, remainingCommitments, undefined, options);
       }
     } catch (layoutError) {
       console.error('Failed to auto-delete layout items after commitment soft deletion:', layoutError);
@@ -248,18 +265,20 @@ export async function setDeletedAt(id: string, deletedAt: string | null, options
   return { data, error };
 }
 
-export async function permanentDelete(id: string) {
+export async function permanentDelete(id: string, options: RequestOptions = {}) {
   // Get commitment info before deletion for auto-delete process
   const { data: commitmentToDelete } = await supabase
     .from('commitments')
     .select('user_id')
     .eq('id', id)
+    .abortSignal(requestSignal(options))
     .single();
 
   const { error } = await supabase
     .from('commitments')
     .delete()
-    .eq('id', id);
+    .eq('id', id)
+    .abortSignal(requestSignal(options));
 
   // Trigger auto-delete for layout items if permanent deletion succeeded
   if (!error && commitmentToDelete) {
@@ -269,12 +288,13 @@ export async function permanentDelete(id: string) {
         .from('commitments')
         .select('id, order_rank')
         .eq('user_id', commitmentToDelete.user_id)
-        .eq('is_active', true); // All remaining active commitments
+        .eq('is_active', true) // All remaining active commitments
+        .abortSignal(requestSignal(options));
 
       if (remainingCommitments) {
         // Import and call auto-delete function
         const { autoDeleteInvalidLayoutItems } = await import('./layoutItems');
-        await autoDeleteInvalidLayoutItems(commitmentToDelete.user_id, remainingCommitments);
+        await autoDeleteInvalidLayoutItems(commitmentToDelete.user_id, remainingCommitments, undefined, options);
       }
     } catch (layoutError) {
       console.error('Failed to auto-delete layout items after permanent commitment deletion:', layoutError);
@@ -286,7 +306,7 @@ export async function permanentDelete(id: string) {
 }
 
 // Commitment Records CRUD
-export async function createCommitmentRecord(data: CommitmentRecordInsert) {
+export async function createCommitmentRecord(data: CommitmentRecordInsert, options: RequestOptions = {}) {
   console.log('💾 createCommitmentRecord called:', { 
     commitment_id: data.commitment_id?.substring(0, 8) + '...', 
     completed_at: data.completed_at,
@@ -297,6 +317,7 @@ export async function createCommitmentRecord(data: CommitmentRecordInsert) {
     .from('commitment_records')
     .insert([data])
     .select()
+    .abortSignal(requestSignal(options))
     .single();
 
   console.log('💾 createCommitmentRecord result:', { 
@@ -308,7 +329,7 @@ export async function createCommitmentRecord(data: CommitmentRecordInsert) {
 }
 
 // Upsert commitment record (insert or update if exists)
-export async function upsertCommitmentRecord(data: CommitmentRecordInsert) {
+export async function upsertCommitmentRecord(data: CommitmentRecordInsert, options: RequestOptions = {}) {
   const { data: record, error } = await supabase
     .from('commitment_records')
     .upsert([data], {
@@ -316,12 +337,79 @@ export async function upsertCommitmentRecord(data: CommitmentRecordInsert) {
       ignoreDuplicates: false
     })
     .select()
+    .abortSignal(requestSignal(options))
     .single();
 
   return { data: record, error };
 }
 
-export async function getCommitmentRecords(commitmentId: string, startDate: string, endDate: string) {
+export type RecordMutation =
+  | ({ op: 'upsert' } & CommitmentRecordInsert)
+  | { op: 'delete'; commitment_id: string; completed_at: string };
+
+export type RecordMutationResult = Database['public']['Functions']['apply_record_mutations']['Returns'][number];
+
+// Apply many record upserts/deletes in one round trip - each mutation succeeds or fails on its own
+export async function applyRecordMutations(mutations: RecordMutation[], options: RequestOptions = {}) {
+  const { data, error } = await supabase
+    .rpc('apply_record_mutations', { p_mutations: mutations })
+    .abortSignal(requestSignal(options));
+
+  console.log('💾 applyRecordMutations result:', {
+    mutationCount: mutations.length,
+    failedCount: data?.filter(result => !result.success).length ?? 0,
+    error: error?.message || 'No error'
+  });
+
+  return { data, error };
+}
+
+// Earlier versions of the given commitments - rows in their lineage other than the commitments themselves
+export async function getCommitmentVersions(commitmentIds: string[], options: RequestOptions = {}) {
+  const { data, error } = await supabase
+    .from('commitments')
+    .select('*')
+    .in('lineage_id', commitmentIds)
+    .order('effective_from', { ascending: true })
+    .abortSignal(requestSignal(options));
+
+  return { data, error };
+}
+
+/**
+ * Start a new version of a commitment from a day - criteria undefined keeps the current threshold,
+ * null clears it. Returns the commitment row as it is now.
+ */
+export async function createCommitmentVersion(
+  commitmentId: string,
+  effectiveFrom: string,
+  changeNote: string | null,
+  updates: CommitmentUpdate,
+  criteria: SuccessCriteria | null | undefined,
+  options: RequestOptions = {}
+) {
+  const { data, error } = await supabase
+    .rpc('create_commitment_version', {
+      p_commitment_id: commitmentId,
+      p_effective_from: effectiveFrom,
+      p_change_note: changeNote,
+      p_updates: {
+        ...updates,
+        ...(criteria !== undefined && { success_criteria: criteria ? toThresholdColumns(criteria) : null }),
+      },
+    })
+    .abortSignal(requestSignal(options));
+
+  console.log('💾 createCommitmentVersion result:', {
+    commitmentId,
+    effectiveFrom,
+    error: error?.message || 'No error'
+  });
+
+  return { data, error };
+}
+
+export async function getCommitmentRecords(commitmentId: string, startDate: string, endDate: string, options: RequestOptions = {}) {
   console.log('📊 getCommitmentRecords called:', { commitmentId, startDate, endDate });
   
   const { data, error } = await supabase
@@ -330,7 +418,8 @@ export async function getCommitmentRecords(commitmentId: string, startDate: stri
     .eq('commitment_id', commitmentId)
     .gte('completed_at', startDate)
     .lte('completed_at', endDate)
-    .order('completed_at', { ascending: true });
+    .order('completed_at', { ascending: true })
+    .abortSignal(requestSignal(options));
 
   console.log('📊 getCommitmentRecords result:', { 
     commitmentId: commitmentId.substring(0, 8) + '...', 
@@ -341,17 +430,18 @@ export async function getCommitmentRecords(commitmentId: string, startDate: stri
   return { data, error };
 }
 
-export async function deleteCommitmentRecord(id: string) {
+export async function deleteCommitmentRecord(id: string, options: RequestOptions = {}) {
   const { error } = await supabase
     .from('commitment_records')
     .delete()
-    .eq('id', id);
+    .eq('id', id)
+    .abortSignal(requestSignal(options));
 
   return { error };
 }
 
 // Delete commitment record by commitment_id and date
-export async function deleteCommitmentRecordByDate(commitmentId: string, completedAt: string) {
+export async function deleteCommitmentRecordByDate(commitmentId: string, completedAt: string, options: RequestOptions = {}) {
   console.log('🗑️ deleteCommitmentRecordByDate called:', { 
     commitment_id: commitmentId.substring(0, 8) + '...', 
     completed_at: completedAt 
@@ -361,7 +451,8 @@ export async function deleteCommitmentRecordByDate(commitmentId: string, complet
     .from('commitment_records')
     .delete()
     .eq('commitment_id', commitmentId)
-    .eq('completed_at', completedAt);
+    .eq('completed_at', completedAt)
+    .abortSignal(requestSignal(options));
 
   console.log('🗑️ deleteCommitmentRecordByDate result:', { 
     error: error?.message || 'No error' 
@@ -370,9 +461,129 @@ export async function deleteCommitmentRecordByDate(commitmentId: string, complet
   return { error };
 }
 
+// Streak caches kept by the server - readable for your own commitments and friends' public ones
+export async function getCommitmentStreaks(commitmentIds: string[], options: RequestOptions = {}) {
+  const { data, error } = await supabase
+    .from('commitment_streaks')
+    .select('commitment_id, current_streak, best_streak, as_of_date')
+    .in('commitment_id', commitmentIds)
+    .abortSignal(requestSignal(options));
+
+  return { data, error };
+}
+
+/**
+ * Convert a commitment_streaks row into the cache shape the streak calculator resumes from
+ */
+export function toCachedStreak(row: any): CachedStreak {
+  return {
+    currentStreak: row.current_streak || 0,
+    bestStreak: row.best_streak || 0,
+    asOfDate: row.as_of_date || null,
+  };
+}
+
+// Threshold and N-of-M criteria for the given commitments
+export async function getSuccessCriteria(commitmentIds: string[], options: RequestOptions = {}) {
+  const { data, error } = await supabase
+    .from('commitment_success_criteria')
+    .select('commitment_id, criteria_type, operator, value, value_max, numeric_type, required_conditions, total_conditions')
+    .in('criteria_type', ['threshold', 'conditions_list'])
+    .in('commitment_id', commitmentIds)
+    .abortSignal(requestSignal(options));
+
+  return { data, error };
+}
+
+// Set or clear a commitment's threshold criteria - one row per commitment
+export async function saveSuccessCriteria(commitmentId: string, criteria: SuccessCriteria | null, options: RequestOptions = {}) {
+  if (!criteria) {
+    const { error } = await supabase
+      .from('commitment_success_criteria')
+      .delete()
+      .eq('commitment_id', commitmentId)
+      .eq('criteria_type', 'threshold')
+      .abortSignal(requestSignal(options));
+
+    return { error };
+  }
+
+  const { error } = await supabase
+    .from('commitment_success_criteria')
+    .upsert({
+      commitment_id: commitmentId,
+      criteria_type: 'threshold',
+      ...toThresholdColumns(criteria),
+    }, { onConflict: 'commitment_id,criteria_type' })
+    .abortSignal(requestSignal(options));
+
+  return { error };
+}
+
+function toThresholdColumns(criteria: SuccessCriteria) {
+  return {
+    operator: criteria.operator,
+    value: criteria.value,
+    value_max: criteria.operator === 'between' ? criteria.valueMax ?? null : null,
+    numeric_type: criteria.numericType || 'decimal',
+  };
+}
+
+// Set or clear how many of a commitment's requirements complete a day
+export async function saveRequiredConditions(
+  commitmentId: string,
+  requiredConditions: number | null,
+  totalConditions: number,
+  options: RequestOptions = {}
+) {
+  if (!requiredConditions) {
+    const { error } = await supabase
+      .from('commitment_success_criteria')
+      .delete()
+      .eq('commitment_id', commitmentId)
+      .eq('criteria_type', 'conditions_list')
+      .abortSignal(requestSignal(options));
+
+    return { error };
+  }
+
+  const { error } = await supabase
+    .from('commitment_success_criteria')
+    .upsert({
+      commitment_id: commitmentId,
+      criteria_type: 'conditions_list',
+      required_conditions: requiredConditions,
+      total_conditions: totalConditions,
+    }, { onConflict: 'commitment_id,criteria_type' })
+    .abortSignal(requestSignal(options));
+
+  return { error };
+}
+
+/**
+ * Convert a 'threshold' commitment_success_criteria row into the criteria shape - null when it can't be applied
+ */
+export function toSuccessCriteria(row: any): SuccessCriteria | null {
+  const criteria: SuccessCriteria = {
+    operator: row.operator,
+    value: row.value === null ? NaN : Number(row.value),
+    valueMax: row.value_max === null || row.value_max === undefined ? null : Number(row.value_max),
+    numericType: row.numeric_type || undefined,
+  };
+  return isValidCriteria(criteria) ? criteria : null;
+}
+
+/**
+ * Required count from a 'conditions_list' row - null when it doesn't set one
+ */
+export function toRequiredConditions(row: any): number | null {
+  const required = Number(row.required_conditions);
+  return Number.isInteger(required) && required >= 1 ? required : null;
+}
+
 // Dashboard Data
-export async function getDashboardData(userId: string) {
-  const { commitments, error: commitmentsError } = await getUserCommitments(userId);
+export async function getDashboardData(userId: string, options: RequestOptions = {}) {
+  const { commitments, error: commitmentsError } = await getUserCommitments(userId, options);
   
   if (commitmentsError) {
     return { data: null, error: commitmentsError };
@@ -389,7 +600,7 @@ export async function getDashboardData(userId: string) {
   }
 
   const recordsPromises = commitments.map((commitment: any) => 
-    getCommitmentRecords(commitment.id, startDate, endDate)
+    getCommitmentRecords(commitment.id, startDate, endDate, options)
   );
 
   const recordsResults = await Promise.all(recordsPromises);
@@ -403,14 +614,15 @@ export async function getDashboardData(userId: string) {
 }
 
 // Get all records for a user
-export async function getAllUserRecords(userId: string) {
+export async function getAllUserRecords(userId: string, options: RequestOptions = {}) {
   console.log('💾 [DB] getAllUserRecords called for user:', userId);
 
   const { data, error } = await supabase
     .from('commitment_records')
     .select('*')
     .eq('user_id', userId)
-    .order('completed_at', { ascending: false });
+    .order('completed_at', { ascending: false })
+    .abortSignal(requestSignal(options));
 
   console.log('💾 [DB] getAllUserRecords result:', {
     success: !!data,
@@ -421,24 +633,54 @@ export async function getAllUserRecords(userId: string) {
   return { data, error };
 }
 
+// Commitments (any lifecycle state) changed after the given timestamp - for delta sync
+export async function getCommitmentsChangedSince(userId: string, since: string, options: RequestOptions = {}) {
+  const { data, error } = await supabase
+    .from('commitments')
+    .select('*, archived, deleted_at, show_values, order_rank, last_active_rank')
+    .eq('user_id', userId)
+    .gt('updated_at', since)
+    .order('updated_at', { ascending: true })
+    .abortSignal(requestSignal(options));
+
+  return { data, error };
+}
+
+// Records created or edited after the given timestamp - for delta sync
+export async function getRecordsChangedSince(userId: string, since: string, options: RequestOptions = {}) {
+  const { data, error } = await supabase
+    .from('commitment_records')
+    .select('*')
+    .eq('user_id', userId)
+    .gt('updated_at', since)
+    .order('updated_at', { ascending: true })
+    .abortSignal(requestSignal(options));
+
+  return { data, error };
+}
+
 // One-time seeding for existing commitments without order_rank
-export async function seedOrderRanksIfNeeded(userId: string) {
+export async function seedOrderRanksIfNeeded(userId: string, options: RequestOptions = {}) {
   if (!__DEV__) return { success: true, seeded: 0 }; // Only run in development
 
   console.log('🌱 Checking if order rank seeding is needed for user:', userId);
 
   // Check if any commitments have empty order_rank
-  const { data: commitmentsNeedingRanks, error: checkError } = await supabase
+  const { data: blankRankRows, error: checkError } = await supabase
     .from('commitments')
-    .select('id, created_at')
+    .select('id, created_at, lineage_id')
     .eq('user_id', userId)
-    .eq('order_rank', '');
+    .eq('order_rank', '')
+    .abortSignal(requestSignal(options));
 
   if (checkError) {
     console.error('❌ Error checking for commitments needing ranks:', checkError);
     return { success: false, seeded: 0 };
   }
 
+  // Earlier versions are never listed, so their blank rank is expected
+  const commitmentsNeedingRanks = blankRankRows?.filter(row => !isCommitmentVersionRow(row));
+
   if (!commitmentsNeedingRanks || commitmentsNeedingRanks.length === 0) {
     console.log('✅ All commitments already have order ranks');
     return { success: true, seeded: 0 };
@@ -446,9 +688,6 @@ export async function seedOrderRanksIfNeeded(userId: string) {
 
   console.log('🌱 Found', commitmentsNeedingRanks.length, 'commitments needing order ranks');
 
-  // Import rank utilities
-  const { rankAfter } = await import('@/utils/rank');
-
   // Sort by creation date and assign sequential ranks
   const sortedCommitments = commitmentsNeedingRanks.sort((a, b) =>
     a.created_at.localeCompare(b.created_at)
@@ -469,7 +708,7 @@ export async function seedOrderRanksIfNeeded(userId: string) {
   // Batch update all commitments
   try {
     for (const update of updates) {
-      await updateOrderRank(update.id, update.order_rank);
+      await updateOrderRank(update.id, update.order_rank, options);
     }
 
     console.log('✅ Successfully seeded', updates.length, 'commitment order ranks');
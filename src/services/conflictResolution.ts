@@ -0,0 +1,247 @@
+import type { AppDispatch, RootState } from '@/store';
+import {
+  addToQueue,
+  addConflicts,
+  dismissConflict,
+  dropSupersededEdits,
+  removeFromQueue,
+  type NewSyncAction,
+  type SyncAction,
+  type SyncConflict,
+  type SyncEntity,
+  type SyncOperationName,
+  type SyncOperationPayloads,
+} from '@/store/slices/syncSlice';
+import { mapDbCommitment, mergeCommitmentsFromServer } from '@/store/slices/commitmentsSlice';
+import { mapDbRecord, mergeRecordsFromServer } from '@/store/slices/recordsSlice';
+import { mergeLayoutItemsFromServer } from '@/store/slices/layoutItemsSlice';
+import { updateFriendOrder, updateRosterOrderRank } from '@/store/slices/socialSlice';
+import { transformRowToLayoutItem } from './layoutItems';
+import { mergePendingEdits, type PendingEdit } from '@/utils/fieldMerge';
+
+// Columns an operation writes, compared field by field against pulled rows. null marks a delete.
+type EditedColumns<K extends SyncOperationName> = (data: SyncOperationPayloads[K]) => Array<Record<string, unknown> | null>;
+
+const pickPresent = (data: Record<string, any>, columns: string[]) =>
+  Object.fromEntries(columns.filter(column => column in data).map(column => [column, data[column]]));
+
+/**
+ * Written columns for every sync operation
+ * Field updates compare per column; every other operation's columns win or lose together
+ */
+const EDITED_COLUMNS: { [K in SyncOperationName]: EditedColumns<K> } = {
+  commitmentCreate: () => [], // No server row yet
+  commitmentUpdate: (data) => Object.entries(data.updates).map(([column, value]) => ({ [column]: value })),
+  archive: (data) => [{ archived: data.archived, is_active: data.is_active }],
+  restore: (data) => [{ archived: data.archived, deleted_at: data.deletedAt, is_active: data.is_active }],
+  softDelete: (data) => [{ archived: data.archived, deleted_at: data.deletedAt, is_active: data.is_active }],
+  permaDelete: () => [], // Permanent deletes always win
+  showValues: (data) => [{ show_values: data.show_values }],
+  successCriteriaSet: () => [], // Lives in commitment_success_criteria - the latest threshold wins
+  requiredConditionsSet: () => [], // Same table, 'conditions_list' row
+  commitmentVersion: (data) => [{ ...data.updates, effective_from: data.effective_from, change_note: data.change_note }],
+  move: (data) => [{ order_rank: data.order_rank }],
+  recordUpsert: (data) => [pickPresent(data, ['status', 'value', 'notes', 'entries', 'is_future_prefill'])],
+  recordDelete: () => [null],
+  layoutCreate: () => [],
+  layoutDelete: () => [],
+  friendMove: (data) => [{ order_rank: data.order_rank }],
+  friendOrderCreate: (data) => [{ order_rank: data.order_rank }],
+};
+
+function getPendingEdits(queue: SyncAction[], entity: SyncEntity, entityId: string): PendingEdit[] {
+  return queue
+    .filter(action => action.entity === entity && action.entityId === entityId)
+    .flatMap(action => {
+      const toColumns = EDITED_COLUMNS[action.op] as EditedColumns<SyncOperationName>;
+      return toColumns(action.data).map(values => ({
+        actionId: action.id,
+        values,
+        editedAt: action.timestamp,
+        baseSyncAt: action.baseSyncAt ?? null,
+      }));
+    });
+}
+
+// The queued action narrowed to the conflicting columns, without queue bookkeeping
+function toLocalAction(action: SyncAction, values: Record<string, unknown> | null): NewSyncAction {
+  const { op, entity, entityId, data } = action;
+  if (op === 'commitmentUpdate' && values) {
+    return { op, entity, entityId, data: { updates: values } };
+  }
+  return { op, entity, entityId, data } as NewSyncAction;
+}
+
+/**
+ * Merge pulled rows with queued local edits, field by field
+ * Returns the rows to apply locally; local deletes that still stand are left out.
+ * Overruled edits are dropped from the queue and true conflicts are recorded for the user.
+ */
+export const reconcilePulledRows = <Row extends Record<string, any>>(
+  entity: SyncEntity,
+  rows: Row[],
+  keyOf: (row: Row) => string
+) => (dispatch: AppDispatch, getState: () => RootState): Row[] => {
+  const queue = getState().sync.queue;
+  if (queue.length === 0) return rows;
+
+  const merged: Row[] = [];
+  const conflicts: SyncConflict[] = [];
+
+  rows.forEach(serverRow => {
+    const entityId = keyOf(serverRow);
+    const edits = getPendingEdits(queue, entity, entityId);
+    if (edits.length === 0) {
+      merged.push(serverRow);
+      return;
+    }
+
+    const result = mergePendingEdits(serverRow, edits);
+    if (result.row) {
+      merged.push(result.row as Row);
+    }
+
+    result.superseded.forEach(edit => {
+      dispatch(dropSupersededEdits({ actionId: edit.actionId, columns: Object.keys(edit.values ?? {}) }));
+    });
+
+    result.conflicts.forEach(({ edit, columns, serverEditedAt, winner }) => {
+      const action = queue.find(queued => queued.id === edit.actionId);
+      if (!action) return;
+
+      const localValues = edit.values && Object.fromEntries(columns.map(column => [column, edit.values![column]]));
+      conflicts.push({
+        id: `conflict_${Date.now()}_${Math.random()}`,
+        entity,
+        entityId,
+        columns,
+        localValues,
+        serverValues: Object.fromEntries(columns.map(column => [column, serverRow[column]])),
+        serverRow,
+        localAction: toLocalAction(action, localValues),
+        winner,
+        localEditedAt: edit.editedAt,
+        serverEditedAt,
+        detectedAt: new Date().toISOString(),
+      });
+    });
+  });
+
+  if (conflicts.length > 0) {
+    console.log(`⚠️ [SYNC-CONFLICT] ${conflicts.length} ${entity} conflicts:`, conflicts.map(conflict => ({
+      entityId: conflict.entityId,
+      columns: conflict.columns,
+      winner: conflict.winner,
+    })));
+    dispatch(addConflicts(conflicts));
+  }
+
+  return merged;
+};
+
+/**
+ * Apply queued local edits to rows pulled as deleted
+ * Hard deletes of commitments and layout items win - queued edits to them (and to a deleted
+ * commitment's records) are dropped. A record deleted elsewhere but re-edited here is kept,
+ * since its queued upsert writes it back. Returns the IDs to remove locally.
+ */
+export const reconcilePulledDeletes = (entity: 'commitment' | 'record' | 'layout_item', deletedIds: string[]) =>
+  (dispatch: AppDispatch, getState: () => RootState): string[] => {
+    const { sync, records } = getState();
+    if (deletedIds.length === 0 || sync.queue.length === 0) return deletedIds;
+
+    if (entity === 'record') {
+      const editedKeys = new Set(sync.queue.filter(action => action.op === 'recordUpsert').map(action => action.entityId));
+      return deletedIds.filter(id => {
+        const local = records.records.find(record => record.id === id);
+        return !local || !editedKeys.has(`${local.commitmentId}_${local.date}`);
+      });
+    }
+
+    const orphaned = sync.queue.filter(action =>
+      (action.entity === entity && deletedIds.includes(action.entityId)) ||
+      (entity === 'commitment' && (action.op === 'recordUpsert' || action.op === 'recordDelete') &&
+        deletedIds.includes(action.data.commitment_id))
+    );
+    orphaned.forEach(action => dispatch(removeFromQueue(action.id)));
+
+    if (orphaned.length > 0) {
+      console.log(`🗑️ [SYNC-CLEANUP] Dropped ${orphaned.length} queued actions for ${entity}s deleted on another device`);
+    }
+    return deletedIds;
+  };
+
+// Write the server's version back through the queue, overriding the local edit that won
+function toServerAction(conflict: SyncConflict): NewSyncAction {
+  const { entity, entityId, serverRow, serverValues } = conflict;
+
+  switch (entity) {
+    case 'commitment':
+      return { op: 'commitmentUpdate', entity, entityId, data: { updates: serverValues } };
+    case 'record':
+      return {
+        op: 'recordUpsert',
+        entity,
+        entityId,
+        data: pickPresent(serverRow, ['user_id', 'commitment_id', 'completed_at', 'status', 'value', 'notes', 'entries', 'is_future_prefill']) as SyncOperationPayloads['recordUpsert'],
+      };
+    case 'layout_item':
+      return { op: 'move', entity, entityId, data: { order_rank: serverRow.order_rank, user_id: serverRow.user_id } };
+    case 'friend_order':
+      return {
+        op: 'friendMove',
+        entity,
+        entityId,
+        data: {
+          user_id: serverRow.user_id,
+          friend_user_id: serverRow.friend_user_id,
+          group_name: serverRow.group_name || 'all',
+          order_rank: serverRow.order_rank,
+        },
+      };
+  }
+}
+
+function applyRowLocally(dispatch: AppDispatch, entity: SyncEntity, row: Record<string, any> | null, serverRow: Record<string, any>) {
+  switch (entity) {
+    case 'commitment':
+      if (row) dispatch(mergeCommitmentsFromServer({ commitments: [mapDbCommitment(row)], deletedIds: [] }));
+      break;
+    case 'record':
+      dispatch(mergeRecordsFromServer(row
+        ? { records: [mapDbRecord(row)], deletedIds: [] }
+        : { records: [], deletedIds: [serverRow.id] }));
+      break;
+    case 'layout_item':
+      if (row) dispatch(mergeLayoutItemsFromServer({ layoutItems: [transformRowToLayoutItem(row as any)], deletedIds: [] }));
+      break;
+    case 'friend_order':
+      if (row) {
+        dispatch(updateRosterOrderRank({ id: row.friend_user_id, newRank: row.order_rank }));
+        dispatch(updateFriendOrder({ id: row.friend_user_id, newRank: row.order_rank }));
+      }
+      break;
+  }
+}
+
+/**
+ * Settle a conflict with the version the user picked
+ * Picking the version that already won just dismisses it; otherwise the pick is applied and queued
+ */
+export const resolveSyncConflict = (conflictId: string, keep: 'local' | 'server') =>
+  (dispatch: AppDispatch, getState: () => RootState) => {
+    const conflict = (getState().sync.conflicts ?? []).find(item => item.id === conflictId);
+    if (!conflict) return;
+
+    if (keep !== conflict.winner) {
+      const row = keep === 'server'
+        ? conflict.serverRow
+        : conflict.localValues && { ...conflict.serverRow, ...conflict.localValues };
+
+      applyRowLocally(dispatch, conflict.entity, row, conflict.serverRow);
+      dispatch(addToQueue(keep === 'local' ? conflict.localAction : toServerAction(conflict)));
+      console.log(`🔧 [SYNC-CONFLICT] Kept ${keep} version of ${conflict.entity}:${conflict.entityId}`);
+    }
+
+    dispatch(dismissConflict(conflictId));
+  };
@@ -0,0 +1,90 @@
+import { supabase } from './supabase';
+import { requestSignal, type RequestOptions } from './sessionSignal';
+import { getCommitmentsChangedSince, getRecordsChangedSince } from './commitments';
+import { getLayoutItemsChangedSince, type LayoutItemRow } from './layoutItems';
+
+// Re-read a little before the cursor: a row written by a slow transaction can commit
+// after newer rows with an earlier updated_at. Merging is idempotent so overlap is harmless.
+const PULL_OVERLAP_MS = 5000; // 5 seconds
+
+export type TombstoneTable = 'commitments' | 'commitment_records' | 'layout_items';
+
+export interface SyncTombstone {
+  table_name: TombstoneTable;
+  row_id: string;
+  deleted_at: string;
+}
+
+// Rows stay in database shape so they can be merged with pending local edits before mapping
+export interface DeltaChanges {
+  commitments: any[];
+  records: any[];
+  layoutItems: LayoutItemRow[];
+  deleted: Record<TombstoneTable, string[]>;
+  cursor: string; // Newest server timestamp seen - pass as `since` on the next pull
+}
+
+/**
+ * Hard-deleted rows since the given timestamp (populated by database triggers)
+ */
+export async function getSyncTombstones(userId: string, since: string, options: RequestOptions = {}) {
+  const { data, error } = await supabase
+    .from('sync_tombstones' as any)
+    .select('table_name, row_id, deleted_at')
+    .eq('user_id', userId)
+    .gt('deleted_at', since)
+    .order('deleted_at', { ascending: true })
+    .abortSignal(requestSignal(options));
+
+  return { data: data as SyncTombstone[] | null, error };
+}
+
+/**
+ * Everything that changed on the server after `since`
+ * Throws on the first failed query so the caller keeps its old cursor
+ */
+export async function pullChangesSince(userId: string, since: string, options: RequestOptions = {}): Promise<DeltaChanges> {
+  const querySince = new Date(new Date(since).getTime() - PULL_OVERLAP_MS).toISOString();
+
+  const [commitmentsResult, recordsResult, layoutItems, tombstonesResult] = await Promise.all([
+    getCommitmentsChangedSince(userId, querySince, options),
+    getRecordsChangedSince(userId, querySince, options),
+    getLayoutItemsChangedSince(userId, querySince, options),
+    getSyncTombstones(userId, querySince, options),
+  ]);
+
+  if (commitmentsResult.error) throw new Error(commitmentsResult.error.message);
+  if (recordsResult.error) throw new Error(recordsResult.error.message);
+  if (tombstonesResult.error) throw new Error(tombstonesResult.error.message);
+
+  const commitmentRows: any[] = commitmentsResult.data || [];
+  const recordRows: any[] = recordsResult.data || [];
+  const tombstones = tombstonesResult.data || [];
+
+  const deleted: Record<TombstoneTable, string[]> = {
+    commitments: [],
+    commitment_records: [],
+    layout_items: [],
+  };
+  tombstones.forEach(tombstone => deleted[tombstone.table_name]?.push(tombstone.row_id));
+
+  // ISO timestamps compare correctly as strings once normalised
+  const timestamps = [
+    ...commitmentRows.map(row => row.updated_at),
+    ...recordRows.map(row => row.updated_at),
+    ...layoutItems.map(row => row.updated_at),
+    ...tombstones.map(tombstone => tombstone.deleted_at),
+  ]
+    .filter(Boolean)
+    .map(timestamp => new Date(timestamp).toISOString());
+
+  const cursor = timestamps.reduce((latest, timestamp) => (timestamp > latest ? timestamp : latest), since);
+
+  return {
+    commitments: commitmentRows,
+    records: recordRows,
+    layoutItems,
+    deleted,
+    cursor,
+  };
+}
@@ -1,5 +1,11 @@
 import { supabase } from './supabase';
 import type { Database } from '@/types/supabase';
+import { applyFriendViewHiding } from '@/utils/reorderValidation';
+import { requestSignal, type RequestOptions } from './sessionSignal';
+import { getCommitmentStreaks, toCachedStreak } from './commitments';
+import type { DayRecord } from '@/store/slices/recordsSlice';
+import type { CommitmentSchedule } from '@/utils/schedule';
+import { StreakCalculator, type CachedStreak } from '@/utils/streakCalculation';
 
 // Type definitions
 type FriendRequest = Database['public']['Tables']['friend_requests']['Row'];
@@ -33,7 +39,7 @@ export interface FriendRequestWithProfile extends FriendRequest {
 // FRIEND REQUESTS
 // ==============================================
 
-export async function sendFriendRequest(receiverId: string, message?: string) {
+export async function sendFriendRequest(receiverId: string, message?: string, options: RequestOptions = {}) {
   const { data: currentUser } = await supabase.auth.getUser();
   if (!currentUser?.user?.id) {
     return { data: null, error: { message: 'Not authenticated' } };
@@ -45,6 +51,7 @@ export async function sendFriendRequest(receiverId: string, message?: string) {
     .select('id, status')
     .eq('sender_id', currentUser.user.id)
     .eq('receiver_id', receiverId)
+    .abortSignal(requestSignal(options))
     .single();
 
   if (existingRequest) {
@@ -61,6 +68,7 @@ export async function sendFriendRequest(receiverId: string, message?: string) {
         })
         .eq('id', existingRequest.id)
         .select()
+        .abortSignal(requestSignal(options))
         .single();
       
       return { data, error };
@@ -78,19 +86,21 @@ export async function sendFriendRequest(receiverId: string, message?: string) {
     .from('friend_requests')
     .insert([requestData])
     .select()
+    .abortSignal(requestSignal(options))
     .single();
 
   return { data, error };
 }
 
-export async function getPendingFriendRequests(userId: string) {
+export async function getPendingFriendRequests(userId: string, options: RequestOptions = {}) {
   // Get the friend requests
   const { data: requests, error: requestsError } = await supabase
     .from('friend_requests')
     .select('*')
     .eq('receiver_id', userId)
     .eq('status', 'pending')
-    .order('created_at', { ascending: false });
+    .order('created_at', { ascending: false })
+    .abortSignal(requestSignal(options));
 
   if (requestsError || !requests) {
     return { data: [], error: requestsError };
@@ -101,7 +111,8 @@ export async function getPendingFriendRequests(userId: string) {
   const { data: profiles, error: profilesError } = await supabase
     .from('profiles')
     .select('id, email, username, full_name, avatar_url, avatar_animal, avatar_color')
-    .in('id', senderIds);
+    .in('id', senderIds)
+    .abortSignal(requestSignal(options));
 
   // Combine the data
   const requestsWithProfiles = requests.map(request => ({
@@ -112,7 +123,7 @@ export async function getPendingFriendRequests(userId: string) {
   return { data: requestsWithProfiles, error: null };
 }
 
-export async function getSentFriendRequests(userId: string) {
+export async function getSentFriendRequests(userId: string, options: RequestOptions = {}) {
 
   const { data, error } = await supabase
     .from('friend_requests')
@@ -122,7 +133,8 @@ export async function getSentFriendRequests(userId: string) {
     `)
     .eq('sender_id', userId)
     .eq('status', 'pending')
-    .order('created_at', { ascending: false });
+    .order('created_at', { ascending: false })
+    .abortSignal(requestSignal(options));
 
   console.log('📤 getSentFriendRequests result:', { 
     count: data?.length || 0, 
@@ -132,19 +144,19 @@ export async function getSentFriendRequests(userId: string) {
   return { data: data || [], error };
 }
 
-export async function acceptFriendRequest(requestId: string) {
+export async function acceptFriendRequest(requestId: string, options: RequestOptions = {}) {
   if (!requestId) {
     return { data: null, error: { message: 'Request ID is required' } };
   }
 
   const { data, error } = await supabase.rpc('accept_friend_request', {
     p_request_id: requestId
-  });
+  }).abortSignal(requestSignal(options));
 
   return { data, error };
 }
 
-export async function declineFriendRequest(requestId: string) {
+export async function declineFriendRequest(requestId: string, options: RequestOptions = {}) {
   if (!requestId) {
     return { data: null, error: { message: 'Request ID is required' } };
   }
@@ -154,12 +166,13 @@ export async function declineFriendRequest(requestId: string) {
     .update({ status: 'declined' })
     .eq('id', requestId)
     .select()
+    .abortSignal(requestSignal(options))
     .single();
 
   return { data, error };
 }
 
-export async function cancelFriendRequest(requestId: string) {
+export async function cancelFriendRequest(requestId: string, options: RequestOptions = {}) {
   if (!requestId) {
     return { data: null, error: { message: 'Request ID is required' } };
   }
@@ -169,6 +182,7 @@ export async function cancelFriendRequest(requestId: string) {
     .delete()
     .eq('id', requestId)
     .select()
+    .abortSignal(requestSignal(options))
     .single();
 
   console.log('🚫 cancelFriendRequest result:', { 
@@ -183,11 +197,11 @@ export async function cancelFriendRequest(requestId: string) {
 // FRIENDSHIPS
 // ==============================================
 
-export async function getUserFriends(userId: string) {
+export async function getUserFriends(userId: string, options: RequestOptions = {}) {
 
   const { data, error } = await supabase.rpc('get_user_friends', {
     p_user_id: userId
-  });
+  }).abortSignal(requestSignal(options));
 
   console.log('👥 getUserFriends result:', { 
     count: data?.length || 0, 
@@ -197,7 +211,7 @@ export async function getUserFriends(userId: string) {
   return { data: data || [], error };
 }
 
-export async function removeFriend(friendUserId: string) {
+export async function removeFriend(friendUserId: string, options: RequestOptions = {}) {
 
   const { data: currentUser } = await supabase.auth.getUser();
   if (!currentUser?.user?.id) {
@@ -216,6 +230,7 @@ export async function removeFriend(friendUserId: string) {
     .eq('user1_id', user1Id)
     .eq('user2_id', user2Id)
     .select()
+    .abortSignal(requestSignal(options))
     .single();
 
   console.log('🗑️ removeFriend result:', { 
@@ -240,6 +255,8 @@ export interface FriendChartData {
     target?: number;
     streak: number;
     bestStreak: number;
+    streakCache?: CachedStreak | null;
+    schedule?: CommitmentSchedule | null;
     isActive: boolean;
     isPrivate: boolean;
     createdAt: string;
@@ -278,13 +295,159 @@ export interface FriendChartData {
   }>;
 }
 
-export async function getFriendsChartsData(userId: string): Promise<{ data: FriendChartData[], error: any }> {
+export type FriendChartCommitment = FriendChartData['commitments'][number];
+export type FriendChartLayoutItem = FriendChartData['layoutItems'][number];
+export type FriendChartRecord = FriendChartData['records'][number];
+
+// Days of records loaded for each friend's chart
+export const FRIEND_RECORDS_WINDOW_DAYS = 30;
+
+/**
+ * Convert a friend's commitments row into the chart shape
+ */
+export function mapFriendCommitment(c: any): FriendChartCommitment {
+  return {
+    id: c.id,
+    title: c.title,
+    color: c.color,
+    type: 'binary' as 'binary' | 'counter' | 'timer', // Default to binary for now
+    target: c.target_days,
+    streak: 0, // Resolved once records and the streak cache load - see withResolvedStreak
+    bestStreak: 0,
+    schedule: c.schedule || null,
+    isActive: c.is_active,
+    isPrivate: c.is_private || false, // Use database value, default to false
+    createdAt: c.created_at,
+    updatedAt: c.updated_at,
+    order_rank: c.order_rank || '', // Include order_rank for client-side sorting
+    // Display preference fields so friends can see user's preferred display format
+    showValues: c.show_values || false,
+    commitmentType: c.commitment_type || 'checkbox',
+  };
+}
+
+/**
+ * Fill in a friend's commitment streak from the server's cache and the records loaded for the chart
+ * `editedDate` is the day a live update touched - an edit on or before the cache's as-of day
+ * leaves the cache stale, so the streak falls back to the loaded records.
+ */
+export function withResolvedStreak(
+  commitment: FriendChartCommitment,
+  records: FriendChartRecord[],
+  editedDate?: string
+): FriendChartCommitment {
+  const cache = commitment.streakCache;
+  const streakCache = editedDate && cache?.asOfDate && editedDate <= cache.asOfDate ? null : cache;
+  const { currentStreak, bestStreak } = StreakCalculator.resolveStreak(commitment.id, records as DayRecord[], {
+    schedule: commitment.schedule,
+    createdAt: commitment.createdAt,
+    streakCache,
+  });
+
+  return {
+    ...commitment,
+    streak: currentStreak,
+    bestStreak: streakCache ? bestStreak : Math.max(bestStreak, commitment.bestStreak),
+    streakCache,
+  };
+}
+
+/**
+ * Client-side fallback ordering (matches selectActiveOrdered logic)
+ */
+export function compareFriendCommitments(a: FriendChartCommitment, b: FriendChartCommitment): number {
+  const rankA = a.order_rank || '';
+  const rankB = b.order_rank || '';
+  const rankCompare = rankA.localeCompare(rankB);
+  if (rankCompare !== 0) return rankCompare;
+
+  const dateCompare = a.updatedAt.localeCompare(b.updatedAt);
+  if (dateCompare !== 0) return dateCompare;
+
+  return a.id.localeCompare(b.id);
+}
+
+/**
+ * Convert a friend's layout_items row into the chart shape
+ */
+export function mapFriendLayoutItem(l: any): FriendChartLayoutItem {
+  return {
+    id: l.id,
+    userId: l.user_id,
+    type: l.type as 'spacer' | 'divider',
+    height: l.height,
+    style: l.style as 'solid' | 'dashed' | 'dotted' | undefined,
+    color: l.color,
+    order_rank: l.order_rank,
+    isActive: l.is_active,
+    archived: l.archived,
+    deletedAt: l.deleted_at,
+    lastActiveRank: l.last_active_rank,
+    createdAt: l.created_at,
+    updatedAt: l.updated_at,
+    hidden: false, // Will be set by friend view logic
+  };
+}
+
+/**
+ * Convert a friend's commitment_records row into the chart shape
+ */
+export function mapFriendRecord(r: any): FriendChartRecord {
+  return {
+    id: r.id,
+    commitmentId: r.commitment_id,
+    date: r.completed_at.split('T')[0], // Extract date part
+    status: r.status === 'complete' ? 'completed' : r.status as 'completed' | 'skipped' | 'failed' | 'none',
+    value: r.value, // Preserve the actual value from database for measurement commitments
+    notes: r.notes || undefined,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at || r.created_at,
+  };
+}
+
+/**
+ * Mark layout items that would sit next to hidden (private) commitments in the friend view
+ */
+export function applyFriendLayoutHiding(
+  commitments: FriendChartCommitment[],
+  layoutItems: FriendChartLayoutItem[],
+  viewerUserId: string
+): FriendChartLayoutItem[] {
+  // Convert commitments to validation format
+  const commitmentItems = commitments.map(c => ({
+    id: c.id,
+    type: 'commitment' as const,
+    title: c.title,
+    order_rank: c.order_rank,
+    isPrivate: c.isPrivate,
+  }));
+
+  // Convert layout items to validation format
+  const layoutItemsForValidation = layoutItems.map(l => ({
+    id: l.id,
+    type: l.type,
+    height: l.height,
+    style: l.style,
+    order_rank: l.order_rank,
+  }));
+
+  // Apply hiding logic (this will mark layout items as hidden based on privacy filtering)
+  const repairedItems = applyFriendViewHiding(commitmentItems, layoutItemsForValidation, viewerUserId);
+
+  const hiddenItemIds = new Set(
+    repairedItems.filter(item => item.hidden && item.type !== 'commitment').map(item => item.id)
+  );
+
+  return layoutItems.map(item => ({ ...item, hidden: hiddenItemIds.has(item.id) }));
+}
+
+export async function getFriendsChartsData(userId: string, options: RequestOptions = {}): Promise<{ data: FriendChartData[], error: any }> {
   console.log('📊 getFriendsChartsData called for user:', userId);
 
 
   try {
     // First get user's friends
-    const { data: friends, error: friendsError } = await getUserFriends(userId);
+    const { data: friends, error: friendsError } = await getUserFriends(userId, options);
     
     console.log('📊 getUserFriends result:', { 
       friendsCount: friends?.length || 0, 
@@ -314,7 +477,8 @@ export async function getFriendsChartsData(userId: string): Promise<{ data: Frie
           .is('deleted_at', null)
           .order('order_rank', { ascending: true })
           .order('updated_at', { ascending: true })
-          .order('id', { ascending: true });
+          .order('id', { ascending: true })
+          .abortSignal(requestSignal(options));
 
         console.log(`📊 Commitments query result for friend ${friend.id}:`, {
           commitmentsCount: commitments?.length || 0,
@@ -337,7 +501,8 @@ export async function getFriendsChartsData(userId: string): Promise<{ data: Frie
           .eq('is_active', true)
           .eq('archived', false)
           .is('deleted_at', null)
-          .order('order_rank', { ascending: true });
+          .order('order_rank', { ascending: true })
+          .abortSignal(requestSignal(options));
 
         console.log(`📊 Layout items query result for friend ${friend.id}:`, {
           layoutItemsCount: layoutItems?.length || 0,
@@ -367,87 +532,14 @@ export async function getFriendsChartsData(userId: string): Promise<{ data: Frie
         }
 
         // Convert commitments to the expected format and apply client-side ordering fallback
-        const convertedCommitments = commitments
-          .map(c => ({
-            id: c.id,
-            title: c.title,
-            color: c.color,
-            type: 'binary' as 'binary' | 'counter' | 'timer', // Default to binary for now
-            target: c.target_days,
-            streak: 0, // Will be calculated from records
-            bestStreak: 0, // Will be calculated from records
-            isActive: c.is_active,
-            isPrivate: c.is_private || false, // Use database value, default to false
-            createdAt: c.created_at,
-            updatedAt: c.updated_at,
-            order_rank: c.order_rank || '', // Include order_rank for client-side sorting
-            // Display preference fields so friends can see user's preferred display format
-            showValues: c.show_values || false,
-            commitmentType: c.commitment_type || 'checkbox',
-          }))
-          .sort((a, b) => {
-            // Client-side fallback ordering (matches selectActiveOrdered logic)
-            const rankA = a.order_rank || '';
-            const rankB = b.order_rank || '';
-            const rankCompare = rankA.localeCompare(rankB);
-            if (rankCompare !== 0) return rankCompare;
-
-            const dateCompare = a.updatedAt.localeCompare(b.updatedAt);
-            if (dateCompare !== 0) return dateCompare;
-
-            return a.id.localeCompare(b.id);
-          });
-
-        // Convert layout items to the expected format
-        const convertedLayoutItems = (layoutItems || []).map(l => ({
-          id: l.id,
-          userId: l.user_id,
-          type: l.type as 'spacer' | 'divider',
-          height: l.height,
-          style: l.style as 'solid' | 'dashed' | 'dotted' | undefined,
-          color: l.color,
-          order_rank: l.order_rank,
-          isActive: l.is_active,
-          archived: l.archived,
-          deletedAt: l.deleted_at,
-          lastActiveRank: l.last_active_rank,
-          createdAt: l.created_at,
-          updatedAt: l.updated_at,
-          hidden: false, // Will be set by friend view logic
-        }));
-
-        // Apply friend view hiding logic
-        const { applyFriendViewHiding } = await import('@/utils/reorderValidation');
-
-        // Convert commitments to validation format
-        const commitmentItems = convertedCommitments.map(c => ({
-          id: c.id,
-          type: 'commitment' as const,
-          title: c.title,
-          order_rank: c.order_rank,
-          isPrivate: c.isPrivate,
-        }));
-
-        // Convert layout items to validation format
-        const layoutItemsForValidation = convertedLayoutItems.map(l => ({
-          id: l.id,
-          type: l.type,
-          height: l.height,
-          style: l.style,
-          order_rank: l.order_rank,
-        }));
-
-        // Apply hiding logic (this will mark layout items as hidden based on privacy filtering)
-        const repairedItems = applyFriendViewHiding(commitmentItems, layoutItemsForValidation, userId);
-
-        // Update convertedLayoutItems with hidden status
-        const hiddenItemIds = new Set(
-          repairedItems.filter(item => item.hidden && item.type !== 'commitment').map(item => item.id)
-        );
+        const convertedCommitments = commitments.map(mapFriendCommitment).sort(compareFriendCommitments);
 
-        convertedLayoutItems.forEach(item => {
-          item.hidden = hiddenItemIds.has(item.id);
-        });
+        // Convert layout items to the expected format, hiding those orphaned by private commitments
+        const convertedLayoutItems = applyFriendLayoutHiding(
+          convertedCommitments,
+          (layoutItems || []).map(mapFriendLayoutItem),
+          userId
+        );
 
         if (__DEV__) {
           console.log(`👥 friends order applied: ${friend.id}, ${commitments.length} commitments, ${convertedLayoutItems.length} layout items`);
@@ -457,7 +549,7 @@ export async function getFriendsChartsData(userId: string): Promise<{ data: Frie
         let allRecords: any[] = [];
         if (commitments.length > 0) {
           const thirtyDaysAgo = new Date();
-          thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+          thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - FRIEND_RECORDS_WINDOW_DAYS);
           const startDate = thirtyDaysAgo.toISOString().split('T')[0];
           const endDate = new Date().toISOString().split('T')[0];
 
@@ -470,6 +562,7 @@ export async function getFriendsChartsData(userId: string): Promise<{ data: Frie
               .gte('completed_at', `${startDate}T00:00:00Z`)
               .lte('completed_at', `${endDate}T23:59:59Z`)
               .order('completed_at', { ascending: true })
+              .abortSignal(requestSignal(options))
           );
 
           const recordsResults = await Promise.all(recordsPromises);
@@ -477,22 +570,29 @@ export async function getFriendsChartsData(userId: string): Promise<{ data: Frie
         }
 
         // Convert records to the expected format
-        const convertedRecords = allRecords.map(r => ({
-          id: r.id,
-          commitmentId: r.commitment_id,
-          date: r.completed_at.split('T')[0], // Extract date part
-          status: r.status === 'complete' ? 'completed' : r.status as 'completed' | 'skipped' | 'failed' | 'none',
-          value: r.value, // Preserve the actual value from database for measurement commitments
-          notes: r.notes || undefined,
-          createdAt: r.created_at,
-          updatedAt: r.updated_at || r.created_at,
-        }));
+        const convertedRecords = allRecords.map(mapFriendRecord);
+
+        // Streaks continue from the server's cache, which covers history older than these records
+        const streakCaches = new Map<string, CachedStreak>();
+        if (convertedCommitments.length > 0) {
+          const { data: streakRows, error: streaksError } = await getCommitmentStreaks(
+            convertedCommitments.map(c => c.id),
+            options
+          );
+          if (streaksError) {
+            console.error('📊 Streak cache ERROR:', streaksError);
+          }
+          (streakRows || []).forEach(row => streakCaches.set(row.commitment_id, toCachedStreak(row)));
+        }
+        const commitmentsWithStreaks = convertedCommitments.map(c =>
+          withResolvedStreak({ ...c, streakCache: streakCaches.get(c.id) ?? null }, convertedRecords)
+        );
 
         console.log(`📊 Friend ${friend.id}: ${convertedCommitments.length} commitments, ${convertedLayoutItems.length} layout items, ${convertedRecords.length} records`);
 
         return {
           friend,
-          commitments: convertedCommitments,
+          commitments: commitmentsWithStreaks,
           layoutItems: convertedLayoutItems,
           records: convertedRecords
         };
@@ -530,7 +630,7 @@ export async function getFriendsChartsData(userId: string): Promise<{ data: Frie
 // UTILITY FUNCTIONS
 // ==============================================
 
-export async function checkFriendshipStatus(otherUserId: string) {
+export async function checkFriendshipStatus(otherUserId: string, options: RequestOptions = {}) {
 
   const { data: currentUser } = await supabase.auth.getUser();
   if (!currentUser?.user?.id) {
@@ -548,7 +648,7 @@ export async function checkFriendshipStatus(otherUserId: string) {
   const { data: friendshipData } = await supabase.rpc('are_users_friends', {
     p_user1_id: currentUserId,
     p_user2_id: otherUserId
-  });
+  }).abortSignal(requestSignal(options));
 
   // Check for pending requests (received)
   const { data: pendingRequests } = await supabase
@@ -556,7 +656,8 @@ export async function checkFriendshipStatus(otherUserId: string) {
     .select('id')
     .eq('sender_id', otherUserId)
     .eq('receiver_id', currentUserId)
-    .eq('status', 'pending');
+    .eq('status', 'pending')
+    .abortSignal(requestSignal(options));
 
   // Check for sent requests  
   const { data: sentRequests } = await supabase
@@ -564,7 +665,8 @@ export async function checkFriendshipStatus(otherUserId: string) {
     .select('id')
     .eq('sender_id', currentUserId)
     .eq('receiver_id', otherUserId)
-    .eq('status', 'pending');
+    .eq('status', 'pending')
+    .abortSignal(requestSignal(options));
 
   const result = {
     areFriends: friendshipData || false,
@@ -582,10 +684,10 @@ export async function checkFriendshipStatus(otherUserId: string) {
 // SEARCH FUNCTIONS
 // ==============================================
 
-export async function searchUsersByEmail(query: string) {
+export async function searchUsersByEmail(query: string, options: RequestOptions = {}) {
   const { data, error } = await supabase.rpc('search_users_by_email', {
     p_email_query: query
-  });
+  }).abortSignal(requestSignal(options));
 
   console.log('🔍 searchUsersByEmail result:', {
     query,
@@ -601,12 +703,13 @@ export async function searchUsersByEmail(query: string) {
 // ==============================================
 
 // Get friend order ranks for a user
-export async function getFriendOrderRanks(userId: string, groupName: string = 'all') {
+export async function getFriendOrderRanks(userId: string, groupName: string = 'all', options: RequestOptions = {}) {
   const { data, error } = await supabase
     .from('friend_order')
-    .select('friend_user_id, order_rank, updated_at')
+    .select('user_id, group_name, friend_user_id, order_rank, updated_at, field_updated_at')
     .eq('user_id', userId)
-    .eq('group_name', groupName);
+    .eq('group_name', groupName)
+    .abortSignal(requestSignal(options));
 
   console.log('👥 [Friends Service] getFriendOrderRanks result:', {
     userId,
@@ -620,7 +723,7 @@ export async function getFriendOrderRanks(userId: string, groupName: string = 'a
 }
 
 // Update friend order rank for personal ordering
-export async function updateFriendOrderRank(userId: string, friendUserId: string, orderRank: string, groupName: string = 'all') {
+export async function updateFriendOrderRank(userId: string, friendUserId: string, orderRank: string, groupName: string = 'all', options: RequestOptions = {}) {
   const { data, error } = await supabase
     .from('friend_order')
     .upsert({
@@ -633,6 +736,7 @@ export async function updateFriendOrderRank(userId: string, friendUserId: string
       onConflict: 'user_id,group_name,friend_user_id'
     })
     .select()
+    .abortSignal(requestSignal(options))
     .single();
 
   console.log('👥 [Friends Service] updateFriendOrderRank result:', {
@@ -646,3 +750,31 @@ export async function updateFriendOrderRank(userId: string, friendUserId: string
 
   return { data, error };
 }
+
+// Create the order entry for a newly added friend
+// Leaves an existing entry alone, so a retried create can't undo a reorder made on another device
+export async function createFriendOrderRank(userId: string, friendUserId: string, orderRank: string, groupName: string = 'all', options: RequestOptions = {}) {
+  const { error } = await supabase
+    .from('friend_order' as any)
+    .upsert({
+      user_id: userId,
+      friend_user_id: friendUserId,
+      group_name: groupName,
+      order_rank: orderRank,
+    }, {
+      onConflict: 'user_id,group_name,friend_user_id',
+      ignoreDuplicates: true
+    })
+    .abortSignal(requestSignal(options));
+
+  console.log('👥 [Friends Service] createFriendOrderRank result:', {
+    userId,
+    friendUserId,
+    orderRank,
+    groupName,
+    success: !error,
+    error: error?.message || 'No error'
+  });
+
+  return { error };
+}
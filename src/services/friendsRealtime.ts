@@ -0,0 +1,189 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import {
+  FRIEND_RECORDS_WINDOW_DAYS,
+  applyFriendLayoutHiding,
+  compareFriendCommitments,
+  mapFriendCommitment,
+  mapFriendLayoutItem,
+  mapFriendRecord,
+  withResolvedStreak,
+  type FriendChartData,
+} from './friends';
+
+export type FriendsRealtimeTable = 'commitments' | 'commitment_records' | 'layout_items' | 'sync_tombstones';
+
+export interface FriendsRealtimeChange {
+  table: FriendsRealtimeTable;
+  row: Record<string, any>; // New row - deletes arrive as sync_tombstones inserts
+}
+
+// Deletes can't be filtered or checked against RLS by Realtime, so they come through tombstones
+const ROW_TABLES: FriendsRealtimeTable[] = ['commitments', 'commitment_records', 'layout_items'];
+
+// Realtime `in` filters accept at most 100 values
+const MAX_FILTER_VALUES = 100;
+
+let channelCount = 0;
+
+/**
+ * Subscribe to changes in the given friends' charts
+ * Realtime only delivers rows the signed-in user may select, so private commitments stay private
+ * Returns an unsubscribe function
+ */
+export function subscribeToFriendsProgress(
+  userId: string,
+  friendIds: string[],
+  onChange: (change: FriendsRealtimeChange) => void
+): () => void {
+  if (friendIds.length === 0) {
+    return () => {};
+  }
+
+  // Unique topic per subscriber - hooks on different screens may watch the same friends
+  channelCount += 1;
+  const channel: RealtimeChannel = supabase.channel(`friends-progress:${userId}:${channelCount}`);
+
+  for (let i = 0; i < friendIds.length; i += MAX_FILTER_VALUES) {
+    const filter = `user_id=in.(${friendIds.slice(i, i + MAX_FILTER_VALUES).join(',')})`;
+
+    ROW_TABLES.forEach(table => {
+      channel.on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter }, payload => {
+        onChange({ table, row: payload.new });
+      });
+      channel.on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter }, payload => {
+        onChange({ table, row: payload.new });
+      });
+    });
+
+    channel.on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'sync_tombstones', filter }, payload => {
+      onChange({ table: 'sync_tombstones', row: payload.new });
+    });
+  }
+
+  channel.subscribe((status, error) => {
+    if (error) {
+      console.error('📡 [Friends Realtime] Subscription error:', error);
+      return;
+    }
+    console.log(`📡 [Friends Realtime] ${status} for ${friendIds.length} friends`);
+  });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+const isVisibleRow = (row: Record<string, any>) => row.is_active && !row.archived && !row.deleted_at;
+
+// Matches the window getFriendsChartsData loads
+const isInRecordsWindow = (date: string) => {
+  const windowStart = new Date();
+  windowStart.setDate(windowStart.getDate() - FRIEND_RECORDS_WINDOW_DAYS);
+  return date >= windowStart.toISOString().split('T')[0];
+};
+
+function patchChart(chart: FriendChartData, change: FriendsRealtimeChange, viewerUserId: string): FriendChartData {
+  const { table, row } = change;
+
+  switch (table) {
+    case 'commitments': {
+      const previous = chart.commitments.find(c => c.id === row.id);
+      const remaining = chart.commitments.filter(c => c.id !== row.id);
+      const visible = isVisibleRow(row) && !row.is_private;
+      // Realtime rows don't carry the streak cache - keep the one already loaded
+      const commitment = withResolvedStreak(
+        { ...mapFriendCommitment(row), streakCache: previous?.streakCache, bestStreak: previous?.bestStreak ?? 0 },
+        chart.records
+      );
+      const commitments = visible
+        ? [...remaining, commitment].sort(compareFriendCommitments)
+        : remaining;
+
+      return {
+        ...chart,
+        commitments,
+        records: visible ? chart.records : chart.records.filter(r => r.commitmentId !== row.id),
+        layoutItems: applyFriendLayoutHiding(commitments, chart.layoutItems, viewerUserId),
+      };
+    }
+
+    case 'commitment_records': {
+      const record = mapFriendRecord(row);
+      if (!chart.commitments.some(c => c.id === record.commitmentId) || !isInRecordsWindow(record.date)) {
+        return chart;
+      }
+
+      const records = [
+        ...chart.records.filter(r =>
+          r.id !== record.id && !(r.commitmentId === record.commitmentId && r.date === record.date)
+        ),
+        record,
+      ];
+
+      return {
+        ...chart,
+        commitments: chart.commitments.map(c =>
+          c.id === record.commitmentId ? withResolvedStreak(c, records, record.date) : c
+        ),
+        records,
+      };
+    }
+
+    case 'layout_items': {
+      const remaining = chart.layoutItems.filter(item => item.id !== row.id);
+      const layoutItems = isVisibleRow(row)
+        ? [...remaining, mapFriendLayoutItem(row)].sort((a, b) => a.order_rank.localeCompare(b.order_rank))
+        : remaining;
+
+      return { ...chart, layoutItems: applyFriendLayoutHiding(chart.commitments, layoutItems, viewerUserId) };
+    }
+
+    case 'sync_tombstones': {
+      const { table_name: deletedFrom, row_id: deletedId } = row;
+
+      if (deletedFrom === 'commitments') {
+        const commitments = chart.commitments.filter(c => c.id !== deletedId);
+        return {
+          ...chart,
+          commitments,
+          records: chart.records.filter(r => r.commitmentId !== deletedId),
+          layoutItems: applyFriendLayoutHiding(commitments, chart.layoutItems, viewerUserId),
+        };
+      }
+      if (deletedFrom === 'commitment_records') {
+        return { ...chart, records: chart.records.filter(r => r.id !== deletedId) };
+      }
+      if (deletedFrom === 'layout_items') {
+        return { ...chart, layoutItems: chart.layoutItems.filter(item => item.id !== deletedId) };
+      }
+      return chart;
+    }
+  }
+}
+
+/**
+ * Apply a Realtime change to cached friends charts
+ * Returns the same array when the change doesn't touch any loaded friend
+ */
+export function applyFriendsRealtimeChange(
+  charts: FriendChartData[],
+  change: FriendsRealtimeChange,
+  viewerUserId: string
+): FriendChartData[] {
+  const index = charts.findIndex(chart => chart.friend.id === change.row.user_id);
+  if (index === -1) {
+    return charts;
+  }
+
+  const patched = patchChart(charts[index], change, viewerUserId);
+  if (patched === charts[index]) {
+    return charts;
+  }
+
+  if (__DEV__) {
+    console.log(`📡 [Friends Realtime] Patched ${change.table} for friend ${change.row.user_id}`);
+  }
+
+  return charts.map((chart, i) => (i === index ? patched : chart));
+}
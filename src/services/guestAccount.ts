@@ -0,0 +1,264 @@
+import type { AppDispatch, RootState } from '@/store';
+import { endGuestSession } from '@/store/slices/authSlice';
+import { removeFromQueue, type SyncAction } from '@/store/slices/syncSlice';
+import { setCommitments, type Commitment, type CommitmentVersion } from '@/store/slices/commitmentsSlice';
+import { setRecords, type DayRecord } from '@/store/slices/recordsSlice';
+import { setLayoutItems } from '@/store/slices/layoutItemsSlice';
+import { getVersionSettings, type CommitmentVersionSettings } from '@/utils/commitmentVersions';
+import {
+  createCommitment,
+  applyRecordMutations,
+  saveRequiredConditions,
+  saveSuccessCriteria,
+  type CommitmentInsert,
+  type RecordMutation,
+} from './commitments';
+import { createLayoutItem } from './layoutItems';
+import { localRepository } from './localRepository';
+
+// Record history uploaded per bulk call
+const RECORD_UPLOAD_BATCH_SIZE = 100;
+
+/**
+ * A device-local owner ID for guest data - never sent to the server
+ */
+export function createGuestId(): string {
+  return `guest-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Build the commitments row for a guest commitment, owned by the new account
+ */
+export function toCommitmentInsert(commitment: Commitment, userId: string): CommitmentInsert {
+  return {
+    user_id: userId,
+    title: commitment.title,
+    description: commitment.description || null,
+    color: commitment.color,
+    target_days: commitment.target || 30,
+    is_active: commitment.isActive,
+    is_private: commitment.isPrivate || false,
+    commitment_type: commitment.commitmentType,
+    target: commitment.target,
+    unit: commitment.unit,
+    requirements: commitment.requirements,
+    rating_range: commitment.ratingRange,
+    show_values: commitment.showValues,
+    schedule: commitment.schedule || null,
+    entry_aggregate: commitment.entryAggregate || null,
+    effective_from: commitment.effectiveFrom || commitment.createdAt.split('T')[0],
+    change_note: commitment.changeNote || null,
+    archived: commitment.archived || false,
+    deleted_at: commitment.deletedAt || null,
+    order_rank: commitment.order_rank,
+    last_active_rank: commitment.last_active_rank || null,
+    // Keep the guest's start date so stats cover the whole history
+    created_at: commitment.createdAt,
+  };
+}
+
+/**
+ * Build the row for one of a guest commitment's earlier versions - an inactive copy in its lineage
+ */
+export function toCommitmentVersionInsert(commitment: Commitment, version: CommitmentVersion, commitmentId: string, userId: string): CommitmentInsert {
+  return {
+    ...toCommitmentInsert({ ...commitment, ...getVersionSettings(version) }, userId),
+    is_active: false,
+    archived: false,
+    deleted_at: null,
+    order_rank: '',
+    last_active_rank: null,
+    lineage_id: commitmentId,
+    effective_from: version.effectiveFrom,
+    change_note: version.changeNote || null,
+  };
+}
+
+// Upload the threshold and N-of-M rule a commitment (or one of its versions) was judged by
+async function uploadCriteria(commitmentId: string, source: CommitmentVersionSettings) {
+  if (source.successCriteria) {
+    const { error } = await saveSuccessCriteria(commitmentId, source.successCriteria);
+    if (error) return error;
+  }
+
+  if (source.requiredConditions) {
+    const { error } = await saveRequiredConditions(
+      commitmentId,
+      source.requiredConditions,
+      source.requirements?.length ?? 0
+    );
+    if (error) return error;
+  }
+
+  return null;
+}
+
+/**
+ * Build the bulk-RPC upsert for a guest record, owned by the new account
+ */
+export function toRecordMutation(record: DayRecord, userId: string): RecordMutation {
+  return {
+    op: 'upsert',
+    commitment_id: record.commitmentId,
+    completed_at: `${record.date}T12:00:00Z`,
+    user_id: userId,
+    status: record.status === 'completed' ? 'complete' : record.status,
+    value: record.value === undefined ? null : record.value,
+    notes: record.notes || null,
+    entries: record.entries ?? null,
+    is_future_prefill: record.isFuturePrefill || false,
+  } as RecordMutation;
+}
+
+// Server IDs created so far, kept with the guest's tables so a retry carries on where it stopped
+interface GuestLinkProgress {
+  created: Record<string, string>; // Guest ID (or commitment/version pair) -> server ID
+  criteria: string[]; // Server IDs whose success criteria are uploaded
+  recordsUploaded: boolean;
+}
+
+const LINK_PROGRESS = 'link_progress';
+
+const versionKey = (commitment: Commitment, version: CommitmentVersion) => `${commitment.id}/${version.id}`;
+
+// Queued guest edits never reach the server - the guest's stored tables are uploaded instead
+const isGuestAction = (action: SyncAction, guestId: string, guestIds: Set<string>) => {
+  const data = action.data as { user_id?: string; commitment_id?: string };
+  return guestIds.has(action.entityId)
+    || data.user_id === guestId
+    || (data.commitment_id !== undefined && guestIds.has(data.commitment_id));
+};
+
+/**
+ * Take the guest's working set out of Redux and the sync queue, so nothing of it is saved or synced
+ * under the account - it stays in the guest's own local store until the link succeeds
+ */
+const detachGuestData = (guestId: string) =>
+  async (dispatch: AppDispatch, getState: () => RootState) => {
+    if (localRepository.getUser() === guestId) {
+      const state = getState();
+      await localRepository.save('commitments', state.commitments.commitments);
+      await localRepository.save('records', state.records.records);
+      await localRepository.save('layoutItems', state.layoutItems.layoutItems);
+
+      localRepository.setUser(null);
+      dispatch(setCommitments([]));
+      dispatch(setRecords([]));
+      dispatch(setLayoutItems([]));
+    }
+
+    const tables = await localRepository.load(guestId);
+    const guestIds = new Set([
+      ...(tables.commitments ?? []).map(c => c.id),
+      ...(tables.layoutItems ?? []).map(item => item.id),
+    ]);
+    getState().sync.queue
+      .filter(action => isGuestAction(action, guestId, guestIds))
+      .forEach(action => dispatch(removeFromQueue(action.id)));
+
+    return tables;
+  };
+
+/**
+ * Move the guest's commitments, records and layout items into a newly signed-in account
+ *
+ * Each server ID is saved as soon as its row lands, along with which criteria are uploaded,
+ * so running again after a failure (Try Again, or the next sign-in) only sends what is left.
+ * Guest data is only discarded once everything has been uploaded.
+ */
+export const linkGuestAccount = (guestId: string, userId: string) =>
+  async (dispatch: AppDispatch): Promise<{ error: string | null }> => {
+    console.log('🔗 [GuestLink] Linking guest data to account:', { guestId, userId });
+
+    const tables = await dispatch(detachGuestData(guestId));
+    const progress = await localRepository.loadValue<GuestLinkProgress>(guestId, LINK_PROGRESS)
+      ?? { created: {}, criteria: [], recordsUploaded: false };
+    const saveProgress = () => localRepository.saveValue(guestId, LINK_PROGRESS, progress);
+
+    // Create the row once, then its criteria once
+    const uploadCommitment = async (key: string, row: CommitmentInsert, criteria: CommitmentVersionSettings) => {
+      let serverId = progress.created[key];
+      if (!serverId) {
+        const { data, error } = await createCommitment(row);
+        if (error || !data) return { serverId: null, error: error || new Error('Failed to upload commitments') };
+        serverId = data.id;
+        progress.created[key] = serverId;
+        await saveProgress();
+      }
+
+      if (!progress.criteria.includes(serverId)) {
+        const criteriaError = await uploadCriteria(serverId, criteria);
+        if (criteriaError) return { serverId, error: criteriaError };
+        progress.criteria.push(serverId);
+        await saveProgress();
+      }
+      return { serverId, error: null };
+    };
+
+    // 1. Commitments - records and layout items reference their server IDs
+    const commitments = tables.commitments ?? [];
+    for (const commitment of commitments) {
+      const { serverId, error } = await uploadCommitment(commitment.id, toCommitmentInsert(commitment, userId), commitment);
+      if (error || !serverId) {
+        console.error('❌ [GuestLink] Failed to upload commitment:', commitment.id, error);
+        return { error: error?.message || 'Failed to upload commitments' };
+      }
+
+      // Earlier versions, so past days keep being judged by the settings they were recorded under
+      for (const version of commitment.versions || []) {
+        const { error: versionError } = await uploadCommitment(
+          versionKey(commitment, version),
+          toCommitmentVersionInsert(commitment, version, serverId, userId),
+          version
+        );
+        if (versionError) {
+          console.error('❌ [GuestLink] Failed to upload commitment version:', commitment.id, versionError);
+          return { error: versionError.message || 'Failed to upload commitments' };
+        }
+      }
+    }
+
+    // 2. Record history - upserts are keyed by commitment and day, so re-sending a batch is harmless
+    const mutations = (tables.records ?? [])
+      .filter(record => progress.created[record.commitmentId])
+      .map(record => toRecordMutation({ ...record, commitmentId: progress.created[record.commitmentId] }, userId));
+
+    if (!progress.recordsUploaded) {
+      for (let i = 0; i < mutations.length; i += RECORD_UPLOAD_BATCH_SIZE) {
+        const { data, error } = await applyRecordMutations(mutations.slice(i, i + RECORD_UPLOAD_BATCH_SIZE));
+        const failed = data?.filter(result => !result.success) ?? [];
+        if (error || failed.length > 0) {
+          console.error('❌ [GuestLink] Failed to upload records:', error || failed[0].error_message);
+          return { error: error?.message || failed[0].error_message || 'Failed to upload records' };
+        }
+      }
+      progress.recordsUploaded = true;
+      await saveProgress();
+    }
+
+    // 3. Layout items
+    const layoutItems = tables.layoutItems ?? [];
+    for (const item of layoutItems) {
+      if (progress.created[item.id]) continue;
+      try {
+        const { id, ...rest } = item;
+        const created = await createLayoutItem({ ...rest, userId });
+        progress.created[id] = created.id;
+        await saveProgress();
+      } catch (error) {
+        console.error('❌ [GuestLink] Failed to upload layout item:', item.id, error);
+        return { error: error instanceof Error ? error.message : 'Failed to upload layout items' };
+      }
+    }
+
+    // Everything is on the server now - the dashboard loads it fresh under the account
+    await localRepository.clearUser(guestId);
+    dispatch(endGuestSession());
+
+    console.log('✅ [GuestLink] Guest data linked:', {
+      commitments: commitments.length,
+      records: mutations.length,
+      layoutItems: layoutItems.length,
+    });
+    return { error: null };
+  };
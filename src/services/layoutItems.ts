@@ -1,9 +1,10 @@
 import { supabase } from './supabase';
 import type { LayoutItem } from '@/store/slices/layoutItemsSlice';
 import { rankBetween } from '@/utils/rank';
+import { requestSignal, type RequestOptions } from './sessionSignal';
 
 // Database row type (matches Supabase schema)
-interface LayoutItemRow {
+export interface LayoutItemRow {
   id: string;
   user_id: string;
   type: 'spacer' | 'divider';
@@ -18,10 +19,11 @@ interface LayoutItemRow {
   idempotency_key?: string;
   created_at: string;
   updated_at: string;
+  field_updated_at?: Record<string, string>;
 }
 
 // Transform database row to app model
-function transformRowToLayoutItem(row: LayoutItemRow): LayoutItem {
+export function transformRowToLayoutItem(row: LayoutItemRow): LayoutItem {
   return {
     id: row.id,
     userId: row.user_id,
@@ -59,12 +61,13 @@ function transformLayoutItemToRow(item: Partial<LayoutItem> & { userId: string }
 /**
  * Fetch all layout items for a user
  */
-export async function getUserLayoutItems(userId: string): Promise<LayoutItem[]> {
+export async function getUserLayoutItems(userId: string, options: RequestOptions = {}): Promise<LayoutItem[]> {
   const { data, error } = await supabase
     .from('layout_items')
     .select('*')
     .eq('user_id', userId)
-    .order('order_rank', { ascending: true });
+    .order('order_rank', { ascending: true })
+    .abortSignal(requestSignal(options));
 
   if (error) {
     console.error('Failed to fetch layout items:', error);
@@ -74,11 +77,33 @@ export async function getUserLayoutItems(userId: string): Promise<LayoutItem[]>
   return (data || []).map(transformRowToLayoutItem);
 }
 
+/**
+ * Fetch layout items changed after the given timestamp (delta sync)
+ * Rows are returned unmapped so they can be merged column by column with pending local edits
+ */
+export async function getLayoutItemsChangedSince(userId: string, since: string, options: RequestOptions = {}): Promise<LayoutItemRow[]> {
+  const { data, error } = await supabase
+    .from('layout_items')
+    .select('*')
+    .eq('user_id', userId)
+    .gt('updated_at', since)
+    .order('updated_at', { ascending: true })
+    .abortSignal(requestSignal(options));
+
+  if (error) {
+    console.error('Failed to fetch changed layout items:', error);
+    throw error;
+  }
+
+  return (data || []) as LayoutItemRow[];
+}
+
 /**
  * Create a new layout item
  */
 export async function createLayoutItem(
-  layoutItem: Omit<LayoutItem, 'id' | 'createdAt' | 'updatedAt'>
+  layoutItem: Omit<LayoutItem, 'id' | 'createdAt' | 'updatedAt'>,
+  options: RequestOptions = {}
 ): Promise<LayoutItem> {
   const row = transformLayoutItemToRow(layoutItem);
 
@@ -86,6 +111,7 @@ export async function createLayoutItem(
     .from('layout_items')
     .insert(row)
     .select()
+    .abortSignal(requestSignal(options))
     .single();
 
   if (error) {
@@ -101,7 +127,8 @@ export async function createLayoutItem(
  */
 export async function updateLayoutItem(
   layoutItem: Partial<LayoutItem> & { id: string; userId: string },
-  idempotencyKey?: string
+  idempotencyKey?: string,
+  options: RequestOptions = {}
 ): Promise<LayoutItem> {
   const row = transformLayoutItemToRow(layoutItem);
 
@@ -116,6 +143,7 @@ export async function updateLayoutItem(
     .eq('id', layoutItem.id)
     .eq('user_id', layoutItem.userId)
     .select()
+    .abortSignal(requestSignal(options))
     .single();
 
   if (error) {
@@ -134,12 +162,13 @@ export async function updateLayoutItem(
 /**
  * Delete a layout item (hard delete)
  */
-export async function deleteLayoutItem(id: string, userId: string): Promise<void> {
+export async function deleteLayoutItem(id: string, userId: string, options: RequestOptions = {}): Promise<void> {
   const { error } = await supabase
     .from('layout_items')
     .delete()
     .eq('id', id)
-    .eq('user_id', userId);
+    .eq('user_id', userId)
+    .abortSignal(requestSignal(options));
 
   if (error) {
     console.error('Failed to delete layout item:', error);
@@ -150,7 +179,7 @@ export async function deleteLayoutItem(id: string, userId: string): Promise<void
 /**
  * Soft delete a layout item
  */
-export async function softDeleteLayoutItem(id: string, userId: string): Promise<LayoutItem> {
+export async function softDeleteLayoutItem(id: string, userId: string, options: RequestOptions = {}): Promise<LayoutItem> {
   const row = {
     deleted_at: new Date().toISOString(),
     is_active: false,
@@ -162,6 +191,7 @@ export async function softDeleteLayoutItem(id: string, userId: string): Promise<
     .eq('id', id)
     .eq('user_id', userId)
     .select()
+    .abortSignal(requestSignal(options))
     .single();
 
   if (error) {
@@ -175,13 +205,14 @@ export async function softDeleteLayoutItem(id: string, userId: string): Promise<
 /**
  * Archive a layout item (preserving rank for potential restoration)
  */
-export async function archiveLayoutItem(id: string, userId: string): Promise<LayoutItem> {
+export async function archiveLayoutItem(id: string, userId: string, options: RequestOptions = {}): Promise<LayoutItem> {
   // First get current rank
   const { data: currentData, error: fetchError } = await supabase
     .from('layout_items')
     .select('order_rank')
     .eq('id', id)
     .eq('user_id', userId)
+    .abortSignal(requestSignal(options))
     .single();
 
   if (fetchError) {
@@ -201,6 +232,7 @@ export async function archiveLayoutItem(id: string, userId: string): Promise<Lay
     .eq('id', id)
     .eq('user_id', userId)
     .select()
+    .abortSignal(requestSignal(options))
     .single();
 
   if (error) {
@@ -217,11 +249,12 @@ export async function archiveLayoutItem(id: string, userId: string): Promise<Lay
 export async function restoreLayoutItem(
   id: string,
   userId: string,
-  newRank: string
+  newRank: string,
+  options: RequestOptions = {}
 ): Promise<LayoutItem> {
   // Check for rank conflicts before restoring
   const { findSafeRank } = await import('@/utils/rank');
-  const allActiveItems = await getAllActiveItemsWithRanks(userId);
+  const allActiveItems = await getAllActiveItemsWithRanks(userId, options);
   const safeRank = findSafeRank(newRank, allActiveItems);
 
   if (__DEV__ && safeRank !== newRank) {
@@ -241,6 +274,7 @@ export async function restoreLayoutItem(
     .eq('id', id)
     .eq('user_id', userId)
     .select()
+    .abortSignal(requestSignal(options))
     .single();
 
   if (error) {
@@ -256,7 +290,8 @@ export async function restoreLayoutItem(
  */
 export async function batchUpdateLayoutItemRanks(
   updates: Array<{ id: string; newRank: string; idempotencyKey?: string }>,
-  userId: string
+  userId: string,
+  options: RequestOptions = {}
 ): Promise<LayoutItem[]> {
   const results: LayoutItem[] = [];
 
@@ -278,6 +313,7 @@ export async function batchUpdateLayoutItemRanks(
       .eq('id', id)
       .eq('user_id', userId)
       .select()
+      .abortSignal(requestSignal(options))
       .single();
 
     if (error) {
@@ -339,6 +375,7 @@ export function createDefaultDivider(
  * @param existingItems - Current list of items (for rank calculation)
  * @param userId - User ID for the new item
  * @param options - Additional options (height for spacer, style for divider)
+ * @param requestOptions - Cancellation signal for the rank conflict check
  * @returns New layout item data ready for insertion (with temp ID)
  */
 export async function createLayoutItemAtPosition<T extends 'spacer' | 'divider'>(
@@ -348,7 +385,8 @@ export async function createLayoutItemAtPosition<T extends 'spacer' | 'divider'>
   userId: string,
   options: T extends 'spacer'
     ? { height?: number }
-    : { style?: 'solid' | 'dashed' | 'dotted' } = {} as any
+    : { style?: 'solid' | 'dashed' | 'dotted' } = {} as any,
+  requestOptions: RequestOptions = {}
 ): Promise<T extends 'spacer'
   ? { type: 'spacer'; data: LayoutItem }
   : { type: 'divider'; data: LayoutItem }> {
@@ -365,7 +403,7 @@ export async function createLayoutItemAtPosition<T extends 'spacer' | 'divider'>
   const initialRank = rankBetween(prevRank, nextRank);
 
   // Check for conflicts and get safe rank
-  const allActiveItems = await getAllActiveItemsWithRanks(userId);
+  const allActiveItems = await getAllActiveItemsWithRanks(userId, requestOptions);
   const newRank = findSafeRank(initialRank, allActiveItems);
 
   if (__DEV__ && newRank !== initialRank) {
@@ -429,13 +467,14 @@ export async function createLayoutItemAtPosition<T extends 'spacer' | 'divider'>
  * @param userId - User ID for filtering items
  * @returns Promise resolving to array of items with order_rank
  */
-export async function getAllActiveItemsWithRanks(userId: string): Promise<Array<{ id: string; order_rank: string; type: 'commitment' | 'spacer' | 'divider' }>> {
+export async function getAllActiveItemsWithRanks(userId: string, options: RequestOptions = {}): Promise<Array<{ id: string; order_rank: string; type: 'commitment' | 'spacer' | 'divider' }>> {
   // Get active commitments
   const { data: commitments, error: commitmentsError } = await supabase
     .from('commitments')
     .select('id, order_rank')
     .eq('user_id', userId)
-    .eq('is_active', true);
+    .eq('is_active', true)
+    .abortSignal(requestSignal(options));
 
   if (commitmentsError) {
     console.error('Failed to fetch commitments for rank check:', commitmentsError);
@@ -447,7 +486,8 @@ export async function getAllActiveItemsWithRanks(userId: string): Promise<Array<
     .from('layout_items')
     .select('id, order_rank, type')
     .eq('user_id', userId)
-    .eq('is_active', true);
+    .eq('is_active', true)
+    .abortSignal(requestSignal(options));
 
   if (layoutError) {
     console.error('Failed to fetch layout items for rank check:', layoutError);
@@ -470,16 +510,18 @@ export async function getAllActiveItemsWithRanks(userId: string): Promise<Array<
  * @param userId - User ID for filtering layout items
  * @param remainingCommitments - Commitments that remain active after deletion/archiving
  * @param dispatch - Optional Redux dispatch function to update state immediately
+ * @param options - Cancellation signal for the reads and deletes
  * @returns Promise that resolves when auto-deletion is complete
  */
 export async function autoDeleteInvalidLayoutItems(
   userId: string,
   remainingCommitments: Array<{ id: string; order_rank: string }>,
-  dispatch?: any
+  dispatch?: any,
+  options: RequestOptions = {}
 ): Promise<void> {
   try {
     // Get current layout items
-    const currentLayoutItems = await getUserLayoutItems(userId);
+    const currentLayoutItems = await getUserLayoutItems(userId, options);
 
     if (currentLayoutItems.length === 0) {
       if (__DEV__) {
@@ -519,7 +561,7 @@ export async function autoDeleteInvalidLayoutItems(
 
     // Delete invalid layout items in parallel
     const deletePromises = layoutItemsToDelete.map(itemId =>
-      deleteLayoutItem(itemId, userId)
+      deleteLayoutItem(itemId, userId, options)
     );
 
     await Promise.all(deletePromises);
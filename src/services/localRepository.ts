@@ -0,0 +1,261 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { AppDispatch, RootState } from '@/store';
+import { setCommitments, type Commitment } from '@/store/slices/commitmentsSlice';
+import { setRecords, type DayRecord } from '@/store/slices/recordsSlice';
+import { setLayoutItems, type LayoutItem } from '@/store/slices/layoutItemsSlice';
+import { isTempId } from '@/utils/tempId';
+
+/**
+ * The signed-in user's working set, kept on device so a cold start renders without the network
+ */
+export interface LocalTables {
+  commitments: Commitment[];
+  records: DayRecord[];
+  layoutItems: LayoutItem[];
+}
+
+export type LocalTable = keyof LocalTables;
+
+export const LOCAL_TABLES: LocalTable[] = ['commitments', 'records', 'layoutItems'];
+
+// The parts of AsyncStorage the repository uses - injectable for tests
+export interface KeyValueStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  getAllKeys(): Promise<readonly string[]>;
+  multiRemove(keys: readonly string[]): Promise<void>;
+}
+
+export interface LocalMigration {
+  version: number;
+  description: string;
+  up: (storage: KeyValueStorage) => Promise<void>;
+}
+
+const KEY_PREFIX = '@local_store';
+const SCHEMA_VERSION_KEY = `${KEY_PREFIX}/schema_version`;
+
+const userPrefix = (userId: string) => `${KEY_PREFIX}/${userId}/`;
+const tableKey = (userId: string, table: LocalTable) => `${userPrefix(userId)}${table}`;
+
+/**
+ * Local schema migrations, applied in order on first open
+ * Append new versions - never edit one that has shipped
+ */
+export const LOCAL_MIGRATIONS: LocalMigration[] = [
+  {
+    version: 1,
+    description: 'One JSON array per table per user',
+    // The first layout - nothing was stored before it, so there is nothing to convert
+    up: async () => {},
+  },
+];
+
+export class LocalRepository {
+  private ready: Promise<void> | null = null;
+  private userId: string | null = null;
+
+  constructor(
+    private storage: KeyValueStorage,
+    private migrations: LocalMigration[] = LOCAL_MIGRATIONS
+  ) {}
+
+  /**
+   * Run pending migrations once per launch - reads and writes wait for it
+   */
+  open(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.migrate().catch(error => {
+        // Try again on the next read or write
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  async getSchemaVersion(): Promise<number> {
+    return Number(await this.storage.getItem(SCHEMA_VERSION_KEY)) || 0;
+  }
+
+  private async migrate() {
+    const current = await this.getSchemaVersion();
+    const pending = this.migrations
+      .filter(migration => migration.version > current)
+      .sort((a, b) => a.version - b.version);
+
+    for (const migration of pending) {
+      console.log(`🗄️ [LocalStore] Migrating to v${migration.version}: ${migration.description}`);
+      await migration.up(this.storage);
+      await this.storage.setItem(SCHEMA_VERSION_KEY, String(migration.version));
+    }
+  }
+
+  /**
+   * Scope reads and writes to a user (null stops writes, e.g. while signing out)
+   */
+  setUser(userId: string | null) {
+    this.userId = userId;
+  }
+
+  getUser(): string | null {
+    return this.userId;
+  }
+
+  /**
+   * The stored working set - tables that were never saved are left out
+   */
+  async load(userId: string): Promise<Partial<LocalTables>> {
+    await this.open();
+
+    const tables: Partial<LocalTables> = {};
+    for (const table of LOCAL_TABLES) {
+      try {
+        const raw = await this.storage.getItem(tableKey(userId, table));
+        if (raw) {
+          tables[table] = JSON.parse(raw);
+        }
+      } catch (error) {
+        // A corrupt table is refetched from the server - don't let it block the others
+        console.error(`🗄️ [LocalStore] Failed to read ${table}:`, error);
+      }
+    }
+    return tables;
+  }
+
+  async save<T extends LocalTable>(table: T, rows: LocalTables[T]): Promise<void> {
+    const userId = this.userId;
+    if (!userId) return;
+
+    await this.open();
+    // Signed out while waiting for migrations
+    if (this.userId !== userId) return;
+
+    await this.storage.setItem(tableKey(userId, table), JSON.stringify(rows));
+  }
+
+  /**
+   * A small value kept next to a user's tables and dropped with them (e.g. guest link progress)
+   */
+  async loadValue<T>(userId: string, name: string): Promise<T | null> {
+    await this.open();
+    const raw = await this.storage.getItem(`${userPrefix(userId)}${name}`);
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  async saveValue<T>(userId: string, name: string, value: T): Promise<void> {
+    await this.open();
+    await this.storage.setItem(`${userPrefix(userId)}${name}`, JSON.stringify(value));
+  }
+
+  /**
+   * Drop one user's stored data, leaving everyone else's
+   */
+  async clearUser(userId: string): Promise<void> {
+    if (this.userId === userId) {
+      this.userId = null;
+    }
+    const keys = (await this.storage.getAllKeys()).filter(key => key.startsWith(userPrefix(userId)));
+    if (keys.length > 0) {
+      await this.storage.multiRemove(keys);
+    }
+  }
+
+  /**
+   * Drop every user's stored data (used on logout so one user's data never loads for another)
+   */
+  async clear(): Promise<void> {
+    this.userId = null;
+    const keys = (await this.storage.getAllKeys())
+      .filter(key => key.startsWith(`${KEY_PREFIX}/`) && key !== SCHEMA_VERSION_KEY);
+    if (keys.length > 0) {
+      await this.storage.multiRemove(keys);
+    }
+  }
+}
+
+export const localRepository = new LocalRepository(AsyncStorage);
+
+/**
+ * Load the user's stored working set into Redux so the dashboard renders before any fetch
+ * Tables that already have data in Redux are left alone. Returns whether anything was loaded.
+ */
+export const hydrateFromLocalStore = (userId: string) =>
+  async (dispatch: AppDispatch, getState: () => RootState): Promise<boolean> => {
+    localRepository.setUser(userId);
+
+    try {
+      const tables = await localRepository.load(userId);
+      const state = getState();
+      let hydrated = false;
+
+      if (tables.commitments && state.commitments.commitments.length === 0) {
+        dispatch(setCommitments(tables.commitments));
+        hydrated = true;
+      }
+      if (tables.records && state.records.records.length === 0) {
+        dispatch(setRecords(tables.records));
+        hydrated = true;
+      }
+      if (tables.layoutItems && state.layoutItems.layoutItems.length === 0) {
+        dispatch(setLayoutItems(tables.layoutItems));
+        hydrated = true;
+      }
+
+      console.log('🗄️ [LocalStore] Hydrated:', {
+        commitments: tables.commitments?.length ?? 0,
+        records: tables.records?.length ?? 0,
+        layoutItems: tables.layoutItems?.length ?? 0,
+      });
+      return hydrated;
+    } catch (error) {
+      console.error('🗄️ [LocalStore] Hydration failed:', error);
+      return false;
+    }
+  };
+
+type QueuedKeys = { edited: Set<string>; deleted: Set<string> };
+
+// Local rows win while they still have changes queued - creates the server hasn't seen, edits, deletes
+const keepUnsynced = <T extends { id: string }>(
+  serverRows: T[],
+  localRows: T[],
+  queued: QueuedKeys,
+  keyOf: (row: T) => string = row => row.id
+) => {
+  const pending = localRows.filter(row => isTempId(row.id) || queued.edited.has(keyOf(row)));
+  const pendingKeys = new Set(pending.map(keyOf));
+  return [
+    ...serverRows.filter(row => !pendingKeys.has(keyOf(row)) && !queued.deleted.has(keyOf(row))),
+    ...pending,
+  ];
+};
+
+/**
+ * Replace local tables with a full server load
+ * Rows with changes still in the sync queue keep their local version, so offline work doesn't vanish.
+ */
+export const replaceWithServerData = (tables: Partial<LocalTables>) =>
+  (dispatch: AppDispatch, getState: () => RootState) => {
+    const state = getState();
+    const queued: QueuedKeys = { edited: new Set(), deleted: new Set() };
+    state.sync.queue.forEach(action => {
+      const isDelete = action.op === 'recordDelete' || action.op === 'permaDelete' || action.op === 'layoutDelete';
+      (isDelete ? queued.deleted : queued.edited).add(action.entityId);
+    });
+
+    if (tables.commitments) {
+      dispatch(setCommitments(keepUnsynced(tables.commitments, state.commitments.commitments, queued)));
+    }
+    if (tables.records) {
+      dispatch(setRecords(keepUnsynced(
+        tables.records,
+        state.records.records,
+        queued,
+        record => `${record.commitmentId}_${record.date}`
+      )));
+    }
+    if (tables.layoutItems) {
+      dispatch(setLayoutItems(keepUnsynced(tables.layoutItems, state.layoutItems.layoutItems, queued)));
+    }
+  };
@@ -1,62 +1,89 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { supabase } from './supabase';
 import type { Database } from '@/types/supabase';
+import { requestSignal, type RequestOptions } from './sessionSignal';
+import { store } from '@/store';
+import { addOutboxDeadLetter } from '@/store/slices/syncSlice';
+import { computeNextAttemptAt, isReadyForAttempt } from '@/utils/backoff';
 
-type OfflineQueueInsert = Database['public']['Tables']['offline_queue']['Insert'];
 type OperationType = 'INSERT' | 'UPDATE' | 'DELETE';
+type OutboxTable = keyof Database['public']['Tables'];
+
+// Local outbox lives on device so queued writes survive both offline periods and app restarts
+const OUTBOX_STORAGE_KEY = '@offline_queue/outbox';
+const MAX_RETRIES = 5;
+
+export interface OutboxItem {
+  id: string;
+  operation_type: OperationType;
+  table_name: OutboxTable;
+  record_id: string | null;
+  data: any;
+  retry_count: number;
+  last_error: string | null;
+  next_attempt_at?: string | null;
+  created_at: string;
+}
 
 class OfflineQueueService {
   private processingQueue = false;
+  private outbox: OutboxItem[] | null = null;
 
   async addToQueue(
     operation: OperationType,
-    tableName: string,
+    tableName: OutboxTable,
     data: any,
     recordId?: string
   ): Promise<void> {
     try {
-      const queueItem: OfflineQueueInsert = {
+      const queueItem: OutboxItem = {
+        id: `outbox_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`,
         operation_type: operation,
         table_name: tableName,
         record_id: recordId || null,
         data: data,
         retry_count: 0,
+        last_error: null,
+        created_at: new Date().toISOString(),
       };
 
-      const { error } = await supabase
-        .from('offline_queue')
-        .insert([queueItem]);
+      const outbox = await this.loadOutbox();
+      outbox.push(queueItem);
+      await this.persistOutbox();
 
-      if (error) {
-        console.error('Failed to add item to offline queue:', error);
-        // Store locally if can't reach database
-        this.storeLocallyIfNeeded(queueItem);
-      }
+      // Try to flush right away - a no-op when offline, the sync engine replays it on reconnect
+      this.processQueue();
     } catch (error) {
       console.error('Error adding to queue:', error);
     }
   }
 
-  async processQueue(): Promise<void> {
+  async processQueue(options: RequestOptions = {}): Promise<void> {
     if (this.processingQueue) return;
-    
+
     this.processingQueue = true;
 
     try {
-      // Get pending items
-      const { data: queueItems, error } = await supabase
-        .from('offline_queue')
-        .select('*')
-        .order('created_at', { ascending: true })
-        .limit(50);
-
-      if (error || !queueItems) {
-        console.error('Failed to fetch queue items:', error);
+      // Connectivity is tracked by the sync engine
+      if (!store.getState().sync.isOnline) {
         return;
       }
 
-      // Process each item
-      for (const item of queueItems) {
-        await this.processQueueItem(item);
+      // Replay strictly in insertion order; stop at the first failure so that
+      // later operations never land before the ones they depend on
+      for (;;) {
+        // Re-read each pass - removing a sent item replaces the outbox array
+        const outbox = await this.loadOutbox();
+        if (outbox.length === 0) break;
+
+        const item = outbox[0];
+        // Head of the queue is backing off - wait rather than reorder
+        if (!isReadyForAttempt(item.next_attempt_at)) break;
+        // Signed out - leave the rest for whoever's session it belongs to
+        if (options.signal?.aborted) break;
+
+        const success = await this.processQueueItem(item, options);
+        if (!success) break;
       }
     } catch (error) {
       console.error('Error processing queue:', error);
@@ -65,19 +92,36 @@ class OfflineQueueService {
     }
   }
 
-  private async processQueueItem(item: any): Promise<void> {
+  getPendingCount(): number {
+    return this.outbox?.length ?? 0;
+  }
+
+  async getPendingItems(): Promise<OutboxItem[]> {
+    const outbox = await this.loadOutbox();
+    return [...outbox];
+  }
+
+  // Put a dead-lettered item back at the end of the outbox with a fresh retry budget
+  async requeue(item: OutboxItem): Promise<void> {
+    const outbox = await this.loadOutbox();
+    outbox.push({ ...item, retry_count: 0, last_error: null, next_attempt_at: null });
+    await this.persistOutbox();
+    this.processQueue();
+  }
+
+  private async processQueueItem(item: OutboxItem, options: RequestOptions): Promise<boolean> {
     try {
       let success = false;
 
       switch (item.operation_type) {
         case 'INSERT':
-          success = await this.processInsert(item);
+          success = await this.processInsert(item, options);
           break;
         case 'UPDATE':
-          success = await this.processUpdate(item);
+          success = await this.processUpdate(item, options);
           break;
         case 'DELETE':
-          success = await this.processDelete(item);
+          success = await this.processDelete(item, options);
           break;
       }
 
@@ -88,82 +132,110 @@ class OfflineQueueService {
         // Update retry count
         await this.updateRetryCount(item.id, item.retry_count + 1);
       }
+      return success;
     } catch (error) {
+      // Cancelled, not failed - don't spend a retry on it
+      if (options.signal?.aborted) return false;
       console.error('Error processing queue item:', error);
       await this.updateRetryCount(item.id, item.retry_count + 1, error as Error);
+      return false;
     }
   }
 
-  private async processInsert(item: any): Promise<boolean> {
+  private async processInsert(item: OutboxItem, options: RequestOptions): Promise<boolean> {
     const { error } = await supabase
       .from(item.table_name)
-      .insert([item.data]);
+      .insert([item.data])
+      .abortSignal(requestSignal(options));
 
-    return !error;
+    // Throw so the Supabase message is recorded as the item's last error
+    if (error) throw new Error(error.message);
+    return true;
   }
 
-  private async processUpdate(item: any): Promise<boolean> {
+  private async processUpdate(item: OutboxItem, options: RequestOptions): Promise<boolean> {
     if (!item.record_id) return false;
 
     const { error } = await supabase
       .from(item.table_name)
       .update(item.data)
-      .eq('id', item.record_id);
+      .eq('id', item.record_id)
+      .abortSignal(requestSignal(options));
 
-    return !error;
+    if (error) throw new Error(error.message);
+    return true;
   }
 
-  private async processDelete(item: any): Promise<boolean> {
+  private async processDelete(item: OutboxItem, options: RequestOptions): Promise<boolean> {
     if (!item.record_id) return false;
 
     const { error } = await supabase
       .from(item.table_name)
       .delete()
-      .eq('id', item.record_id);
+      .eq('id', item.record_id)
+      .abortSignal(requestSignal(options));
 
-    return !error;
+    if (error) throw new Error(error.message);
+    return true;
   }
 
   private async removeFromQueue(itemId: string): Promise<void> {
-    await supabase
-      .from('offline_queue')
-      .delete()
-      .eq('id', itemId);
+    const outbox = await this.loadOutbox();
+    this.outbox = outbox.filter(item => item.id !== itemId);
+    await this.persistOutbox();
   }
 
   private async updateRetryCount(itemId: string, retryCount: number, error?: Error): Promise<void> {
-    const maxRetries = 5;
-    
-    if (retryCount >= maxRetries) {
-      // Remove failed item after max retries
+    const outbox = await this.loadOutbox();
+    const item = outbox.find(i => i.id === itemId);
+    if (!item) return;
+
+    if (retryCount >= MAX_RETRIES) {
+      // Hand exhausted items to the dead-letter list instead of dropping them
       await this.removeFromQueue(itemId);
+      store.dispatch(addOutboxDeadLetter({
+        outboxItem: { ...item, retry_count: retryCount },
+        error: error?.message || item.last_error,
+      }));
       return;
     }
 
-    await supabase
-      .from('offline_queue')
-      .update({
-        retry_count: retryCount,
-        last_error: error?.message || null,
-      })
-      .eq('id', itemId);
+    item.retry_count = retryCount;
+    item.last_error = error?.message || null;
+    item.next_attempt_at = computeNextAttemptAt(retryCount);
+    await this.persistOutbox();
   }
 
-  private storeLocallyIfNeeded(queueItem: OfflineQueueInsert): void {
-    // TODO: Implement local storage fallback when Supabase is unreachable
-    console.log('Would store locally:', queueItem);
+  private async loadOutbox(): Promise<OutboxItem[]> {
+    if (this.outbox) return this.outbox;
+
+    try {
+      const raw = await AsyncStorage.getItem(OUTBOX_STORAGE_KEY);
+      this.outbox = raw ? JSON.parse(raw) : [];
+    } catch (error) {
+      console.error('Failed to load offline outbox:', error);
+      this.outbox = [];
+    }
+    return this.outbox!;
   }
 
-  // Auto-process queue when connection is restored
-  startAutoProcessing(): void {
-    // Process queue every 30 seconds
-    setInterval(() => {
-      this.processQueue();
-    }, 30000);
+  private async persistOutbox(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(this.outbox ?? []));
+    } catch (error) {
+      console.error('Failed to persist offline outbox:', error);
+    }
+  }
 
-    // Process immediately
-    this.processQueue();
+  // Drop all pending operations (used on logout so one user's writes never replay for another)
+  async clear(): Promise<void> {
+    this.outbox = [];
+    try {
+      await AsyncStorage.removeItem(OUTBOX_STORAGE_KEY);
+    } catch (error) {
+      console.error('Failed to clear offline outbox:', error);
+    }
   }
 }
 
-export const offlineQueue = new OfflineQueueService();
\ No newline at end of file
+export const offlineQueue = new OfflineQueueService();
@@ -0,0 +1,35 @@
+import { supabase } from './supabase';
+import { offlineQueue } from './offlineQueue';
+import { store } from '@/store';
+import type { Database } from '@/types/supabase';
+
+export type ProfileUpdate = Database['public']['Tables']['profiles']['Update'];
+
+/**
+ * Save edits to the user's profile
+ * Offline, or when the request never reaches the server, the edit goes to the on-device outbox
+ * and lands on reconnect - `queued` tells the caller it is saved but not yet synced
+ */
+export async function updateProfile(
+  userId: string,
+  updates: ProfileUpdate
+): Promise<{ queued: boolean; error: Error | null }> {
+  if (store.getState().sync.isOnline) {
+    const { error } = await supabase
+      .from('profiles')
+      .update(updates)
+      .eq('id', userId);
+
+    if (!error) return { queued: false, error: null };
+
+    // PostgREST always answers with a code - a blank one means the request failed on the network
+    if (error.code) {
+      console.error('❌ Error updating profile:', error);
+      return { queued: false, error: new Error(error.message) };
+    }
+    console.log('📴 Profile update failed on the network, saving to the outbox:', error.message);
+  }
+
+  await offlineQueue.addToQueue('UPDATE', 'profiles', updates, userId);
+  return { queued: true, error: null };
+}
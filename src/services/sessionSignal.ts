@@ -0,0 +1,66 @@
+/**
+ * Cancellation for server calls made on behalf of the signed-in user
+ *
+ * Service functions take an optional signal. Leaving a session (sign out, or a different
+ * account signing in) aborts the old signal, so in-flight requests stop and any result
+ * that still arrives can be recognised as belonging to the previous session and dropped.
+ */
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+// Never aborts - used when a caller doesn't pass a signal
+const NO_SIGNAL = new AbortController().signal;
+
+let controller = new AbortController();
+let sessionUserId: string | null = null;
+
+/**
+ * The signal to pass to a service call (postgrest's `abortSignal` needs one)
+ */
+export function requestSignal(options?: RequestOptions): AbortSignal {
+  return options?.signal ?? NO_SIGNAL;
+}
+
+/**
+ * Signal for requests made for the current session - aborted when the session ends
+ */
+export function getSessionSignal(): AbortSignal {
+  return controller.signal;
+}
+
+export function getSessionUserId(): string | null {
+  return sessionUserId;
+}
+
+/**
+ * Point the session at a user
+ * Moving away from a signed-in user aborts everything started for them; signing in from
+ * no user keeps the current signal, as nothing in flight belongs to anyone else.
+ */
+export function setSessionUser(userId: string | null) {
+  if (userId === sessionUserId) return;
+
+  if (sessionUserId !== null) {
+    console.log('🛑 [Session] Aborting requests for previous session:', sessionUserId);
+    controller.abort();
+    controller = new AbortController();
+  }
+  sessionUserId = userId;
+}
+
+/**
+ * Thrown when a result arrives after its session ended - callers drop it instead of retrying
+ */
+export class SessionEndedError extends Error {
+  constructor() {
+    super('Session ended while the request was in flight');
+    this.name = 'SessionEndedError';
+  }
+}
+
+export function throwIfSessionEnded(options?: RequestOptions) {
+  if (options?.signal?.aborted) {
+    throw new SessionEndedError();
+  }
+}
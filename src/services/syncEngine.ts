@@ -0,0 +1,616 @@
+import { AppState, AppStateStatus } from 'react-native';
+import NetInfo, { type NetInfoState } from '@react-native-community/netinfo';
+import { store } from '@/store';
+import { triggerFriendsChartsRefresh } from '@/hooks/useFriendsCharts';
+import {
+  setSyncPhase,
+  setOnlineStatus,
+  setConnectionType,
+  setSyncError,
+  setLastSyncAt,
+  setPullCursor,
+  removeFromQueue,
+  markSyncFailure,
+  moveToDeadLetter,
+  getUnresolvedTempIds,
+  type SyncAction,
+  type SyncEnginePhase,
+} from '@/store/slices/syncSlice';
+import { loadCommitmentVersionsThunk, mapDbCommitment, mergeCommitmentsFromServer } from '@/store/slices/commitmentsSlice';
+import { mapDbRecord, mergeRecordsFromServer } from '@/store/slices/recordsSlice';
+import { mergeLayoutItemsFromServer } from '@/store/slices/layoutItemsSlice';
+import { selectSyncPolicy } from '@/store/slices/settingsSlice';
+import { syncHandlers, syncRecordBatch, type RecordSyncAction } from './syncHandlers';
+import { pullChangesSince } from './deltaSync';
+import { reconcilePulledDeletes, reconcilePulledRows } from './conflictResolution';
+import { transformRowToLayoutItem } from './layoutItems';
+import { offlineQueue } from './offlineQueue';
+import { getSessionSignal, setSessionUser, type RequestOptions } from './sessionSignal';
+import { computeNextAttemptAt, isReadyForAttempt } from '@/utils/backoff';
+import { isCommitmentVersionRow } from '@/utils/commitmentVersions';
+import { isTempId } from '@/utils/tempId';
+import { BASE_PULL_INTERVAL_MS, isMeteredConnection, nextPullInterval } from '@/utils/syncPolicy';
+
+const PUSH_INTERVAL_MS = 30 * 1000; // 30 seconds
+
+// How long "All caught up" stays up after queued changes land
+const DONE_DISPLAY_MS = 3000;
+
+// First pull of a session starts slightly before it began, covering the initial load and clock skew
+const INITIAL_PULL_WINDOW_MS = 5 * 60 * 1000; // 5 minutes
+
+// After this many failed attempts an action moves to the dead-letter list instead of retrying
+const MAX_RETRY_COUNT = 6;
+
+// Edits queued longer than this may be older than writes from other devices
+const STALE_EDIT_MS = 30 * 1000; // 30 seconds
+
+// Record changes sent per bulk call
+const MAX_RECORD_BATCH_SIZE = 100;
+
+export type SyncTrigger = 'launch' | 'interval' | 'foreground' | 'reconnect' | 'retry' | 'manual';
+
+// Triggers that also fetch other devices' changes straight away, rather than when the pull is due
+const PULL_TRIGGERS: SyncTrigger[] = ['foreground', 'reconnect', 'manual'];
+
+/**
+ * The one sync loop: pushes the queue and outbox, pulls remote changes, and owns
+ * the connectivity and app-state listeners. Passes never overlap - a request made
+ * while one is running folds into a single follow-up pass.
+ */
+class SyncEngine {
+  private isStarted = false;
+  private isOnline = true;
+  private connectionType: string | null = null;
+  private appState: AppStateStatus = AppState.currentState;
+  private currentUserId: string | null = null;
+  private lastPullAt = 0;
+  private pullIntervalMs = BASE_PULL_INTERVAL_MS; // Adapted to activity when the sync policy allows
+
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private doneTimer: ReturnType<typeof setTimeout> | null = null;
+  private netInfoUnsubscribe: (() => void) | null = null;
+  private appStateSubscription: { remove: () => void } | null = null;
+
+  private inFlight: Promise<void> | null = null;
+  private followUp: { pull: boolean } | null = null;
+
+  public async start(): Promise<void> {
+    if (this.isStarted) return;
+    this.isStarted = true;
+
+    // Persisted state may still say pushing if the app was killed mid-pass
+    this.setPhase('idle');
+
+    const networkState = await NetInfo.fetch();
+    this.isOnline = this.isConnected(networkState);
+    store.dispatch(setOnlineStatus(this.isOnline));
+    this.updateConnectionType(networkState.type);
+
+    this.netInfoUnsubscribe = NetInfo.addEventListener(state => this.handleConnectivityChange(state));
+    this.appStateSubscription = AppState.addEventListener('change', next => this.handleAppStateChange(next));
+    this.startTicking();
+
+    console.log('🔄 SyncEngine: Started', { isOnline: this.isOnline });
+
+    // Replays anything left over from a previous session
+    await this.requestSync('launch');
+  }
+
+  public setUserId(userId: string | null) {
+    if (userId !== this.currentUserId) {
+      // The dashboard loads a new session's data in full - periodic pulls only fetch what changes after that
+      store.dispatch(setPullCursor(userId ? new Date(Date.now() - INITIAL_PULL_WINDOW_MS).toISOString() : null));
+      this.lastPullAt = Date.now();
+      this.pullIntervalMs = BASE_PULL_INTERVAL_MS;
+    }
+    const signedIn = userId !== null && userId !== this.currentUserId;
+    this.currentUserId = userId;
+    // Leaving a user aborts their in-flight requests
+    setSessionUser(userId);
+
+    // Passes before sign-in had no one to sync for - replay what they left
+    if (signedIn && this.isStarted) {
+      void this.requestSync('launch');
+    }
+  }
+
+  /**
+   * Forget the signed-in user and any scheduled retry (used on logout)
+   * Listeners stay attached so the next sign-in syncs without a restart
+   */
+  public reset() {
+    console.log('🛑 SyncEngine: Reset');
+    this.setUserId(null);
+    this.clearTimer('retryTimer');
+    this.clearTimer('doneTimer');
+    this.followUp = null;
+    store.dispatch(setSyncError(null));
+    this.setPhase(this.isOnline ? 'idle' : 'offline');
+  }
+
+  /**
+   * Run a sync pass, or fold into the one already running
+   * Resolves once the pass (and any follow-up) has finished; failures surface through the sync state
+   */
+  public requestSync(trigger: SyncTrigger): Promise<void> {
+    const pull = PULL_TRIGGERS.includes(trigger);
+
+    if (this.inFlight) {
+      this.followUp = { pull: pull || (this.followUp?.pull ?? false) };
+      return this.inFlight;
+    }
+
+    this.inFlight = this.runPasses(trigger, pull).finally(() => {
+      this.inFlight = null;
+    });
+    return this.inFlight;
+  }
+
+  private async runPasses(trigger: SyncTrigger, pull: boolean) {
+    let next: { pull: boolean } | null = { pull };
+    while (next) {
+      this.followUp = null;
+      await this.runPass(trigger, next.pull);
+      next = this.followUp;
+    }
+  }
+
+  private async runPass(trigger: SyncTrigger, forcePull: boolean) {
+    if (!this.isOnline) {
+      this.setPhase('offline');
+      return;
+    }
+
+    // No signed-in user (guest mode) - data stays on device until it's linked to an account
+    if (!this.currentUserId) {
+      this.setPhase('idle');
+      return;
+    }
+
+    const now = Date.now();
+    const { queue } = store.getState().sync;
+    const userId = this.currentUserId;
+    const options: RequestOptions = { signal: getSessionSignal() };
+    const policy = selectSyncPolicy(store.getState());
+
+    // Timed pulls can wait for Wi-Fi; pulls the user asked for (foreground, refresh) always run
+    const pullPaused = !forcePull && policy.pauseBackgroundPullOnCellular && isMeteredConnection(this.connectionType);
+
+    const outboxCount = (await offlineQueue.getPendingItems()).length;
+    const hasDuePush = outboxCount > 0 || queue.some(item => isReadyForAttempt(item.nextAttemptAt, now));
+    const pullDue = userId !== null && (forcePull || (!pullPaused && now - this.lastPullAt >= this.pullIntervalMs));
+
+    if (!hasDuePush && !pullDue) {
+      this.settle(0);
+      return;
+    }
+
+    console.log(`🔄 SyncEngine: Pass (${trigger})`, { queueLength: queue.length, outboxCount, pullDue });
+    this.clearTimer('retryTimer');
+    this.clearTimer('doneTimer');
+
+    // Pull first so last-writer-wins can drop stale edits instead of them overwriting newer values
+    const pullFirst = hasDuePush && userId !== null &&
+      queue.some(item => now - new Date(item.timestamp).getTime() > STALE_EDIT_MS);
+
+    let syncedCount = 0;
+    let pulledCount = 0;
+    let pullRan = false;
+    try {
+      if (pullFirst) {
+        pulledCount += await this.pull(userId, options);
+        pullRan = true;
+      }
+
+      if (hasDuePush) {
+        this.setPhase('pushing');
+        syncedCount = await this.pushQueue(options);
+        await offlineQueue.processQueue(options);
+      }
+
+      if (pullDue && !pullFirst) {
+        pulledCount += await this.pull(userId, options);
+        pullRan = true;
+      }
+
+      // Signed out mid-pass - the store has been reset, so there's nothing to report into
+      if (options.signal?.aborted) {
+        console.log('🛑 SyncEngine: Session ended during pass, dropping its results');
+        return;
+      }
+
+      // A pass without a pull says nothing about remote changes - only pushed edits (which speed pulls up) count
+      if (pullRan || syncedCount > 0) {
+        this.updatePullInterval(policy.adaptivePullInterval, pulledCount > 0, syncedCount > 0);
+      }
+      store.dispatch(setLastSyncAt(new Date().toISOString()));
+      store.dispatch(setSyncError(null));
+    } catch (error) {
+      if (options.signal?.aborted) return;
+      console.error('❌ SyncEngine: Pass failed:', error);
+      store.dispatch(setSyncError(error instanceof Error ? error.message : 'Sync failed'));
+    }
+
+    this.settle(syncedCount);
+  }
+
+  private updatePullInterval(adaptive: boolean, pulledChanges: boolean, pushedEdits: boolean) {
+    const next = adaptive
+      ? nextPullInterval(this.pullIntervalMs, { pulledChanges, pushedEdits })
+      : BASE_PULL_INTERVAL_MS;
+
+    if (next !== this.pullIntervalMs) {
+      console.log(`⏱️ SyncEngine: Pull interval ${Math.round(this.pullIntervalMs / 1000)}s → ${Math.round(next / 1000)}s`);
+      this.pullIntervalMs = next;
+    }
+  }
+
+  /**
+   * Pick the resting phase once a pass ends
+   * Actions still queued are backing off, and the retry is timed for the earliest one
+   */
+  private settle(syncedCount: number) {
+    if (!this.isOnline) {
+      this.setPhase('offline');
+      return;
+    }
+
+    const { queue } = store.getState().sync;
+    if (queue.length > 0 || offlineQueue.getPendingCount() > 0) {
+      this.setPhase('backoff');
+      this.scheduleRetry(queue);
+      return;
+    }
+
+    if (syncedCount > 0) {
+      this.setPhase('done');
+      this.doneTimer = setTimeout(() => {
+        this.doneTimer = null;
+        if (store.getState().sync.phase === 'done') {
+          this.setPhase('idle');
+        }
+      }, DONE_DISPLAY_MS);
+      return;
+    }
+
+    if (store.getState().sync.phase !== 'done') {
+      this.setPhase('idle');
+    }
+  }
+
+  private scheduleRetry(queue: SyncAction[]) {
+    // Actions without a retry time wait on a create, or on the next tick
+    const retryTimes = queue
+      .filter(item => item.nextAttemptAt)
+      .map(item => new Date(item.nextAttemptAt!).getTime());
+    if (retryTimes.length === 0) return;
+
+    const delay = Math.max(0, Math.min(...retryTimes) - Date.now());
+    if (delay >= PUSH_INTERVAL_MS && this.tickTimer) return; // The tick gets there first
+
+    this.clearTimer('retryTimer');
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.requestSync('retry');
+    }, delay);
+  }
+
+  // ---- Push ----
+
+  /**
+   * Send every due queued action to the server
+   * Returns how many landed
+   */
+  private async pushQueue(options: RequestOptions): Promise<number> {
+    const now = Date.now();
+    let syncedCount = await this.pushRecordBatch(now, options);
+
+    for (const queuedItem of store.getState().sync.queue) {
+      if (options.signal?.aborted) break;
+
+      // Re-read the action: a create earlier in this pass may have remapped its temp IDs
+      const item = store.getState().sync.queue.find(q => q.id === queuedItem.id);
+      if (!item) {
+        continue;
+      }
+
+      // Respect per-item backoff - items not yet due are picked up on a later pass
+      if (!isReadyForAttempt(item.nextAttemptAt, now)) {
+        continue;
+      }
+
+      // Wait for the create that will give this action a real ID
+      const unresolvedIds = getUnresolvedTempIds(item);
+      if (unresolvedIds.length > 0) {
+        if (!this.hasPendingCreate(unresolvedIds)) {
+          // Nothing will ever resolve these IDs - the action can't apply to any row
+          console.warn(`🗑️ [SYNC-CLEANUP] Dropping ${item.op} for ${item.entityId}: no pending create for ${unresolvedIds.join(', ')}`);
+          store.dispatch(removeFromQueue(item.id));
+        }
+        continue;
+      }
+
+      try {
+        await this.syncItem(item, options);
+        store.dispatch(removeFromQueue(item.id));
+        syncedCount += 1;
+        console.log(`✅ Successfully synced item ${item.id}`);
+      } catch (error) {
+        // Aborted by sign-out - the action went with the old session's queue
+        if (options.signal?.aborted) break;
+        console.error(`❌ Failed to sync item ${item.id}:`, error);
+        this.handleSyncFailure(item, error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    return syncedCount;
+  }
+
+  /**
+   * Send due record upserts/deletes through one bulk call
+   * Only first attempts are batched - rows that failed retry one by one, so a bad row can't hold up the rest.
+   * Returns how many landed.
+   */
+  private async pushRecordBatch(now: number, options: RequestOptions): Promise<number> {
+    const batch = store.getState().sync.queue.filter((item): item is RecordSyncAction =>
+      (item.op === 'recordUpsert' || item.op === 'recordDelete') &&
+      item.retryCount === 0 &&
+      isReadyForAttempt(item.nextAttemptAt, now) &&
+      getUnresolvedTempIds(item).length === 0
+    ).slice(0, MAX_RECORD_BATCH_SIZE);
+
+    // A single change goes through its regular handler
+    if (batch.length < 2) {
+      return 0;
+    }
+
+    console.log(`Syncing ${batch.length} record changes in one batch`);
+
+    try {
+      const outcomes = await syncRecordBatch(batch, options);
+      let syncedCount = 0;
+      batch.forEach(item => {
+        const error = outcomes.get(item.id);
+        if (error) {
+          console.error(`❌ Failed to sync item ${item.id}:`, error);
+          this.handleSyncFailure(item, error);
+        } else {
+          store.dispatch(removeFromQueue(item.id));
+          syncedCount += 1;
+        }
+      });
+      return syncedCount;
+    } catch (error) {
+      if (options.signal?.aborted) return 0;
+      // The whole call failed (offline, or the RPC isn't deployed) - each action retries on its own later
+      console.error('❌ Failed to sync record batch:', error);
+      const message = error instanceof Error ? error.message : String(error);
+      batch.forEach(item => this.handleSyncFailure(item, message));
+      return 0;
+    }
+  }
+
+  /**
+   * Schedule a retry with backoff, or dead-letter the action once it has failed too often
+   */
+  private handleSyncFailure(item: SyncAction, message: string) {
+    const failedAttempts = item.retryCount + 1;
+
+    if (failedAttempts >= MAX_RETRY_COUNT) {
+      console.warn(`Max retry count reached for item ${item.id}, moving to dead-letter list`);
+      store.dispatch(moveToDeadLetter({ id: item.id, error: message }));
+    } else {
+      store.dispatch(markSyncFailure({
+        id: item.id,
+        error: message,
+        nextAttemptAt: computeNextAttemptAt(failedAttempts),
+      }));
+    }
+  }
+
+  /**
+   * Whether any of the temp IDs still has a create queued (or dead-lettered, awaiting a retry)
+   */
+  private hasPendingCreate(tempIds: string[]): boolean {
+    const { queue, deadLetter } = store.getState().sync;
+    const isCreateFor = (action: SyncAction) =>
+      (action.op === 'commitmentCreate' || action.op === 'layoutCreate') && tempIds.includes(action.entityId);
+
+    return queue.some(isCreateFor) ||
+      (deadLetter ?? []).some(item => item.source === 'sync' && isCreateFor(item.action));
+  }
+
+  private async syncItem(item: SyncAction, options: RequestOptions): Promise<void> {
+    const handler = syncHandlers[item.op] as ((action: SyncAction, options: RequestOptions) => Promise<void>) | undefined;
+    if (!handler) {
+      throw new Error(`Unknown sync operation: ${item.op}`);
+    }
+
+    console.log(`Syncing ${item.op}:`, { entity: item.entity, entityId: item.entityId, isTemp: isTempId(item.entityId) });
+    await handler(item, options);
+  }
+
+  // ---- Pull ----
+
+  /**
+   * Pull remote changes and refresh friends charts
+   * Returns how many rows changed
+   */
+  private async pull(userId: string, options: RequestOptions): Promise<number> {
+    this.setPhase('pulling');
+    const changedCount = await this.pullChanges(userId, options);
+    if (options.signal?.aborted) return 0;
+    this.lastPullAt = Date.now();
+
+    // Refresh friends charts
+    triggerFriendsChartsRefresh();
+    return changedCount;
+  }
+
+  private async pullChanges(userId: string, options: RequestOptions): Promise<number> {
+    const since = store.getState().sync.pullCursor;
+    if (!since) return 0;
+
+    try {
+      console.log('📊 SyncEngine: Pulling changes since', since);
+
+      const changes = await pullChangesSince(userId, since, options);
+
+      // Signed out (or switched account) while the pull was in flight
+      if (this.currentUserId !== userId || options.signal?.aborted) {
+        return 0;
+      }
+
+      // Merge field by field with edits still in the queue - the later write wins each field
+      const commitmentRows = store.dispatch(reconcilePulledRows('commitment', changes.commitments, row => row.id));
+      const recordRows = store.dispatch(reconcilePulledRows(
+        'record',
+        changes.records,
+        row => `${row.commitment_id}_${row.completed_at.split('T')[0]}`
+      ));
+      const layoutRows = store.dispatch(reconcilePulledRows('layout_item', changes.layoutItems, row => row.id));
+
+      // Earlier versions hang off their commitment rather than listing as commitments
+      const versionRows = commitmentRows.filter(isCommitmentVersionRow);
+      const commitments = commitmentRows.filter(row => !isCommitmentVersionRow(row)).map(mapDbCommitment);
+      const records = recordRows.map(mapDbRecord);
+      const layoutItems = layoutRows.map(transformRowToLayoutItem);
+
+      // Deletes too - queued edits to deleted rows are dropped, re-edited records are kept
+      const deletedCommitmentIds = store.dispatch(reconcilePulledDeletes('commitment', changes.deleted.commitments));
+      const deletedRecordIds = store.dispatch(reconcilePulledDeletes('record', changes.deleted.commitment_records));
+      const deletedLayoutItemIds = store.dispatch(reconcilePulledDeletes('layout_item', changes.deleted.layout_items));
+
+      store.dispatch(mergeCommitmentsFromServer({ commitments, deletedIds: deletedCommitmentIds }));
+      store.dispatch(mergeRecordsFromServer({ records, deletedIds: deletedRecordIds }));
+      store.dispatch(mergeLayoutItemsFromServer({ layoutItems, deletedIds: deletedLayoutItemIds }));
+
+      if (versionRows.length > 0) {
+        await store.dispatch(loadCommitmentVersionsThunk(options));
+      }
+
+      store.dispatch(setPullCursor(changes.cursor));
+
+      const deletedCount = Object.values(changes.deleted).reduce((total, ids) => total + ids.length, 0);
+      console.log('✅ SyncEngine: Pulled changes:', {
+        commitments: commitments.length,
+        records: records.length,
+        layoutItems: layoutItems.length,
+        deleted: deletedCount,
+      });
+
+      return commitments.length + records.length + layoutItems.length + deletedCount;
+    } catch (error) {
+      if (options.signal?.aborted) return 0;
+      // Cursor is left unchanged so the next pull retries the same window
+      console.error('❌ SyncEngine: Pull failed:', error);
+      return 0;
+    }
+  }
+
+  // ---- Connectivity and app state ----
+
+  private isConnected(state: NetInfoState): boolean {
+    // Reachability is null until NetInfo has checked - only a definite "unreachable" counts as offline
+    return state.isConnected === true && state.isInternetReachable !== false;
+  }
+
+  private updateConnectionType(type: string) {
+    if (type === this.connectionType) return;
+
+    this.connectionType = type;
+    store.dispatch(setConnectionType(type));
+  }
+
+  private handleConnectivityChange(state: NetInfoState) {
+    // Wi-Fi ↔ cellular switches matter to the sync policy even when we stay online
+    this.updateConnectionType(state.type);
+
+    const isOnline = this.isConnected(state);
+    if (isOnline === this.isOnline) return;
+
+    this.isOnline = isOnline;
+    store.dispatch(setOnlineStatus(isOnline));
+
+    if (isOnline) {
+      console.log('🌐 SyncEngine: Network reconnected, triggering sync');
+      this.startTicking();
+      this.requestSync('reconnect');
+    } else {
+      console.log('📡 SyncEngine: Network disconnected, pausing sync');
+      this.stopTicking();
+      this.clearTimer('retryTimer');
+      this.clearTimer('doneTimer');
+      this.setPhase('offline');
+    }
+  }
+
+  private handleAppStateChange(nextAppState: AppStateStatus) {
+    const wasInBackground = this.appState === 'background';
+    this.appState = nextAppState;
+
+    if (wasInBackground && nextAppState === 'active') {
+      console.log('📱 SyncEngine: App foregrounded, triggering sync');
+      this.startTicking();
+      this.requestSync('foreground');
+    } else if (nextAppState === 'background') {
+      console.log('📱 SyncEngine: App backgrounded, pausing sync');
+      this.stopTicking();
+    }
+  }
+
+  private startTicking() {
+    if (this.tickTimer || this.appState === 'background' || !this.isOnline) {
+      return;
+    }
+
+    this.tickTimer = setInterval(() => {
+      this.requestSync('interval');
+    }, PUSH_INTERVAL_MS);
+  }
+
+  private stopTicking() {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+  }
+
+  private clearTimer(timer: 'retryTimer' | 'doneTimer') {
+    const handle = this[timer];
+    if (handle) {
+      clearTimeout(handle);
+      this[timer] = null;
+    }
+  }
+
+  private setPhase(phase: SyncEnginePhase) {
+    if (store.getState().sync.phase !== phase) {
+      store.dispatch(setSyncPhase(phase));
+    }
+  }
+
+  public destroy() {
+    this.stopTicking();
+    this.clearTimer('retryTimer');
+    this.clearTimer('doneTimer');
+
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+
+    this.netInfoUnsubscribe?.();
+    this.netInfoUnsubscribe = null;
+
+    this.isStarted = false;
+  }
+}
+
+// Export singleton instance
+export const syncEngine = new SyncEngine();
+
+// Convenience functions
+export const startSyncEngine = () => syncEngine.start();
+export const triggerManualSync = () => syncEngine.requestSync('manual');
+export const setSyncUserId = (userId: string | null) => syncEngine.setUserId(userId);
@@ -0,0 +1,369 @@
+import { store } from '@/store';
+import {
+  addToQueue,
+  remapTempId,
+  type SyncActionOf,
+  type SyncOperationName,
+} from '@/store/slices/syncSlice';
+import * as commitmentService from './commitments';
+import { addRecord, mapDbRecord } from '@/store/slices/recordsSlice';
+import { loadCommitmentVersionsThunk, mapDbCommitment, upsertCommitmentFromServer } from '@/store/slices/commitmentsSlice';
+import { isTempId } from '@/utils/tempId';
+import { getSessionUserId, throwIfSessionEnded, type RequestOptions } from './sessionSignal';
+
+// Handlers get the session's abort signal - results landing after sign-out are dropped, not dispatched
+type SyncHandler<K extends SyncOperationName> = (action: SyncActionOf<K>, options: RequestOptions) => Promise<void>;
+
+// Newer edits for the same entity are still queued - writing the server echo back would undo them
+function hasNewerQueuedActions(action: SyncActionOf<SyncOperationName>): boolean {
+  return store.getState().sync.queue.some(queued =>
+    queued.id !== action.id && queued.entity === action.entity && queued.entityId === action.entityId
+  );
+}
+
+// A delete dropped the create from the queue while its request was in flight (signing out also clears the queue)
+function wasCancelledDuringCreate(action: SyncActionOf<'commitmentCreate' | 'layoutCreate'>): boolean {
+  return getSessionUserId() !== null && !store.getState().sync.queue.some(q => q.id === action.id);
+}
+
+async function setLifecycle(
+  id: string,
+  fields: { archived?: boolean; deletedAt?: string | null; is_active: boolean },
+  options: RequestOptions
+): Promise<void> {
+  if (fields.archived !== undefined) {
+    const result = await commitmentService.setArchived(id, fields.archived, { ...options, is_active: fields.is_active });
+    if (result.error) {
+      throw new Error(`setArchived failed: ${result.error.message}`);
+    }
+  }
+
+  if (fields.deletedAt !== undefined) {
+    const result = await commitmentService.setDeletedAt(id, fields.deletedAt, { ...options, is_active: fields.is_active });
+    if (result.error) {
+      throw new Error(`setDeletedAt failed: ${result.error.message}`);
+    }
+  }
+}
+
+export type RecordSyncAction = SyncActionOf<'recordUpsert' | 'recordDelete'>;
+
+/**
+ * Sync many record changes with one bulk RPC call
+ * Resolves with each action's error message (null when it landed); throws only when the call itself failed
+ */
+export async function syncRecordBatch(
+  actions: RecordSyncAction[],
+  options: RequestOptions = {}
+): Promise<Map<string, string | null>> {
+  const result = await commitmentService.applyRecordMutations(actions.map(action =>
+    action.op === 'recordUpsert'
+      ? { op: 'upsert' as const, ...action.data }
+      : { op: 'delete' as const, ...action.data }
+  ), options);
+  throwIfSessionEnded(options);
+  if (result.error) {
+    throw new Error(`applyRecordMutations failed: ${result.error.message}`);
+  }
+
+  const outcomes = new Map<string, string | null>();
+  actions.forEach((action, index) => {
+    const outcome = result.data?.find(row => row.mutation_index === index);
+    if (!outcome) {
+      outcomes.set(action.id, 'No result returned for mutation');
+      return;
+    }
+    if (!outcome.success) {
+      outcomes.set(action.id, outcome.error_message || 'Record mutation failed');
+      return;
+    }
+
+    // Same as the single upsert: take the real row unless newer edits are still queued
+    if (action.op === 'recordUpsert' && outcome.row_data && !hasNewerQueuedActions(action)) {
+      store.dispatch(addRecord(mapDbRecord(outcome.row_data)));
+    }
+    outcomes.set(action.id, null);
+  });
+
+  const syncedCount = [...outcomes.values()].filter(error => error === null).length;
+  console.log(`✅ Synced ${syncedCount}/${actions.length} record changes in one batch`);
+  return outcomes;
+}
+
+/**
+ * Handler for every sync operation
+ * Typed as a full record so adding an operation without a handler fails to compile
+ */
+export const syncHandlers: { [K in SyncOperationName]: SyncHandler<K> } = {
+  commitmentCreate: async (action, options) => {
+    // Data is the Supabase insert row captured when the immediate save failed
+    const result = await commitmentService.createCommitment(action.data, options);
+    throwIfSessionEnded(options);
+    if (result.error) {
+      throw new Error(`createCommitment failed: ${result.error.message}`);
+    }
+
+    if (!result.data) return;
+    const realId: string = result.data.id;
+
+    if (wasCancelledDuringCreate(action)) {
+      console.log(`🗑️ Commitment ${action.entityId} was deleted during create, removing ${realId}`);
+      await commitmentService.permanentDelete(realId, options);
+      return;
+    }
+
+    // Field edits folded into this create while the request was in flight never reached the server
+    const queued = store.getState().sync.queue.find(q => q.id === action.id);
+    const latestData = queued?.op === 'commitmentCreate' ? queued.data : action.data;
+    const unsentUpdates = Object.fromEntries(
+      Object.entries(latestData).filter(([key, value]) => action.data[key as keyof typeof action.data] !== value)
+    );
+    const hasUnsentUpdates = Object.keys(unsentUpdates).length > 0;
+
+    // Swap the local placeholder for the real database row (with proper ID),
+    // keeping local fields when they are newer than what was sent
+    if (!hasUnsentUpdates) {
+      store.dispatch(upsertCommitmentFromServer({
+        localId: action.entityId,
+        commitment: mapDbCommitment(result.data),
+      }));
+    }
+
+    // Queued before the remap so it can't fold back into this (about to be removed) create
+    if (hasUnsentUpdates) {
+      store.dispatch(addToQueue({
+        op: 'commitmentUpdate',
+        entity: 'commitment',
+        entityId: realId,
+        data: { updates: unsentUpdates },
+      }));
+    }
+
+    // Point queued actions, records and stale references at the real row
+    if (isTempId(action.entityId)) {
+      store.dispatch(remapTempId({ entity: 'commitment', tempId: action.entityId, realId }));
+    }
+    console.log(`✅ Synced commitmentCreate ${action.entityId} → ${realId}`);
+  },
+
+  commitmentUpdate: async (action, options) => {
+    // Regular field update (title, colour, target, unit, requirements, privacy...)
+    const result = await commitmentService.updateCommitment(action.entityId, action.data.updates, options);
+    throwIfSessionEnded(options);
+    if (result.error) {
+      throw new Error(`updateCommitment failed: ${result.error.message}`);
+    }
+
+    if (result.data && !hasNewerQueuedActions(action)) {
+      store.dispatch(upsertCommitmentFromServer({
+        localId: action.entityId,
+        commitment: mapDbCommitment(result.data),
+      }));
+    }
+    console.log(`Synced field update for commitment ${action.entityId}:`, Object.keys(action.data.updates));
+  },
+
+  archive: async (action, options) => {
+    await setLifecycle(action.entityId, { archived: action.data.archived, is_active: action.data.is_active }, options);
+    console.log(`Synced archive status for commitment ${action.entityId}`);
+  },
+
+  restore: async (action, options) => {
+    await setLifecycle(action.entityId, {
+      archived: action.data.archived,
+      deletedAt: action.data.deletedAt,
+      is_active: action.data.is_active,
+    }, options);
+    console.log(`✅ Synced restore for commitment ${action.entityId}`);
+  },
+
+  softDelete: async (action, options) => {
+    await setLifecycle(action.entityId, {
+      deletedAt: action.data.deletedAt,
+      archived: action.data.archived,
+      is_active: action.data.is_active,
+    }, options);
+    console.log(`Synced soft delete for commitment ${action.entityId}`);
+  },
+
+  permaDelete: async (action, options) => {
+    const result = await commitmentService.permanentDelete(action.entityId, options);
+    if (result.error) {
+      throw new Error(`permanentDelete failed: ${result.error.message}`);
+    }
+    console.log(`Synced permanent delete for commitment ${action.entityId}`);
+  },
+
+  showValues: async (action, options) => {
+    const result = await commitmentService.updateCommitment(action.entityId, { show_values: action.data.show_values }, options);
+    if (result.error) {
+      throw new Error(`updateCommitment show_values failed: ${result.error.message}`);
+    }
+    console.log(`Synced show_values=${action.data.show_values} for commitment ${action.entityId}`);
+  },
+
+  successCriteriaSet: async (action, options) => {
+    const result = await commitmentService.saveSuccessCriteria(action.entityId, action.data.criteria, options);
+    throwIfSessionEnded(options);
+    if (result.error) {
+      throw new Error(`saveSuccessCriteria failed: ${result.error.message}`);
+    }
+    console.log(`✅ Synced success criteria for ${action.entityId}`);
+  },
+
+  requiredConditionsSet: async (action, options) => {
+    const result = await commitmentService.saveRequiredConditions(
+      action.entityId,
+      action.data.required_conditions,
+      action.data.total_conditions,
+      options
+    );
+    throwIfSessionEnded(options);
+    if (result.error) {
+      throw new Error(`saveRequiredConditions failed: ${result.error.message}`);
+    }
+    console.log(`✅ Synced required conditions for ${action.entityId}`);
+  },
+
+  commitmentVersion: async (action, options) => {
+    const result = await commitmentService.createCommitmentVersion(
+      action.entityId,
+      action.data.effective_from,
+      action.data.change_note,
+      action.data.updates,
+      action.data.criteria,
+      options
+    );
+    throwIfSessionEnded(options);
+    if (result.error) {
+      throw new Error(`createCommitmentVersion failed: ${result.error.message}`);
+    }
+
+    if (result.data && !hasNewerQueuedActions(action)) {
+      store.dispatch(upsertCommitmentFromServer({
+        localId: action.entityId,
+        commitment: mapDbCommitment(result.data),
+      }));
+    }
+    // Swap the optimistic earlier version for the stored one
+    await store.dispatch(loadCommitmentVersionsThunk(options));
+    console.log(`✅ Synced version of ${action.entityId} from ${action.data.effective_from}`);
+  },
+
+  move: async (action, options) => {
+    if (action.entity === 'layout_item') {
+      const userId = action.data.user_id;
+      if (!userId) {
+        throw new Error(`Missing user_id for layout item move ${action.entityId}`);
+      }
+
+      try {
+        const { updateLayoutItem } = await import('./layoutItems');
+        await updateLayoutItem({ id: action.entityId, userId, order_rank: action.data.order_rank }, undefined, options);
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('ITEM_NOT_FOUND')) {
+          console.log(`⚠️ Layout item ${action.entityId} no longer exists, skipping move (likely deleted in race condition)`);
+          return;
+        }
+        throw error;
+      }
+      console.log(`✅ Synced order_rank=${action.data.order_rank} for layout item ${action.entityId}`);
+      return;
+    }
+
+    const result = await commitmentService.updateOrderRank(action.entityId, action.data.order_rank, options);
+    if (result.error) {
+      throw new Error(`updateOrderRank failed: ${result.error.message}`);
+    }
+    console.log(`Synced order_rank=${action.data.order_rank} for commitment ${action.entityId}`);
+  },
+
+  recordUpsert: async (action, options) => {
+    const result = await commitmentService.upsertCommitmentRecord(action.data, options);
+    throwIfSessionEnded(options);
+    if (result.error) {
+      throw new Error(`upsertCommitmentRecord failed: ${result.error.message}`);
+    }
+
+    // Update Redux with the real database record (with proper ID)
+    if (result.data && !hasNewerQueuedActions(action)) {
+      store.dispatch(addRecord(mapDbRecord(result.data)));
+    }
+    console.log(`✅ Synced recordUpsert for ${action.entityId}`);
+  },
+
+  recordDelete: async (action, options) => {
+    const result = await commitmentService.deleteCommitmentRecordByDate(
+      action.data.commitment_id,
+      action.data.completed_at,
+      options
+    );
+    if (result.error) {
+      throw new Error(`deleteCommitmentRecordByDate failed: ${result.error.message}`);
+    }
+    // Note: Redux already removed the record optimistically
+    console.log(`✅ Synced recordDelete for ${action.entityId}`);
+  },
+
+  layoutCreate: async (action, options) => {
+    const layoutData = action.data;
+    // Errors throw so the create is retried - the server assigns the ID, so a failed insert never means the row exists
+    const { createLayoutItem } = await import('./layoutItems');
+    const created = await createLayoutItem({
+      userId: layoutData.user_id,
+      type: layoutData.type,
+      order_rank: layoutData.order_rank,
+      isActive: layoutData.is_active,
+      archived: layoutData.archived || false,
+      deletedAt: layoutData.deleted_at || null,
+      // Type-specific properties
+      ...(layoutData.type === 'spacer' && { height: layoutData.height }),
+      ...(layoutData.type === 'divider' && {
+        style: layoutData.style as 'solid' | 'dashed' | 'dotted' | undefined,
+        color: layoutData.color,
+      }),
+    }, options);
+    throwIfSessionEnded(options);
+
+    if (wasCancelledDuringCreate(action)) {
+      const { deleteLayoutItem } = await import('./layoutItems');
+      await deleteLayoutItem(created.id, layoutData.user_id, options);
+      console.log(`🗑️ Layout item ${action.entityId} was deleted during create, removed ${created.id}`);
+      return;
+    }
+
+    // Later moves/deletes queued against the temp ID now target the real row
+    if (isTempId(action.entityId)) {
+      store.dispatch(remapTempId({ entity: 'layout_item', tempId: action.entityId, realId: created.id }));
+    }
+    console.log(`Created layout item ${action.entityId} → ${created.id} via sync`);
+  },
+
+  layoutDelete: async (action, options) => {
+    const { deleteLayoutItem } = await import('./layoutItems');
+    await deleteLayoutItem(action.entityId, action.data.user_id, options);
+    console.log(`Synced delete for layout item ${action.entityId}`);
+  },
+
+  friendMove: async (action, options) => {
+    const { user_id, friend_user_id, order_rank, group_name } = action.data;
+    const { updateFriendOrderRank } = await import('./friends');
+    const result = await updateFriendOrderRank(user_id, friend_user_id, order_rank, group_name || 'all', options);
+    if (result.error) {
+      console.error('📡 [Sync Service] updateFriendOrderRank failed:', result.error);
+      throw new Error(`updateFriendOrderRank failed: ${result.error.message}`);
+    }
+    console.log('📡 [Sync Service] Friend order sync successful:', result.data);
+  },
+
+  friendOrderCreate: async (action, options) => {
+    const { user_id, friend_user_id, order_rank, group_name } = action.data;
+    const { createFriendOrderRank } = await import('./friends');
+    const result = await createFriendOrderRank(user_id, friend_user_id, order_rank, group_name || 'all', options);
+    if (result.error) {
+      console.error('📡 [Sync Service] createFriendOrderRank failed:', result.error);
+      throw new Error(`createFriendOrderRank failed: ${result.error.message}`);
+    }
+    console.log('📡 [Sync Service] Friend order entry created:', friend_user_id);
+  },
+};
@@ -0,0 +1,129 @@
+/**
+ * Unit tests for merging delta sync results into the slices
+ */
+
+import { configureStore } from '@reduxjs/toolkit';
+import commitmentsSlice, {
+  setCommitments,
+  mergeCommitmentsFromServer,
+  type Commitment,
+} from '../slices/commitmentsSlice';
+import recordsSlice, { setRecords, mergeRecordsFromServer, type DayRecord } from '../slices/recordsSlice';
+import layoutItemsSlice, {
+  setLayoutItems,
+  mergeLayoutItemsFromServer,
+  type LayoutItem,
+} from '../slices/layoutItemsSlice';
+
+// The slices import services that create the Supabase client; keep it out of the tests
+jest.mock('@/services/supabase', () => ({
+  supabase: {},
+}));
+
+const createTestStore = () =>
+  configureStore({
+    reducer: {
+      commitments: commitmentsSlice,
+      records: recordsSlice,
+      layoutItems: layoutItemsSlice,
+    },
+  });
+
+const now = '2025-01-01T00:00:00.000Z';
+
+const commitment = (id: string, overrides: Partial<Commitment> = {}): Commitment => ({
+  id,
+  userId: 'user-1',
+  title: `Commitment ${id}`,
+  color: '#000000',
+  type: 'binary',
+  commitmentType: 'checkbox',
+  streak: 0,
+  bestStreak: 0,
+  isActive: true,
+  isPrivate: false,
+  createdAt: now,
+  updatedAt: now,
+  archived: false,
+  deletedAt: null,
+  order_rank: 'A',
+  last_active_rank: null,
+  ...overrides,
+} as Commitment);
+
+const record = (id: string, date: string, overrides: Partial<DayRecord> = {}): DayRecord => ({
+  id,
+  userId: 'user-1',
+  commitmentId: 'c1',
+  date,
+  status: 'completed',
+  createdAt: now,
+  updatedAt: now,
+  ...overrides,
+});
+
+const layoutItem = (id: string, order_rank: string): LayoutItem => ({
+  id,
+  userId: 'user-1',
+  type: 'spacer',
+  order_rank,
+  isActive: true,
+  createdAt: now,
+  updatedAt: now,
+});
+
+describe('Delta sync merge', () => {
+  let store: ReturnType<typeof createTestStore>;
+
+  beforeEach(() => {
+    store = createTestStore();
+  });
+
+  it('updates changed commitments, adds new ones and drops deleted ones', () => {
+    store.dispatch(setCommitments([
+      commitment('c1', { streak: 4, bestStreak: 9 }),
+      commitment('c2'),
+    ]));
+
+    store.dispatch(mergeCommitmentsFromServer({
+      commitments: [commitment('c1', { title: 'Renamed' }), commitment('c3')],
+      deletedIds: ['c2'],
+    }));
+
+    const commitments = store.getState().commitments.commitments;
+    expect(commitments.map(c => c.id)).toEqual(['c1', 'c3']);
+    expect(commitments[0].title).toBe('Renamed');
+    // Streaks are derived locally and survive the merge
+    expect(commitments[0].streak).toBe(4);
+    expect(commitments[0].bestStreak).toBe(9);
+  });
+
+  it('replaces records by commitment and day, including local temp records', () => {
+    store.dispatch(setRecords([
+      record('temp_1', '2025-01-01'),
+      record('r2', '2025-01-02'),
+    ]));
+
+    store.dispatch(mergeRecordsFromServer({
+      records: [record('r1', '2025-01-01', { status: 'skipped' })],
+      deletedIds: ['r2'],
+    }));
+
+    const records = store.getState().records.records;
+    expect(records).toHaveLength(1);
+    expect(records[0]).toEqual(expect.objectContaining({ id: 'r1', status: 'skipped' }));
+  });
+
+  it('merges layout items and drops deleted ones', () => {
+    store.dispatch(setLayoutItems([layoutItem('l1', 'A'), layoutItem('l2', 'B')]));
+
+    store.dispatch(mergeLayoutItemsFromServer({
+      layoutItems: [layoutItem('l1', 'C')],
+      deletedIds: ['l2'],
+    }));
+
+    const layoutItems = store.getState().layoutItems.layoutItems;
+    expect(layoutItems).toHaveLength(1);
+    expect(layoutItems[0].order_rank).toBe('C');
+  });
+});
@@ -242,11 +242,11 @@ describe('Friends ordering thunks', () => {
         expect.objectContaining({
           type: 'sync/addToQueue',
           payload: expect.objectContaining({
-            type: 'UPDATE',
+            op: 'friendMove',
             entity: 'friend_order',
             entityId: 'friend1',
             interactive: true,
-            idempotencyKey: 'friend_move:friend1:new-rank',
+            data: expect.objectContaining({ friend_user_id: 'friend1', order_rank: 'new-rank' }),
           }),
         })
       );
@@ -288,9 +288,10 @@ describe('Friends ordering thunks', () => {
           expect.objectContaining({
             type: 'sync/addToQueue',
             payload: expect.objectContaining({
+              op: 'friendMove',
               entityId: id,
               interactive: true,
-              idempotencyKey: `friend_move:${id}:${newRank}`,
+              data: expect.objectContaining({ order_rank: newRank }),
             }),
           })
         );
@@ -0,0 +1,120 @@
+/**
+ * Unit tests for temp ID remapping across the sync queue and Redux entities
+ */
+
+import { configureStore } from '@reduxjs/toolkit';
+import syncSlice, {
+  addToQueue,
+  remapTempId,
+  getUnresolvedTempIds,
+  type NewSyncAction,
+} from '../slices/syncSlice';
+import recordsSlice, { addRecord } from '../slices/recordsSlice';
+import layoutItemsSlice, { addLayoutItem } from '../slices/layoutItemsSlice';
+
+const createTestStore = () =>
+  configureStore({
+    reducer: {
+      sync: syncSlice,
+      records: recordsSlice,
+      layoutItems: layoutItemsSlice,
+    },
+  });
+
+const layoutMove = (entityId: string, order_rank: string): NewSyncAction => ({
+  op: 'move',
+  entity: 'layout_item',
+  entityId,
+  data: { order_rank, user_id: 'user-1' },
+});
+
+const recordUpsert = (commitmentId: string, date: string): NewSyncAction => ({
+  op: 'recordUpsert',
+  entity: 'record',
+  entityId: `${commitmentId}_${date}`,
+  data: { commitment_id: commitmentId, completed_at: `${date}T12:00:00Z`, status: 'complete' },
+});
+
+describe('remapTempId', () => {
+  let store: ReturnType<typeof createTestStore>;
+
+  beforeEach(() => {
+    store = createTestStore();
+  });
+
+  it('rewrites queued actions for the remapped entity', () => {
+    store.dispatch(addToQueue(layoutMove('temp-layout-1', 'A')));
+    store.dispatch(addToQueue(layoutMove('spacer-2', 'B')));
+
+    store.dispatch(remapTempId({ entity: 'layout_item', tempId: 'temp-layout-1', realId: 'uuid-1' }));
+
+    expect(store.getState().sync.queue.map(q => q.entityId)).toEqual(['uuid-1', 'spacer-2']);
+  });
+
+  it('rewrites records queued against an offline-created commitment', () => {
+    store.dispatch(addToQueue(recordUpsert('temp-1', '2025-01-01')));
+
+    store.dispatch(remapTempId({ entity: 'commitment', tempId: 'temp-1', realId: 'uuid-1' }));
+
+    const [queued] = store.getState().sync.queue;
+    expect(queued.entityId).toBe('uuid-1_2025-01-01');
+    expect(queued.data).toEqual(expect.objectContaining({ commitment_id: 'uuid-1' }));
+  });
+
+  it('does not touch other entity types sharing the temp ID', () => {
+    store.dispatch(addToQueue(layoutMove('temp-1', 'A')));
+
+    store.dispatch(remapTempId({ entity: 'commitment', tempId: 'temp-1', realId: 'uuid-1' }));
+
+    expect(store.getState().sync.queue[0].entityId).toBe('temp-1');
+  });
+
+  it('translates stale temp references enqueued after the remap', () => {
+    store.dispatch(remapTempId({ entity: 'layout_item', tempId: 'temp-layout-1', realId: 'uuid-1' }));
+    store.dispatch(addToQueue(layoutMove('temp-layout-1', 'C')));
+
+    expect(store.getState().sync.queue[0].entityId).toBe('uuid-1');
+  });
+
+  it('updates Redux entities that used the temp ID', () => {
+    const now = new Date().toISOString();
+    store.dispatch(addLayoutItem({
+      id: 'temp-layout-1',
+      userId: 'user-1',
+      type: 'spacer',
+      order_rank: 'A',
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    }));
+    store.dispatch(addRecord({
+      id: 'temp_1',
+      userId: 'user-1',
+      commitmentId: 'temp-1',
+      date: '2025-01-01',
+      status: 'completed',
+      createdAt: now,
+      updatedAt: now,
+    }));
+
+    store.dispatch(remapTempId({ entity: 'layout_item', tempId: 'temp-layout-1', realId: 'uuid-layout' }));
+    store.dispatch(remapTempId({ entity: 'commitment', tempId: 'temp-1', realId: 'uuid-commitment' }));
+
+    expect(store.getState().layoutItems.layoutItems[0].id).toBe('uuid-layout');
+    expect(store.getState().records.records[0].commitmentId).toBe('uuid-commitment');
+  });
+});
+
+describe('getUnresolvedTempIds', () => {
+  it('lets creates through but holds actions that depend on a temp ID', () => {
+    expect(getUnresolvedTempIds({
+      op: 'commitmentCreate',
+      entity: 'commitment',
+      entityId: 'temp-1',
+      data: { user_id: 'user-1', title: 'Read' },
+    })).toEqual([]);
+    expect(getUnresolvedTempIds(layoutMove('temp-layout-1', 'A'))).toEqual(['temp-layout-1']);
+    expect(getUnresolvedTempIds(recordUpsert('temp-1', '2025-01-01'))).toEqual(['temp-1']);
+    expect(getUnresolvedTempIds(layoutMove('uuid-1', 'A'))).toEqual([]);
+  });
+});
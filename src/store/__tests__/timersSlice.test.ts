@@ -0,0 +1,42 @@
+/**
+ * Tests for duration timers
+ */
+
+import reducer, { clearTimer, getTimerElapsedMs, pauseTimer, resumeTimer, startTimer } from '../slices/timersSlice';
+
+const at = (time: string) => `2025-01-15T${time}Z`;
+
+describe('timersSlice', () => {
+  test('a running timer counts time from its timestamps', () => {
+    const state = reducer(undefined, startTimer({ commitmentId: 'c1', date: '2025-01-15', at: at('10:00:00') }));
+
+    // Backgrounded for ten minutes - nothing ticked, the time still counts
+    expect(getTimerElapsedMs(state.timers.c1, Date.parse(at('10:10:00')))).toBe(10 * 60 * 1000);
+  });
+
+  test('pausing banks the run and resuming starts a new one', () => {
+    let state = reducer(undefined, startTimer({ commitmentId: 'c1', date: '2025-01-15', at: at('10:00:00') }));
+    state = reducer(state, pauseTimer({ commitmentId: 'c1', at: at('10:05:00') }));
+
+    expect(state.timers.c1.startedAt).toBeNull();
+    expect(getTimerElapsedMs(state.timers.c1, Date.parse(at('11:00:00')))).toBe(5 * 60 * 1000);
+
+    state = reducer(state, resumeTimer({ commitmentId: 'c1', at: at('11:00:00') }));
+    expect(getTimerElapsedMs(state.timers.c1, Date.parse(at('11:02:30')))).toBe(7.5 * 60 * 1000);
+  });
+
+  test('pausing twice does not bank the time twice', () => {
+    let state = reducer(undefined, startTimer({ commitmentId: 'c1', date: '2025-01-15', at: at('10:00:00') }));
+    state = reducer(state, pauseTimer({ commitmentId: 'c1', at: at('10:05:00') }));
+    state = reducer(state, pauseTimer({ commitmentId: 'c1', at: at('10:09:00') }));
+
+    expect(state.timers.c1.elapsedMs).toBe(5 * 60 * 1000);
+  });
+
+  test('clearing removes the timer', () => {
+    let state = reducer(undefined, startTimer({ commitmentId: 'c1', date: '2025-01-15', at: at('10:00:00') }));
+    state = reducer(state, clearTimer('c1'));
+
+    expect(state.timers.c1).toBeUndefined();
+  });
+});
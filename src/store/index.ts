@@ -12,7 +12,8 @@ import socialReducer from './slices/socialSlice';
 import syncReducer from './slices/syncSlice';
 import settingsReducer from './slices/settingsSlice';
 import themeReducer from './slices/themeSlice';
-import { databaseMiddleware } from './middleware/databaseMiddleware';
+import timersReducer from './slices/timersSlice';
+import { localStoreMiddleware } from './middleware/localStoreMiddleware';
 
 import { logoutGlobal } from './slices/authSlice';
 
@@ -25,6 +26,7 @@ const appReducer = combineReducers({
   sync: syncReducer,
   settings: settingsReducer,
   theme: themeReducer,
+  timers: timersReducer,
 });
 
 const rootReducer = (state: any, action: any) => {
@@ -38,13 +40,13 @@ const rootReducer = (state: any, action: any) => {
 const persistConfig = {
   key: 'root',
   storage: AsyncStorage,
-  whitelist: ['auth', 'settings', 'sync', 'theme'],
+  whitelist: ['auth', 'settings', 'sync', 'theme', 'timers'],
   blacklist: ['commitments', 'layoutItems', 'records', 'social'],
 };
 
 // Dev-only: Guard against persist whitelist drift
 if (__DEV__) {
-  const expectedWhitelist = ['auth', 'settings', 'sync', 'theme'];
+  const expectedWhitelist = ['auth', 'settings', 'sync', 'theme', 'timers'];
   const actualWhitelist = persistConfig.whitelist;
 
   const whitelistMatch = expectedWhitelist.length === actualWhitelist.length &&
@@ -69,8 +71,7 @@ export const store = configureStore({
       serializableCheck: {
         ignoredActions: [FLUSH, REHYDRATE, PAUSE, PERSIST, PURGE, REGISTER],
       },
-    }), // Temporarily disabled databaseMiddleware since we're doing immediate saves
-    // .concat(databaseMiddleware),
+    }).concat(localStoreMiddleware), // Writes save immediately and queue themselves for syncHandlers when that fails
 });
 
 export const persistor = persistStore(store);
@@ -0,0 +1,48 @@
+import { Middleware } from '@reduxjs/toolkit';
+import { localRepository, LOCAL_TABLES, type LocalTable, type LocalTables } from '@/services/localRepository';
+
+// Bursts of edits (a drag reorder, a week of check-ins) are written once
+const SAVE_DEBOUNCE_MS = 500;
+
+// RootState can't be used here - the store's type is inferred from its middleware
+const selectTables = (state: any): LocalTables => ({
+  commitments: state.commitments.commitments,
+  records: state.records.records,
+  layoutItems: state.layoutItems.layoutItems,
+});
+
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+const dirtyTables = new Set<LocalTable>();
+
+/**
+ * Writes commitments, records and layout items to the local repository whenever they change
+ * Only changed tables are written, after a short debounce
+ */
+export const localStoreMiddleware: Middleware = (store) => (next) => (action) => {
+  const previous = selectTables(store.getState());
+  const result = next(action);
+  const current = selectTables(store.getState());
+
+  LOCAL_TABLES.forEach(table => {
+    if (previous[table] !== current[table]) {
+      dirtyTables.add(table);
+    }
+  });
+
+  if (dirtyTables.size > 0 && !saveTimer) {
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      const tables = selectTables(store.getState());
+      const pending = [...dirtyTables];
+      dirtyTables.clear();
+
+      pending.forEach(table => {
+        localRepository.save(table, tables[table]).catch(error => {
+          console.error(`🗄️ [LocalStore] Failed to save ${table}:`, error);
+        });
+      });
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  return result;
+};
@@ -13,6 +13,8 @@ interface AuthState {
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
+  // Set while using the app without an account - names the on-device data until it's linked to one
+  guestId: string | null;
 }
 
 const initialState: AuthState = {
@@ -20,6 +22,7 @@ const initialState: AuthState = {
   isAuthenticated: false,
   isLoading: false,
   error: null,
+  guestId: null,
 };
 
 const authSlice = createSlice({
@@ -56,6 +59,12 @@ const authSlice = createSlice({
     clearError: (state) => {
       state.error = null;
     },
+    startGuestSession: (state, action: PayloadAction<string>) => {
+      state.guestId = action.payload;
+    },
+    endGuestSession: (state) => {
+      state.guestId = null;
+    },
   },
 });
 
@@ -66,6 +75,8 @@ export const {
   logout,
   updateProfile,
   clearError,
+  startGuestSession,
+  endGuestSession,
 } = authSlice.actions;
 
 // Global logout action for root reducer reset
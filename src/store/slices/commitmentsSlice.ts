@@ -1,8 +1,27 @@
 import { createSlice, PayloadAction, createSelector } from '@reduxjs/toolkit';
 import type { RootState, AppDispatch } from '../index';
-import { addToQueue } from './syncSlice';
-import { getAllUserCommitments } from '@/services/commitments';
+import { addToQueue, remapTempId } from './syncSlice';
+import {
+  getAllUserCommitments,
+  getCommitmentStreaks,
+  getCommitmentVersions,
+  getSuccessCriteria,
+  toCachedStreak,
+  toRequiredConditions,
+  toSuccessCriteria,
+} from '@/services/commitments';
+import type { RequestOptions } from '@/services/sessionSignal';
 import { rankBetween } from '@/utils/rank';
+import type { CommitmentSchedule } from '@/utils/schedule';
+import { StreakCalculator, type CachedStreak } from '@/utils/streakCalculation';
+import type { SuccessCriteria } from '@/utils/successCriteria';
+import { toRecordEntries, type EntryAggregate } from '@/utils/recordEntries';
+import {
+  getVersionSettings,
+  isCommitmentVersionRow,
+  type CommitmentVersionSettings,
+} from '@/utils/commitmentVersions';
+import { isTempId } from '@/utils/tempId';
 
 export interface Commitment {
   id: string;
@@ -17,10 +36,19 @@ export interface Commitment {
   requirements?: string[]; // For checkbox commitments with multiple tasks
   ratingRange?: { min: number; max: number }; // For rating commitments
   showValues?: boolean; // Toggle to display numeric values in grid cells
+  successCriteria?: SuccessCriteria | null; // Threshold that decides completed/failed from the entered value
+  requiredConditions?: number | null; // Requirements that complete a day ("3 of 5") - unset means judged by hand
+  entryAggregate?: EntryAggregate | null; // Log several entries a day, combined into the value - unset means one value a day
+  schedule?: CommitmentSchedule | null; // Which days count - daily when unset
+  // Versions - the settings above are the ones in force from effectiveFrom
+  effectiveFrom?: string | null; // First day of the current version (YYYY-MM-DD)
+  changeNote?: string | null; // Why the current version changed
+  versions?: CommitmentVersion[]; // Earlier versions - see utils/commitmentVersions
   // Legacy fields for backward compatibility
   type: 'binary' | 'counter' | 'timer'; // Deprecated, use commitmentType
   streak: number;
   bestStreak: number;
+  streakCache?: CachedStreak | null; // Server's run through its as-of day - see StreakCalculator.resolveStreak
   isActive: boolean;
   isPrivate: boolean;
   createdAt: string;
@@ -33,6 +61,102 @@ export interface Commitment {
   last_active_rank?: string | null; // Stored rank before archival
 }
 
+// An earlier version of a commitment - in force from effectiveFrom until the next version starts
+export interface CommitmentVersion extends CommitmentVersionSettings {
+  id: string;
+  effectiveFrom: string; // YYYY-MM-DD
+  changeNote?: string | null;
+}
+
+/**
+ * Convert a Supabase commitments row into the Redux Commitment shape
+ */
+export function mapDbCommitment(c: any): Commitment {
+  return {
+    id: c.id,
+    userId: c.user_id,
+    title: c.title,
+    description: c.description || undefined,
+    color: c.color,
+    commitmentType: c.commitment_type || 'checkbox',
+    target: c.target,
+    unit: c.unit,
+    requirements: c.requirements,
+    ratingRange: c.rating_range,
+    showValues: c.show_values,
+    schedule: c.schedule || null,
+    entryAggregate: c.entry_aggregate || null,
+    effectiveFrom: c.effective_from || null,
+    changeNote: c.change_note || null,
+    type: c.commitment_type === 'checkbox' && !c.requirements ? 'binary' as const :
+          c.commitment_type === 'checkbox' && c.requirements ? 'binary' as const :
+          c.commitment_type === 'measurement' && c.rating_range ? 'counter' as const : 'timer' as const,
+    streak: 0, // Will be calculated from records
+    bestStreak: 0, // Will be calculated from records
+    isActive: c.is_active,
+    isPrivate: c.is_private || false,
+    createdAt: c.created_at,
+    updatedAt: c.updated_at,
+    archived: c.archived || false,
+    deletedAt: c.deleted_at || null,
+    order_rank: c.order_rank || '',
+    last_active_rank: c.last_active_rank || null,
+  };
+}
+
+/**
+ * Convert an earlier-version commitments row into a CommitmentVersion
+ * Its success criteria are loaded separately, like the commitment's own.
+ */
+export function mapDbCommitmentVersion(c: any): CommitmentVersion {
+  return {
+    ...getVersionSettings(mapDbCommitment(c)),
+    id: c.id,
+    effectiveFrom: c.effective_from || c.created_at.split('T')[0],
+    changeNote: c.change_note || null,
+    successCriteria: null,
+    requiredConditions: null,
+  };
+}
+
+/**
+ * Convert Redux Commitment updates into Supabase column updates
+ * Only fields present in `updates` are included, so partial edits stay partial
+ */
+export function mapCommitmentUpdatesToDb(updates: Partial<Commitment>): Record<string, any> {
+  const dbUpdates: Record<string, any> = {};
+
+  if (updates.title !== undefined) dbUpdates.title = updates.title;
+  if (updates.description !== undefined) dbUpdates.description = updates.description || null;
+  if (updates.color !== undefined) dbUpdates.color = updates.color;
+  if (updates.commitmentType !== undefined) dbUpdates.commitment_type = updates.commitmentType;
+  if (updates.target !== undefined) dbUpdates.target = updates.target;
+  if (updates.unit !== undefined) dbUpdates.unit = updates.unit;
+  if (updates.requirements !== undefined) dbUpdates.requirements = updates.requirements;
+  if (updates.ratingRange !== undefined) dbUpdates.rating_range = updates.ratingRange;
+  if (updates.showValues !== undefined) dbUpdates.show_values = updates.showValues;
+  if (updates.entryAggregate !== undefined) dbUpdates.entry_aggregate = updates.entryAggregate;
+  if (updates.schedule !== undefined) dbUpdates.schedule = updates.schedule;
+  if (updates.isActive !== undefined) dbUpdates.is_active = updates.isActive;
+  if (updates.isPrivate !== undefined) dbUpdates.is_private = updates.isPrivate;
+  if (updates.archived !== undefined) dbUpdates.archived = updates.archived;
+  if (updates.deletedAt !== undefined) dbUpdates.deleted_at = updates.deletedAt;
+  if (updates.order_rank !== undefined) dbUpdates.order_rank = updates.order_rank;
+  if (updates.last_active_rank !== undefined) dbUpdates.last_active_rank = updates.last_active_rank;
+
+  return dbUpdates;
+}
+
+// Loaded separately from the commitments row, so server echoes of the row keep the local values
+const keepSeparatelyLoadedFields = (local: Commitment) => ({
+  streak: local.streak,
+  bestStreak: local.bestStreak,
+  streakCache: local.streakCache,
+  successCriteria: local.successCriteria,
+  requiredConditions: local.requiredConditions,
+  versions: local.versions,
+});
+
 interface CommitmentsState {
   commitments: Commitment[];
   isLoading: boolean;
@@ -71,19 +195,89 @@ const commitmentsSlice = createSlice({
         state.commitments[index] = { ...state.commitments[index], ...updates };
       }
     },
+    // Replace a locally created/edited commitment with the row the server returned
+    upsertCommitmentFromServer: (state, action: PayloadAction<{ localId: string; commitment: Commitment }>) => {
+      const { localId, commitment } = action.payload;
+      const index = state.commitments.findIndex(c => c.id === localId);
+      if (index !== -1) {
+        const local = state.commitments[index];
+        state.commitments[index] = { ...commitment, ...keepSeparatelyLoadedFields(local) };
+      } else if (!state.commitments.some(c => c.id === commitment.id)) {
+        state.commitments.push(commitment);
+      }
+    },
+    // Delta sync: upsert rows changed on the server and drop hard-deleted ones
+    mergeCommitmentsFromServer: (state, action: PayloadAction<{ commitments: Commitment[]; deletedIds: string[] }>) => {
+      const { commitments, deletedIds } = action.payload;
+      commitments.forEach(commitment => {
+        const index = state.commitments.findIndex(c => c.id === commitment.id);
+        if (index !== -1) {
+          const local = state.commitments[index];
+          state.commitments[index] = { ...commitment, ...keepSeparatelyLoadedFields(local) };
+        } else {
+          state.commitments.push(commitment);
+        }
+      });
+      if (deletedIds.length > 0) {
+        state.commitments = state.commitments.filter(c => !deletedIds.includes(c.id));
+      }
+    },
     deleteCommitment: (state, action: PayloadAction<string>) => {
       state.commitments = state.commitments.filter(c => c.id !== action.payload);
     },
-    updateStreak: (state, action: PayloadAction<{ id: string; streak: number }>) => {
-      const { id, streak } = action.payload;
+    // Without a bestStreak, the best only ever grows
+    updateStreak: (state, action: PayloadAction<{ id: string; streak: number; bestStreak?: number }>) => {
+      const { id, streak, bestStreak } = action.payload;
       const commitment = state.commitments.find(c => c.id === id);
       if (commitment) {
         commitment.streak = streak;
-        if (streak > commitment.bestStreak) {
+        if (bestStreak !== undefined) {
+          commitment.bestStreak = Math.max(bestStreak, streak);
+        } else if (streak > commitment.bestStreak) {
           commitment.bestStreak = streak;
         }
       }
     },
+    // Criteria by commitment ID - commitments without any are judged by hand
+    setAllSuccessCriteria: (state, action: PayloadAction<{
+      thresholds: Record<string, SuccessCriteria>;
+      requiredConditions: Record<string, number>;
+    }>) => {
+      const { thresholds, requiredConditions } = action.payload;
+      state.commitments.forEach(commitment => {
+        commitment.successCriteria = thresholds[commitment.id] ?? null;
+        commitment.requiredConditions = requiredConditions[commitment.id] ?? null;
+      });
+    },
+    // Earlier versions by commitment ID
+    setAllCommitmentVersions: (state, action: PayloadAction<Record<string, CommitmentVersion[]>>) => {
+      state.commitments.forEach(commitment => {
+        commitment.versions = action.payload[commitment.id] ?? [];
+      });
+    },
+    // Start a new version locally - the commitmentVersion sync op does the same on the server
+    applyCommitmentVersion: (state, action: PayloadAction<{
+      id: string;
+      settings: Partial<CommitmentVersionSettings>;
+      effectiveFrom: string;
+      changeNote: string | null;
+      previous?: CommitmentVersion; // Omitted when the edit replaces the current version
+    }>) => {
+      const { id, settings, effectiveFrom, changeNote, previous } = action.payload;
+      const commitment = state.commitments.find(c => c.id === id);
+      if (!commitment) return;
+
+      if (previous) {
+        commitment.versions = [...(commitment.versions || []), previous];
+      }
+      Object.assign(commitment, settings, { effectiveFrom, changeNote });
+    },
+    // Server streak caches by commitment ID - commitments without one have no server history yet
+    setStreakCaches: (state, action: PayloadAction<Record<string, CachedStreak>>) => {
+      state.commitments.forEach(commitment => {
+        commitment.streakCache = action.payload[commitment.id] ?? null;
+      });
+    },
     resetStreak: (state, action: PayloadAction<string>) => {
       const commitment = state.commitments.find(c => c.id === action.payload);
       if (commitment) {
@@ -148,6 +342,16 @@ const commitmentsSlice = createSlice({
       });
     },
   },
+  extraReducers: (builder) => {
+    builder.addCase(remapTempId, (state, action) => {
+      const { entity, tempId, realId } = action.payload;
+      if (entity !== 'commitment') return;
+      const commitment = state.commitments.find(c => c.id === tempId);
+      if (commitment) {
+        commitment.id = realId;
+      }
+    });
+  },
 });
 
 export const {
@@ -157,8 +361,14 @@ export const {
   setAllCommitments,
   addCommitment,
   updateCommitment,
+  upsertCommitmentFromServer,
+  mergeCommitmentsFromServer,
   deleteCommitment,
   updateStreak,
+  setStreakCaches,
+  setAllSuccessCriteria,
+  setAllCommitmentVersions,
+  applyCommitmentVersion,
   resetStreak,
   archiveCommitment,
   restoreCommitment,
@@ -197,17 +407,15 @@ export const archiveCommitmentThunk = (id: string) => async (dispatch: AppDispat
   // Optimistic update
   dispatch(archiveCommitment(id));
 
-  // Add to sync queue with idempotency key
+  // Add to sync queue
   dispatch(addToQueue({
-    type: 'UPDATE',
+    op: 'archive',
     entity: 'commitment',
     entityId: id,
     data: {
-      id,
       archived: true,
       is_active: false, // Ensure friends can't see archived commitments
       last_active_rank: commitment.order_rank, // Store current position for restoration
-      idempotencyKey: `${commitment.userId}:${id}:archive`
     }
   }));
 
@@ -263,18 +471,16 @@ export const restoreCommitmentThunk = (id: string) => async (dispatch: AppDispat
       // Fallback to optimistic update if no last_active_rank
       dispatch(restoreCommitment(id));
 
-      // Add to sync queue with idempotency key
+      // Add to sync queue
       dispatch(addToQueue({
-        type: 'UPDATE',
+        op: 'restore',
         entity: 'commitment',
         entityId: id,
         data: {
-          id,
           archived: false,
           deletedAt: null,
           is_active: true,
           order_rank: commitment.order_rank,
-          idempotencyKey: `${commitment.userId}:${id}:restore`
         }
       }));
     }
@@ -300,7 +506,9 @@ export const restoreCommitmentThunk = (id: string) => async (dispatch: AppDispat
         date: r.completed_at.split('T')[0],
         status: r.status === 'complete' ? 'completed' as const : r.status as any,
         value: r.value,
+        entries: toRecordEntries(r.entries),
         notes: r.notes || undefined,
+        isFuturePrefill: r.is_future_prefill || undefined,
         createdAt: r.created_at,
         updatedAt: r.updated_at || r.created_at,
       }));
@@ -328,19 +536,16 @@ export const softDeleteCommitmentThunk = (id: string) => async (dispatch: AppDis
   dispatch(softDeleteCommitment(id));
 
   const deletedAt = new Date().toISOString();
-  const today = deletedAt.split('T')[0];
 
-  // Add to sync queue with idempotency key
+  // Add to sync queue
   dispatch(addToQueue({
-    type: 'UPDATE',
+    op: 'softDelete',
     entity: 'commitment',
     entityId: id,
     data: {
-      id,
       archived: false,
       deletedAt,
       is_active: false, // Ensure friends can't see deleted commitments
-      idempotencyKey: `${commitment.userId}:${id}:deletedAt:${today}`
     }
   }));
 
@@ -366,17 +571,12 @@ export const permanentDeleteCommitmentThunk = (id: string) => async (dispatch: A
   // Optimistic update
   dispatch(permanentDeleteCommitment(id));
 
-  const timestamp = Date.now();
-
-  // Add to sync queue with idempotency key
+  // Add to sync queue
   dispatch(addToQueue({
-    type: 'DELETE',
+    op: 'permaDelete',
     entity: 'commitment',
     entityId: id,
-    data: {
-      id,
-      idempotencyKey: `${commitment.userId}:${id}:permaDelete:${timestamp}`
-    }
+    data: {}
   }));
 
   // Auto-delete invalid layout items after permanent deletion
@@ -412,13 +612,11 @@ export const reorderCommitmentBetween = (params: {
 
   // Add to sync queue
   dispatch(addToQueue({
-    type: 'UPDATE',
+    op: 'move',
     entity: 'commitment',
     entityId: id,
     data: {
-      id,
       order_rank: newRank,
-      idempotencyKey: `move:${id}:${newRank}`
     }
   }));
 
@@ -455,35 +653,15 @@ export const loadAllCommitmentsThunk = (userId: string) => async (dispatch: AppD
     }
 
     if (commitments) {
-      // Convert to Redux format
-      const convertedCommitments = commitments.map(c => ({
-        id: c.id,
-        userId: c.user_id,
-        title: c.title,
-        description: c.description || undefined,
-        color: c.color,
-        commitmentType: c.commitment_type || 'checkbox',
-        target: c.target,
-        unit: c.unit,
-        requirements: c.requirements,
-        ratingRange: c.rating_range,
-        showValues: c.show_values,
-        type: c.commitment_type === 'checkbox' && !c.requirements ? 'binary' as const :
-              c.commitment_type === 'checkbox' && c.requirements ? 'binary' as const :
-              c.commitment_type === 'measurement' && c.rating_range ? 'counter' as const : 'timer' as const,
-        streak: 0, // Will be calculated from records
-        bestStreak: 0, // Will be calculated from records
-        isActive: c.is_active,
-        isPrivate: c.is_private || false,
-        createdAt: c.created_at,
-        updatedAt: c.updated_at,
-        archived: c.archived || false,
-        deletedAt: c.deleted_at || null,
-        order_rank: c.order_rank || '',
-        last_active_rank: c.last_active_rank || null,
-      }));
+      // Convert to Redux format - earlier versions are loaded onto their commitments below
+      const convertedCommitments = commitments
+        .filter(row => !isCommitmentVersionRow(row))
+        .map(mapDbCommitment);
 
       dispatch(setAllCommitments(convertedCommitments));
+      await dispatch(loadSuccessCriteriaThunk());
+      await dispatch(loadCommitmentVersionsThunk());
+      await dispatch(loadStreaksThunk());
     }
   } catch (error) {
     dispatch(setError(error instanceof Error ? error.message : 'Failed to load commitments'));
@@ -492,6 +670,182 @@ export const loadAllCommitmentsThunk = (userId: string) => async (dispatch: AppD
   }
 };
 
+/**
+ * Work out each commitment's streak from its server cache and the records loaded on the device
+ */
+export const recalculateStreaksThunk = () => (dispatch: AppDispatch, getState: () => RootState) => {
+  const { commitments: { commitments }, records: { records } } = getState();
+
+  commitments.forEach(commitment => {
+    const { currentStreak, bestStreak } = StreakCalculator.resolveStreak(commitment.id, records, commitment);
+    dispatch(updateStreak({ id: commitment.id, streak: currentStreak, bestStreak }));
+  });
+};
+
+// Thunk to load the server's streak caches - records should be loaded first
+export const loadStreaksThunk = (options: RequestOptions = {}) => async (dispatch: AppDispatch, getState: () => RootState) => {
+  const commitmentIds = getState().commitments.commitments.map(c => c.id).filter(id => !isTempId(id));
+
+  if (commitmentIds.length > 0) {
+    const { data, error } = await getCommitmentStreaks(commitmentIds, options);
+    if (options.signal?.aborted) return;
+
+    if (error) {
+      // Streaks still resolve from the loaded records, just without older history
+      console.error('❌ [Streaks] Failed to load streak cache:', error);
+    } else {
+      dispatch(setStreakCaches(Object.fromEntries((data || []).map(row => [row.commitment_id, toCachedStreak(row)]))));
+    }
+  }
+
+  dispatch(recalculateStreaksThunk());
+};
+
+// Thunk to load each commitment's threshold and N-of-M criteria
+export const loadSuccessCriteriaThunk = (options: RequestOptions = {}) => async (dispatch: AppDispatch, getState: () => RootState) => {
+  const commitmentIds = getState().commitments.commitments.map(c => c.id).filter(id => !isTempId(id));
+  if (commitmentIds.length === 0) return;
+
+  const { data, error } = await getSuccessCriteria(commitmentIds, options);
+  if (options.signal?.aborted) return;
+
+  if (error) {
+    console.error('❌ [Criteria] Failed to load success criteria:', error);
+    return;
+  }
+
+  dispatch(setAllSuccessCriteria(groupSuccessCriteria(data || [])));
+};
+
+// Criteria rows by commitment ID, split into thresholds and N-of-M rules
+function groupSuccessCriteria(rows: NonNullable<Awaited<ReturnType<typeof getSuccessCriteria>>['data']>) {
+  const thresholds: Record<string, SuccessCriteria> = {};
+  const requiredConditions: Record<string, number> = {};
+  rows.forEach(row => {
+    if (!row.commitment_id) return;
+
+    if (row.criteria_type === 'conditions_list') {
+      const required = toRequiredConditions(row);
+      if (required) requiredConditions[row.commitment_id] = required;
+    } else {
+      const criteria = toSuccessCriteria(row);
+      if (criteria) thresholds[row.commitment_id] = criteria;
+    }
+  });
+  return { thresholds, requiredConditions };
+}
+
+// Thunk to load each commitment's earlier versions, with the criteria each one had
+export const loadCommitmentVersionsThunk = (options: RequestOptions = {}) => async (dispatch: AppDispatch, getState: () => RootState) => {
+  const commitmentIds = getState().commitments.commitments.map(c => c.id).filter(id => !isTempId(id));
+  if (commitmentIds.length === 0) return;
+
+  const { data, error } = await getCommitmentVersions(commitmentIds, options);
+  if (options.signal?.aborted) return;
+
+  if (error) {
+    console.error('❌ [Versions] Failed to load commitment versions:', error);
+    return;
+  }
+
+  const versionRows = (data || []).filter(row => isCommitmentVersionRow(row));
+  let criteria = groupSuccessCriteria([]);
+  if (versionRows.length > 0) {
+    const { data: criteriaRows, error: criteriaError } = await getSuccessCriteria(versionRows.map(row => row.id), options);
+    if (options.signal?.aborted) return;
+
+    if (criteriaError) {
+      console.error('❌ [Versions] Failed to load version criteria:', criteriaError);
+      return;
+    }
+    criteria = groupSuccessCriteria(criteriaRows || []);
+  }
+
+  const versionsByCommitment: Record<string, CommitmentVersion[]> = {};
+  versionRows.forEach(row => {
+    const version = mapDbCommitmentVersion(row);
+    version.successCriteria = criteria.thresholds[row.id] ?? null;
+    version.requiredConditions = criteria.requiredConditions[row.id] ?? null;
+    (versionsByCommitment[row.lineage_id as string] ||= []).push(version);
+  });
+  dispatch(setAllCommitmentVersions(versionsByCommitment));
+};
+
+/**
+ * Change a commitment's settings from a day on - earlier days keep the settings they were recorded under
+ * Starting on the day the current version started replaces it instead of adding one.
+ */
+export const createCommitmentVersionThunk = (
+  id: string,
+  settings: Partial<CommitmentVersionSettings>,
+  effectiveFrom: string,
+  changeNote: string | null
+) => (dispatch: AppDispatch, getState: () => RootState) => {
+  const commitment = getState().commitments.commitments.find(c => c.id === id);
+  if (!commitment) return;
+
+  const currentFrom = commitment.effectiveFrom || commitment.createdAt.split('T')[0];
+  if (effectiveFrom < currentFrom) {
+    console.error('❌ [Versions] A new version cannot start before the current one:', { id, effectiveFrom, currentFrom });
+    return;
+  }
+
+  const previous: CommitmentVersion | undefined = effectiveFrom > currentFrom
+    ? {
+        ...getVersionSettings(commitment),
+        id: `temp-version-${Date.now()}`, // Replaced by the server row when versions next load
+        effectiveFrom: currentFrom,
+        changeNote: commitment.changeNote ?? null,
+      }
+    : undefined;
+
+  dispatch(applyCommitmentVersion({ id, settings, effectiveFrom, changeNote, previous }));
+
+  const { successCriteria, ...columns } = settings;
+  dispatch(addToQueue({
+    op: 'commitmentVersion',
+    entity: 'commitment',
+    entityId: id,
+    data: {
+      effective_from: effectiveFrom,
+      change_note: changeNote,
+      updates: mapCommitmentUpdatesToDb(columns),
+      ...(successCriteria !== undefined && { criteria: successCriteria }),
+    },
+  }));
+};
+
+/**
+ * Set or clear a commitment's threshold criteria
+ * Days already recorded keep their status; values entered from now on are judged against it.
+ */
+export const setSuccessCriteriaThunk = (id: string, criteria: SuccessCriteria | null) => (dispatch: AppDispatch) => {
+  dispatch(updateCommitment({ id, updates: { successCriteria: criteria } }));
+  dispatch(addToQueue({
+    op: 'successCriteriaSet',
+    entity: 'commitment',
+    entityId: id,
+    data: { criteria },
+  }));
+};
+
+/**
+ * Set or clear how many requirements complete a day
+ * Like thresholds, this applies to days recorded from now on.
+ */
+export const setRequiredConditionsThunk = (id: string, requiredConditions: number | null) => (dispatch: AppDispatch, getState: () => RootState) => {
+  const commitment = getState().commitments.commitments.find(c => c.id === id);
+  if (!commitment) return;
+
+  dispatch(updateCommitment({ id, updates: { requiredConditions } }));
+  dispatch(addToQueue({
+    op: 'requiredConditionsSet',
+    entity: 'commitment',
+    entityId: id,
+    data: { required_conditions: requiredConditions, total_conditions: commitment.requirements?.length ?? 0 },
+  }));
+};
+
 export const selectCommitmentById = createSelector(
   [(state: RootState) => state.commitments.commitments, (_: RootState, id: string) => id],
   (commitments, id) => commitments.find(c => c.id === id)
@@ -1,6 +1,6 @@
 import { createSlice, PayloadAction, createSelector } from '@reduxjs/toolkit';
 import type { RootState } from '../index';
-import { addToQueue } from './syncSlice';
+import { remapTempId } from './syncSlice';
 
 export interface LayoutItem {
   id: string;
@@ -48,6 +48,21 @@ const layoutItemsSlice = createSlice({
     addLayoutItem: (state, action: PayloadAction<LayoutItem>) => {
       state.layoutItems.push(action.payload);
     },
+    // Delta sync: upsert layout items changed on the server and drop hard-deleted ones
+    mergeLayoutItemsFromServer: (state, action: PayloadAction<{ layoutItems: LayoutItem[]; deletedIds: string[] }>) => {
+      const { layoutItems, deletedIds } = action.payload;
+      layoutItems.forEach(layoutItem => {
+        const index = state.layoutItems.findIndex(item => item.id === layoutItem.id);
+        if (index !== -1) {
+          state.layoutItems[index] = layoutItem;
+        } else {
+          state.layoutItems.push(layoutItem);
+        }
+      });
+      if (deletedIds.length > 0) {
+        state.layoutItems = state.layoutItems.filter(item => !deletedIds.includes(item.id));
+      }
+    },
     updateLayoutItem: (state, action: PayloadAction<Partial<LayoutItem> & { id: string }>) => {
       const index = state.layoutItems.findIndex(item => item.id === action.payload.id);
       if (index !== -1) {
@@ -97,11 +112,22 @@ const layoutItemsSlice = createSlice({
       state.error = action.payload;
     },
   },
+  extraReducers: (builder) => {
+    builder.addCase(remapTempId, (state, action) => {
+      const { entity, tempId, realId } = action.payload;
+      if (entity !== 'layout_item') return;
+      const item = state.layoutItems.find(item => item.id === tempId);
+      if (item) {
+        item.id = realId;
+      }
+    });
+  },
 });
 
 export const {
   setLayoutItems,
   addLayoutItem,
+  mergeLayoutItemsFromServer,
   updateLayoutItem,
   deleteLayoutItem,
   softDeleteLayoutItem,
@@ -1,4 +1,6 @@
 import { createSlice, PayloadAction, createAsyncThunk } from '@reduxjs/toolkit';
+import { remapTempId } from './syncSlice';
+import { toRecordEntries, type RecordEntry } from '@/utils/recordEntries';
 
 export type RecordStatus = 'completed' | 'skipped' | 'failed' | 'none';
 
@@ -9,11 +11,32 @@ export interface DayRecord {
   date: string;
   status: RecordStatus;
   value?: any; // Can be number, array, object, etc. for different commitment types
+  entries?: RecordEntry[]; // Logged entries when the commitment aggregates several a day - value is their aggregate
   notes?: string;
+  isFuturePrefill?: boolean; // Skip planned ahead of time - real data for the day replaces it
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Convert a commitment_records row into the Redux DayRecord shape
+ */
+export function mapDbRecord(row: any): DayRecord {
+  return {
+    id: row.id,
+    userId: row.user_id || '',
+    commitmentId: row.commitment_id,
+    date: row.completed_at.split('T')[0], // Extract date part
+    status: row.status === 'complete' ? 'completed' : row.status,
+    value: row.value,
+    entries: toRecordEntries(row.entries),
+    notes: row.notes || undefined,
+    isFuturePrefill: row.is_future_prefill || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at || row.created_at,
+  };
+}
+
 interface RecordsState {
   records: DayRecord[];
   isLoading: boolean;
@@ -26,11 +49,36 @@ const initialState: RecordsState = {
   error: null,
 };
 
-// Thunk to load all user records from database
+// Thunk to load user records from database
+// With `since` only records changed after that timestamp (plus deletions) are fetched and merged
 export const loadAllRecordsThunk = createAsyncThunk(
   'records/loadAllRecords',
-  async (userId: string, { rejectWithValue }) => {
+  async ({ userId, since }: { userId: string; since?: string | null }, { rejectWithValue }) => {
     try {
+      if (since) {
+        console.log('💾 [Records] Loading records changed since', since, 'for user:', userId);
+        const { getRecordsChangedSince } = await import('@/services/commitments');
+        const { getSyncTombstones } = await import('@/services/deltaSync');
+        const [changed, tombstones] = await Promise.all([
+          getRecordsChangedSince(userId, since),
+          getSyncTombstones(userId, since),
+        ]);
+
+        if (changed.error || tombstones.error) {
+          const message = (changed.error || tombstones.error)!.message;
+          console.error('💾 [Records] Failed to load changed records:', message);
+          return rejectWithValue(message);
+        }
+
+        const records = (changed.data || []).map(mapDbRecord);
+        const deletedIds = (tombstones.data || [])
+          .filter(tombstone => tombstone.table_name === 'commitment_records')
+          .map(tombstone => tombstone.row_id);
+
+        console.log('💾 [Records] Loaded', records.length, 'changed records,', deletedIds.length, 'deletions');
+        return { records, deletedIds, isDelta: true };
+      }
+
       console.log('💾 [Records] Loading all records for user:', userId);
       const { getAllUserRecords } = await import('@/services/commitments');
       const result = await getAllUserRecords(userId);
@@ -41,29 +89,10 @@ export const loadAllRecordsThunk = createAsyncThunk(
       }
 
       // Convert database records to app format
-      const records: DayRecord[] = (result.data || []).map(record => {
-        console.log('💾 [Records] Converting DB record:', {
-          id: record.id,
-          value: record.value,
-          valueType: typeof record.value,
-          status: record.status
-        });
-
-        return {
-          id: record.id,
-          userId: record.user_id || '',
-          commitmentId: record.commitment_id,
-          date: record.completed_at.split('T')[0], // Extract date part
-          status: record.status === 'complete' ? 'completed' as const : record.status,
-          value: record.value,
-          notes: record.notes,
-          createdAt: record.created_at,
-          updatedAt: record.updated_at || '',
-        };
-      });
+      const records: DayRecord[] = (result.data || []).map(mapDbRecord);
 
       console.log('💾 [Records] Loaded', records.length, 'records');
-      return records;
+      return { records, deletedIds: [] as string[], isDelta: false };
     } catch (error) {
       console.error('💾 [Records] Error loading records:', error);
       return rejectWithValue(error instanceof Error ? error.message : 'Failed to load records');
@@ -71,6 +100,23 @@ export const loadAllRecordsThunk = createAsyncThunk(
   }
 );
 
+// Delta sync: upsert records changed on the server and drop hard-deleted ones
+function mergeServerRecords(state: RecordsState, records: DayRecord[], deletedIds: string[]) {
+  if (deletedIds.length > 0) {
+    state.records = state.records.filter(r => !deletedIds.includes(r.id));
+  }
+  records.forEach(record => {
+    const index = state.records.findIndex(
+      r => r.commitmentId === record.commitmentId && r.date === record.date
+    );
+    if (index !== -1) {
+      state.records[index] = record;
+    } else {
+      state.records.push(record);
+    }
+  });
+}
+
 const recordsSlice = createSlice({
   name: 'records',
   initialState,
@@ -94,6 +140,9 @@ const recordsSlice = createSlice({
         state.records.push(action.payload);
       }
     },
+    mergeRecordsFromServer: (state, action: PayloadAction<{ records: DayRecord[]; deletedIds: string[] }>) => {
+      mergeServerRecords(state, action.payload.records, action.payload.deletedIds);
+    },
     updateRecord: (state, action: PayloadAction<{ id: string; updates: Partial<DayRecord> }>) => {
       const { id, updates } = action.payload;
       const index = state.records.findIndex(r => r.id === id);
@@ -127,8 +176,15 @@ const recordsSlice = createSlice({
         state.records.push(newRecord);
       }
     },
-    setRecordStatus: (state, action: PayloadAction<{ commitmentId: string; date: string; status: RecordStatus; value?: any }>) => {
-      const { commitmentId, date, status, value } = action.payload;
+    setRecordStatus: (state, action: PayloadAction<{
+      commitmentId: string;
+      date: string;
+      status: RecordStatus;
+      value?: any;
+      entries?: RecordEntry[];
+      isFuturePrefill?: boolean; // Planned skip - any other write makes the day real
+    }>) => {
+      const { commitmentId, date, status, value, entries, isFuturePrefill } = action.payload;
       const existingRecord = state.records.find(
         r => r.commitmentId === commitmentId && r.date === date
       );
@@ -142,6 +198,8 @@ const recordsSlice = createSlice({
         // Update existing record
         existingRecord.status = status;
         existingRecord.value = value;
+        if (entries !== undefined) existingRecord.entries = entries;
+        existingRecord.isFuturePrefill = isFuturePrefill || undefined;
         existingRecord.updatedAt = new Date().toISOString();
       } else {
         // Create new record
@@ -152,6 +210,8 @@ const recordsSlice = createSlice({
           date,
           status,
           value,
+          entries,
+          isFuturePrefill: isFuturePrefill || undefined,
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
         };
@@ -161,14 +221,28 @@ const recordsSlice = createSlice({
   },
   extraReducers: (builder) => {
     builder
+      .addCase(remapTempId, (state, action) => {
+        // Records logged against an offline-created commitment follow it to its server ID
+        const { entity, tempId, realId } = action.payload;
+        if (entity !== 'commitment') return;
+        state.records.forEach(record => {
+          if (record.commitmentId === tempId) {
+            record.commitmentId = realId;
+          }
+        });
+      })
       .addCase(loadAllRecordsThunk.pending, (state) => {
         state.isLoading = true;
         state.error = null;
       })
       .addCase(loadAllRecordsThunk.fulfilled, (state, action) => {
         state.isLoading = false;
-        state.records = action.payload;
         state.error = null;
+        if (!action.payload.isDelta) {
+          state.records = action.payload.records;
+          return;
+        }
+        mergeServerRecords(state, action.payload.records, action.payload.deletedIds);
       })
       .addCase(loadAllRecordsThunk.rejected, (state, action) => {
         state.isLoading = false;
@@ -182,6 +256,7 @@ export const {
   setError,
   setRecords,
   addRecord,
+  mergeRecordsFromServer,
   updateRecord,
   deleteRecord,
   toggleRecord,
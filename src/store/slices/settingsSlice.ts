@@ -1,4 +1,6 @@
-import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { createSlice, createSelector, PayloadAction } from '@reduxjs/toolkit';
+import type { RootState } from '../index';
+import { isMeteredConnection } from '@/utils/syncPolicy';
 
 export interface NotificationSettings {
   dailyReminders: boolean;
@@ -29,11 +31,19 @@ export interface FeatureFlags {
   };
 }
 
+// How sync behaves on metered networks and while the user is inactive
+export interface SyncPolicy {
+  friendChartsOnWifiOnly: boolean; // Don't fetch friends' charts over cellular
+  pauseBackgroundPullOnCellular: boolean; // Periodic pulls wait for Wi-Fi; opening the app or pulling to refresh still syncs
+  adaptivePullInterval: boolean; // Pull less often when nothing changes, more often after local edits
+}
+
 interface SettingsState {
   notifications: NotificationSettings;
   preferences: AppPreferences;
   privacy: PrivacySettings;
   featureFlags: FeatureFlags;
+  syncPolicy: SyncPolicy;
   lexorankSeedDoneByUser: Record<string, boolean>;
   friendOrderSeedDoneByUser: Record<string, boolean>;
   isLoading: boolean;
@@ -66,6 +76,11 @@ const initialState: SettingsState = {
       useSystemSurfaces: false,
     },
   },
+  syncPolicy: {
+    friendChartsOnWifiOnly: false,
+    pauseBackgroundPullOnCellular: false,
+    adaptivePullInterval: true,
+  },
   lexorankSeedDoneByUser: {},
   friendOrderSeedDoneByUser: {},
   isLoading: false,
@@ -94,6 +109,10 @@ const settingsSlice = createSlice({
     updateFeatureFlags: (state, action: PayloadAction<Partial<FeatureFlags>>) => {
       state.featureFlags = { ...state.featureFlags, ...action.payload };
     },
+    updateSyncPolicy: (state, action: PayloadAction<Partial<SyncPolicy>>) => {
+      // Persisted settings from before sync policies existed won't have them
+      state.syncPolicy = { ...initialState.syncPolicy, ...state.syncPolicy, ...action.payload };
+    },
     setLexorankSeedDoneForUser: (state, action: PayloadAction<{ userId: string; done: boolean }>) => {
       const { userId, done } = action.payload;
       state.lexorankSeedDoneByUser[userId] = done;
@@ -111,15 +130,17 @@ const settingsSlice = createSlice({
       state.preferences = initialState.preferences;
       state.privacy = initialState.privacy;
       state.featureFlags = initialState.featureFlags;
+      state.syncPolicy = initialState.syncPolicy;
       state.lexorankSeedDoneByUser = initialState.lexorankSeedDoneByUser;
       state.friendOrderSeedDoneByUser = initialState.friendOrderSeedDoneByUser;
     },
     importSettings: (state, action: PayloadAction<Partial<SettingsState>>) => {
-      const { notifications, preferences, privacy, featureFlags } = action.payload;
+      const { notifications, preferences, privacy, featureFlags, syncPolicy } = action.payload;
       if (notifications) state.notifications = { ...state.notifications, ...notifications };
       if (preferences) state.preferences = { ...state.preferences, ...preferences };
       if (privacy) state.privacy = { ...state.privacy, ...privacy };
       if (featureFlags) state.featureFlags = { ...state.featureFlags, ...featureFlags };
+      if (syncPolicy) state.syncPolicy = { ...initialState.syncPolicy, ...state.syncPolicy, ...syncPolicy };
     },
   },
 });
@@ -131,10 +152,28 @@ export const {
   updateAppPreferences,
   updatePrivacySettings,
   updateFeatureFlags,
+  updateSyncPolicy,
   setLexorankSeedDoneForUser,
   setFriendOrderSeedDoneForUser,
   resetSettings,
   importSettings,
 } = settingsSlice.actions;
 
+/**
+ * Sync policy with defaults filled in for settings persisted before it existed
+ */
+export const selectSyncPolicy = createSelector(
+  (state: RootState) => state.settings.syncPolicy,
+  (syncPolicy): SyncPolicy => ({ ...initialState.syncPolicy, ...syncPolicy })
+);
+
+/**
+ * Friends' charts are held back - the user only fetches them on Wi-Fi and is on cellular
+ */
+export const selectFriendChartsPaused = createSelector(
+  selectSyncPolicy,
+  (state: RootState) => state.sync.connectionType,
+  (syncPolicy, connectionType) => syncPolicy.friendChartsOnWifiOnly && isMeteredConnection(connectionType)
+);
+
 export default settingsSlice.reducer;
\ No newline at end of file
@@ -1,8 +1,9 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 import type { RootState, AppDispatch } from '../index';
-import { addToQueue } from './syncSlice';
-import { rankBetween } from '@/utils/rank';
-import { getUserFriends, getFriendOrderRanks } from '@/services/friends';
+import { addToQueue, removeFromQueue, type SyncActionOf } from './syncSlice';
+import { rankAfter, rankBetween } from '@/utils/rank';
+import { getUserFriends, getFriendOrderRanks, removeFriend as removeFriendship } from '@/services/friends';
+import { reconcilePulledRows } from '@/services/conflictResolution';
 
 export interface Friend {
   id: string;
@@ -131,6 +132,10 @@ const socialSlice = createSlice({
         }
       });
     },
+    removeRosterFriend: (state, action: PayloadAction<string>) => {
+      state.roster = state.roster.filter(r => r.id !== action.payload);
+      state.friends = state.friends.filter(f => f.id !== action.payload);
+    },
     updateRosterOrderRank: (state, action: PayloadAction<{ id: string; newRank: string }>) => {
       const { id, newRank } = action.payload;
       const rosterEntry = state.roster.find(r => r.id === id);
@@ -169,6 +174,7 @@ export const {
   addActivity,
   updateFriendOrder,
   batchUpdateFriendOrder,
+  removeRosterFriend,
   updateRosterOrderRank,
   batchUpdateRosterOrder,
 } = socialSlice.actions;
@@ -190,10 +196,10 @@ export const reorderFriendBetween = (params: {
   // Optimistic update
   dispatch(updateFriendOrder({ id, newRank }));
 
-  // Add to sync queue with fast-path and idempotency
+  // Add to sync queue with fast-path (rapid moves coalesce in the queue)
   dispatch(addToQueue({
-    type: 'UPDATE',
-    entity: 'friend_order' as any,
+    op: 'friendMove',
+    entity: 'friend_order',
     entityId: id,
     data: {
       user_id: state.auth?.user?.id || '',
@@ -202,7 +208,6 @@ export const reorderFriendBetween = (params: {
       order_rank: newRank,
     },
     interactive: true, // Enable Phase A fast-path (≤2s target)
-    idempotencyKey: `friend_move:${id}:${newRank}` // Coalescing key for rapid moves
   }));
 };
 
@@ -219,8 +224,8 @@ export const batchReorderFriends = (updates: Array<{ id: string; newRank: string
     // Add each update to sync queue with fast-path
     updates.forEach(({ id, newRank }) => {
       dispatch(addToQueue({
-        type: 'UPDATE',
-        entity: 'friend_order' as any,
+        op: 'friendMove',
+        entity: 'friend_order',
         entityId: id,
         data: {
           user_id: userId,
@@ -229,7 +234,6 @@ export const batchReorderFriends = (updates: Array<{ id: string; newRank: string
           order_rank: newRank,
         },
         interactive: true, // Enable Phase A fast-path
-        idempotencyKey: `friend_move:${id}:${newRank}`
       }));
     });
 
@@ -237,7 +241,7 @@ export const batchReorderFriends = (updates: Array<{ id: string; newRank: string
   };
 
 // Roster management thunks
-export const loadFriendsRoster = (userId: string) => async (dispatch: AppDispatch) => {
+export const loadFriendsRoster = (userId: string) => async (dispatch: AppDispatch, getState: () => RootState) => {
   dispatch(setRosterLoading(true));
   try {
     // Load both friends and their order ranks
@@ -255,20 +259,55 @@ export const loadFriendsRoster = (userId: string) => async (dispatch: AppDispatc
       return;
     }
 
+    // Reorders still queued on this device are merged with the server's ranks (last writer wins)
+    const mergedRanks = dispatch(reconcilePulledRows('friend_order', (orderRanks || []) as any[], rank => rank.friend_user_id));
+
     // Create a map of friend order ranks
-    const orderRankMap = new Map((orderRanks || []).map(rank => [rank.friend_user_id, rank.order_rank]));
+    const orderRankMap = new Map(mergedRanks.map(rank => [rank.friend_user_id, rank.order_rank]));
+
+    // Entries created on this device that haven't reached the server yet
+    const queuedCreates = getState().sync.queue.filter(
+      (action): action is SyncActionOf<'friendOrderCreate'> => action.op === 'friendOrderCreate'
+    );
+    queuedCreates.forEach(action => {
+      if (!orderRankMap.has(action.entityId)) {
+        orderRankMap.set(action.entityId, action.data.order_rank);
+      }
+    });
 
     // Transform friends data to roster entries with order ranks
     const rosterEntries: FriendRosterEntry[] = (friends || []).map(friend => ({
       id: friend.id,
       displayName: friend.full_name || friend.email || friend.username || '',
       username: friend.username || friend.email || '',
-      avatar_animal: friend.avatar_animal,
-      avatar_color: friend.avatar_color,
+      avatar_animal: friend.avatar_animal ?? undefined,
+      avatar_color: friend.avatar_color ?? undefined,
       updated_at: new Date().toISOString(),
       order_rank: orderRankMap.get(friend.id) || '', // Use actual order rank from database
     }));
 
+    // Friends added since the last load go to the end of the list
+    // (until the one-time seed has run, it assigns everyone's first rank)
+    if (getState().settings?.friendOrderSeedDoneByUser?.[userId]) {
+      let lastRank = rosterEntries.map(entry => entry.order_rank || '').reduce((max, rank) => rank > max ? rank : max, '');
+      rosterEntries.filter(entry => !entry.order_rank).forEach(entry => {
+        lastRank = rankAfter(lastRank);
+        entry.order_rank = lastRank;
+        console.log('📋 [Roster Load] New friend, creating order entry:', { id: entry.id, order_rank: lastRank });
+        dispatch(addToQueue({
+          op: 'friendOrderCreate',
+          entity: 'friend_order',
+          entityId: entry.id,
+          data: {
+            user_id: userId,
+            friend_user_id: entry.id,
+            group_name: 'all',
+            order_rank: lastRank,
+          },
+        }));
+      });
+    }
+
     dispatch(setRoster(rosterEntries));
     console.log('📋 [Roster Load] Friends roster loaded with order ranks:', {
       count: rosterEntries.length,
@@ -283,6 +322,30 @@ export const loadFriendsRoster = (userId: string) => async (dispatch: AppDispatc
   }
 };
 
+/**
+ * End a friendship and drop the friend from the roster
+ * The server clears both users' order entries itself; the queued delete also drops any
+ * reorder of this friend still waiting to sync, which would otherwise write the entry back.
+ */
+export const unfriend = (friendId: string) =>
+  async (dispatch: AppDispatch, getState: () => RootState): Promise<{ error: string | null }> => {
+    const { error } = await removeFriendship(friendId);
+    if (error) {
+      console.error('❌ Failed to remove friend:', error);
+      return { error: error.message || 'Failed to remove friend' };
+    }
+
+    dispatch(removeRosterFriend(friendId));
+
+    // The server drops the friend's order entries with the friendship (migration 019) - queued
+    // moves would only recreate them
+    getState().sync.queue
+      .filter(action => action.entity === 'friend_order' && action.entityId === friendId)
+      .forEach(action => dispatch(removeFromQueue(action.id)));
+
+    return { error: null };
+  };
+
 // Roster-based reordering thunks with fast-path sync
 export const reorderRosterFriendBetween = (params: {
   id: string;
@@ -301,10 +364,10 @@ export const reorderRosterFriendBetween = (params: {
   console.log('💾 [Roster Reorder] Optimistic update for friend:', { id, newRank });
   dispatch(updateRosterOrderRank({ id, newRank }));
 
-  // Add to sync queue with fast-path and idempotency
+  // Add to sync queue with fast-path (rapid moves coalesce in the queue)
   dispatch(addToQueue({
-    type: 'UPDATE',
-    entity: 'friend_order' as any,
+    op: 'friendMove',
+    entity: 'friend_order',
     entityId: id,
     data: {
       user_id: state.auth?.user?.id || '',
@@ -313,7 +376,6 @@ export const reorderRosterFriendBetween = (params: {
       order_rank: newRank,
     },
     interactive: true, // Enable Phase A fast-path (≤2s target)
-    idempotencyKey: `friend_move:${id}:${newRank}` // Coalescing key for rapid moves
   }));
 };
 
@@ -328,8 +390,8 @@ export const batchReorderRosterFriends = (userId: string, updates: Array<{ id: s
     // Add each update to sync queue with fast-path
     updates.forEach(({ id, newRank }) => {
       dispatch(addToQueue({
-        type: 'UPDATE',
-        entity: 'friend_order' as any,
+        op: 'friendMove',
+        entity: 'friend_order',
         entityId: id,
         data: {
           user_id: userId,
@@ -338,7 +400,6 @@ export const batchReorderRosterFriends = (userId: string, updates: Array<{ id: s
           order_rank: newRank,
         },
         interactive: true, // Enable Phase A fast-path
-        idempotencyKey: `friend_move:${id}:${newRank}`
       }));
     });
 
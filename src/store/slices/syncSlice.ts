@@ -1,32 +1,276 @@
-import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { createSlice, PayloadAction, type Draft } from '@reduxjs/toolkit';
+import type { OutboxItem } from '@/services/offlineQueue';
+import type { Database } from '@/types/supabase';
+import { isTempId } from '@/utils/tempId';
+import type { SuccessCriteria } from '@/utils/successCriteria';
 
-export interface SyncAction {
-  id: string;
-  type: 'CREATE' | 'UPDATE' | 'DELETE';
-  entity: 'commitment' | 'record' | 'user' | 'layout_item';
+export type SyncEntity = 'commitment' | 'record' | 'layout_item' | 'friend_order';
+
+type CommitmentInsert = Database['public']['Tables']['commitments']['Insert'];
+type CommitmentRecordInsert = Database['public']['Tables']['commitment_records']['Insert'];
+
+/**
+ * Typed payload for every sync operation, keyed by operation name
+ * Adding an operation here requires a handler in services/syncHandlers, a merge rule below
+ * and its written columns in services/conflictResolution
+ */
+export interface SyncOperationPayloads {
+  commitmentCreate: CommitmentInsert;
+  commitmentUpdate: { updates: Record<string, any> }; // Supabase column updates
+  archive: { archived: boolean; is_active: boolean; last_active_rank?: string | null };
+  restore: { archived: boolean; deletedAt: string | null; is_active: boolean; order_rank: string };
+  softDelete: { archived: boolean; deletedAt: string; is_active: boolean };
+  permaDelete: Record<string, never>;
+  showValues: { show_values: boolean };
+  successCriteriaSet: { criteria: SuccessCriteria | null }; // null clears the threshold
+  requiredConditionsSet: { required_conditions: number | null; total_conditions: number }; // null clears the rule
+  // Settings from a day on; criteria undefined keeps the current threshold, null clears it
+  commitmentVersion: {
+    effective_from: string;
+    change_note: string | null;
+    updates: Record<string, any>;
+    criteria?: SuccessCriteria | null;
+  };
+  move: { order_rank: string; user_id?: string };
+  recordUpsert: CommitmentRecordInsert;
+  recordDelete: { commitment_id: string; completed_at: string };
+  layoutCreate: {
+    user_id: string;
+    type: 'spacer' | 'divider';
+    height?: number;
+    style?: string;
+    color?: string;
+    order_rank: string;
+    is_active: boolean;
+    archived?: boolean;
+    deleted_at?: string | null;
+  };
+  layoutDelete: { user_id: string };
+  friendMove: { user_id: string; friend_user_id: string; group_name: string; order_rank: string };
+  friendOrderCreate: { user_id: string; friend_user_id: string; group_name: string; order_rank: string };
+}
+
+export type SyncOperationName = keyof SyncOperationPayloads;
+
+// Discriminated union: narrowing on `op` gives the matching `data` payload
+export type SyncOperation = {
+  [K in SyncOperationName]: { op: K; data: SyncOperationPayloads[K] };
+}[SyncOperationName];
+
+interface SyncActionMeta {
+  entity: SyncEntity;
   entityId: string;
-  data: any;
+  interactive?: boolean; // Phase A fast-path for user-driven reorders
+  baseSyncAt?: string | null; // Pull cursor the edit was made against - defaults to the current one
+}
+
+// What callers pass to addToQueue
+export type NewSyncAction = SyncOperation & SyncActionMeta;
+
+export type SyncAction = NewSyncAction & {
+  id: string;
   timestamp: string;
   retryCount: number;
-  idempotencyKey?: string; // For ensuring unique operations by (id, final rank)
+  nextAttemptAt?: string | null; // Backoff: earliest time this action may be retried
+  lastError?: string | null;
+};
+
+export type SyncActionOf<K extends SyncOperationName> = Extract<SyncAction, { op: K }>;
+
+type MergeResult = { queue: SyncAction[]; incoming: NewSyncAction | null };
+type MergeRule = (queue: SyncAction[], incoming: NewSyncAction) => MergeResult;
+
+const isSameEntity = (a: SyncActionMeta, b: SyncActionMeta) =>
+  a.entity === b.entity && a.entityId === b.entityId;
+
+const logDedup = (message: string) => {
+  if (__DEV__) {
+    console.log(`🔧 [SYNC-DEDUP] ${message}`);
+  }
+};
+
+// Latest operation of the given kinds wins - older queued ones for the same entity are dropped
+const supersede = (ops: SyncOperationName[]): MergeRule => (queue, incoming) => ({
+  queue: queue.filter(existing => {
+    const superseded = isSameEntity(existing, incoming) && ops.includes(existing.op);
+    if (superseded) {
+      logDedup(`Removing ${existing.op} for ${incoming.entity}:${incoming.entityId} (new ${incoming.op})`);
+    }
+    return !superseded;
+  }),
+  incoming,
+});
+
+// Deletes drop everything queued for the entity; if its create never reached the server, drop the delete too
+const deleteRule = (createOp: SyncOperationName): MergeRule => (queue, incoming) => {
+  const neverCreated = queue.some(existing => isSameEntity(existing, incoming) && existing.op === createOp);
+  const remaining = queue.filter(existing => !isSameEntity(existing, incoming));
+  if (remaining.length !== queue.length) {
+    logDedup(`Removing ${queue.length - remaining.length} queued actions for ${incoming.entity}:${incoming.entityId} (new ${incoming.op})`);
+  }
+  return { queue: remaining, incoming: neverCreated ? null : incoming };
+};
+
+const appendRule: MergeRule = (queue, incoming) => ({ queue, incoming });
+
+/**
+ * Per-operation dedup/merge rules applied by addToQueue
+ */
+const SYNC_MERGE_RULES: Record<SyncOperationName, MergeRule> = {
+  commitmentCreate: appendRule,
+  // Field updates fold into a pending create, or merge with a pending field update
+  commitmentUpdate: (queue, incoming) => {
+    if (incoming.op !== 'commitmentUpdate') return { queue, incoming };
+
+    const pendingCreate = queue.find(existing => isSameEntity(existing, incoming) && existing.op === 'commitmentCreate');
+    if (pendingCreate) {
+      logDedup(`Folding field update into pending create for ${incoming.entity}:${incoming.entityId}`);
+      return {
+        queue: queue.map<SyncAction>(existing => existing === pendingCreate && existing.op === 'commitmentCreate'
+          ? { ...existing, data: { ...existing.data, ...incoming.data.updates } }
+          : existing),
+        incoming: null,
+      };
+    }
+
+    const pendingUpdate = queue.find(existing => isSameEntity(existing, incoming) && existing.op === 'commitmentUpdate');
+    if (pendingUpdate && pendingUpdate.op === 'commitmentUpdate') {
+      // Re-queue under a new id so an in-flight attempt of the older update can't remove the merged one
+      logDedup(`Merging field updates for ${incoming.entity}:${incoming.entityId}`);
+      // The merged edit keeps the older base so concurrent server changes are still detected
+      return {
+        queue: queue.filter(existing => existing !== pendingUpdate),
+        incoming: {
+          ...incoming,
+          baseSyncAt: pendingUpdate.baseSyncAt,
+          data: { updates: { ...pendingUpdate.data.updates, ...incoming.data.updates } },
+        },
+      };
+    }
+
+    return { queue, incoming };
+  },
+  // Archive/restore/soft delete all write the same lifecycle columns
+  archive: supersede(['archive', 'restore', 'softDelete']),
+  restore: supersede(['archive', 'restore', 'softDelete']),
+  softDelete: supersede(['archive', 'restore', 'softDelete']),
+  permaDelete: deleteRule('commitmentCreate'),
+  showValues: supersede(['showValues']),
+  successCriteriaSet: supersede(['successCriteriaSet']),
+  requiredConditionsSet: supersede(['requiredConditionsSet']),
+  // Each version keeps the one before it, so none can replace another
+  commitmentVersion: appendRule,
+  // Only the final rank matters for rapid successive moves
+  move: supersede(['move']),
+  recordUpsert: supersede(['recordUpsert', 'recordDelete']),
+  recordDelete: supersede(['recordUpsert', 'recordDelete']),
+  layoutCreate: appendRule,
+  layoutDelete: deleteRule('layoutCreate'),
+  friendMove: supersede(['friendMove']),
+  // A new friend's entry carries its own rank
+  friendOrderCreate: supersede(['friendOrderCreate', 'friendMove']),
+};
+
+// Operations whose entityId is allowed to be a temp ID - they are what turns it into a real one
+const CREATE_OPS: SyncOperationName[] = ['commitmentCreate', 'layoutCreate'];
+
+const isRecordOp = (action: NewSyncAction): action is Extract<NewSyncAction, { op: 'recordUpsert' | 'recordDelete' }> =>
+  action.op === 'recordUpsert' || action.op === 'recordDelete';
+
+/**
+ * Rewrite an action's references to a temp ID once the server has assigned the real one
+ * Records are keyed `${commitmentId}_${date}` and carry the commitment ID in their row
+ */
+function remapAction<T extends NewSyncAction>(action: T, entity: SyncEntity, tempId: string, realId: string): T {
+  let remapped: NewSyncAction = action;
+
+  if (remapped.entity === entity && remapped.entityId === tempId) {
+    remapped = { ...remapped, entityId: realId };
+  }
+
+  if (entity === 'commitment' && isRecordOp(remapped) && remapped.data.commitment_id === tempId) {
+    remapped = {
+      ...remapped,
+      entityId: remapped.entityId.replace(tempId, realId),
+      data: { ...remapped.data, commitment_id: realId },
+    };
+  }
+
+  return remapped as T;
+}
+
+/**
+ * Temp IDs an action still depends on - it can't reach the server until their creates land
+ */
+export function getUnresolvedTempIds(action: NewSyncAction): string[] {
+  // Record keys are `${commitmentId}_${date}` - the commitment ID is what has to exist
+  if (isRecordOp(action)) {
+    return isTempId(action.data.commitment_id) ? [action.data.commitment_id] : [];
+  }
+  return isTempId(action.entityId) && !CREATE_OPS.includes(action.op) ? [action.entityId] : [];
 }
 
+// Operations that exhausted their retries - kept for the user to retry or discard
+export type DeadLetterItem =
+  | { id: string; source: 'sync'; action: SyncAction; lastError: string | null; failedAt: string }
+  | { id: string; source: 'outbox'; outboxItem: OutboxItem; lastError: string | null; failedAt: string };
+
+// Same field edited here and on another device - last writer won, the user can pick the other version
+export interface SyncConflict {
+  id: string;
+  entity: SyncEntity;
+  entityId: string;
+  columns: string[]; // Empty when the local edit was a delete
+  localValues: Record<string, unknown> | null; // null: deleted on this device
+  serverValues: Record<string, unknown>;
+  serverRow: Record<string, any>;
+  localAction: NewSyncAction; // Re-queued if the user keeps this device's version
+  winner: 'local' | 'server';
+  localEditedAt: string;
+  serverEditedAt: string;
+  detectedAt: string;
+}
+
+/**
+ * Where the sync engine is in its cycle
+ * idle → pushing → pulling → done (or backoff while failed actions wait to retry); offline whenever the network drops
+ */
+export type SyncEnginePhase = 'idle' | 'pushing' | 'pulling' | 'backoff' | 'offline' | 'done';
+
 interface SyncState {
   isOnline: boolean;
-  isSyncing: boolean;
+  connectionType: string | null; // NetInfo's type ('wifi', 'cellular', ...) - null until first checked
+  phase: SyncEnginePhase;
+  isSyncing: boolean; // Pushing or pulling - derived from phase
   queue: SyncAction[];
+  deadLetter: DeadLetterItem[];
+  // Temp ID → server ID, so stale references enqueued after a create landed still hit the real row
+  idRemaps: Record<string, { entity: SyncEntity; realId: string }>;
+  pullCursor: string | null; // Newest server timestamp pulled - edits record it as their base
+  conflicts: SyncConflict[];
   lastSyncAt: string | null;
   error: string | null;
 }
 
 const initialState: SyncState = {
   isOnline: true,
+  connectionType: null,
+  phase: 'idle',
   isSyncing: false,
   queue: [],
+  deadLetter: [],
+  idRemaps: {},
+  pullCursor: null,
+  conflicts: [],
   lastSyncAt: null,
   error: null,
 };
 
+// Immer's draft of the operation union is too deep for tsc to relate to the plain types (rows hold recursive Json),
+// so actions cross between the two through these
+const fromDraft = <T>(draft: Draft<T>): T => draft as T;
+const toDraft = <T>(value: T): Draft<T> => value as Draft<T>;
+
 const syncSlice = createSlice({
   name: 'sync',
   initialState,
@@ -34,81 +278,39 @@ const syncSlice = createSlice({
     setOnlineStatus: (state, action: PayloadAction<boolean>) => {
       state.isOnline = action.payload;
     },
-    setSyncing: (state, action: PayloadAction<boolean>) => {
-      state.isSyncing = action.payload;
+    setConnectionType: (state, action: PayloadAction<string | null>) => {
+      state.connectionType = action.payload;
     },
-    addToQueue: (state, action: PayloadAction<Omit<SyncAction, 'id' | 'timestamp' | 'retryCount'>>) => {
-      const newAction = action.payload;
-
-      // Enhanced idempotency: check for duplicate operations by idempotencyKey
-      if (newAction.idempotencyKey) {
-        const existingAction = state.queue.find(action =>
-          action.idempotencyKey === newAction.idempotencyKey
-        );
-        if (existingAction) {
-          if (__DEV__) {
-            console.log(`🔧 [SYNC-IDEMPOTENT] Skipping duplicate operation with key: ${newAction.idempotencyKey}`);
-          }
-          return; // Skip adding this action as it's already queued
-        }
-      }
-
-      // Remove conflicting actions for the same entity
-      state.queue = state.queue.filter(existingAction => {
-        // Keep actions for different entities
-        if (existingAction.entityId !== newAction.entityId || existingAction.entity !== newAction.entity) {
-          return true;
-        }
-
-        // Enhanced conflict resolution: consider idempotency key for reordering operations
-        if (newAction.idempotencyKey && existingAction.idempotencyKey) {
-          // For reordering operations (move:id:rank), only keep the latest final rank
-          const newKeyParts = newAction.idempotencyKey.split(':');
-          const existingKeyParts = existingAction.idempotencyKey.split(':');
-
-          if (newKeyParts[0] === 'move' && existingKeyParts[0] === 'move' &&
-              newKeyParts[1] === existingKeyParts[1]) { // Same entity ID
-            if (__DEV__) {
-              console.log(`🔧 [SYNC-DEDUP] Removing conflicting move operation ${existingAction.idempotencyKey} for newer ${newAction.idempotencyKey}`);
-            }
-            return false; // Remove the older move operation
-          }
-        }
+    setSyncPhase: (state, action: PayloadAction<SyncEnginePhase>) => {
+      state.phase = action.payload;
+      state.isSyncing = action.payload === 'pushing' || action.payload === 'pulling';
+    },
+    addToQueue: (state, action: PayloadAction<NewSyncAction>) => {
+      // Persisted state from before temp ID remapping existed won't have the map
+      const payload = Object.entries(state.idRemaps ?? {}).reduce<NewSyncAction>(
+        (remapped, [tempId, { entity, realId }]) => remapAction(remapped, entity, tempId, realId),
+        action.payload
+      );
 
-        // Remove conflicting actions for same entity
-        // DELETE trumps everything, UPDATE trumps CREATE
-        if (newAction.type === 'DELETE') {
-          if (__DEV__) {
-            console.log(`🔧 [SYNC-DEDUP] Removing conflicting ${existingAction.type} action for ${newAction.entity}:${newAction.entityId} (new DELETE)`);
-          }
-          return false;
-        }
-        if (newAction.type === 'UPDATE' && existingAction.type === 'CREATE') {
-          if (__DEV__) {
-            console.log(`🔧 [SYNC-DEDUP] Removing conflicting CREATE action for ${newAction.entity}:${newAction.entityId} (new UPDATE)`);
-          }
-          return false;
-        }
-        if (newAction.type === 'UPDATE' && existingAction.type === 'UPDATE') {
-          if (__DEV__) {
-            console.log(`🔧 [SYNC-DEDUP] Removing duplicate UPDATE action for ${newAction.entity}:${newAction.entityId}`);
-          }
-          return false;
-        }
+      const rule = SYNC_MERGE_RULES[payload.op];
+      const { queue, incoming } = rule(fromDraft<SyncAction[]>(state.queue), payload);
 
-        return true;
-      });
+      if (!incoming) {
+        state.queue = toDraft(queue);
+        return;
+      }
 
       const syncAction: SyncAction = {
-        ...newAction,
+        ...incoming,
         id: `sync_${Date.now()}_${Math.random()}`,
         timestamp: new Date().toISOString(),
         retryCount: 0,
+        baseSyncAt: incoming.baseSyncAt !== undefined ? incoming.baseSyncAt : state.pullCursor ?? null,
       };
-      state.queue.push(syncAction);
+      state.queue = toDraft([...queue, syncAction]);
 
-      if (__DEV__ && newAction.idempotencyKey) {
-        console.log(`🔧 [SYNC-QUEUE] Added operation with idempotency key: ${newAction.idempotencyKey}`);
+      if (__DEV__) {
+        console.log(`🔧 [SYNC-QUEUE] Added ${incoming.op} for ${incoming.entity}:${incoming.entityId}`);
       }
     },
     removeFromQueue: (state, action: PayloadAction<string>) => {
@@ -120,8 +322,121 @@ const syncSlice = createSlice({
         item.retryCount += 1;
       }
     },
+    markSyncFailure: (state, action: PayloadAction<{ id: string; error: string; nextAttemptAt: string }>) => {
+      const item = state.queue.find(item => item.id === action.payload.id);
+      if (item) {
+        item.retryCount += 1;
+        item.lastError = action.payload.error;
+        item.nextAttemptAt = action.payload.nextAttemptAt;
+      }
+    },
+    moveToDeadLetter: (state, action: PayloadAction<{ id: string; error: string }>) => {
+      const item = state.queue.find(item => item.id === action.payload.id);
+      if (!item) return;
+
+      state.queue = state.queue.filter(queued => queued.id !== item.id);
+      // Persisted state from before the dead-letter list existed won't have it
+      state.deadLetter = state.deadLetter ?? [];
+      state.deadLetter.push({
+        id: item.id,
+        source: 'sync',
+        action: { ...item, lastError: action.payload.error },
+        lastError: action.payload.error,
+        failedAt: new Date().toISOString(),
+      });
+    },
+    addOutboxDeadLetter: (state, action: PayloadAction<{ outboxItem: OutboxItem; error: string | null }>) => {
+      const { outboxItem, error } = action.payload;
+      state.deadLetter = state.deadLetter ?? [];
+      state.deadLetter.push({
+        id: outboxItem.id,
+        source: 'outbox',
+        outboxItem,
+        lastError: error,
+        failedAt: new Date().toISOString(),
+      });
+    },
+    retryDeadLetter: (state, action: PayloadAction<string>) => {
+      const item = state.deadLetter?.find(item => item.id === action.payload);
+      if (!item) return;
+
+      state.deadLetter = state.deadLetter.filter(dead => dead.id !== item.id);
+
+      // Outbox items are re-enqueued by OfflineQueueService; only sync actions return here
+      if (item.source === 'sync') {
+        state.queue.push({
+          ...item.action,
+          retryCount: 0,
+          nextAttemptAt: null,
+        });
+      }
+    },
+    discardDeadLetter: (state, action: PayloadAction<string>) => {
+      state.deadLetter = (state.deadLetter ?? []).filter(item => item.id !== action.payload);
+    },
+    remapTempId: (state, action: PayloadAction<{ entity: SyncEntity; tempId: string; realId: string }>) => {
+      const { entity, tempId, realId } = action.payload;
+      state.idRemaps = { ...(state.idRemaps ?? {}), [tempId]: { entity, realId } };
+
+      state.queue = toDraft(fromDraft<SyncAction[]>(state.queue)
+        .map(queued => remapAction(queued, entity, tempId, realId)));
+
+      // Dead-lettered actions may be retried later, so they need the real ID as well
+      state.deadLetter = toDraft(fromDraft<DeadLetterItem[]>(state.deadLetter ?? []).map(item =>
+        item.source === 'sync'
+          ? { ...item, action: remapAction(item.action, entity, tempId, realId) }
+          : item
+      ));
+
+      if (__DEV__) {
+        console.log(`🔧 [SYNC-REMAP] ${entity}:${tempId} → ${realId}`);
+      }
+    },
+    // The server overruled these columns of a queued edit - pushing them would undo the newer write
+    dropSupersededEdits: (state, action: PayloadAction<{ actionId: string; columns: string[] }>) => {
+      const { actionId, columns } = action.payload;
+      const queued = fromDraft<SyncAction[]>(state.queue).find(item => item.id === actionId);
+      if (!queued) return;
+
+      if (queued.op === 'commitmentUpdate') {
+        const updates = Object.fromEntries(
+          Object.entries(queued.data.updates).filter(([column]) => !columns.includes(column))
+        );
+        if (Object.keys(updates).length > 0) {
+          const edited: SyncAction = { ...queued, data: { updates } };
+          state.queue = toDraft(fromDraft<SyncAction[]>(state.queue).map(item => item.id === actionId ? edited : item));
+          return;
+        }
+      }
+
+      // Every other operation writes its columns as one unit
+      state.queue = state.queue.filter(item => item.id !== actionId);
+
+      if (__DEV__) {
+        console.log(`🔧 [SYNC-CONFLICT] Dropped ${queued.op} for ${queued.entity}:${queued.entityId} (server is newer)`);
+      }
+    },
+    setPullCursor: (state, action: PayloadAction<string | null>) => {
+      state.pullCursor = action.payload;
+    },
+    addConflicts: (state, action: PayloadAction<SyncConflict[]>) => {
+      // A newer conflict on the same fields replaces the older one
+      const isSameConflict = (a: SyncConflict, b: SyncConflict) =>
+        a.entity === b.entity && a.entityId === b.entityId && a.columns.join() === b.columns.join();
+
+      const remaining = fromDraft<SyncConflict[]>(state.conflicts ?? []).filter(conflict =>
+        !action.payload.some(incoming => isSameConflict(conflict, incoming))
+      );
+      state.conflicts = toDraft([...remaining, ...action.payload]);
+    },
+    dismissConflict: (state, action: PayloadAction<string>) => {
+      state.conflicts = (state.conflicts ?? []).filter(conflict => conflict.id !== action.payload);
+    },
     clearQueue: (state) => {
       state.queue = [];
+      state.idRemaps = {};
+      state.conflicts = [];
+      state.pullCursor = null;
     },
     setLastSyncAt: (state, action: PayloadAction<string>) => {
       state.lastSyncAt = action.payload;
@@ -134,10 +449,21 @@ const syncSlice = createSlice({
 
 export const {
   setOnlineStatus,
-  setSyncing,
+  setConnectionType,
+  setSyncPhase,
   addToQueue,
   removeFromQueue,
   incrementRetryCount,
+  markSyncFailure,
+  moveToDeadLetter,
+  addOutboxDeadLetter,
+  retryDeadLetter,
+  discardDeadLetter,
+  remapTempId,
+  dropSupersededEdits,
+  setPullCursor,
+  addConflicts,
+  dismissConflict,
   clearQueue,
   setLastSyncAt,
   setSyncError,
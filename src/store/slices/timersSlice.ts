@@ -0,0 +1,66 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+
+/**
+ * Running and paused timers for duration commitments, one per commitment
+ * Timers keep timestamps rather than ticking, so time spent with the app in the background
+ * (or closed - this slice is persisted) still counts.
+ */
+export interface ActiveTimer {
+  commitmentId: string;
+  date: string; // Day the session is recorded on (YYYY-MM-DD) - the day it was started for
+  startedAt: string | null; // ISO timestamp of the current run; null while paused
+  elapsedMs: number; // Time banked from earlier runs of this session
+}
+
+interface TimersState {
+  timers: Record<string, ActiveTimer>;
+}
+
+const initialState: TimersState = {
+  timers: {},
+};
+
+/**
+ * Total session time so far, including the current run
+ */
+export function getTimerElapsedMs(timer: ActiveTimer, now: number = Date.now()): number {
+  if (!timer.startedAt) return timer.elapsedMs;
+  return timer.elapsedMs + Math.max(0, now - new Date(timer.startedAt).getTime());
+}
+
+const timersSlice = createSlice({
+  name: 'timers',
+  initialState,
+  reducers: {
+    startTimer: (state, action: PayloadAction<{ commitmentId: string; date: string; at: string }>) => {
+      const { commitmentId, date, at } = action.payload;
+      state.timers[commitmentId] = { commitmentId, date, startedAt: at, elapsedMs: 0 };
+    },
+    pauseTimer: (state, action: PayloadAction<{ commitmentId: string; at: string }>) => {
+      const timer = state.timers[action.payload.commitmentId];
+      if (!timer?.startedAt) return;
+
+      timer.elapsedMs = getTimerElapsedMs(timer, new Date(action.payload.at).getTime());
+      timer.startedAt = null;
+    },
+    resumeTimer: (state, action: PayloadAction<{ commitmentId: string; at: string }>) => {
+      const timer = state.timers[action.payload.commitmentId];
+      if (!timer || timer.startedAt) return;
+
+      timer.startedAt = action.payload.at;
+    },
+    // Stopping or discarding - the caller records the session first
+    clearTimer: (state, action: PayloadAction<string>) => {
+      delete state.timers[action.payload];
+    },
+  },
+});
+
+export const {
+  startTimer,
+  pauseTimer,
+  resumeTimer,
+  clearTimer,
+} = timersSlice.actions;
+
+export default timersSlice.reducer;
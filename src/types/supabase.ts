@@ -74,6 +74,13 @@ export interface Database {
           created_by: string | null
           change_note: string | null
           effective_from: string | null
+          // Archive, ordering, schedules and entries (migrations 011-024)
+          archived: boolean
+          order_rank: string
+          last_active_rank: string | null
+          schedule: Json | null
+          entry_aggregate: 'sum' | 'max' | 'last' | null
+          field_updated_at: Json
         }
         Insert: {
           id?: string
@@ -103,6 +110,13 @@ export interface Database {
           created_by?: string | null
           change_note?: string | null
           effective_from?: string | null
+          // Archive, ordering, schedules and entries (migrations 011-024)
+          archived?: boolean
+          order_rank?: string
+          last_active_rank?: string | null
+          schedule?: Json | null
+          entry_aggregate?: 'sum' | 'max' | 'last' | null
+          field_updated_at?: Json
         }
         Update: {
           id?: string
@@ -132,6 +146,13 @@ export interface Database {
           created_by?: string | null
           change_note?: string | null
           effective_from?: string | null
+          // Archive, ordering, schedules and entries (migrations 011-024)
+          archived?: boolean
+          order_rank?: string
+          last_active_rank?: string | null
+          schedule?: Json | null
+          entry_aggregate?: 'sum' | 'max' | 'last' | null
+          field_updated_at?: Json
         }
         Relationships: [
           {
@@ -152,10 +173,11 @@ export interface Database {
           created_at: string
           // New commitment type architecture
           value: Json | null
+          entries: Json | null
           // Phase 0: New optional fields for future features
           user_id: string | null
           status: string | null
-          is_future_prefill: boolean | null
+          is_future_prefill: boolean
           updated_at: string | null
         }
         Insert: {
@@ -166,10 +188,11 @@ export interface Database {
           created_at?: string
           // New commitment type architecture
           value?: Json | null
+          entries?: Json | null
           // Phase 0: New optional fields for future features
           user_id?: string | null
           status?: string | null
-          is_future_prefill?: boolean | null
+          is_future_prefill?: boolean
           updated_at?: string | null
         }
         Update: {
@@ -180,10 +203,11 @@ export interface Database {
           created_at?: string
           // New commitment type architecture
           value?: Json | null
+          entries?: Json | null
           // Phase 0: New optional fields for future features
           user_id?: string | null
           status?: string | null
-          is_future_prefill?: boolean | null
+          is_future_prefill?: boolean
           updated_at?: string | null
         }
         Relationships: [
@@ -496,6 +520,7 @@ export interface Database {
           current_streak: number
           best_streak: number
           last_success_date: string | null
+          as_of_date: string | null
           updated_at: string
         }
         Insert: {
@@ -505,6 +530,7 @@ export interface Database {
           current_streak?: number
           best_streak?: number
           last_success_date?: string | null
+          as_of_date?: string | null
           updated_at?: string
         }
         Update: {
@@ -514,6 +540,7 @@ export interface Database {
           current_streak?: number
           best_streak?: number
           last_success_date?: string | null
+          as_of_date?: string | null
           updated_at?: string
         }
         Relationships: []
@@ -574,7 +601,58 @@ export interface Database {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_friend_request: {
+        Args: { p_request_id: string }
+        Returns: boolean
+      }
+      apply_record_mutations: {
+        Args: { p_mutations: Json }
+        Returns: {
+          mutation_index: number
+          success: boolean
+          row_data: Database['public']['Tables']['commitment_records']['Row'] | null
+          error_message: string | null
+        }[]
+      }
+      are_users_friends: {
+        Args: { p_user1_id: string; p_user2_id: string }
+        Returns: boolean
+      }
+      create_commitment_version: {
+        Args: {
+          p_commitment_id: string
+          p_effective_from: string
+          p_change_note: string | null
+          p_updates: Json
+        }
+        Returns: Database['public']['Tables']['commitments']['Row']
+      }
+      get_user_friends: {
+        Args: { p_user_id: string }
+        Returns: {
+          id: string
+          email: string
+          username: string
+          full_name: string | null
+          avatar_url: string | null
+          avatar_animal: string | null
+          avatar_color: string | null
+          created_at: string
+          friendship_created_at: string
+        }[]
+      }
+      search_users_by_email: {
+        Args: { p_email_query: string }
+        Returns: {
+          id: string
+          email: string
+          username: string
+          full_name: string | null
+          avatar_url: string | null
+          avatar_animal: string | null
+          avatar_color: string | null
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,63 @@
+/**
+ * Tests for sync retry backoff helpers
+ */
+
+import { computeBackoffDelay, computeNextAttemptAt, isReadyForAttempt } from '../backoff';
+
+describe('computeBackoffDelay', () => {
+  const maxRandom = () => 0.999999;
+
+  test('grows exponentially with the number of failed attempts', () => {
+    const options = { baseDelayMs: 1000, maxDelayMs: 60000, random: maxRandom };
+
+    expect(computeBackoffDelay(1, options)).toBe(1000);
+    expect(computeBackoffDelay(2, options)).toBe(2000);
+    expect(computeBackoffDelay(3, options)).toBe(4000);
+    expect(computeBackoffDelay(4, options)).toBe(8000);
+  });
+
+  test('is capped at the maximum delay', () => {
+    const options = { baseDelayMs: 1000, maxDelayMs: 5000, random: maxRandom };
+
+    expect(computeBackoffDelay(10, options)).toBe(5000);
+    expect(computeBackoffDelay(50, options)).toBe(5000);
+  });
+
+  test('applies jitter but never goes below the base delay', () => {
+    const options = { baseDelayMs: 1000, maxDelayMs: 60000 };
+
+    expect(computeBackoffDelay(4, { ...options, random: () => 0 })).toBe(1000);
+    expect(computeBackoffDelay(4, { ...options, random: () => 0.5 })).toBe(4000);
+  });
+
+  test('treats zero or negative attempts as the first attempt', () => {
+    const options = { baseDelayMs: 1000, maxDelayMs: 60000, random: maxRandom };
+
+    expect(computeBackoffDelay(0, options)).toBe(1000);
+    expect(computeBackoffDelay(-3, options)).toBe(1000);
+  });
+});
+
+describe('computeNextAttemptAt', () => {
+  test('returns an ISO timestamp offset by the backoff delay', () => {
+    const now = Date.parse('2025-01-01T00:00:00.000Z');
+    const next = computeNextAttemptAt(2, now, { baseDelayMs: 1000, random: () => 0.999999 });
+
+    expect(next).toBe('2025-01-01T00:00:02.000Z');
+  });
+});
+
+describe('isReadyForAttempt', () => {
+  const now = Date.parse('2025-01-01T12:00:00.000Z');
+
+  test('items without a scheduled attempt are always ready', () => {
+    expect(isReadyForAttempt(undefined, now)).toBe(true);
+    expect(isReadyForAttempt(null, now)).toBe(true);
+  });
+
+  test('respects the scheduled attempt time', () => {
+    expect(isReadyForAttempt('2025-01-01T11:59:59.000Z', now)).toBe(true);
+    expect(isReadyForAttempt('2025-01-01T12:00:00.000Z', now)).toBe(true);
+    expect(isReadyForAttempt('2025-01-01T12:00:01.000Z', now)).toBe(false);
+  });
+});
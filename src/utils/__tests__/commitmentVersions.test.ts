@@ -0,0 +1,75 @@
+/**
+ * Tests for reading days with the commitment version in force on them
+ */
+
+import { getVersionForDate, getVersionSettings, isCommitmentVersionRow } from '../commitmentVersions';
+import type { CommitmentVersion } from '@/store/slices/commitmentsSlice';
+
+const version = (effectiveFrom: string, target: number, unit: string): CommitmentVersion => ({
+  id: `version-${effectiveFrom}`,
+  effectiveFrom,
+  changeNote: null,
+  target,
+  unit,
+  requirements: undefined,
+  ratingRange: undefined,
+  entryAggregate: null,
+  successCriteria: { operator: 'greater_than', value: target },
+  requiredConditions: null,
+});
+
+// 8 glasses from Jan 1, 10 from Feb 1, now 3 litres from Mar 1
+const commitment = {
+  id: 'water',
+  title: 'Water',
+  target: 3,
+  unit: 'litres',
+  requirements: undefined,
+  ratingRange: undefined,
+  entryAggregate: null,
+  successCriteria: { operator: 'greater_than' as const, value: 3 },
+  requiredConditions: null,
+  effectiveFrom: '2025-03-01',
+  versions: [version('2025-02-01', 10, 'glasses'), version('2025-01-01', 8, 'glasses')],
+};
+
+describe('getVersionForDate', () => {
+  test('days from the current version use the commitment as it is', () => {
+    expect(getVersionForDate(commitment, '2025-03-01')).toBe(commitment);
+    expect(getVersionForDate(commitment, '2025-06-15')).toBe(commitment);
+  });
+
+  test('earlier days use the version in force on them', () => {
+    expect(getVersionForDate(commitment, '2025-02-28')).toMatchObject({ id: 'water', target: 10, unit: 'glasses' });
+    expect(getVersionForDate(commitment, '2025-01-31').successCriteria).toEqual({ operator: 'greater_than', value: 8 });
+  });
+
+  test('days before the first version follow the first version', () => {
+    expect(getVersionForDate(commitment, '2024-12-20')).toMatchObject({ target: 8, unit: 'glasses' });
+  });
+
+  test('keeps everything that is not versioned', () => {
+    expect(getVersionForDate(commitment, '2025-01-15').title).toBe('Water');
+  });
+
+  test('a commitment without versions is never changed', () => {
+    const unversioned = { ...commitment, versions: [] };
+    expect(getVersionForDate(unversioned, '2020-01-01')).toBe(unversioned);
+  });
+});
+
+describe('getVersionSettings', () => {
+  test('picks only the versioned settings', () => {
+    expect(Object.keys(getVersionSettings(commitment as any)).sort()).toEqual([
+      'entryAggregate', 'ratingRange', 'requiredConditions', 'requirements', 'successCriteria', 'target', 'unit',
+    ]);
+  });
+});
+
+describe('isCommitmentVersionRow', () => {
+  test('earlier versions point at another row in their lineage', () => {
+    expect(isCommitmentVersionRow({ id: 'v1', lineage_id: 'water' })).toBe(true);
+    expect(isCommitmentVersionRow({ id: 'water', lineage_id: 'water' })).toBe(false);
+    expect(isCommitmentVersionRow({ id: 'water', lineage_id: null })).toBe(false);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Tests for duration commitments
+ */
+
+import { formatDuration, formatDurationForGrid, getDurationUnit, parseDuration } from '../duration';
+import { formatValueForGrid } from '../valueFormatUtils';
+
+describe('getDurationUnit', () => {
+  test('time units make a duration commitment', () => {
+    expect(getDurationUnit('minute')).toBe('minute');
+    expect(getDurationUnit('Hours')).toBe('hour');
+    expect(getDurationUnit('sec')).toBe('second');
+    expect(getDurationUnit('page')).toBeNull();
+    expect(getDurationUnit(undefined)).toBeNull();
+  });
+});
+
+describe('parseDuration', () => {
+  test('reads h:mm:ss and m:ss', () => {
+    expect(parseDuration('1:05:30', 'minute')).toBe(3930);
+    expect(parseDuration('25:00', 'minute')).toBe(1500);
+    expect(parseDuration('90:00', 'hour')).toBe(5400);
+  });
+
+  test('reads a bare number in the commitment unit', () => {
+    expect(parseDuration('30', 'minute')).toBe(1800);
+    expect(parseDuration('1.5', 'hour')).toBe(5400);
+  });
+
+  test('rejects text that is not a duration', () => {
+    expect(parseDuration('', 'minute')).toBeNull();
+    expect(parseDuration('1:75', 'minute')).toBeNull();
+    expect(parseDuration('1:2:3:4', 'minute')).toBeNull();
+    expect(parseDuration('abc', 'minute')).toBeNull();
+  });
+});
+
+describe('formatDuration', () => {
+  test('drops the hours under an hour', () => {
+    expect(formatDuration(1500)).toBe('25:00');
+    expect(formatDuration(3930)).toBe('1:05:30');
+    expect(formatDuration(45)).toBe('0:45');
+  });
+});
+
+describe('duration grid cells', () => {
+  test('read as time', () => {
+    expect(formatDurationForGrid(45)).toBe('45s');
+    expect(formatDurationForGrid(1500)).toBe('25m');
+    expect(formatDurationForGrid(5400)).toBe('1.5h');
+    expect(formatDurationForGrid(7200)).toBe('2h');
+    expect(formatDurationForGrid(45000)).toBe('12h');
+  });
+
+  test('formatValueForGrid converts from the commitment unit', () => {
+    expect(formatValueForGrid(25.5, 'minute')).toBe('25m');
+    expect(formatValueForGrid(1.5, 'hour')).toBe('1.5h');
+    expect(formatValueForGrid(25.5)).toBe('26');
+  });
+});
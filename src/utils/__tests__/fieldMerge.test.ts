@@ -0,0 +1,101 @@
+/**
+ * Tests for per-field last-writer-wins merging of pulled rows with pending local edits
+ */
+
+import { mergePendingEdits, getColumnEditedAt, type PendingEdit } from '../fieldMerge';
+
+const serverRow = {
+  id: 'c1',
+  title: 'Read',
+  color: '#000000',
+  updated_at: '2025-01-01T12:00:00.000Z',
+  field_updated_at: {
+    title: '2025-01-01T12:00:00.000Z',
+    color: '2025-01-01T08:00:00.000Z',
+  },
+};
+
+const edit = (values: Record<string, unknown> | null, editedAt: string, baseSyncAt: string | null): PendingEdit => ({
+  actionId: `sync_${editedAt}`,
+  values,
+  editedAt,
+  baseSyncAt,
+});
+
+describe('getColumnEditedAt', () => {
+  test('prefers the per-column timestamp and falls back to updated_at', () => {
+    expect(getColumnEditedAt(serverRow, 'color')).toBe('2025-01-01T08:00:00.000Z');
+    expect(getColumnEditedAt(serverRow, 'description')).toBe('2025-01-01T12:00:00.000Z');
+  });
+});
+
+describe('mergePendingEdits', () => {
+  test('keeps a local edit the server has not seen yet', () => {
+    const result = mergePendingEdits(serverRow, [
+      edit({ color: '#FF0000' }, '2025-01-01T10:00:00.000Z', '2025-01-01T09:00:00.000Z'),
+    ]);
+
+    expect(result.row).toEqual(expect.objectContaining({ title: 'Read', color: '#FF0000' }));
+    expect(result.conflicts).toEqual([]);
+    expect(result.superseded).toEqual([]);
+  });
+
+  test('takes server changes to other fields without a conflict', () => {
+    // Title changed on the server after the edit's base, but only colour was edited locally
+    const result = mergePendingEdits(serverRow, [
+      edit({ color: '#FF0000' }, '2025-01-01T11:00:00.000Z', '2025-01-01T10:00:00.000Z'),
+    ]);
+
+    expect(result.row).toEqual(expect.objectContaining({ title: 'Read', color: '#FF0000' }));
+    expect(result.conflicts).toEqual([]);
+  });
+
+  test('lets the newer server write win a concurrent edit of the same field', () => {
+    const localEdit = edit({ title: 'Read more' }, '2025-01-01T11:00:00.000Z', '2025-01-01T10:00:00.000Z');
+    const result = mergePendingEdits(serverRow, [localEdit]);
+
+    expect(result.row?.title).toBe('Read');
+    expect(result.superseded).toEqual([localEdit]);
+    expect(result.conflicts).toEqual([
+      { edit: localEdit, columns: ['title'], serverEditedAt: '2025-01-01T12:00:00.000Z', winner: 'server' },
+    ]);
+  });
+
+  test('lets the newer local write win a concurrent edit of the same field', () => {
+    const localEdit = edit({ title: 'Read more' }, '2025-01-01T13:00:00.000Z', '2025-01-01T10:00:00.000Z');
+    const result = mergePendingEdits(serverRow, [localEdit]);
+
+    expect(result.row?.title).toBe('Read more');
+    expect(result.superseded).toEqual([]);
+    expect(result.conflicts).toEqual([expect.objectContaining({ columns: ['title'], winner: 'local' })]);
+  });
+
+  test('ignores edits that already match the server', () => {
+    const result = mergePendingEdits(serverRow, [
+      edit({ title: 'Read' }, '2025-01-01T11:00:00.000Z', '2025-01-01T10:00:00.000Z'),
+    ]);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.superseded).toEqual([]);
+  });
+
+  test('keeps a local delete unless the row was edited elsewhere afterwards', () => {
+    expect(mergePendingEdits(serverRow, [
+      edit(null, '2025-01-01T13:00:00.000Z', '2025-01-01T12:30:00.000Z'),
+    ]).row).toBeNull();
+
+    const staleDelete = edit(null, '2025-01-01T11:00:00.000Z', '2025-01-01T10:00:00.000Z');
+    const result = mergePendingEdits(serverRow, [staleDelete]);
+    expect(result.row).toEqual(serverRow);
+    expect(result.superseded).toEqual([staleDelete]);
+    expect(result.conflicts).toEqual([expect.objectContaining({ columns: [], winner: 'server' })]);
+  });
+
+  test('compares structured values by content', () => {
+    const result = mergePendingEdits({ ...serverRow, requirements: ['a', 'b'] }, [
+      edit({ requirements: ['a', 'b'] }, '2025-01-01T11:00:00.000Z', '2025-01-01T10:00:00.000Z'),
+    ]);
+
+    expect(result.conflicts).toEqual([]);
+  });
+});
@@ -1,11 +1,11 @@
 /**
- * Unit tests for idempotency in reordering operations
- * Ensures unique operations by (id, final rank) and proper sync queue deduplication
+ * Unit tests for sync queue merge rules
+ * Ensures each typed operation dedups/merges with queued actions for the same entity
  */
 
-import syncReducer, { addToQueue, type SyncAction } from '@/store/slices/syncSlice';
+import syncReducer, { addToQueue, type NewSyncAction } from '@/store/slices/syncSlice';
 
-describe('Idempotency for Reordering Operations', () => {
+describe('Sync queue merge rules', () => {
   let state: any;
 
   beforeEach(() => {
@@ -13,219 +13,202 @@ describe('Idempotency for Reordering Operations', () => {
       isOnline: true,
       isSyncing: false,
       queue: [],
+      deadLetter: [],
       lastSyncAt: null,
       error: null,
     };
   });
 
-  describe('Sync Queue Deduplication', () => {
-    it('should skip duplicate operations with same idempotency key', () => {
-      const action1 = {
-        type: 'UPDATE' as const,
-        entity: 'layout_item' as const,
-        entityId: 'spacer-1',
-        data: { order_rank: 'A' },
-        idempotencyKey: 'move:spacer-1:A'
-      };
-
-      // Add first action
-      const newState1 = syncReducer(state, addToQueue(action1));
-      expect(newState1.queue).toHaveLength(1);
-
-      // Add same action again - should be skipped
-      const newState2 = syncReducer(newState1, addToQueue(action1));
-      expect(newState2.queue).toHaveLength(1);
-      expect(newState2.queue[0].idempotencyKey).toBe('move:spacer-1:A');
-    });
+  const apply = (...actions: NewSyncAction[]) =>
+    actions.reduce((current, action) => syncReducer(current, addToQueue(action)), state);
+
+  const layoutMove = (entityId: string, order_rank: string): NewSyncAction => ({
+    op: 'move',
+    entity: 'layout_item',
+    entityId,
+    data: { order_rank, user_id: 'user-1' },
+  });
 
+  describe('Reordering', () => {
     it('should replace older move operations with newer ones for same entity', () => {
-      const oldMoveAction = {
-        type: 'UPDATE' as const,
-        entity: 'layout_item' as const,
-        entityId: 'spacer-1',
-        data: { order_rank: 'A' },
-        idempotencyKey: 'move:spacer-1:A'
-      };
-
-      const newMoveAction = {
-        type: 'UPDATE' as const,
-        entity: 'layout_item' as const,
-        entityId: 'spacer-1',
-        data: { order_rank: 'B' },
-        idempotencyKey: 'move:spacer-1:B'
-      };
-
-      // Add old move action
-      const state1 = syncReducer(state, addToQueue(oldMoveAction));
-      expect(state1.queue).toHaveLength(1);
-
-      // Add new move action - should replace old one
-      const state2 = syncReducer(state1, addToQueue(newMoveAction));
-      expect(state2.queue).toHaveLength(1);
-      expect(state2.queue[0].idempotencyKey).toBe('move:spacer-1:B');
-      expect(state2.queue[0].data.order_rank).toBe('B');
+      const result = apply(layoutMove('spacer-1', 'A'), layoutMove('spacer-1', 'B'));
+
+      expect(result.queue).toHaveLength(1);
+      expect(result.queue[0].op).toBe('move');
+      expect(result.queue[0].data.order_rank).toBe('B');
     });
 
-    it('should handle multiple entities with different move operations', () => {
-      const moveAction1 = {
-        type: 'UPDATE' as const,
-        entity: 'layout_item' as const,
-        entityId: 'spacer-1',
-        data: { order_rank: 'A' },
-        idempotencyKey: 'move:spacer-1:A'
-      };
-
-      const moveAction2 = {
-        type: 'UPDATE' as const,
-        entity: 'layout_item' as const,
-        entityId: 'spacer-2',
-        data: { order_rank: 'B' },
-        idempotencyKey: 'move:spacer-2:B'
-      };
-
-      const commitmentMoveAction = {
-        type: 'UPDATE' as const,
-        entity: 'commitment' as const,
-        entityId: 'commitment-1',
-        data: { order_rank: 'C' },
-        idempotencyKey: 'move:commitment-1:C'
-      };
-
-      let currentState = state;
-      currentState = syncReducer(currentState, addToQueue(moveAction1));
-      currentState = syncReducer(currentState, addToQueue(moveAction2));
-      currentState = syncReducer(currentState, addToQueue(commitmentMoveAction));
-
-      expect(currentState.queue).toHaveLength(3);
-      expect(currentState.queue.map(q => q.idempotencyKey)).toEqual([
-        'move:spacer-1:A',
-        'move:spacer-2:B',
-        'move:commitment-1:C'
+    it('should handle rapid successive moves to same position', () => {
+      const move = layoutMove('spacer-1', 'A');
+      const result = apply(move, move, move, move, move);
+
+      expect(result.queue).toHaveLength(1);
+    });
+
+    it('should keep moves for different entities', () => {
+      const result = apply(
+        layoutMove('spacer-1', 'A'),
+        layoutMove('spacer-2', 'B'),
+        { op: 'move', entity: 'commitment', entityId: 'commitment-1', data: { order_rank: 'C' } },
+      );
+
+      expect(result.queue.map((q: any) => `${q.entityId}:${q.data.order_rank}`)).toEqual([
+        'spacer-1:A',
+        'spacer-2:B',
+        'commitment-1:C',
       ]);
     });
 
-    it('should handle non-move operations without interference', () => {
-      const createAction = {
-        type: 'CREATE' as const,
-        entity: 'layout_item' as const,
-        entityId: 'spacer-1',
-        data: { type: 'spacer', height: 16 },
-        idempotencyKey: 'create:spacer-1:123456'
-      };
-
-      const moveAction = {
-        type: 'UPDATE' as const,
-        entity: 'layout_item' as const,
-        entityId: 'spacer-1',
-        data: { order_rank: 'A' },
-        idempotencyKey: 'move:spacer-1:A'
-      };
-
-      const deleteAction = {
-        type: 'DELETE' as const,
-        entity: 'layout_item' as const,
-        entityId: 'spacer-2',
-        data: { id: 'spacer-2' },
-        idempotencyKey: 'delete:spacer-2:789012'
-      };
-
-      let currentState = state;
-      currentState = syncReducer(currentState, addToQueue(createAction));
-      currentState = syncReducer(currentState, addToQueue(moveAction));
-      currentState = syncReducer(currentState, addToQueue(deleteAction));
-
-      // CREATE gets replaced by UPDATE (UPDATE trumps CREATE), so should have 2 items
-      expect(currentState.queue).toHaveLength(2);
-      expect(currentState.queue.map(q => q.type)).toEqual(['UPDATE', 'DELETE']);
+    it('should not treat a commitment and a layout item with the same id as one entity', () => {
+      const result = apply(
+        layoutMove('item-1', 'A'),
+        { op: 'move', entity: 'commitment', entityId: 'item-1', data: { order_rank: 'B' } },
+      );
+
+      expect(result.queue).toHaveLength(2);
+    });
+
+    it('should coalesce friend moves', () => {
+      const friendMove = (order_rank: string): NewSyncAction => ({
+        op: 'friendMove',
+        entity: 'friend_order',
+        entityId: 'friend-1',
+        data: { user_id: 'user-1', friend_user_id: 'friend-1', group_name: 'all', order_rank },
+        interactive: true,
+      });
+
+      const result = apply(friendMove('A'), friendMove('B'));
+
+      expect(result.queue).toHaveLength(1);
+      expect(result.queue[0].data.order_rank).toBe('B');
+      expect(result.queue[0].interactive).toBe(true);
     });
   });
 
-  describe('Edge Cases', () => {
-    it('should handle operations without idempotency keys', () => {
-      const legacyAction = {
-        type: 'UPDATE' as const,
-        entity: 'layout_item' as const,
-        entityId: 'spacer-1',
-        data: { order_rank: 'A' }
-        // No idempotencyKey
-      };
-
-      const newState = syncReducer(state, addToQueue(legacyAction));
-      expect(newState.queue).toHaveLength(1);
-      expect(newState.queue[0].idempotencyKey).toBeUndefined();
+  describe('Deletes', () => {
+    it('should drop queued moves when the layout item is deleted', () => {
+      const result = apply(
+        layoutMove('spacer-1', 'A'),
+        { op: 'layoutDelete', entity: 'layout_item', entityId: 'spacer-1', data: { user_id: 'user-1' } },
+      );
+
+      expect(result.queue).toHaveLength(1);
+      expect(result.queue[0].op).toBe('layoutDelete');
     });
 
-    it('should handle rapid successive moves to same position', () => {
-      const moveAction = {
-        type: 'UPDATE' as const,
-        entity: 'layout_item' as const,
-        entityId: 'spacer-1',
-        data: { order_rank: 'A' },
-        idempotencyKey: 'move:spacer-1:A'
-      };
-
-      // Add same move operation 5 times rapidly
-      let currentState = state;
-      for (let i = 0; i < 5; i++) {
-        currentState = syncReducer(currentState, addToQueue(moveAction));
-      }
-
-      // Should only have one operation in queue
-      expect(currentState.queue).toHaveLength(1);
-      expect(currentState.queue[0].idempotencyKey).toBe('move:spacer-1:A');
+    it('should drop both create and delete when the create never reached the server', () => {
+      const result = apply(
+        {
+          op: 'layoutCreate',
+          entity: 'layout_item',
+          entityId: 'spacer-1',
+          data: {
+            user_id: 'user-1',
+            type: 'spacer',
+            height: 16,
+            order_rank: 'A',
+            is_active: true,
+            archived: false,
+            deleted_at: null,
+          },
+        },
+        layoutMove('spacer-1', 'B'),
+        { op: 'layoutDelete', entity: 'layout_item', entityId: 'spacer-1', data: { user_id: 'user-1' } },
+      );
+
+      expect(result.queue).toHaveLength(0);
+    });
+
+    it('should drop pending commitment changes on permanent delete', () => {
+      const result = apply(
+        { op: 'showValues', entity: 'commitment', entityId: 'c1', data: { show_values: true } },
+        { op: 'archive', entity: 'commitment', entityId: 'c1', data: { archived: true, is_active: false } },
+        { op: 'permaDelete', entity: 'commitment', entityId: 'c1', data: {} },
+      );
+
+      expect(result.queue.map((q: any) => q.op)).toEqual(['permaDelete']);
     });
 
-    it('should handle move followed by delete (delete should trump)', () => {
-      const moveAction = {
-        type: 'UPDATE' as const,
-        entity: 'layout_item' as const,
-        entityId: 'spacer-1',
-        data: { order_rank: 'A' },
-        idempotencyKey: 'move:spacer-1:A'
-      };
-
-      const deleteAction = {
-        type: 'DELETE' as const,
-        entity: 'layout_item' as const,
-        entityId: 'spacer-1',
-        data: { id: 'spacer-1' },
-        idempotencyKey: 'delete:spacer-1:123456'
-      };
-
-      let currentState = state;
-      currentState = syncReducer(currentState, addToQueue(moveAction));
-      currentState = syncReducer(currentState, addToQueue(deleteAction));
-
-      // Should only have delete operation (delete trumps everything)
-      expect(currentState.queue).toHaveLength(1);
-      expect(currentState.queue[0].type).toBe('DELETE');
-      expect(currentState.queue[0].idempotencyKey).toBe('delete:spacer-1:123456');
+    it('should let a new friend order entry replace queued moves', () => {
+      const friendOrder = { user_id: 'user-1', friend_user_id: 'friend-1', group_name: 'all' };
+      const readded = apply(
+        { op: 'friendMove', entity: 'friend_order', entityId: 'friend-1', data: { ...friendOrder, order_rank: 'A' } },
+        { op: 'friendOrderCreate', entity: 'friend_order', entityId: 'friend-1', data: { ...friendOrder, order_rank: 'B' } },
+      );
+
+      expect(readded.queue.map((q: any) => q.op)).toEqual(['friendOrderCreate']);
+      expect(readded.queue[0].data.order_rank).toBe('B');
     });
   });
 
-  describe('Idempotency Key Generation', () => {
-    it('should generate consistent keys for move operations', () => {
-      const id = 'spacer-123';
-      const rank = 'A|B|C';
-      const key = `move:${id}:${rank}`;
+  describe('Commitment lifecycle', () => {
+    it('should let the latest of archive/restore/softDelete win', () => {
+      const result = apply(
+        { op: 'archive', entity: 'commitment', entityId: 'c1', data: { archived: true, is_active: false } },
+        {
+          op: 'restore',
+          entity: 'commitment',
+          entityId: 'c1',
+          data: { archived: false, deletedAt: null, is_active: true, order_rank: 'A' },
+        },
+      );
+
+      expect(result.queue).toHaveLength(1);
+      expect(result.queue[0].op).toBe('restore');
+    });
+
+    it('should not let lifecycle changes replace unrelated operations', () => {
+      const result = apply(
+        { op: 'move', entity: 'commitment', entityId: 'c1', data: { order_rank: 'A' } },
+        { op: 'archive', entity: 'commitment', entityId: 'c1', data: { archived: true, is_active: false } },
+      );
 
-      expect(key).toBe('move:spacer-123:A|B|C');
+      expect(result.queue.map((q: any) => q.op)).toEqual(['move', 'archive']);
     });
+  });
 
-    it('should generate consistent keys for create operations', () => {
-      const id = 'spacer-123';
-      const timestamp = Date.now();
-      const key = `create:spacer:${id}:${timestamp}`;
+  describe('Field updates', () => {
+    it('should fold field updates into a pending create', () => {
+      const result = apply(
+        { op: 'commitmentCreate', entity: 'commitment', entityId: 'temp-1', data: { user_id: 'user-1', title: 'Read', color: 'red' } },
+        { op: 'commitmentUpdate', entity: 'commitment', entityId: 'temp-1', data: { updates: { color: 'blue' } } },
+      );
 
-      expect(key).toBe(`create:spacer:spacer-123:${timestamp}`);
+      expect(result.queue).toHaveLength(1);
+      expect(result.queue[0].op).toBe('commitmentCreate');
+      expect(result.queue[0].data).toEqual({ user_id: 'user-1', title: 'Read', color: 'blue' });
     });
 
-    it('should generate consistent keys for delete operations', () => {
-      const id = 'spacer-123';
-      const timestamp = Date.now();
-      const key = `delete:${id}:${timestamp}`;
+    it('should merge successive field updates', () => {
+      const result = apply(
+        { op: 'commitmentUpdate', entity: 'commitment', entityId: 'c1', data: { updates: { title: 'Run' } } },
+        { op: 'commitmentUpdate', entity: 'commitment', entityId: 'c1', data: { updates: { color: 'blue' } } },
+      );
+
+      expect(result.queue).toHaveLength(1);
+      expect(result.queue[0].data.updates).toEqual({ title: 'Run', color: 'blue' });
+    });
+  });
 
-      expect(key).toBe(`delete:spacer-123:${timestamp}`);
+  describe('Records', () => {
+    it('should keep only the latest upsert or delete for a day', () => {
+      const result = apply(
+        {
+          op: 'recordUpsert',
+          entity: 'record',
+          entityId: 'c1_2025-01-01',
+          data: { commitment_id: 'c1', completed_at: '2025-01-01T12:00:00Z', status: 'complete' },
+        },
+        {
+          op: 'recordDelete',
+          entity: 'record',
+          entityId: 'c1_2025-01-01',
+          data: { commitment_id: 'c1', completed_at: '2025-01-01T12:00:00Z' },
+        },
+      );
+
+      expect(result.queue).toHaveLength(1);
+      expect(result.queue[0].op).toBe('recordDelete');
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for planning skips ahead of time
+ */
+
+import {
+  getPlannedSkipDays,
+  getPlannedSkipsInRange,
+  isPlannedSkip,
+  validatePlannedRange,
+  MAX_PLANNED_SKIP_DAYS,
+} from '../plannedSkips';
+import { addDays } from '../schedule';
+
+const TODAY = '2025-03-10'; // Monday
+
+describe('validatePlannedRange', () => {
+  test('accepts a range from today on', () => {
+    expect(validatePlannedRange(TODAY, '2025-03-16', TODAY)).toBeNull();
+    expect(validatePlannedRange('2025-04-01', '2025-04-01', TODAY)).toBeNull();
+  });
+
+  test('rejects past, reversed, malformed and overlong ranges', () => {
+    expect(validatePlannedRange('2025-03-09', '2025-03-16', TODAY)).toMatch(/from today/);
+    expect(validatePlannedRange('2025-03-16', TODAY, TODAY)).toMatch(/on or after/);
+    expect(validatePlannedRange('3/10/2025', '2025-03-16', TODAY)).toMatch(/YYYY-MM-DD/);
+    expect(validatePlannedRange(TODAY, addDays(TODAY, MAX_PLANNED_SKIP_DAYS), TODAY)).toMatch(/at most/);
+    expect(validatePlannedRange(TODAY, addDays(TODAY, MAX_PLANNED_SKIP_DAYS - 1), TODAY)).toBeNull();
+  });
+});
+
+describe('getPlannedSkipDays', () => {
+  const daily = { id: 'read' };
+  const weekdays = { id: 'gym', schedule: { type: 'weekdays' as const, days: [1, 3, 5] } }; // Mon, Wed, Fri
+
+  test('plans every day in the range for every commitment', () => {
+    const days = getPlannedSkipDays([daily], [], TODAY, '2025-03-12');
+
+    expect(days).toEqual([
+      { commitmentId: 'read', date: '2025-03-10' },
+      { commitmentId: 'read', date: '2025-03-11' },
+      { commitmentId: 'read', date: '2025-03-12' },
+    ]);
+  });
+
+  test('leaves out days off the schedule', () => {
+    const days = getPlannedSkipDays([weekdays], [], TODAY, '2025-03-16');
+
+    expect(days.map(day => day.date)).toEqual(['2025-03-10', '2025-03-12', '2025-03-14']);
+  });
+
+  test('never replaces a day that was already logged', () => {
+    const records = [
+      { commitmentId: 'read', date: '2025-03-11', status: 'completed' },
+      { commitmentId: 'read', date: '2025-03-12', isFuturePrefill: true },
+    ];
+    const days = getPlannedSkipDays([daily], records, TODAY, '2025-03-12');
+
+    expect(days.map(day => day.date)).toEqual(['2025-03-10', '2025-03-12']);
+  });
+});
+
+describe('getPlannedSkipsInRange', () => {
+  test('finds only planned skips for the given commitments and days', () => {
+    const records = [
+      { commitmentId: 'read', date: '2025-03-11', isFuturePrefill: true },
+      { commitmentId: 'read', date: '2025-03-12' },
+      { commitmentId: 'read', date: '2025-03-20', isFuturePrefill: true },
+      { commitmentId: 'gym', date: '2025-03-11', isFuturePrefill: true },
+    ];
+
+    expect(getPlannedSkipsInRange(['read'], records, TODAY, '2025-03-16')).toEqual([
+      { commitmentId: 'read', date: '2025-03-11' },
+    ]);
+  });
+
+  test('isPlannedSkip reads the prefill flag', () => {
+    expect(isPlannedSkip({ commitmentId: 'read', date: TODAY, isFuturePrefill: true })).toBe(true);
+    expect(isPlannedSkip({ commitmentId: 'read', date: TODAY })).toBe(false);
+    expect(isPlannedSkip(undefined)).toBe(false);
+  });
+});
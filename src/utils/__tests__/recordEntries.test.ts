@@ -0,0 +1,59 @@
+/**
+ * Tests for timestamped record entries
+ */
+
+import { addEntry, aggregateEntries, removeEntry, toRecordEntries, type RecordEntry } from '../recordEntries';
+
+const entry = (id: string, value: number, time: string): RecordEntry => ({
+  id,
+  value,
+  at: `2025-01-15T${time}Z`,
+});
+
+// Logged out of order - an edit can land an earlier entry last
+const entries = [
+  entry('a', 2, '08:00:00'),
+  entry('c', 1, '18:30:00'),
+  entry('b', 3, '12:15:00'),
+];
+
+describe('aggregateEntries', () => {
+  test('combines entries into the day value', () => {
+    expect(aggregateEntries(entries, 'sum')).toBe(6);
+    expect(aggregateEntries(entries, 'max')).toBe(3);
+  });
+
+  test('last takes the latest entry by time, not by position', () => {
+    expect(aggregateEntries(entries, 'last')).toBe(1);
+  });
+
+  test('no entries means no value', () => {
+    expect(aggregateEntries([], 'sum')).toBeUndefined();
+    expect(aggregateEntries(undefined, 'max')).toBeUndefined();
+  });
+});
+
+describe('adding and removing entries', () => {
+  test('addEntry appends a timestamped entry', () => {
+    const next = addEntry(entries, 4, '2025-01-15T20:00:00Z');
+
+    expect(next).toHaveLength(4);
+    expect(next[3]).toMatchObject({ value: 4, at: '2025-01-15T20:00:00Z' });
+    expect(new Set(next.map(e => e.id)).size).toBe(4);
+    expect(entries).toHaveLength(3);
+  });
+
+  test('removeEntry drops only that entry', () => {
+    const next = removeEntry(entries, 'b');
+
+    expect(next.map(e => e.id)).toEqual(['a', 'c']);
+    expect(aggregateEntries(next, 'sum')).toBe(3);
+  });
+});
+
+describe('toRecordEntries', () => {
+  test('keeps well-formed entries from a record row', () => {
+    expect(toRecordEntries([...entries, { id: 'd', value: 'x', at: 'now' }, null])).toEqual(entries);
+    expect(toRecordEntries(null)).toBeUndefined();
+  });
+});
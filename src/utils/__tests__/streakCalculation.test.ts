@@ -0,0 +1,263 @@
+/**
+ * Tests for schedule-aware streaks
+ */
+
+import { DayRecord } from '@/store/slices/recordsSlice';
+import { StreakCalculator } from '../streakCalculation';
+import { isScheduledDay, type CommitmentSchedule } from '../schedule';
+
+const MON_WED_FRI: CommitmentSchedule = { type: 'weekdays', days: [1, 3, 5] };
+
+const withStatus = (status: string, ...dates: string[]) => dates.map(date => ({
+  id: `r-${date}`,
+  userId: 'u1',
+  commitmentId: 'c1',
+  date,
+  status,
+  createdAt: `${date}T12:00:00Z`,
+  updatedAt: `${date}T12:00:00Z`,
+} as DayRecord));
+
+const completed = (...dates: string[]) => withStatus('completed', ...dates);
+
+// Consecutive dates from start to end, inclusive (January 2025 unless given)
+const days = (from: number, to: number, month = '2025-01') =>
+  Array.from({ length: to - from + 1 }, (_, i) => `${month}-${String(from + i).padStart(2, '0')}`);
+
+describe('StreakCalculator with schedules', () => {
+  beforeEach(() => {
+    // Wednesday
+    jest.useFakeTimers().setSystemTime(new Date(2025, 0, 15, 10, 0, 0));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('days outside a weekday schedule do not break the streak', () => {
+    const records = completed('2025-01-06', '2025-01-08', '2025-01-10', '2025-01-13', '2025-01-15');
+
+    const scheduled = StreakCalculator.calculateStreakData('c1', records, 30, { schedule: MON_WED_FRI });
+    expect(scheduled.currentStreak).toBe(5);
+    expect(scheduled.bestStreak).toBe(5);
+
+    const daily = StreakCalculator.calculateStreakData('c1', records, 30);
+    expect(daily.currentStreak).toBe(1);
+  });
+
+  test('weekly quotas count completions across weeks that met the quota', () => {
+    const schedule: CommitmentSchedule = { type: 'timesPerWeek', times: 2 };
+    const records = completed(
+      '2024-12-24',               // week of Dec 23 - short of the quota
+      '2025-01-02', '2025-01-03', // week of Dec 30
+      '2025-01-07', '2025-01-09', // week of Jan 6
+      '2025-01-14'                // week in progress - not yet met, doesn't break
+    );
+
+    const data = StreakCalculator.calculateStreakData('c1', records, 30, { schedule });
+    expect(data.currentStreak).toBe(4);
+    expect(data.bestStreak).toBe(4);
+  });
+
+  test('streaks are only at risk on scheduled days', () => {
+    // Tuesday evening, Monday done
+    jest.setSystemTime(new Date(2025, 0, 14, 19, 0, 0));
+    const records = completed('2025-01-13');
+
+    expect(StreakCalculator.isStreakAtRisk('c1', records, 18, { schedule: MON_WED_FRI })).toBe(false);
+    expect(StreakCalculator.isStreakAtRisk('c1', records, 18)).toBe(true);
+  });
+});
+
+describe('StreakCalculator streak rules', () => {
+  beforeEach(() => {
+    // Wednesday
+    jest.useFakeTimers().setSystemTime(new Date(2025, 0, 15, 10, 0, 0));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('a skip does not split the best streak', () => {
+    const records = [
+      ...completed(...days(1, 3)),
+      ...withStatus('skipped', '2025-01-04'),
+      ...completed(...days(5, 6)),
+      ...withStatus('failed', '2025-01-07'),
+    ];
+
+    const data = StreakCalculator.calculateStreakData('c1', records);
+    expect(data.bestStreak).toBe(5);
+    expect(data.currentStreak).toBe(0);
+  });
+
+  test('current and best streak agree on a run with a skip in it', () => {
+    const records = [
+      ...completed('2025-01-12', '2025-01-13'),
+      ...withStatus('skipped', '2025-01-14'),
+      ...completed('2025-01-15'),
+    ];
+
+    const data = StreakCalculator.calculateStreakData('c1', records);
+    expect(data.currentStreak).toBe(3);
+    expect(data.bestStreak).toBe(3);
+  });
+
+  test('failed, none and missing days all break a streak', () => {
+    const failed = [...completed('2025-01-12'), ...withStatus('failed', '2025-01-13'), ...completed('2025-01-14')];
+    const none = [...completed('2025-01-12'), ...withStatus('none', '2025-01-13'), ...completed('2025-01-14')];
+    const missing = completed('2025-01-12', '2025-01-14');
+
+    [failed, none, missing].forEach(records => {
+      const data = StreakCalculator.calculateStreakData('c1', records);
+      expect(data.currentStreak).toBe(1);
+      expect(data.bestStreak).toBe(1);
+    });
+  });
+
+  test('today does not break the streak before it is completed', () => {
+    const data = StreakCalculator.calculateStreakData('c1', completed('2025-01-13', '2025-01-14'));
+    expect(data.currentStreak).toBe(2);
+  });
+
+  test('completion rate only covers days since the commitment was created', () => {
+    const records = completed(...days(13, 15));
+
+    const createdThisWeek = StreakCalculator.calculateStreakData('c1', records, 30, { createdAt: '2025-01-13T09:00:00Z' });
+    expect(createdThisWeek.completionRate).toBe(100);
+
+    const createdLastWeek = StreakCalculator.calculateStreakData('c1', records, 30, { createdAt: '2025-01-06T09:00:00Z' });
+    expect(createdLastWeek.completionRate).toBe(30);
+    expect(createdLastWeek.currentStreak).toBe(3);
+
+    const createdLongAgo = StreakCalculator.calculateStreakData('c1', records, 30, { createdAt: '2024-06-01T09:00:00Z' });
+    expect(createdLongAgo.completionRate).toBe(10);
+  });
+
+  test('records from before the commitment was created still count', () => {
+    const data = StreakCalculator.calculateStreakData('c1', completed(...days(12, 15)), 30, {
+      createdAt: '2025-01-14T09:00:00Z',
+    });
+
+    expect(data.currentStreak).toBe(4);
+    expect(data.completionRate).toBe(100);
+  });
+
+  test('days spent archived break the streak but keep the earlier run as the best', () => {
+    // Archived from the 6th to the 9th - no records while archived
+    const records = completed(...days(1, 5), ...days(10, 15));
+
+    const data = StreakCalculator.calculateStreakData('c1', records, 30, { createdAt: '2025-01-01T09:00:00Z' });
+    expect(data.currentStreak).toBe(6);
+    expect(data.bestStreak).toBe(6);
+    expect(data.totalCompletions).toBe(11);
+  });
+
+  test('a fully skipped week does not break a weekly quota streak', () => {
+    const schedule: CommitmentSchedule = { type: 'timesPerWeek', times: 2 };
+    const records = [
+      ...completed('2025-01-02', '2025-01-03'),
+      ...withStatus('skipped', ...days(6, 12)),
+      ...completed('2025-01-13', '2025-01-15'),
+    ];
+
+    const data = StreakCalculator.calculateStreakData('c1', records, 30, { schedule });
+    expect(data.currentStreak).toBe(4);
+    expect(data.bestStreak).toBe(4);
+  });
+
+  test('the quota of the week the commitment was created shrinks to the days left in it', () => {
+    const schedule: CommitmentSchedule = { type: 'timesPerWeek', times: 3 };
+    // Created on Saturday - only the weekend was left
+    const records = completed('2025-01-11', '2025-01-12');
+
+    const data = StreakCalculator.calculateStreakData('c1', records, 30, { schedule, createdAt: '2025-01-11T09:00:00Z' });
+    expect(data.currentStreak).toBe(2);
+    expect(data.bestStreak).toBe(2);
+  });
+});
+
+describe('StreakCalculator.resolveStreak', () => {
+  const streakCache = { currentStreak: 40, bestStreak: 50, asOfDate: '2025-01-13' };
+
+  beforeEach(() => {
+    // Wednesday
+    jest.useFakeTimers().setSystemTime(new Date(2025, 0, 15, 10, 0, 0));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('continues the cached run with the days after it', () => {
+    const data = StreakCalculator.resolveStreak('c1', completed('2025-01-14', '2025-01-15'), { streakCache });
+    expect(data).toEqual({ currentStreak: 42, bestStreak: 50 });
+  });
+
+  test('a missed day after the cached run breaks it', () => {
+    const data = StreakCalculator.resolveStreak('c1', completed('2025-01-15'), {
+      streakCache: { ...streakCache, asOfDate: '2025-01-12' },
+    });
+    expect(data).toEqual({ currentStreak: 1, bestStreak: 50 });
+  });
+
+  test('marking today failed breaks the run straight away', () => {
+    const data = StreakCalculator.resolveStreak('c1', withStatus('failed', '2025-01-15'), { streakCache });
+    expect(data.currentStreak).toBe(0);
+  });
+
+  test('a weekly quota resumes from the start of the week the cache stopped before', () => {
+    const data = StreakCalculator.resolveStreak('c1', completed('2025-01-07', '2025-01-09', '2025-01-14'), {
+      schedule: { type: 'timesPerWeek', times: 2 },
+      streakCache: { currentStreak: 10, bestStreak: 10, asOfDate: '2025-01-05' },
+    });
+    expect(data).toEqual({ currentStreak: 12, bestStreak: 12 });
+  });
+
+  test('falls back to the loaded records without a cache', () => {
+    const data = StreakCalculator.resolveStreak('c1', completed('2025-01-14', '2025-01-15'), {
+      streakCache: { currentStreak: 0, bestStreak: 9, asOfDate: null },
+    });
+    expect(data).toEqual({ currentStreak: 2, bestStreak: 9 });
+  });
+});
+
+// Tests run in New York time (see jest.config.js)
+describe('StreakCalculator across daylight saving changes', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('a streak runs through the spring-forward day', () => {
+    // Clocks went forward on March 9th
+    expect(new Date(2025, 2, 8).getTimezoneOffset()).not.toBe(new Date(2025, 2, 10).getTimezoneOffset());
+    jest.useFakeTimers().setSystemTime(new Date(2025, 2, 12, 10, 0, 0));
+
+    const data = StreakCalculator.calculateStreakData('c1', completed(...days(5, 12, '2025-03')));
+    expect(data.currentStreak).toBe(8);
+    expect(data.bestStreak).toBe(8);
+    expect(data.completionRate).toBe(100);
+  });
+
+  test('a streak runs through the fall-back day', () => {
+    // Clocks went back on November 2nd
+    expect(new Date(2025, 10, 1).getTimezoneOffset()).not.toBe(new Date(2025, 10, 3).getTimezoneOffset());
+    jest.useFakeTimers().setSystemTime(new Date(2025, 10, 5, 23, 30, 0));
+
+    const data = StreakCalculator.calculateStreakData('c1', completed(...days(1, 5, '2025-11')));
+    expect(data.currentStreak).toBe(5);
+    expect(data.bestStreak).toBe(5);
+  });
+});
+
+describe('isScheduledDay', () => {
+  test('every-N-day schedules repeat from their start date', () => {
+    const schedule: CommitmentSchedule = { type: 'everyNDays', interval: 3, startDate: '2025-01-01' };
+
+    expect(isScheduledDay(schedule, '2025-01-01')).toBe(true);
+    expect(isScheduledDay(schedule, '2025-01-04')).toBe(true);
+    expect(isScheduledDay(schedule, '2025-01-05')).toBe(false);
+    expect(isScheduledDay(schedule, '2024-12-29')).toBe(false);
+  });
+});
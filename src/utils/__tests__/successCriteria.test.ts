@@ -0,0 +1,102 @@
+/**
+ * Tests for success criteria
+ */
+
+import {
+  deriveConditionsStatus,
+  deriveRecordStatus,
+  describeCriteria,
+  formatConditionsProgress,
+  getRequiredConditions,
+  isValidCriteria,
+  meetsCriteria,
+  type SuccessCriteria,
+} from '../successCriteria';
+
+const AT_MOST_2000: SuccessCriteria = { operator: 'less_than', value: 2000 };
+const SEVEN_TO_NINE: SuccessCriteria = { operator: 'between', value: 7, valueMax: 9 };
+const MORNING_ROUTINE = ['Make bed', 'Drink water', 'Stretch', 'Journal', 'Meditate'];
+
+describe('meetsCriteria', () => {
+  test('bounds count as meeting the goal', () => {
+    expect(meetsCriteria({ operator: 'greater_than', value: 8 }, 8)).toBe(true);
+    expect(meetsCriteria({ operator: 'greater_than', value: 8 }, 7.5)).toBe(false);
+    expect(meetsCriteria(AT_MOST_2000, 2000)).toBe(true);
+    expect(meetsCriteria(AT_MOST_2000, 2001)).toBe(false);
+    expect(meetsCriteria(SEVEN_TO_NINE, 7)).toBe(true);
+    expect(meetsCriteria(SEVEN_TO_NINE, 9)).toBe(true);
+    expect(meetsCriteria(SEVEN_TO_NINE, 9.5)).toBe(false);
+  });
+
+  test('exact goals tolerate decimal rounding', () => {
+    expect(meetsCriteria({ operator: 'equal_to', value: 0.3 }, 0.1 + 0.2)).toBe(true);
+    expect(meetsCriteria({ operator: 'equal_to', value: 0.3 }, 0.31)).toBe(false);
+  });
+});
+
+describe('deriveRecordStatus', () => {
+  test('a value decides completed or failed', () => {
+    expect(deriveRecordStatus(AT_MOST_2000, 'none', 1850)).toBe('completed');
+    expect(deriveRecordStatus(AT_MOST_2000, 'completed', 2400)).toBe('failed');
+  });
+
+  test('skipping always wins', () => {
+    expect(deriveRecordStatus(AT_MOST_2000, 'skipped', 1850)).toBe('skipped');
+  });
+
+  test('without a value or criteria the picked status stands', () => {
+    expect(deriveRecordStatus(AT_MOST_2000, 'failed', undefined)).toBe('failed');
+    expect(deriveRecordStatus(AT_MOST_2000, 'none', NaN)).toBe('none');
+    expect(deriveRecordStatus(null, 'none', 1850)).toBe('none');
+    expect(deriveRecordStatus({ operator: 'between', value: 9, valueMax: 7 }, 'none', 8)).toBe('none');
+  });
+});
+
+describe('isValidCriteria', () => {
+  test('between needs an upper bound at or above the lower one', () => {
+    expect(isValidCriteria(SEVEN_TO_NINE)).toBe(true);
+    expect(isValidCriteria({ operator: 'between', value: 7 })).toBe(false);
+    expect(isValidCriteria({ operator: 'greater_than', value: NaN })).toBe(false);
+  });
+});
+
+describe('describeCriteria', () => {
+  test('reads as a short goal', () => {
+    expect(describeCriteria(AT_MOST_2000, 'kcal')).toBe('≤ 2000 kcal');
+    expect(describeCriteria(SEVEN_TO_NINE, 'hours')).toBe('7–9 hours');
+    expect(describeCriteria({ operator: 'greater_than', value: 4 })).toBe('≥ 4');
+  });
+});
+
+describe('N-of-M conditions', () => {
+  test('enough checked requirements complete the day', () => {
+    expect(deriveConditionsStatus(MORNING_ROUTINE, 3, 'none', ['Make bed', 'Stretch', 'Journal'])).toBe('completed');
+    expect(deriveConditionsStatus(MORNING_ROUTINE, 3, 'failed', MORNING_ROUTINE)).toBe('completed');
+  });
+
+  test('a partial day stays open', () => {
+    expect(deriveConditionsStatus(MORNING_ROUTINE, 3, 'completed', ['Make bed', 'Stretch'])).toBe('none');
+    expect(deriveConditionsStatus(MORNING_ROUTINE, 3, 'failed', ['Make bed'])).toBe('failed');
+    expect(deriveConditionsStatus(MORNING_ROUTINE, 3, 'skipped', MORNING_ROUTINE)).toBe('skipped');
+  });
+
+  test('labels that are no longer requirements do not count', () => {
+    expect(deriveConditionsStatus(MORNING_ROUTINE, 2, 'none', ['Make bed', 'Run'])).toBe('none');
+  });
+
+  test('without a rule the picked status stands', () => {
+    expect(deriveConditionsStatus(MORNING_ROUTINE, null, 'none', MORNING_ROUTINE)).toBe('none');
+  });
+
+  test('the required count is clamped to the current requirements', () => {
+    expect(getRequiredConditions(['Make bed', 'Stretch'], 3)).toBe(2);
+    expect(getRequiredConditions([], 3)).toBeNull();
+  });
+
+  test('grid cells show progress only while the day is open', () => {
+    expect(formatConditionsProgress(MORNING_ROUTINE, 3, 'none', ['Make bed', 'Stretch'])).toBe('2/3');
+    expect(formatConditionsProgress(MORNING_ROUTINE, 3, 'none', [])).toBe('');
+    expect(formatConditionsProgress(MORNING_ROUTINE, 3, 'completed', MORNING_ROUTINE)).toBe('');
+    expect(formatConditionsProgress(MORNING_ROUTINE, null, 'none', ['Make bed'])).toBe('');
+  });
+});
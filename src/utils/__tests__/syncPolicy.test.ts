@@ -0,0 +1,41 @@
+/**
+ * Tests for network- and activity-aware sync scheduling
+ */
+
+import {
+  BASE_PULL_INTERVAL_MS,
+  MIN_PULL_INTERVAL_MS,
+  MAX_PULL_INTERVAL_MS,
+  isMeteredConnection,
+  nextPullInterval,
+} from '../syncPolicy';
+
+describe('isMeteredConnection', () => {
+  test('treats cellular as metered and everything else as free', () => {
+    expect(isMeteredConnection('cellular')).toBe(true);
+    expect(isMeteredConnection('wifi')).toBe(false);
+    expect(isMeteredConnection('ethernet')).toBe(false);
+    expect(isMeteredConnection(null)).toBe(false);
+  });
+});
+
+describe('nextPullInterval', () => {
+  test('backs off while pulls come back empty, up to the maximum', () => {
+    const idle = { pulledChanges: false, pushedEdits: false };
+
+    expect(nextPullInterval(BASE_PULL_INTERVAL_MS, idle)).toBe(BASE_PULL_INTERVAL_MS * 2);
+    expect(nextPullInterval(BASE_PULL_INTERVAL_MS * 4, idle)).toBe(MAX_PULL_INTERVAL_MS);
+    expect(nextPullInterval(MAX_PULL_INTERVAL_MS, idle)).toBe(MAX_PULL_INTERVAL_MS);
+  });
+
+  test('speeds up to the minimum after local edits', () => {
+    expect(nextPullInterval(MAX_PULL_INTERVAL_MS, { pulledChanges: false, pushedEdits: true })).toBe(MIN_PULL_INTERVAL_MS);
+  });
+
+  test('returns to the base interval once remote changes show up again', () => {
+    const changed = { pulledChanges: true, pushedEdits: false };
+
+    expect(nextPullInterval(MAX_PULL_INTERVAL_MS, changed)).toBe(BASE_PULL_INTERVAL_MS);
+    expect(nextPullInterval(MIN_PULL_INTERVAL_MS, changed)).toBe(MIN_PULL_INTERVAL_MS);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Exponential backoff with full jitter for sync retries
+ * Spreads retries from many devices so a recovering backend isn't hit in lockstep
+ */
+
+export interface BackoffOptions {
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  random?: () => number; // Injectable for deterministic tests
+}
+
+const DEFAULT_BASE_DELAY_MS = 5000; // 5 seconds
+const DEFAULT_MAX_DELAY_MS = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * Delay before the next attempt, given how many attempts have already failed
+ * Uses "full jitter": a random delay between 0 and min(max, base * 2^(attempt - 1))
+ */
+export function computeBackoffDelay(failedAttempts: number, options: BackoffOptions = {}): number {
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const random = options.random ?? Math.random;
+
+  const exponent = Math.max(0, failedAttempts - 1);
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, exponent));
+
+  // Never schedule sooner than the base delay so a hard failure can't spin
+  return Math.max(baseDelayMs, Math.round(random() * ceiling));
+}
+
+/**
+ * ISO timestamp of the next allowed attempt
+ */
+export function computeNextAttemptAt(
+  failedAttempts: number,
+  now: number = Date.now(),
+  options: BackoffOptions = {}
+): string {
+  return new Date(now + computeBackoffDelay(failedAttempts, options)).toISOString();
+}
+
+/**
+ * Whether an item with the given nextAttemptAt may be attempted now
+ */
+export function isReadyForAttempt(nextAttemptAt: string | null | undefined, now: number = Date.now()): boolean {
+  if (!nextAttemptAt) return true;
+  return new Date(nextAttemptAt).getTime() <= now;
+}
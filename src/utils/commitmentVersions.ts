@@ -0,0 +1,49 @@
+/**
+ * Commitment versions - settings edited "going forward" from a day
+ * The commitment itself holds the version in force now; earlier versions are kept on it so each
+ * day is read and judged by the settings that applied on that day (see migration 025).
+ */
+
+import type { Commitment, CommitmentVersion } from '@/store/slices/commitmentsSlice';
+
+// Settings that read or judge a day's record - the rest (title, colour, schedule...) apply to every day
+export const VERSIONED_FIELDS = [
+  'target',
+  'unit',
+  'requirements',
+  'ratingRange',
+  'entryAggregate',
+  'successCriteria',
+  'requiredConditions',
+] as const;
+
+export type VersionedField = typeof VERSIONED_FIELDS[number];
+export type CommitmentVersionSettings = Pick<Commitment, VersionedField>;
+
+/**
+ * Whether a commitments row is an earlier version rather than a commitment
+ * Earlier versions point at their commitment through lineage_id; commitments point at themselves (or nothing).
+ */
+export function isCommitmentVersionRow(row: { id: string; lineage_id?: string | null }): boolean {
+  return Boolean(row.lineage_id) && row.lineage_id !== row.id;
+}
+
+export function getVersionSettings(source: CommitmentVersionSettings): CommitmentVersionSettings {
+  return Object.fromEntries(VERSIONED_FIELDS.map(field => [field, source[field]])) as CommitmentVersionSettings;
+}
+
+/**
+ * The commitment as it was on a day - its settings replaced by the version in force then
+ * Days before the first version follow the first version.
+ */
+export function getVersionForDate<T extends { effectiveFrom?: string | null; versions?: CommitmentVersion[] }>(
+  commitment: T,
+  date: string
+): T {
+  const { effectiveFrom, versions } = commitment;
+  if (!versions?.length || !effectiveFrom || date >= effectiveFrom) return commitment;
+
+  const newestFirst = [...versions].sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+  const version = newestFirst.find(v => v.effectiveFrom <= date) ?? newestFirst[newestFirst.length - 1];
+  return { ...commitment, ...getVersionSettings(version) };
+}
@@ -0,0 +1,96 @@
+/**
+ * Duration commitments - measurements whose unit is a time unit
+ * Record values stay in the commitment's unit (e.g. 25.5 for 25m30s of a "minute" commitment),
+ * so existing time-unit measurements become duration commitments without rewriting their records.
+ */
+
+export type DurationUnit = 'second' | 'minute' | 'hour';
+
+// Units as normalizeUnit stores them, plus plurals from before units were normalized
+const UNIT_ALIASES: Record<string, DurationUnit> = {
+  second: 'second',
+  seconds: 'second',
+  sec: 'second',
+  secs: 'second',
+  minute: 'minute',
+  minutes: 'minute',
+  min: 'minute',
+  mins: 'minute',
+  hour: 'hour',
+  hours: 'hour',
+  hr: 'hour',
+  hrs: 'hour',
+};
+
+const SECONDS_PER_UNIT: Record<DurationUnit, number> = {
+  second: 1,
+  minute: 60,
+  hour: 3600,
+};
+
+/**
+ * The duration unit a commitment is measured in - null when it isn't a duration commitment
+ */
+export function getDurationUnit(unit?: string | null): DurationUnit | null {
+  if (!unit) return null;
+  return UNIT_ALIASES[unit.trim().toLowerCase()] ?? null;
+}
+
+export function toSeconds(value: number, unit: DurationUnit): number {
+  return value * SECONDS_PER_UNIT[unit];
+}
+
+export function fromSeconds(seconds: number, unit: DurationUnit): number {
+  return seconds / SECONDS_PER_UNIT[unit];
+}
+
+/**
+ * h:mm:ss, or m:ss under an hour - e.g. "1:05:30", "25:00"
+ */
+export function formatDuration(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = String(seconds % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}`
+    : `${minutes}:${secs}`;
+}
+
+/**
+ * Parse "h:mm:ss" or "m:ss" into seconds - a bare number is read in the commitment's unit
+ * Returns null when the text isn't a duration.
+ */
+export function parseDuration(text: string, unit: DurationUnit): number | null {
+  const trimmed = text.trim();
+  if (trimmed === '') return null;
+
+  if (!trimmed.includes(':')) {
+    const value = Number(trimmed);
+    return Number.isFinite(value) && value >= 0 ? toSeconds(value, unit) : null;
+  }
+
+  const parts = trimmed.split(':');
+  if (parts.length > 3 || parts.some(part => !/^\d+$/.test(part))) return null;
+
+  const [first, ...rest] = parts.map(Number);
+  // Only the leading part may exceed 59
+  if (rest.some(part => part > 59)) return null;
+
+  return rest.reduce((total, part) => total * 60 + part, first);
+}
+
+/**
+ * Compact form for grid cells - "45s", "25m", "1.5h", "12h"
+ */
+export function formatDurationForGrid(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+
+  const hours = seconds / 3600;
+  if (hours >= 10 || Number.isInteger(hours)) return `${Math.floor(hours)}h`;
+  return `${Math.floor(hours * 10) / 10}h`;
+}
@@ -0,0 +1,96 @@
+/**
+ * Per-field last-writer-wins merge of a pulled server row with local edits that haven't synced yet
+ * Server rows carry `field_updated_at` (column → last change); local edits carry the time they were made
+ */
+
+export interface PendingEdit {
+  actionId: string;
+  values: Record<string, unknown> | null; // Columns written locally - null for a delete
+  editedAt: string;
+  baseSyncAt: string | null; // Pull cursor when the edit was made - server changes after it weren't seen
+}
+
+export interface FieldConflict {
+  edit: PendingEdit;
+  columns: string[]; // Empty for a delete
+  serverEditedAt: string;
+  winner: 'local' | 'server';
+}
+
+export interface FieldMergeResult {
+  row: Record<string, any> | null; // null when a local delete stands
+  superseded: PendingEdit[]; // Local edits the server overruled - drop them from the queue
+  conflicts: FieldConflict[]; // Both sides changed the same field since the edit's base
+}
+
+const toTime = (iso: string | null | undefined) => (iso ? new Date(iso).getTime() : 0);
+
+// Columns hold scalars, arrays (requirements) and small objects (rating_range, value)
+const valuesEqual = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * When a column last changed on the server - rows created but never updated only have updated_at
+ */
+export function getColumnEditedAt(row: Record<string, any>, column: string): string {
+  return row.field_updated_at?.[column] ?? row.updated_at ?? row.created_at;
+}
+
+/**
+ * Merge pending local edits into a server row
+ * Fields the server changed since an edit's base are concurrent: the later write wins and a conflict is reported.
+ * Otherwise the local edit simply hasn't reached the server yet and is kept.
+ */
+export function mergePendingEdits(serverRow: Record<string, any>, edits: PendingEdit[]): FieldMergeResult {
+  let row: Record<string, any> | null = { ...serverRow };
+  const superseded: PendingEdit[] = [];
+  const conflicts: FieldConflict[] = [];
+
+  // Oldest first so a later local edit of the same field overrides an earlier one
+  const ordered = [...edits].sort((a, b) => toTime(a.editedAt) - toTime(b.editedAt));
+
+  for (const edit of ordered) {
+    const baseTime = toTime(edit.baseSyncAt ?? edit.editedAt);
+
+    if (edit.values === null) {
+      const serverEditedAt = serverRow.updated_at ?? serverRow.created_at;
+      if (toTime(serverEditedAt) <= baseTime) {
+        row = null;
+        continue;
+      }
+
+      // Deleted here, edited on another device
+      const winner = toTime(serverEditedAt) > toTime(edit.editedAt) ? 'server' : 'local';
+      conflicts.push({ edit, columns: [], serverEditedAt, winner });
+      if (winner === 'server') {
+        superseded.push(edit);
+        row = { ...serverRow };
+      } else {
+        row = null;
+      }
+      continue;
+    }
+
+    const base = row ?? serverRow;
+    const columns = Object.keys(edit.values).filter(column => !valuesEqual(base[column], edit.values![column]));
+    if (columns.length === 0) continue;
+
+    const serverEditedAt = columns
+      .map(column => getColumnEditedAt(serverRow, column))
+      .reduce((latest, editedAt) => (toTime(editedAt) > toTime(latest) ? editedAt : latest));
+    const concurrent = toTime(serverEditedAt) > baseTime;
+    const winner = concurrent && toTime(serverEditedAt) > toTime(edit.editedAt) ? 'server' : 'local';
+
+    if (concurrent) {
+      conflicts.push({ edit, columns, serverEditedAt, winner });
+    }
+
+    if (winner === 'local') {
+      row = { ...base, ...edit.values };
+    } else {
+      superseded.push(edit);
+      row = { ...base, ...Object.fromEntries(columns.map(column => [column, serverRow[column]])) };
+    }
+  }
+
+  return { row, superseded, conflicts };
+}
@@ -0,0 +1,88 @@
+/**
+ * Planned skips - days marked skipped ahead of time, for one commitment or all of them ("vacation mode")
+ * A planned skip is a 'skipped' record flagged isFuturePrefill, so streaks treat it like any skip.
+ * It only stands in for the day: logging real data replaces it (see migration 026).
+ */
+
+import { addDays, daysBetween, isScheduledDay, normalizeSchedule, type CommitmentSchedule } from './schedule';
+
+// Longest range that can be planned in one go
+export const MAX_PLANNED_SKIP_DAYS = 90;
+
+interface PlannableCommitment {
+  id: string;
+  schedule?: CommitmentSchedule | null;
+}
+
+interface PlannableRecord {
+  commitmentId: string;
+  date: string;
+  isFuturePrefill?: boolean;
+}
+
+export interface PlannedDay {
+  commitmentId: string;
+  date: string;
+}
+
+export function isPlannedSkip(record?: PlannableRecord | null): boolean {
+  return Boolean(record?.isFuturePrefill);
+}
+
+/**
+ * Why a range can't be planned - null when it can
+ */
+export function validatePlannedRange(startDate: string, endDate: string, today: string): string | null {
+  const isDate = (date: string) => /^\d{4}-\d{2}-\d{2}$/.test(date);
+  if (!isDate(startDate) || !isDate(endDate)) return 'Enter dates as YYYY-MM-DD.';
+  if (startDate < today) return 'Skips can only be planned from today on.';
+  if (endDate < startDate) return 'The last day must be on or after the first day.';
+  if (daysBetween(startDate, endDate) + 1 > MAX_PLANNED_SKIP_DAYS) {
+    return `Plan at most ${MAX_PLANNED_SKIP_DAYS} days at a time.`;
+  }
+  return null;
+}
+
+/**
+ * Days to mark skipped for each commitment in the range
+ * Days off a commitment's schedule aren't asked for, and days already logged are left alone.
+ */
+export function getPlannedSkipDays(
+  commitments: PlannableCommitment[],
+  records: PlannableRecord[],
+  startDate: string,
+  endDate: string
+): PlannedDay[] {
+  const logged = new Set(
+    records.filter(record => !isPlannedSkip(record)).map(record => `${record.commitmentId}_${record.date}`)
+  );
+
+  const days: PlannedDay[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    commitments.forEach(commitment => {
+      if (!isScheduledDay(normalizeSchedule(commitment.schedule), date)) return;
+      if (logged.has(`${commitment.id}_${date}`)) return;
+      days.push({ commitmentId: commitment.id, date });
+    });
+  }
+  return days;
+}
+
+/**
+ * Planned skips in the range for the given commitments - what cancelling the plan removes
+ */
+export function getPlannedSkipsInRange(
+  commitmentIds: string[],
+  records: PlannableRecord[],
+  startDate: string,
+  endDate: string
+): PlannedDay[] {
+  return records
+    .filter(record =>
+      isPlannedSkip(record) &&
+      commitmentIds.includes(record.commitmentId) &&
+      record.date >= startDate &&
+      record.date <= endDate
+    )
+    .map(({ commitmentId, date }) => ({ commitmentId, date }));
+}
@@ -0,0 +1,58 @@
+/**
+ * Timestamped entries for counter habits - logged one at a time, many per day
+ * The day's record keeps the entries alongside its value, which is their aggregate, so grids,
+ * goals and streaks read the value as before. The server recomputes it too (see migration 024).
+ */
+
+export type EntryAggregate = 'sum' | 'max' | 'last';
+
+export interface RecordEntry {
+  id: string;
+  value: number;
+  at: string; // ISO timestamp of when it was logged
+}
+
+export const ENTRY_AGGREGATE_LABELS: Record<EntryAggregate, string> = {
+  sum: 'Total',
+  max: 'Highest',
+  last: 'Latest',
+};
+
+/**
+ * The day value for a set of entries - undefined when there are none
+ */
+export function aggregateEntries(entries: RecordEntry[] | null | undefined, aggregate: EntryAggregate): number | undefined {
+  if (!entries?.length) return undefined;
+
+  switch (aggregate) {
+    case 'max':
+      return Math.max(...entries.map(entry => entry.value));
+    case 'last':
+      return [...entries].sort((a, b) => a.at.localeCompare(b.at))[entries.length - 1].value;
+    default:
+      return entries.reduce((total, entry) => total + entry.value, 0);
+  }
+}
+
+export function addEntry(entries: RecordEntry[] | null | undefined, value: number, at: string = new Date().toISOString()): RecordEntry[] {
+  const id = `entry-${Date.parse(at)}-${Math.random().toString(36).slice(2, 8)}`;
+  return [...(entries || []), { id, value, at }];
+}
+
+export function removeEntry(entries: RecordEntry[] | null | undefined, entryId: string): RecordEntry[] {
+  return (entries || []).filter(entry => entry.id !== entryId);
+}
+
+/**
+ * Entries from a record row - anything that isn't a well-formed entry is dropped
+ */
+export function toRecordEntries(value: unknown): RecordEntry[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value.filter((entry): entry is RecordEntry =>
+    Boolean(entry) &&
+    typeof entry.id === 'string' &&
+    typeof entry.value === 'number' &&
+    Number.isFinite(entry.value) &&
+    typeof entry.at === 'string'
+  );
+}
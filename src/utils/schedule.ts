@@ -0,0 +1,122 @@
+/**
+ * Commitment schedules - which days a commitment asks for, and how often
+ * A commitment without a schedule is daily.
+ */
+
+import { parseLocalISODate, toLocalISODate } from './timeUtils';
+
+export type CommitmentSchedule =
+  | { type: 'daily' }
+  | { type: 'weekdays'; days: number[] } // 0 = Sunday … 6 = Saturday
+  | { type: 'timesPerWeek'; times: number }
+  | { type: 'timesPerMonth'; times: number }
+  | { type: 'everyNDays'; interval: number; startDate: string }; // startDate: first scheduled day, YYYY-MM-DD
+
+// Quota schedules: any day counts, as long as enough days in the week/month are completed
+export type PeriodSchedule = Extract<CommitmentSchedule, { type: 'timesPerWeek' | 'timesPerMonth' }>;
+
+export const DAILY_SCHEDULE: CommitmentSchedule = { type: 'daily' };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * The schedule to evaluate against - missing or malformed schedules fall back to daily
+ */
+export function normalizeSchedule(schedule?: CommitmentSchedule | null): CommitmentSchedule {
+  if (!schedule) return DAILY_SCHEDULE;
+
+  switch (schedule.type) {
+    case 'weekdays':
+      return schedule.days?.length ? schedule : DAILY_SCHEDULE;
+    case 'timesPerWeek':
+    case 'timesPerMonth':
+      return schedule.times >= 1 ? schedule : DAILY_SCHEDULE;
+    case 'everyNDays':
+      return schedule.interval >= 1 && Boolean(schedule.startDate) ? schedule : DAILY_SCHEDULE;
+    default:
+      return DAILY_SCHEDULE;
+  }
+}
+
+export function isPeriodSchedule(schedule: CommitmentSchedule): schedule is PeriodSchedule {
+  return schedule.type === 'timesPerWeek' || schedule.type === 'timesPerMonth';
+}
+
+/**
+ * Shift a YYYY-MM-DD date by whole days (local time, so DST changes don't skip or repeat a day)
+ */
+export function addDays(date: string, days: number): string {
+  const result = parseLocalISODate(date);
+  result.setDate(result.getDate() + days);
+  return toLocalISODate(result);
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseLocalISODate(to).getTime() - parseLocalISODate(from).getTime()) / DAY_MS);
+}
+
+/**
+ * Whether the schedule asks for the commitment on this day
+ * Quota schedules accept any day.
+ */
+export function isScheduledDay(schedule: CommitmentSchedule, date: string): boolean {
+  switch (schedule.type) {
+    case 'weekdays':
+      return schedule.days.includes(parseLocalISODate(date).getDay());
+    case 'everyNDays': {
+      const offset = daysBetween(schedule.startDate, date);
+      return offset >= 0 && offset % schedule.interval === 0;
+    }
+    default:
+      return true;
+  }
+}
+
+/**
+ * First and last day of the week or month containing the date
+ * Weeks run Monday to Sunday.
+ */
+export function getPeriodBounds(schedule: PeriodSchedule, date: string): { start: string; end: string } {
+  const day = parseLocalISODate(date);
+
+  if (schedule.type === 'timesPerWeek') {
+    const sinceMonday = (day.getDay() + 6) % 7;
+    const start = addDays(date, -sinceMonday);
+    return { start, end: addDays(start, 6) };
+  }
+
+  const start = new Date(day.getFullYear(), day.getMonth(), 1);
+  const end = new Date(day.getFullYear(), day.getMonth() + 1, 0);
+  return { start: toLocalISODate(start), end: toLocalISODate(end) };
+}
+
+/**
+ * Average period length in days, for spreading a quota over an arbitrary window
+ */
+export function getPeriodLengthDays(schedule: PeriodSchedule): number {
+  return schedule.type === 'timesPerWeek' ? 7 : 365.25 / 12;
+}
+
+/**
+ * Short human-readable form, e.g. "Mon, Wed, Fri" or "3× a week"
+ */
+export function describeSchedule(schedule?: CommitmentSchedule | null): string {
+  const normalized = normalizeSchedule(schedule);
+
+  switch (normalized.type) {
+    case 'weekdays':
+      return [...normalized.days].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7)).map(day => WEEKDAY_LABELS[day]).join(', ');
+    case 'timesPerWeek':
+      return `${normalized.times}× a week`;
+    case 'timesPerMonth':
+      return `${normalized.times}× a month`;
+    case 'everyNDays':
+      return normalized.interval === 1 ? 'Every day' : `Every ${normalized.interval} days`;
+    default:
+      return 'Every day';
+  }
+}
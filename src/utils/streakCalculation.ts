@@ -1,5 +1,16 @@
 import { DayRecord } from '@/store/slices/recordsSlice';
-import { getTodayISO, toLocalISODate, parseLocalISODate } from './timeUtils';
+import { getTodayISO, toLocalISODate } from './timeUtils';
+import {
+  addDays,
+  daysBetween,
+  getPeriodBounds,
+  getPeriodLengthDays,
+  isPeriodSchedule,
+  isScheduledDay,
+  normalizeSchedule,
+  type CommitmentSchedule,
+  type PeriodSchedule,
+} from './schedule';
 
 export interface StreakData {
   currentStreak: number;
@@ -9,20 +20,57 @@ export interface StreakData {
   lastCompletionDate?: string;
 }
 
+/**
+ * Streak state the server keeps for a commitment (commitment_streaks)
+ * The run is evaluated through `asOfDate`; days after it are walked on the device.
+ */
+export interface CachedStreak {
+  currentStreak: number;
+  bestStreak: number;
+  asOfDate: string | null;
+}
+
+/**
+ * What the streak rules need to know about the commitment
+ * History starts on the day it was created (or its earliest record, if that's older).
+ */
+export interface StreakContext {
+  schedule?: CommitmentSchedule | null;
+  createdAt?: string;
+  streakCache?: CachedStreak | null;
+}
+
+// Current and best run from one pass over the history
+interface StreakRun {
+  currentStreak: number;
+  bestStreak: number;
+}
+
+/**
+ * Current and best streaks follow the same rules for each day (or, for quota schedules, each week/month):
+ * - completed: extends the streak
+ * - skipped: neutral - neither extends nor breaks it
+ * - failed, 'none' or no record: breaks it - this includes days spent archived
+ * - today, until it's completed or marked failed: neutral
+ * Days the schedule doesn't ask for, and days before history starts, are not counted at all.
+ */
 export class StreakCalculator {
   /**
    * Calculate comprehensive streak data for a commitment
+   * Streaks and completion rate are measured against the commitment's schedule (daily when none)
    */
   static calculateStreakData(
     commitmentId: string, 
     records: DayRecord[], 
-    daysToAnalyze: number = 30
+    daysToAnalyze: number = 30,
+    context: StreakContext = {}
   ): StreakData {
-    const commitmentRecords = records
-      .filter(record => record.commitmentId === commitmentId && record.status === 'completed')
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    const commitmentRecords = records.filter(record => record.commitmentId === commitmentId);
+    const completedRecords = commitmentRecords
+      .filter(record => record.status === 'completed')
+      .sort((a, b) => b.date.localeCompare(a.date));
 
-    if (commitmentRecords.length === 0) {
+    if (completedRecords.length === 0) {
       return {
         currentStreak: 0,
         bestStreak: 0,
@@ -32,102 +80,176 @@ export class StreakCalculator {
     }
 
     const todayISO = getTodayISO();
-    const today = parseLocalISODate(todayISO);
+    const schedule = normalizeSchedule(context.schedule);
+    const statusByDate = new Map(commitmentRecords.map(record => [record.date, record.status]));
+    const historyStart = this.getHistoryStart(commitmentRecords, context.createdAt);
 
-    // Calculate current streak
-    let currentStreak = 0;
-    let currentDate = new Date(today);
+    const { currentStreak, bestStreak } = isPeriodSchedule(schedule)
+      ? this.walkPeriods(statusByDate, schedule, historyStart, todayISO)
+      : this.walkDays(statusByDate, schedule, historyStart, todayISO);
 
-    // Check if today is completed
-    const todayRecord = commitmentRecords.find(
-      record => record.date === todayISO
-    );
+    const completionRate = this.calculateCompletionRate(statusByDate, schedule, historyStart, todayISO, daysToAnalyze);
 
-    // Start checking from today if completed, otherwise yesterday
-    if (!todayRecord) {
-      currentDate.setDate(currentDate.getDate() - 1);
-    }
+    return {
+      currentStreak,
+      bestStreak,
+      totalCompletions: completedRecords.length,
+      completionRate,
+      lastCompletionDate: completedRecords[0]?.date,
+    };
+  }
 
-    const oneYearAgo = new Date(today.getTime() - (365 * 24 * 60 * 60 * 1000));
-    while (currentDate.getTime() >= oneYearAgo.getTime()) {
-      const dateStr = toLocalISODate(currentDate);
-      const record = records.find(r => r.commitmentId === commitmentId && r.date === dateStr);
-      
-      if (record) {
-        if (record.status === 'completed') {
-          currentStreak++;
-        } else if (record.status === 'failed') {
-          // Failed days break the streak
-          break;
-        } else if (record.status === 'skipped') {
-          // Skipped days don't affect the streak, continue checking
-          // Don't increment streak, but don't break it either
-        } else {
-          // No record or 'none' status - break the streak
-          break;
-        }
-      } else {
-        // No record for this date - break the streak
-        break;
-      }
-      
-      currentDate.setDate(currentDate.getDate() - 1);
+  /**
+   * Current and best streak, continuing from the server's cached run when there is one
+   * The cache covers history the device hasn't loaded; only days after it are walked here.
+   */
+  static resolveStreak(
+    commitmentId: string,
+    records: DayRecord[],
+    context: StreakContext = {}
+  ): Pick<StreakData, 'currentStreak' | 'bestStreak'> {
+    const cache = context.streakCache;
+    if (!cache?.asOfDate) {
+      const { currentStreak, bestStreak } = this.calculateStreakData(commitmentId, records, 30, context);
+      return { currentStreak, bestStreak: Math.max(bestStreak, cache?.bestStreak ?? 0) };
     }
 
-    // Calculate best streak
-    const bestStreak = this.calculateBestStreak(commitmentRecords);
+    const commitmentRecords = records.filter(record => record.commitmentId === commitmentId);
+    const statusByDate = new Map(commitmentRecords.map(record => [record.date, record.status]));
+    const schedule = normalizeSchedule(context.schedule);
+    // The cache already covers the history before it, whatever records the device has
+    const resumeFrom = addDays(cache.asOfDate, 1);
+    const createdDate = context.createdAt ? this.toLocalDate(context.createdAt) : null;
+    const from = createdDate && createdDate > resumeFrom ? createdDate : resumeFrom;
+    const seed = { currentStreak: cache.currentStreak, bestStreak: cache.bestStreak };
 
-    // Calculate completion rate over specified days
-    const startAnalysisDate = new Date(today);
-    startAnalysisDate.setDate(startAnalysisDate.getDate() - daysToAnalyze);
-    
-    const recentRecords = commitmentRecords.filter(
-      record => new Date(record.date) >= startAnalysisDate
+    return isPeriodSchedule(schedule)
+      ? this.walkPeriods(statusByDate, schedule, from, getTodayISO(), seed)
+      : this.walkDays(statusByDate, schedule, from, getTodayISO(), seed);
+  }
+
+  /**
+   * First day of the commitment's history, as a local YYYY-MM-DD date
+   */
+  private static getHistoryStart(commitmentRecords: DayRecord[], createdAt?: string): string {
+    const earliestRecord = commitmentRecords.reduce<string | null>(
+      (earliest, record) => (earliest === null || record.date < earliest ? record.date : earliest),
+      null
     );
-    
-    const completionRate = recentRecords.length > 0 
-      ? Math.round((recentRecords.length / daysToAnalyze) * 100) 
-      : 0;
+    const createdDate = createdAt ? this.toLocalDate(createdAt) : null;
 
-    return {
-      currentStreak,
-      bestStreak,
-      totalCompletions: commitmentRecords.length,
-      completionRate,
-      lastCompletionDate: commitmentRecords[0]?.date,
-    };
+    if (createdDate && earliestRecord) return createdDate < earliestRecord ? createdDate : earliestRecord;
+    return createdDate || earliestRecord || getTodayISO();
+  }
+
+  // Timestamps are converted to the local day; plain dates are used as they are
+  private static toLocalDate(value: string): string {
+    return /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : toLocalISODate(new Date(value));
   }
 
   /**
-   * Calculate the best streak from historical data
+   * Day-based schedules: a run is the scheduled days completed in a row
+   * Days the schedule doesn't ask for are passed over, so a Mon/Wed/Fri habit isn't broken on Tuesday.
    */
-  private static calculateBestStreak(sortedRecords: DayRecord[]): number {
-    if (sortedRecords.length === 0) return 0;
+  private static walkDays(
+    statusByDate: Map<string, string>,
+    schedule: CommitmentSchedule,
+    historyStart: string,
+    todayISO: string,
+    seed: StreakRun = { currentStreak: 0, bestStreak: 0 }
+  ): StreakRun {
+    let run = seed.currentStreak;
+    let bestStreak = seed.bestStreak;
 
-    let bestStreak = 0;
-    let currentBestStreak = 1;
-    
-    // Convert dates to timestamps for easier comparison
-    const recordDates = sortedRecords
-      .map(record => new Date(record.date).getTime())
-      .sort((a, b) => a - b); // Sort ascending for streak calculation
-
-    for (let i = 1; i < recordDates.length; i++) {
-      const currentDate = recordDates[i];
-      const previousDate = recordDates[i - 1];
-      const daysDifference = (currentDate - previousDate) / (24 * 60 * 60 * 1000);
-
-      if (daysDifference === 1) {
-        // Consecutive day
-        currentBestStreak++;
+    for (let date = historyStart; date <= todayISO; date = addDays(date, 1)) {
+      if (!isScheduledDay(schedule, date)) continue;
+
+      const status = statusByDate.get(date);
+      if (status === 'completed') {
+        run++;
+        bestStreak = Math.max(bestStreak, run);
+      } else if (status === 'skipped' || (date === todayISO && status !== 'failed')) {
+        // Neutral - today still has time to be completed
+        continue;
       } else {
-        // Gap in streak
-        bestStreak = Math.max(bestStreak, currentBestStreak);
-        currentBestStreak = 1;
+        run = 0;
       }
     }
 
-    return Math.max(bestStreak, currentBestStreak);
+    return { currentStreak: run, bestStreak };
+  }
+
+  /**
+   * Quota schedules: a run is the completions across consecutive weeks/months that met the quota
+   * Skipped days, and days before history starts, come off the period - the quota shrinks to the
+   * days that are left, and a period with none left is neutral. The period in progress adds to the
+   * run once its quota is met, and never breaks it before it ends.
+   */
+  private static walkPeriods(
+    statusByDate: Map<string, string>,
+    schedule: PeriodSchedule,
+    historyStart: string,
+    todayISO: string,
+    seed: StreakRun = { currentStreak: 0, bestStreak: 0 }
+  ): StreakRun {
+    let run = seed.currentStreak;
+    let bestStreak = seed.bestStreak;
+    let { start, end } = getPeriodBounds(schedule, historyStart);
+
+    while (start <= todayISO) {
+      const inProgress = end >= todayISO;
+      let completed = 0;
+      let available = 0;
+
+      const from = start > historyStart ? start : historyStart;
+      for (let date = from; date <= end; date = addDays(date, 1)) {
+        const status = statusByDate.get(date);
+        if (status === 'completed') completed++;
+        if (status !== 'skipped') available++;
+      }
+
+      const required = Math.min(schedule.times, available);
+      if (required > 0 && completed >= required) {
+        run += completed;
+        bestStreak = Math.max(bestStreak, run);
+      } else if (required > 0 && !inProgress) {
+        run = 0;
+      }
+
+      ({ start, end } = getPeriodBounds(schedule, addDays(end, 1)));
+    }
+
+    return { currentStreak: run, bestStreak };
+  }
+
+  /**
+   * Percentage of what the schedule asked for over the last `daysToAnalyze` days
+   * Only days since history started count, and skipped days aren't asked for.
+   */
+  private static calculateCompletionRate(
+    statusByDate: Map<string, string>,
+    schedule: CommitmentSchedule,
+    historyStart: string,
+    todayISO: string,
+    daysToAnalyze: number
+  ): number {
+    const windowStart = addDays(todayISO, -(daysToAnalyze - 1));
+    const startDate = windowStart > historyStart ? windowStart : historyStart;
+
+    let completed = 0;
+    let expectedDays = 0;
+    for (let date = startDate; date <= todayISO; date = addDays(date, 1)) {
+      const status = statusByDate.get(date);
+      if (status === 'skipped' || !isScheduledDay(schedule, date)) continue;
+      expectedDays++;
+      if (status === 'completed') completed++;
+    }
+
+    const expected = isPeriodSchedule(schedule)
+      ? schedule.times * expectedDays / getPeriodLengthDays(schedule)
+      : expectedDays;
+
+    return expected > 0 ? Math.min(100, Math.round((completed / expected) * 100)) : 0;
   }
 
   /**
@@ -155,11 +277,14 @@ export class StreakCalculator {
 
   /**
    * Check if streak is at risk (no completion today and it's after a certain time)
+   * Only days the schedule asks for are at risk; for quota schedules, when the rest of
+   * the week/month has no room left to skip today
    */
   static isStreakAtRisk(
     commitmentId: string, 
     records: DayRecord[], 
-    riskHour: number = 18
+    riskHour: number = 18,
+    context: StreakContext = {}
   ): boolean {
     const now = new Date();
     const todayISO = getTodayISO();
@@ -174,10 +299,30 @@ export class StreakCalculator {
                record.date === todayISO &&
                record.status === 'completed'
     );
+    if (todayRecord) {
+      return false;
+    }
 
-    const streakData = this.calculateStreakData(commitmentId, records);
-    
-    return !todayRecord && streakData.currentStreak > 0;
+    const normalized = normalizeSchedule(context.schedule);
+    const streakData = this.calculateStreakData(commitmentId, records, 30, context);
+    if (streakData.currentStreak === 0) {
+      return false;
+    }
+
+    if (!isPeriodSchedule(normalized)) {
+      return isScheduledDay(normalized, todayISO);
+    }
+
+    const { start, end } = getPeriodBounds(normalized, todayISO);
+    const completedSoFar = records.filter(
+      record => record.commitmentId === commitmentId &&
+               record.status === 'completed' &&
+               record.date >= start && record.date <= todayISO
+    ).length;
+    const stillNeeded = normalized.times - completedSoFar;
+    const daysLeft = daysBetween(todayISO, end) + 1; // Including today
+
+    return stillNeeded > 0 && stillNeeded >= daysLeft;
   }
 
   /**
@@ -0,0 +1,133 @@
+/**
+ * Success criteria - thresholds that turn an entered value into completed/failed, and
+ * "N of M" conditions for multi-requirement commitments
+ * Stored as 'threshold' and 'conditions_list' rows in commitment_success_criteria; the server
+ * applies the same rules when a record is written (see migrations 022 and 023).
+ */
+
+import type { RecordStatus } from '@/store/slices/recordsSlice';
+
+export type CriteriaOperator = 'greater_than' | 'less_than' | 'equal_to' | 'between';
+
+export interface SuccessCriteria {
+  operator: CriteriaOperator;
+  value: number;
+  valueMax?: number | null; // Upper bound for 'between'
+  numericType?: 'integer' | 'decimal' | 'duration';
+}
+
+// Goals are met at the threshold itself - "at least 8 glasses" is met by 8
+const OPERATOR_SYMBOLS: Record<CriteriaOperator, string> = {
+  greater_than: '≥',
+  less_than: '≤',
+  equal_to: '=',
+  between: '–',
+};
+
+// Decimal inputs like 0.1 + 0.2 shouldn't miss an "exactly" goal
+const EQUALITY_TOLERANCE = 1e-9;
+
+export function isValidCriteria(criteria?: SuccessCriteria | null): criteria is SuccessCriteria {
+  if (!criteria || !Number.isFinite(criteria.value)) return false;
+  if (criteria.operator === 'between') {
+    return typeof criteria.valueMax === 'number' && Number.isFinite(criteria.valueMax) && criteria.valueMax >= criteria.value;
+  }
+  return ['greater_than', 'less_than', 'equal_to'].includes(criteria.operator);
+}
+
+/**
+ * Whether a value meets the criteria
+ */
+export function meetsCriteria(criteria: SuccessCriteria, value: number): boolean {
+  switch (criteria.operator) {
+    case 'greater_than':
+      return value >= criteria.value;
+    case 'less_than':
+      return value <= criteria.value;
+    case 'equal_to':
+      return Math.abs(value - criteria.value) < EQUALITY_TOLERANCE;
+    case 'between':
+      return value >= criteria.value && value <= (criteria.valueMax ?? criteria.value);
+    default:
+      return false;
+  }
+}
+
+/**
+ * The status to save for a day, given what the user picked and the value they entered
+ * A numeric value decides completed/failed when the commitment has criteria; skipping always wins,
+ * and without a value (or criteria) the picked status stands.
+ */
+export function deriveRecordStatus(
+  criteria: SuccessCriteria | null | undefined,
+  pickedStatus: RecordStatus,
+  value: unknown
+): RecordStatus {
+  if (pickedStatus === 'skipped' || !isValidCriteria(criteria)) return pickedStatus;
+  if (typeof value !== 'number' || !Number.isFinite(value)) return pickedStatus;
+
+  return meetsCriteria(criteria, value) ? 'completed' : 'failed';
+}
+
+/**
+ * Short human-readable form, e.g. "≤ 2000 kcal" or "7–9 hours"
+ */
+export function describeCriteria(criteria: SuccessCriteria, unit?: string): string {
+  const suffix = unit ? ` ${unit}` : '';
+  if (criteria.operator === 'between') {
+    return `${criteria.value}${OPERATOR_SYMBOLS.between}${criteria.valueMax}${suffix}`;
+  }
+  return `${OPERATOR_SYMBOLS[criteria.operator]} ${criteria.value}${suffix}`;
+}
+
+/**
+ * How many requirements a day needs - null when the commitment has no N-of-M rule
+ * Clamped to the current requirements, so removing one never makes the day impossible.
+ */
+export function getRequiredConditions(requirements?: string[] | null, requiredConditions?: number | null): number | null {
+  if (!requirements?.length || !requiredConditions || !Number.isFinite(requiredConditions)) return null;
+  return Math.min(Math.max(Math.floor(requiredConditions), 1), requirements.length);
+}
+
+/**
+ * Requirements checked off in a record value (the checked labels)
+ * Labels that are no longer requirements don't count.
+ */
+export function countMetConditions(requirements: string[] | null | undefined, value: unknown): number {
+  if (!requirements?.length || !Array.isArray(value)) return 0;
+  return requirements.filter(requirement => value.includes(requirement)).length;
+}
+
+/**
+ * The status to save for a multi-requirement day
+ * Meeting the rule completes the day; short of it the day stays open - a 'completed' pick drops
+ * back to 'none', while skipped and failed picks stand.
+ */
+export function deriveConditionsStatus(
+  requirements: string[] | null | undefined,
+  requiredConditions: number | null | undefined,
+  pickedStatus: RecordStatus,
+  value: unknown
+): RecordStatus {
+  const required = getRequiredConditions(requirements, requiredConditions);
+  if (pickedStatus === 'skipped' || required === null || !Array.isArray(value)) return pickedStatus;
+
+  if (countMetConditions(requirements, value) >= required) return 'completed';
+  return pickedStatus === 'completed' ? 'none' : pickedStatus;
+}
+
+/**
+ * Partial progress for a grid cell, e.g. "2/3" - empty once the day is settled or nothing is checked
+ */
+export function formatConditionsProgress(
+  requirements: string[] | null | undefined,
+  requiredConditions: number | null | undefined,
+  status: RecordStatus,
+  value: unknown
+): string {
+  const required = getRequiredConditions(requirements, requiredConditions);
+  if (required === null || status !== 'none') return '';
+
+  const met = countMetConditions(requirements, value);
+  return met > 0 ? `${met}/${required}` : '';
+}
@@ -0,0 +1,38 @@
+/**
+ * Network- and activity-aware sync scheduling
+ * Decides when the periodic pull runs and what is worth fetching on a metered connection
+ */
+
+import type { NetInfoStateType } from '@react-native-community/netinfo';
+
+export const BASE_PULL_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+export const MIN_PULL_INTERVAL_MS = 60 * 1000; // 1 minute
+export const MAX_PULL_INTERVAL_MS = 30 * 60 * 1000; // 30 minutes
+
+export interface PullOutcome {
+  pulledChanges: boolean; // The pull brought down anything new
+  pushedEdits: boolean; // Local edits landed during the pass
+}
+
+/**
+ * Whether data on this connection is likely to cost the user
+ * Unknown connection types count as unmetered so the app doesn't go quiet before NetInfo has checked
+ */
+export function isMeteredConnection(type: NetInfoStateType | string | null | undefined): boolean {
+  return type === 'cellular';
+}
+
+/**
+ * Interval until the next periodic pull
+ * Local edits mean the user is active (and other devices may follow up), so pulls speed up;
+ * empty pulls back off towards the maximum; anything else settles back on the base interval.
+ */
+export function nextPullInterval(currentMs: number, outcome: PullOutcome): number {
+  if (outcome.pushedEdits) {
+    return MIN_PULL_INTERVAL_MS;
+  }
+  if (!outcome.pulledChanges) {
+    return Math.min(MAX_PULL_INTERVAL_MS, Math.max(currentMs, MIN_PULL_INTERVAL_MS) * 2);
+  }
+  return Math.min(currentMs, BASE_PULL_INTERVAL_MS);
+}
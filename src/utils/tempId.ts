@@ -0,0 +1,11 @@
+/**
+ * Temporary client-side IDs for rows that haven't been created on the server yet
+ * Commitments and layout items use `temp-...`, records use `temp_...`
+ */
+
+/**
+ * Whether an ID is a local placeholder rather than a server UUID
+ */
+export function isTempId(id: string | null | undefined): boolean {
+  return !!id && (id.startsWith('temp-') || id.startsWith('temp_'));
+}
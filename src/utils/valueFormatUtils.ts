@@ -2,6 +2,8 @@
  * Utility functions for formatting numeric values for grid cell display
  */
 
+import { formatDurationForGrid, toSeconds, type DurationUnit } from './duration';
+
 /**
  * Formats a numeric value for display in grid cells with a maximum of 2 characters
  *
@@ -10,11 +12,13 @@
  * - For large numbers: truncate to fit (123 → 12, 1000 → 10)
  * - For decimals: precision is prioritized over simplicity
  * - Returns empty string for null/undefined values
+ * - Durations read as time instead: 45s, 25m, 1.5h
  *
  * @param value - The numeric value to format
+ * @param durationUnit - Unit of a duration commitment's value, if it is one
  * @returns Formatted string (max 2 characters) or empty string
  */
-export function formatValueForGrid(value: number | null | undefined): string {
+export function formatValueForGrid(value: number | null | undefined, durationUnit?: DurationUnit | null): string {
   // Handle null/undefined/empty cases
   if (value === null || value === undefined) {
     return '';
@@ -26,6 +30,10 @@ export function formatValueForGrid(value: number | null | undefined): string {
     return '';
   }
 
+  if (durationUnit) {
+    return formatDurationForGrid(toSeconds(numValue, durationUnit));
+  }
+
   // Handle zero
   if (numValue === 0) {
     return '0';
@@ -142,12 +150,14 @@ export function shouldDisplayValue(
  * @param status - The record status
  * @param value - The numeric value
  * @param showValues - Whether values should be shown (toggle state)
+ * @param durationUnit - Unit of a duration commitment's value, if it is one
  * @returns The text to display in the cell
  */
 export function getCellDisplayText(
   status: string | null | undefined,
   value: number | null | undefined,
-  showValues: boolean = false
+  showValues: boolean = false,
+  durationUnit?: DurationUnit | null
 ): string {
   // If not showing values, return empty (icons will be shown instead)
   if (!showValues) {
@@ -170,6 +180,6 @@ export function getCellDisplayText(
   }
 
   // Format and return the value
-  const result = formatValueForGrid(value);
+  const result = formatValueForGrid(value, durationUnit);
   return result;
 }
\ No newline at end of file
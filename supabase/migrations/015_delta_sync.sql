@@ -0,0 +1,64 @@
+-- Delta sync support
+-- Clients pull only rows with updated_at newer than their last pull,
+-- plus tombstones for rows that were hard-deleted since then
+
+-- commitment_records.updated_at was added without a trigger or time zone
+alter table commitment_records
+  alter column updated_at type timestamptz using updated_at at time zone 'UTC';
+
+create trigger update_commitment_records_updated_at
+  before update on commitment_records
+  for each row execute function update_updated_at_column();
+
+-- Indexes for "changed since" queries
+create index if not exists idx_commitments_user_updated_at
+  on commitments (user_id, updated_at);
+create index if not exists idx_commitment_records_user_updated_at
+  on commitment_records (user_id, updated_at);
+create index if not exists idx_layout_items_user_updated_at
+  on layout_items (user_id, updated_at);
+
+-- Tombstones for hard deletes (no FK on user_id so cascaded profile deletes still succeed)
+create table sync_tombstones (
+  id bigserial primary key,
+  user_id uuid not null,
+  table_name text not null check (table_name in ('commitments', 'commitment_records', 'layout_items')),
+  row_id uuid not null,
+  deleted_at timestamptz not null default now()
+);
+
+alter table sync_tombstones enable row level security;
+
+-- Users can only read their own tombstones; rows are written by the trigger below
+create policy "Users can view own tombstones" on sync_tombstones
+  for select using (auth.uid() = user_id);
+
+create index idx_sync_tombstones_user_deleted_at
+  on sync_tombstones (user_id, deleted_at);
+
+create or replace function record_sync_tombstone()
+returns trigger as $$
+begin
+  if old.user_id is not null then
+    insert into sync_tombstones (user_id, table_name, row_id)
+    values (old.user_id, tg_table_name, old.id);
+  end if;
+  return old;
+end;
+$$ language plpgsql security definer;
+
+create trigger record_commitments_tombstone
+  after delete on commitments
+  for each row execute function record_sync_tombstone();
+
+create trigger record_commitment_records_tombstone
+  after delete on commitment_records
+  for each row execute function record_sync_tombstone();
+
+create trigger record_layout_items_tombstone
+  after delete on layout_items
+  for each row execute function record_sync_tombstone();
+
+-- Add helpful comments
+comment on table sync_tombstones is 'Hard-deleted rows, so delta sync clients can drop them locally';
+comment on column sync_tombstones.deleted_at is 'Compared against the client pull cursor alongside updated_at';
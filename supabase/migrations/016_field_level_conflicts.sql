@@ -0,0 +1,55 @@
+-- Field-level conflict resolution
+-- Each synced row records when every column last changed, so clients can merge
+-- concurrent edits per field (last writer wins) instead of per row
+
+alter table commitments
+  add column field_updated_at jsonb not null default '{}'::jsonb;
+alter table commitment_records
+  add column field_updated_at jsonb not null default '{}'::jsonb;
+alter table layout_items
+  add column field_updated_at jsonb not null default '{}'::jsonb;
+alter table friend_order
+  add column field_updated_at jsonb not null default '{}'::jsonb;
+
+-- Stamp now() on every column whose value changed; clients can't write the map themselves
+create or replace function track_field_updated_at()
+returns trigger as $$
+declare
+  old_row jsonb := to_jsonb(old);
+  new_row jsonb := to_jsonb(new);
+  changed jsonb := '{}'::jsonb;
+  col text;
+begin
+  for col in select jsonb_object_keys(new_row) loop
+    if col not in ('updated_at', 'field_updated_at')
+       and new_row -> col is distinct from old_row -> col then
+      changed := changed || jsonb_build_object(col, now());
+    end if;
+  end loop;
+
+  new.field_updated_at := coalesce(old.field_updated_at, '{}'::jsonb) || changed;
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger track_commitments_field_updated_at
+  before update on commitments
+  for each row execute function track_field_updated_at();
+
+create trigger track_commitment_records_field_updated_at
+  before update on commitment_records
+  for each row execute function track_field_updated_at();
+
+create trigger track_layout_items_field_updated_at
+  before update on layout_items
+  for each row execute function track_field_updated_at();
+
+create trigger track_friend_order_field_updated_at
+  before update on friend_order
+  for each row execute function track_field_updated_at();
+
+-- Add helpful comments
+comment on column commitments.field_updated_at is 'Column name → last change timestamp; columns never updated fall back to updated_at';
+comment on column commitment_records.field_updated_at is 'Column name → last change timestamp; columns never updated fall back to updated_at';
+comment on column layout_items.field_updated_at is 'Column name → last change timestamp; columns never updated fall back to updated_at';
+comment on column friend_order.field_updated_at is 'Column name → last change timestamp; columns never updated fall back to updated_at';
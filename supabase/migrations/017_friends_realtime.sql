@@ -0,0 +1,40 @@
+-- Realtime updates for friends' progress
+-- Friends' charts subscribe to postgres changes instead of waiting for the periodic refresh.
+-- Realtime checks each change against the subscriber's select policies, so private
+-- commitments and their records are never broadcast to friends.
+
+-- Friends can see each other's spacers and dividers, like their public commitments
+create policy "Friends can view layout items" on layout_items
+  for select using (
+    exists (
+      select 1 from friendships
+      where (user1_id = auth.uid() and user2_id = layout_items.user_id)
+         or (user2_id = auth.uid() and user1_id = layout_items.user_id)
+    )
+  );
+
+-- Realtime can't filter or authorize delete events, so friends' deletes arrive as tombstones instead
+create policy "Friends can view tombstones" on sync_tombstones
+  for select using (
+    exists (
+      select 1 from friendships
+      where (user1_id = auth.uid() and user2_id = sync_tombstones.user_id)
+         or (user2_id = auth.uid() and user1_id = sync_tombstones.user_id)
+    )
+  );
+
+-- Publish the tables that make up a friend's chart (skipping any already published)
+do $$
+declare
+  tbl text;
+begin
+  foreach tbl in array array['commitments', 'commitment_records', 'layout_items', 'sync_tombstones'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = tbl
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', tbl);
+    end if;
+  end loop;
+end;
+$$;
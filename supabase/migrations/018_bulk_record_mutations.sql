@@ -0,0 +1,62 @@
+-- Bulk record mutations
+-- Applies many record upserts/deletes in one round trip. Each mutation runs in its own
+-- subtransaction, so one failing row doesn't roll back the others; results are per row.
+
+create or replace function apply_record_mutations(p_mutations jsonb)
+returns table (
+  mutation_index integer,
+  success boolean,
+  row_data jsonb,
+  error_message text
+) as $$
+declare
+  v_mutation jsonb;
+  v_index integer := 0;
+  v_record commitment_records;
+begin
+  for v_mutation in select value from jsonb_array_elements(p_mutations) loop
+    mutation_index := v_index;
+    v_index := v_index + 1;
+    row_data := null;
+    error_message := null;
+
+    begin
+      if v_mutation->>'op' = 'delete' then
+        delete from commitment_records
+        where commitment_id = (v_mutation->>'commitment_id')::uuid
+          and completed_at = (v_mutation->>'completed_at')::date;
+      elsif v_mutation->>'op' = 'upsert' then
+        insert into commitment_records (commitment_id, completed_at, user_id, status, value, notes)
+        values (
+          (v_mutation->>'commitment_id')::uuid,
+          (v_mutation->>'completed_at')::date,
+          coalesce((v_mutation->>'user_id')::uuid, auth.uid()),
+          v_mutation->>'status',
+          nullif(v_mutation->'value', 'null'::jsonb),
+          v_mutation->>'notes'
+        )
+        on conflict (commitment_id, completed_at) do update
+          set user_id = excluded.user_id,
+              status = excluded.status,
+              value = excluded.value,
+              notes = excluded.notes
+        returning * into v_record;
+
+        row_data := to_jsonb(v_record);
+      else
+        raise exception 'Unknown record mutation op: %', v_mutation->>'op';
+      end if;
+
+      success := true;
+    exception when others then
+      success := false;
+      error_message := sqlerrm;
+    end;
+
+    return next;
+  end loop;
+end;
+$$ language plpgsql security invoker;
+
+-- Add helpful comments
+comment on function apply_record_mutations(jsonb) is 'Batch of {op: upsert|delete, commitment_id, completed_at, ...} record mutations; runs with the caller''s RLS and returns one result per mutation, in order';
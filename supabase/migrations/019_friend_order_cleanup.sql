@@ -0,0 +1,26 @@
+-- Friend order cleanup
+-- Ending a friendship removes both users' order entries for each other, so re-adding the
+-- friend later gets a fresh rank instead of colliding on unique_user_group_rank.
+
+create or replace function cleanup_friend_order_on_unfriend()
+returns trigger as $$
+begin
+  -- Security definer: RLS only lets each user delete their own entries, and both sides go
+  delete from friend_order
+  where (user_id = old.user1_id and friend_user_id = old.user2_id)
+     or (user_id = old.user2_id and friend_user_id = old.user1_id);
+  return old;
+end;
+$$ language plpgsql security definer;
+
+create trigger trigger_cleanup_friend_order_on_unfriend
+  after delete on friendships
+  for each row execute function cleanup_friend_order_on_unfriend();
+
+-- Entries left behind by friendships that ended before the trigger existed
+delete from friend_order fo
+where not exists (
+  select 1 from friendships f
+  where (f.user1_id = fo.user_id and f.user2_id = fo.friend_user_id)
+     or (f.user1_id = fo.friend_user_id and f.user2_id = fo.user_id)
+);
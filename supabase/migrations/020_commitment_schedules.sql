@@ -0,0 +1,13 @@
+-- Commitment schedules
+-- Which days a commitment asks for. null means every day; otherwise one of:
+--   {"type": "weekdays", "days": [1, 3, 5]}                          (0 = Sunday)
+--   {"type": "timesPerWeek", "times": 3}
+--   {"type": "timesPerMonth", "times": 10}
+--   {"type": "everyNDays", "interval": 2, "startDate": "2025-01-06"}
+alter table commitments add column if not exists schedule jsonb null;
+
+alter table commitments add constraint commitments_schedule_type_check check (
+  schedule is null or schedule->>'type' in ('daily', 'weekdays', 'timesPerWeek', 'timesPerMonth', 'everyNDays')
+);
+
+comment on column commitments.schedule is 'Which days the commitment asks for - streaks and completion rate are measured against it; null = daily';
@@ -0,0 +1,251 @@
+-- Server-side streak cache
+-- commitment_streaks (created in 002, never written until now) is kept up to date by triggers on
+-- commitment_records, so both the owner and friends can show streaks that go back further than
+-- the records they load.
+--
+-- The rules match the app's StreakCalculator: completed days extend a run, skipped days are
+-- neutral, failed or missing scheduled days break it. The server doesn't know the user's "today",
+-- so the run is evaluated through as_of_date and the app walks the days after it:
+--   day schedules:   as_of_date is the latest recorded day
+--   quota schedules: as_of_date is the day before the week/month of the latest record, which
+--                    may still be in progress
+-- best_streak covers the whole history, including that last week/month once it meets its quota.
+
+-- ==============================================
+-- 1. TABLE CHANGES
+-- ==============================================
+
+alter table commitment_streaks add column if not exists as_of_date date;
+
+-- One cache row per commitment
+delete from commitment_streaks cs
+using commitment_streaks newer
+where cs.commitment_id = newer.commitment_id
+  and (cs.updated_at, cs.id) < (newer.updated_at, newer.id);
+
+create unique index if not exists idx_commitment_streaks_commitment_unique on commitment_streaks(commitment_id);
+
+-- Written only by the triggers below; readable by whoever can see the commitment
+alter table commitment_streaks enable row level security;
+
+create policy "Users and friends can view public commitment streaks" on commitment_streaks
+  for select using (
+    auth.uid() = user_id
+    or exists (
+      select 1 from commitments c
+      join friendships f on (
+        (f.user1_id = auth.uid() and f.user2_id = c.user_id)
+        or (f.user2_id = auth.uid() and f.user1_id = c.user_id)
+      )
+      where c.id = commitment_streaks.commitment_id
+      and c.is_private = false
+    )
+  );
+
+-- ==============================================
+-- 2. STREAK CALCULATION
+-- ==============================================
+
+-- Whether a (normalized) schedule asks for the commitment on a day - quota schedules accept any day
+create or replace function commitment_is_scheduled_day(p_schedule jsonb, p_day date)
+returns boolean as $$
+  select case p_schedule->>'type'
+    when 'weekdays' then p_schedule->'days' @> to_jsonb(extract(dow from p_day)::int)
+    when 'everyNDays' then
+      p_day >= (p_schedule->>'startDate')::date
+      and (p_day - (p_schedule->>'startDate')::date) % (p_schedule->>'interval')::int = 0
+    else true
+  end;
+$$ language sql immutable;
+
+create or replace function refresh_commitment_streak(p_commitment_id uuid)
+returns void as $$
+declare
+  v_commitment commitments;
+  v_schedule jsonb;
+  v_type text;
+  v_times integer;
+  v_statuses jsonb;
+  v_first date;
+  v_latest date;
+  v_last_success date;
+  v_history_start date;
+  v_day date;
+  v_status text;
+  v_period_start date;
+  v_period_end date;
+  v_completed integer;
+  v_available integer;
+  v_run integer := 0;
+  v_best integer := 0;
+  v_as_of date;
+begin
+  select * into v_commitment from commitments where id = p_commitment_id;
+  if not found then
+    return; -- The cache row goes with the commitment (on delete cascade)
+  end if;
+
+  -- Missing or malformed schedules count as daily, like the app's normalizeSchedule
+  v_schedule := coalesce(v_commitment.schedule, '{"type": "daily"}'::jsonb);
+  v_type := v_schedule->>'type';
+  if (v_type = 'weekdays' and coalesce(jsonb_array_length(v_schedule->'days'), 0) = 0)
+     or (v_type in ('timesPerWeek', 'timesPerMonth') and coalesce((v_schedule->>'times')::int, 0) < 1)
+     or (v_type = 'everyNDays' and (coalesce((v_schedule->>'interval')::int, 0) < 1 or v_schedule->>'startDate' is null))
+     or v_type is null
+     or v_type not in ('weekdays', 'timesPerWeek', 'timesPerMonth', 'everyNDays') then
+    v_type := 'daily';
+    v_schedule := '{"type": "daily"}'::jsonb;
+  end if;
+
+  -- One status per day, latest edit wins; completed_at is already the record's local day.
+  -- 'none' means the same as no record.
+  select
+    jsonb_object_agg(day::text, status),
+    min(day),
+    max(day),
+    max(day) filter (where status in ('complete', 'completed'))
+  into v_statuses, v_first, v_latest, v_last_success
+  from (
+    select distinct on (day) day, status
+    from (
+      select completed_at as day, status, coalesce(updated_at, created_at) as edited_at
+      from commitment_records
+      where commitment_id = p_commitment_id
+        and status is distinct from 'none'
+    ) r
+    order by day, edited_at desc
+  ) d;
+
+  if v_latest is not null then
+    v_history_start := least((v_commitment.created_at at time zone 'UTC')::date, v_first);
+
+    if v_type in ('timesPerWeek', 'timesPerMonth') then
+      v_times := (v_schedule->>'times')::int;
+      v_period_start := date_trunc(case when v_type = 'timesPerWeek' then 'week' else 'month' end, v_history_start)::date;
+
+      while v_period_start <= v_latest loop
+        v_period_end := case when v_type = 'timesPerWeek'
+          then v_period_start + 6
+          else (v_period_start + interval '1 month' - interval '1 day')::date
+        end;
+
+        -- Skipped days, and days before history starts, come off the period's quota
+        v_completed := 0;
+        v_available := 0;
+        v_day := greatest(v_period_start, v_history_start);
+        while v_day <= v_period_end loop
+          v_status := v_statuses->>v_day::text;
+          if v_status in ('complete', 'completed') then
+            v_completed := v_completed + 1;
+          end if;
+          if v_status is distinct from 'skipped' then
+            v_available := v_available + 1;
+          end if;
+          v_day := v_day + 1;
+        end loop;
+
+        if v_period_end >= v_latest then
+          -- The latest period may still be in progress - the app walks it from here
+          v_as_of := v_period_start - 1;
+          if least(v_times, v_available) > 0 and v_completed >= least(v_times, v_available) then
+            v_best := greatest(v_best, v_run + v_completed);
+          end if;
+        elsif least(v_times, v_available) > 0 then
+          if v_completed >= least(v_times, v_available) then
+            v_run := v_run + v_completed;
+            v_best := greatest(v_best, v_run);
+          else
+            v_run := 0;
+          end if;
+        end if;
+
+        v_period_start := v_period_end + 1;
+      end loop;
+    else
+      v_day := v_history_start;
+      while v_day <= v_latest loop
+        if commitment_is_scheduled_day(v_schedule, v_day) then
+          v_status := v_statuses->>v_day::text;
+          if v_status in ('complete', 'completed') then
+            v_run := v_run + 1;
+            v_best := greatest(v_best, v_run);
+          elsif v_status is distinct from 'skipped' then
+            v_run := 0;
+          end if;
+        end if;
+        v_day := v_day + 1;
+      end loop;
+      v_as_of := v_latest;
+    end if;
+  end if;
+
+  insert into commitment_streaks (commitment_id, user_id, current_streak, best_streak, last_success_date, as_of_date, updated_at)
+  values (p_commitment_id, v_commitment.user_id, v_run, v_best, v_last_success, v_as_of, now())
+  on conflict (commitment_id) do update set
+    user_id = excluded.user_id,
+    current_streak = excluded.current_streak,
+    best_streak = excluded.best_streak,
+    last_success_date = excluded.last_success_date,
+    as_of_date = excluded.as_of_date,
+    updated_at = excluded.updated_at;
+end;
+$$ language plpgsql security definer;
+
+-- ==============================================
+-- 3. TRIGGERS
+-- ==============================================
+
+-- Statement-level, so a bulk upload refreshes each commitment once rather than once per row
+create or replace function refresh_streaks_for_changed_records()
+returns trigger as $$
+declare
+  v_commitment_id uuid;
+begin
+  if tg_op = 'DELETE' then
+    for v_commitment_id in select distinct commitment_id from old_rows loop
+      perform refresh_commitment_streak(v_commitment_id);
+    end loop;
+  else
+    for v_commitment_id in select distinct commitment_id from new_rows loop
+      perform refresh_commitment_streak(v_commitment_id);
+    end loop;
+  end if;
+  return null;
+end;
+$$ language plpgsql security definer;
+
+create trigger trigger_refresh_streaks_on_record_insert
+  after insert on commitment_records
+  referencing new table as new_rows
+  for each statement execute function refresh_streaks_for_changed_records();
+
+create trigger trigger_refresh_streaks_on_record_update
+  after update on commitment_records
+  referencing new table as new_rows
+  for each statement execute function refresh_streaks_for_changed_records();
+
+create trigger trigger_refresh_streaks_on_record_delete
+  after delete on commitment_records
+  referencing old table as old_rows
+  for each statement execute function refresh_streaks_for_changed_records();
+
+-- A schedule change re-evaluates the whole history against the new schedule
+create or replace function refresh_streak_on_schedule_change()
+returns trigger as $$
+begin
+  perform refresh_commitment_streak(new.id);
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger trigger_refresh_streak_on_schedule_change
+  after update of schedule, created_at on commitments
+  for each row
+  when (old.schedule is distinct from new.schedule or old.created_at is distinct from new.created_at)
+  execute function refresh_streak_on_schedule_change();
+
+-- ==============================================
+-- 4. BACKFILL
+-- ==============================================
+
+select refresh_commitment_streak(id) from commitments where deleted_at is null;
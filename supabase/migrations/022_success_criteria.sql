@@ -0,0 +1,89 @@
+-- Success criteria
+-- Measurement commitments can set a threshold in commitment_success_criteria (created in 002) -
+-- e.g. "at most 2000 kcal" or "between 7 and 9 hours". Writing a record with a numeric value then
+-- sets its status to complete/failed, so streaks and grid colours follow the threshold. The app
+-- derives the same status before saving (utils/successCriteria.ts); this keeps every writer honest.
+--
+-- Rules: greater_than / less_than / between include their bounds ("at least" / "at most"),
+-- skipped records keep their status, and changing the criteria doesn't rewrite past days.
+
+-- ==============================================
+-- 1. TABLE CHANGES
+-- ==============================================
+
+-- One threshold per commitment
+delete from commitment_success_criteria sc
+using commitment_success_criteria newer
+where sc.commitment_id = newer.commitment_id
+  and sc.criteria_type = newer.criteria_type
+  and (sc.updated_at, sc.id) < (newer.updated_at, newer.id);
+
+create unique index if not exists idx_commitment_success_criteria_unique
+  on commitment_success_criteria(commitment_id, criteria_type);
+
+alter table commitment_success_criteria
+  add constraint commitment_success_criteria_between_bounds
+  check (operator is distinct from 'between' or (value_max is not null and value_max >= value));
+
+alter table commitment_success_criteria enable row level security;
+
+create policy "Users can manage criteria for own commitments" on commitment_success_criteria
+  for all using (
+    exists (
+      select 1 from commitments
+      where id = commitment_success_criteria.commitment_id
+      and user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from commitments
+      where id = commitment_success_criteria.commitment_id
+      and user_id = auth.uid()
+    )
+  );
+
+-- ==============================================
+-- 2. STATUS DERIVATION
+-- ==============================================
+
+create or replace function derive_record_status_from_criteria()
+returns trigger as $$
+declare
+  v_criteria commitment_success_criteria;
+  v_value numeric;
+  v_met boolean;
+begin
+  if new.value is null or jsonb_typeof(new.value) <> 'number' or new.status = 'skipped' then
+    return new;
+  end if;
+
+  select * into v_criteria
+  from commitment_success_criteria
+  where commitment_id = new.commitment_id
+    and criteria_type = 'threshold';
+
+  if not found or v_criteria.value is null then
+    return new;
+  end if;
+
+  v_value := (new.value #>> '{}')::numeric;
+  v_met := case v_criteria.operator
+    when 'greater_than' then v_value >= v_criteria.value
+    when 'less_than' then v_value <= v_criteria.value
+    when 'equal_to' then v_value = v_criteria.value
+    when 'between' then v_value between v_criteria.value and v_criteria.value_max
+    else null
+  end;
+
+  if v_met is not null then
+    new.status := case when v_met then 'complete' else 'failed' end;
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Runs before the streak cache triggers (021) see the row
+create trigger trigger_derive_record_status_from_criteria
+  before insert or update of value, status on commitment_records
+  for each row execute function derive_record_status_from_criteria();
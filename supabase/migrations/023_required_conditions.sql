@@ -0,0 +1,98 @@
+-- N-of-M conditions
+-- Multi-requirement commitments can say how many requirements complete a day ("3 of 5
+-- morning-routine items") with a 'conditions_list' row in commitment_success_criteria. The
+-- requirement labels stay in commitments.requirements and a record's value holds the checked
+-- labels, so the status trigger from 022 now also counts those.
+--
+-- Rules (matching utils/successCriteria.ts): enough checked labels complete the day; short of
+-- that a 'complete' status drops back to 'none' (still open), while skipped and failed stand.
+
+-- ==============================================
+-- 1. TABLE CHANGES
+-- ==============================================
+
+alter table commitment_success_criteria
+  add constraint commitment_success_criteria_required_conditions
+  check (
+    criteria_type <> 'conditions_list'
+    or (required_conditions >= 1 and (total_conditions is null or required_conditions <= total_conditions))
+  );
+
+-- ==============================================
+-- 2. STATUS DERIVATION
+-- ==============================================
+
+create or replace function derive_record_status_from_criteria()
+returns trigger as $$
+declare
+  v_criteria commitment_success_criteria;
+  v_requirements jsonb;
+  v_total integer;
+  v_required integer;
+  v_met integer;
+  v_value numeric;
+  v_met_threshold boolean;
+begin
+  if new.value is null or new.status = 'skipped' then
+    return new;
+  end if;
+
+  -- Checked requirement labels
+  if jsonb_typeof(new.value) = 'array' then
+    select * into v_criteria
+    from commitment_success_criteria
+    where commitment_id = new.commitment_id
+      and criteria_type = 'conditions_list';
+
+    if not found or v_criteria.required_conditions is null then
+      return new;
+    end if;
+
+    select requirements into v_requirements from commitments where id = new.commitment_id;
+    v_total := case when jsonb_typeof(v_requirements) = 'array' then jsonb_array_length(v_requirements) else 0 end;
+    if v_total = 0 then
+      return new;
+    end if;
+
+    -- Clamped to the current requirements, so removing one never makes the day impossible
+    v_required := least(greatest(v_criteria.required_conditions, 1), v_total);
+    select count(*) into v_met
+    from jsonb_array_elements_text(v_requirements) as requirement
+    where new.value ? requirement;
+
+    if v_met >= v_required then
+      new.status := 'complete';
+    elsif new.status in ('complete', 'completed') then
+      new.status := 'none';
+    end if;
+    return new;
+  end if;
+
+  if jsonb_typeof(new.value) <> 'number' then
+    return new;
+  end if;
+
+  select * into v_criteria
+  from commitment_success_criteria
+  where commitment_id = new.commitment_id
+    and criteria_type = 'threshold';
+
+  if not found or v_criteria.value is null then
+    return new;
+  end if;
+
+  v_value := (new.value #>> '{}')::numeric;
+  v_met_threshold := case v_criteria.operator
+    when 'greater_than' then v_value >= v_criteria.value
+    when 'less_than' then v_value <= v_criteria.value
+    when 'equal_to' then v_value = v_criteria.value
+    when 'between' then v_value between v_criteria.value and v_criteria.value_max
+    else null
+  end;
+
+  if v_met_threshold is not null then
+    new.status := case when v_met_threshold then 'complete' else 'failed' end;
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
@@ -0,0 +1,139 @@
+-- Record entries
+-- Counter habits (glasses of water, pages, pushups) can log several timestamped entries a day
+-- instead of one value. A commitment opts in with commitments.entry_aggregate, which says how the
+-- entries combine into the day's value: 'sum', 'max' or 'last' (latest by timestamp). The entries
+-- live on the day's record as a jsonb array of {id, value, at}, and the record's value stays the
+-- aggregate, so grids, success criteria and streaks read it as before. The app computes the same
+-- aggregate before saving (utils/recordEntries.ts); the trigger here keeps every writer honest.
+
+-- ==============================================
+-- 1. TABLE CHANGES
+-- ==============================================
+
+alter table commitments add column if not exists entry_aggregate text null;
+
+alter table commitments add constraint commitments_entry_aggregate_check check (
+  entry_aggregate is null or entry_aggregate in ('sum', 'max', 'last')
+);
+
+alter table commitment_records add column if not exists entries jsonb null;
+
+alter table commitment_records add constraint commitment_records_entries_array_check check (
+  entries is null or jsonb_typeof(entries) = 'array'
+);
+
+comment on column commitments.entry_aggregate is 'How logged entries combine into a day''s value - sum, max or last; null = one value a day';
+comment on column commitment_records.entries is 'Timestamped entries [{id, value, at}] logged for the day; value holds their aggregate';
+
+-- ==============================================
+-- 2. AGGREGATION
+-- ==============================================
+
+create or replace function aggregate_record_entries()
+returns trigger as $$
+declare
+  v_aggregate text;
+begin
+  if new.entries is null then
+    return new;
+  end if;
+
+  select entry_aggregate into v_aggregate from commitments where id = new.commitment_id;
+  if v_aggregate is null then
+    return new;
+  end if;
+
+  new.value := case v_aggregate
+    when 'sum' then (
+      select to_jsonb(sum((entry->>'value')::numeric))
+      from jsonb_array_elements(new.entries) as entry
+    )
+    when 'max' then (
+      select to_jsonb(max((entry->>'value')::numeric))
+      from jsonb_array_elements(new.entries) as entry
+    )
+    when 'last' then (
+      select entry->'value'
+      from jsonb_array_elements(new.entries) as entry
+      order by entry->>'at' desc
+      limit 1
+    )
+  end;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Named to run before trigger_derive_record_status_from_criteria (022), so the success criteria
+-- judge the aggregate
+create trigger trigger_aggregate_record_entries
+  before insert or update of entries, value, status on commitment_records
+  for each row execute function aggregate_record_entries();
+
+-- ==============================================
+-- 3. BULK MUTATIONS
+-- ==============================================
+
+-- As in 018, plus entries. Mutations without an entries key (e.g. a status tap in the grid) keep
+-- the day's existing entries.
+create or replace function apply_record_mutations(p_mutations jsonb)
+returns table (
+  mutation_index integer,
+  success boolean,
+  row_data jsonb,
+  error_message text
+) as $$
+declare
+  v_mutation jsonb;
+  v_index integer := 0;
+  v_record commitment_records;
+begin
+  for v_mutation in select value from jsonb_array_elements(p_mutations) loop
+    mutation_index := v_index;
+    v_index := v_index + 1;
+    row_data := null;
+    error_message := null;
+
+    begin
+      if v_mutation->>'op' = 'delete' then
+        delete from commitment_records
+        where commitment_id = (v_mutation->>'commitment_id')::uuid
+          and completed_at = (v_mutation->>'completed_at')::date;
+      elsif v_mutation->>'op' = 'upsert' then
+        insert into commitment_records (commitment_id, completed_at, user_id, status, value, notes, entries)
+        values (
+          (v_mutation->>'commitment_id')::uuid,
+          (v_mutation->>'completed_at')::date,
+          coalesce((v_mutation->>'user_id')::uuid, auth.uid()),
+          v_mutation->>'status',
+          nullif(v_mutation->'value', 'null'::jsonb),
+          v_mutation->>'notes',
+          nullif(v_mutation->'entries', 'null'::jsonb)
+        )
+        on conflict (commitment_id, completed_at) do update
+          set user_id = excluded.user_id,
+              status = excluded.status,
+              value = excluded.value,
+              notes = excluded.notes,
+              entries = case
+                when v_mutation ? 'entries' then excluded.entries
+                else commitment_records.entries
+              end
+        returning * into v_record;
+
+        row_data := to_jsonb(v_record);
+      else
+        raise exception 'Unknown record mutation op: %', v_mutation->>'op';
+      end if;
+
+      success := true;
+    exception when others then
+      success := false;
+      error_message := sqlerrm;
+    end;
+
+    return next;
+  end loop;
+end;
+$$ language plpgsql security invoker;
+
+comment on function apply_record_mutations(jsonb) is 'Batch of {op: upsert|delete, commitment_id, completed_at, ...} record mutations; runs with the caller''s RLS and returns one result per mutation, in order';
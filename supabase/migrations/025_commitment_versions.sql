@@ -0,0 +1,275 @@
+-- Commitment versions
+-- Editing a commitment's settings "going forward" starts a new version in its lineage instead of
+-- rewriting what earlier days meant. Uses the lineage columns from 002:
+--   lineage_id      the commitment every version belongs to (its first row)
+--   effective_from  first day a version is in force
+--   change_note     why it changed
+--   created_by      who made the change
+--
+-- The commitment row itself always holds the current version, so records, streaks, layout and
+-- friends keep pointing at one ID. Earlier versions are inactive copies in the same lineage
+-- (lineage_id = the commitment, id <> lineage_id), each with its own success criteria. A day is
+-- judged by the version in force on it; days before the first version follow the first version.
+
+-- ==============================================
+-- 1. TABLE CHANGES
+-- ==============================================
+
+-- Earlier versions go with their commitment
+alter table commitments add constraint commitments_lineage_id_fkey
+  foreign key (lineage_id) references commitments(id) on delete cascade;
+
+create index if not exists idx_commitments_lineage_effective_from
+  on commitments(lineage_id, effective_from);
+
+-- ==============================================
+-- 2. VERSION LOOKUP
+-- ==============================================
+
+-- The version (commitment or earlier-version row) in force on a day
+create or replace function commitment_version_at(p_commitment_id uuid, p_day date)
+returns uuid as $$
+  select coalesce(
+    (
+      select v.id from commitments v
+      where (v.id = p_commitment_id or v.lineage_id = p_commitment_id)
+        and coalesce(v.effective_from, v.created_at::date) <= p_day
+      order by coalesce(v.effective_from, v.created_at::date) desc
+      limit 1
+    ),
+    (
+      select v.id from commitments v
+      where v.id = p_commitment_id or v.lineage_id = p_commitment_id
+      order by coalesce(v.effective_from, v.created_at::date) asc
+      limit 1
+    ),
+    p_commitment_id
+  );
+$$ language sql stable security definer;
+
+-- ==============================================
+-- 3. CREATING A VERSION
+-- ==============================================
+
+-- Copies the current settings (and their success criteria) into an earlier-version row, then
+-- applies p_updates to the commitment from p_effective_from. An edit on the day the current
+-- version started replaces it instead. p_updates holds commitments columns (only the versioned
+-- ones are applied) and optionally success_criteria - a threshold object, or null to clear it.
+-- Days already recorded from p_effective_from are judged again against the new version.
+create or replace function create_commitment_version(
+  p_commitment_id uuid,
+  p_effective_from date,
+  p_change_note text,
+  p_updates jsonb
+)
+returns commitments as $$
+declare
+  v_head commitments;
+  v_next commitments;
+  v_current_from date;
+  v_version_id uuid;
+begin
+  select * into v_head from commitments where id = p_commitment_id for update;
+  if not found then
+    raise exception 'Commitment % not found', p_commitment_id;
+  end if;
+  if v_head.lineage_id is not null and v_head.lineage_id <> v_head.id then
+    raise exception 'Commitment % is an earlier version - edit the current one', p_commitment_id;
+  end if;
+
+  v_current_from := coalesce(v_head.effective_from, v_head.created_at::date);
+  if p_effective_from < v_current_from then
+    raise exception 'A new version can''t start before the current one (%)', v_current_from;
+  end if;
+
+  if p_effective_from > v_current_from then
+    insert into commitments (
+      user_id, title, description, color, target_days, is_active, is_private, archived,
+      commitment_type, target, unit, requirements, rating_range, show_values, schedule,
+      entry_aggregate, order_rank, lineage_id, effective_from, change_note, created_by
+    )
+    values (
+      v_head.user_id, v_head.title, v_head.description, v_head.color, v_head.target_days, false,
+      v_head.is_private, false, v_head.commitment_type, v_head.target, v_head.unit,
+      v_head.requirements, v_head.rating_range, v_head.show_values, v_head.schedule,
+      v_head.entry_aggregate, '', v_head.id, v_current_from, v_head.change_note, v_head.created_by
+    )
+    returning id into v_version_id;
+
+    insert into commitment_success_criteria (
+      commitment_id, criteria_type, operator, value, value_max, numeric_type,
+      required_conditions, total_conditions
+    )
+    select v_version_id, criteria_type, operator, value, value_max, numeric_type,
+      required_conditions, total_conditions
+    from commitment_success_criteria
+    where commitment_id = v_head.id;
+  end if;
+
+  v_next := jsonb_populate_record(v_head, p_updates - 'success_criteria');
+
+  update commitments set
+    target = v_next.target,
+    unit = v_next.unit,
+    requirements = v_next.requirements,
+    rating_range = v_next.rating_range,
+    entry_aggregate = v_next.entry_aggregate,
+    lineage_id = v_head.id,
+    effective_from = p_effective_from,
+    change_note = p_change_note,
+    created_by = auth.uid(),
+    updated_at = now()
+  where id = v_head.id
+  returning * into v_head;
+
+  if p_updates ? 'success_criteria' then
+    if jsonb_typeof(p_updates->'success_criteria') = 'object' then
+      insert into commitment_success_criteria (commitment_id, criteria_type, operator, value, value_max, numeric_type)
+      values (
+        v_head.id,
+        'threshold',
+        p_updates->'success_criteria'->>'operator',
+        (p_updates->'success_criteria'->>'value')::numeric,
+        (p_updates->'success_criteria'->>'value_max')::numeric,
+        coalesce(p_updates->'success_criteria'->>'numeric_type', 'decimal')
+      )
+      on conflict (commitment_id, criteria_type) do update
+        set operator = excluded.operator,
+            value = excluded.value,
+            value_max = excluded.value_max,
+            numeric_type = excluded.numeric_type;
+    else
+      delete from commitment_success_criteria
+      where commitment_id = v_head.id and criteria_type = 'threshold';
+    end if;
+  end if;
+
+  -- Touching the value runs the status and aggregate triggers with the new version
+  update commitment_records set value = value
+  where commitment_id = v_head.id and completed_at >= p_effective_from;
+
+  return v_head;
+end;
+$$ language plpgsql security invoker;
+
+comment on function create_commitment_version(uuid, date, text, jsonb) is 'Start a new version of a commitment from a day, keeping the current settings as an earlier version';
+
+-- ==============================================
+-- 4. JUDGING DAYS BY VERSION
+-- ==============================================
+
+-- As in 024, with the aggregate of the version in force on the record's day
+create or replace function aggregate_record_entries()
+returns trigger as $$
+declare
+  v_aggregate text;
+begin
+  if new.entries is null then
+    return new;
+  end if;
+
+  select entry_aggregate into v_aggregate
+  from commitments
+  where id = commitment_version_at(new.commitment_id, new.completed_at);
+  if v_aggregate is null then
+    return new;
+  end if;
+
+  new.value := case v_aggregate
+    when 'sum' then (
+      select to_jsonb(sum((entry->>'value')::numeric))
+      from jsonb_array_elements(new.entries) as entry
+    )
+    when 'max' then (
+      select to_jsonb(max((entry->>'value')::numeric))
+      from jsonb_array_elements(new.entries) as entry
+    )
+    when 'last' then (
+      select entry->'value'
+      from jsonb_array_elements(new.entries) as entry
+      order by entry->>'at' desc
+      limit 1
+    )
+  end;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- As in 023, with the criteria and requirements of the version in force on the record's day
+create or replace function derive_record_status_from_criteria()
+returns trigger as $$
+declare
+  v_version_id uuid;
+  v_criteria commitment_success_criteria;
+  v_requirements jsonb;
+  v_total integer;
+  v_required integer;
+  v_met integer;
+  v_value numeric;
+  v_met_threshold boolean;
+begin
+  if new.value is null or new.status = 'skipped' then
+    return new;
+  end if;
+
+  v_version_id := commitment_version_at(new.commitment_id, new.completed_at);
+
+  -- Checked requirement labels
+  if jsonb_typeof(new.value) = 'array' then
+    select * into v_criteria
+    from commitment_success_criteria
+    where commitment_id = v_version_id
+      and criteria_type = 'conditions_list';
+
+    if not found or v_criteria.required_conditions is null then
+      return new;
+    end if;
+
+    select requirements into v_requirements from commitments where id = v_version_id;
+    v_total := case when jsonb_typeof(v_requirements) = 'array' then jsonb_array_length(v_requirements) else 0 end;
+    if v_total = 0 then
+      return new;
+    end if;
+
+    -- Clamped to the current requirements, so removing one never makes the day impossible
+    v_required := least(greatest(v_criteria.required_conditions, 1), v_total);
+    select count(*) into v_met
+    from jsonb_array_elements_text(v_requirements) as requirement
+    where new.value ? requirement;
+
+    if v_met >= v_required then
+      new.status := 'complete';
+    elsif new.status in ('complete', 'completed') then
+      new.status := 'none';
+    end if;
+    return new;
+  end if;
+
+  if jsonb_typeof(new.value) <> 'number' then
+    return new;
+  end if;
+
+  select * into v_criteria
+  from commitment_success_criteria
+  where commitment_id = v_version_id
+    and criteria_type = 'threshold';
+
+  if not found or v_criteria.value is null then
+    return new;
+  end if;
+
+  v_value := (new.value #>> '{}')::numeric;
+  v_met_threshold := case v_criteria.operator
+    when 'greater_than' then v_value >= v_criteria.value
+    when 'less_than' then v_value <= v_criteria.value
+    when 'equal_to' then v_value = v_criteria.value
+    when 'between' then v_value between v_criteria.value and v_criteria.value_max
+    else null
+  end;
+
+  if v_met_threshold is not null then
+    new.status := case when v_met_threshold then 'complete' else 'failed' end;
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
@@ -0,0 +1,122 @@
+-- Planned skips
+-- Days can be marked skipped ahead of time - for one commitment, or for all of them over a
+-- vacation. A planned skip is an ordinary 'skipped' record with is_future_prefill set (the column
+-- from 002, unused until now), so streaks already treat it as neutral. It stands in for the day
+-- only until real data arrives: logging the day turns the record into a real one, and a planned
+-- skip never replaces a day that was already logged.
+
+-- ==============================================
+-- 1. TABLE CHANGES
+-- ==============================================
+
+update commitment_records set is_future_prefill = false where is_future_prefill is null;
+
+alter table commitment_records alter column is_future_prefill set not null;
+
+comment on column commitment_records.is_future_prefill is 'Skip planned ahead of time - replaced by the first real write to the day';
+
+-- ==============================================
+-- 2. REAL DATA REPLACES A PLANNED SKIP
+-- ==============================================
+
+-- For writers that leave is_future_prefill out (it would otherwise keep the old value): any other
+-- status, a value or entries make the day real
+create or replace function clear_future_prefill_on_real_data()
+returns trigger as $$
+begin
+  if new.is_future_prefill and (
+    new.status is distinct from 'skipped'
+    or new.value is not null
+    or coalesce(jsonb_array_length(new.entries), 0) > 0
+  ) then
+    new.is_future_prefill := false;
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger trigger_clear_future_prefill_on_real_data
+  before insert or update on commitment_records
+  for each row execute function clear_future_prefill_on_real_data();
+
+-- ==============================================
+-- 3. BULK MUTATIONS
+-- ==============================================
+
+-- As in 024, plus is_future_prefill. Mutations without it are real data, so they clear it; a
+-- planned skip only lands on a day that is empty or already planned.
+create or replace function apply_record_mutations(p_mutations jsonb)
+returns table (
+  mutation_index integer,
+  success boolean,
+  row_data jsonb,
+  error_message text
+) as $$
+declare
+  v_mutation jsonb;
+  v_index integer := 0;
+  v_record commitment_records;
+begin
+  for v_mutation in select value from jsonb_array_elements(p_mutations) loop
+    mutation_index := v_index;
+    v_index := v_index + 1;
+    row_data := null;
+    error_message := null;
+
+    begin
+      if v_mutation->>'op' = 'delete' then
+        delete from commitment_records
+        where commitment_id = (v_mutation->>'commitment_id')::uuid
+          and completed_at = (v_mutation->>'completed_at')::date;
+      elsif v_mutation->>'op' = 'upsert' then
+        v_record := null;
+
+        insert into commitment_records (commitment_id, completed_at, user_id, status, value, notes, entries, is_future_prefill)
+        values (
+          (v_mutation->>'commitment_id')::uuid,
+          (v_mutation->>'completed_at')::date,
+          coalesce((v_mutation->>'user_id')::uuid, auth.uid()),
+          v_mutation->>'status',
+          nullif(v_mutation->'value', 'null'::jsonb),
+          v_mutation->>'notes',
+          nullif(v_mutation->'entries', 'null'::jsonb),
+          coalesce((v_mutation->>'is_future_prefill')::boolean, false)
+        )
+        on conflict (commitment_id, completed_at) do update
+          set user_id = excluded.user_id,
+              status = excluded.status,
+              value = excluded.value,
+              notes = excluded.notes,
+              entries = case
+                when v_mutation ? 'entries' then excluded.entries
+                else commitment_records.entries
+              end,
+              is_future_prefill = excluded.is_future_prefill
+          where not excluded.is_future_prefill or commitment_records.is_future_prefill
+        returning * into v_record;
+
+        -- A planned skip that met a logged day leaves the day as it was
+        if v_record.id is null then
+          select * into v_record
+          from commitment_records
+          where commitment_id = (v_mutation->>'commitment_id')::uuid
+            and completed_at = (v_mutation->>'completed_at')::date;
+        end if;
+
+        row_data := to_jsonb(v_record);
+      else
+        raise exception 'Unknown record mutation op: %', v_mutation->>'op';
+      end if;
+
+      success := true;
+    exception when others then
+      success := false;
+      error_message := sqlerrm;
+    end;
+
+    return next;
+  end loop;
+end;
+$$ language plpgsql security invoker;
+
+comment on function apply_record_mutations(jsonb) is 'Batch of {op: upsert|delete, commitment_id, completed_at, ...} record mutations; runs with the caller''s RLS and returns one result per mutation, in order';